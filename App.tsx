@@ -1,11 +1,22 @@
 
-import React, { useState } from 'react';
-import { Zap, Layers, LogIn, Activity, FastForward, Upload, FileJson } from 'lucide-react';
-import { AppState, AppStep, DEFAULT_STATE, AuthUser, SavedProject } from './types';
-import { STYLE_PRESETS, CREDITS_PER_PACK } from './constants';
+import React, { useEffect, useRef, useState } from 'react';
+import { Zap, Layers, LogIn, Activity, FastForward, Upload, FileJson, RotateCcw } from 'lucide-react';
+import { AppState, AppStep, DEFAULT_STATE, AuthUser, SavedProject, GenerationJob, SubjectCategory } from './types';
+import { STYLE_PRESETS, CREDITS_PER_PACK, SHEET_REROLL_BUDGET } from './constants';
 import { Step1Assets, Step2Director } from './components/Steps';
 import { Step4Preview } from './components/Step4Preview';
 import { generateDanceFrames, fileToGenericBase64 } from './services/gemini';
+import { createSheetProvider } from './services/sheetProvider';
+import { preferredAlphaFormat } from './services/frameMatting';
+import { classifySubject } from './services/subjectClassifier';
+import { blendStylePrompts } from './services/styleMorph';
+import { createGenerationJob, prepareJobForResume } from './services/generationJob';
+import { saveGenerationJob, deleteGenerationJob, loadResumableJob } from './services/jobStore';
+import { ChoreographyTimeline } from './services/KineticEngine';
+import { KineticGraphSpec } from './services/kineticGraph';
+import { PerformanceBinding } from './services/performanceInput';
+import { OnsetBindings } from './services/onsetClassifier';
+import { AudioAnalysisSettings, sanitizeAudioAnalysis } from './services/audioAnalysis';
 import { AuthModal, PaymentModal } from './components/Modals';
 import { GlobalBackground } from './components/GlobalBackground';
 
@@ -17,6 +28,8 @@ const triggerImpulse = (type: 'click' | 'hover' | 'type', intensity: number = 1.
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(DEFAULT_STATE);
   const [importRef] = useState<React.RefObject<HTMLInputElement>>(React.createRef());
+  const [resumableJob, setResumableJob] = useState<GenerationJob | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const handleImageUpload = async (file: File) => {
     try {
@@ -25,8 +38,14 @@ const App: React.FC = () => {
           ...prev,
           imageFile: file,
           imagePreviewUrl: base64,
-          generatedFrames: [] 
+          generatedFrames: [],
+          subjectClassification: null
         }));
+
+        // Classify in the background; the Director step shows the result
+        classifySubject(base64, createSheetProvider(appState.sheetProvider)).then(classification => {
+            setAppState(prev => prev.imagePreviewUrl === base64 ? { ...prev, subjectClassification: classification } : prev);
+        });
     } catch (e: any) {
         console.error("Image upload processing failed:", e);
         alert(`Failed to load image: ${e.message || "Unknown error"}`);
@@ -102,28 +121,17 @@ const App: React.FC = () => {
       setTimeout(() => handleGenerate(true, false), 100);
   };
 
-  const handleGenerate = async (forceTurbo: boolean = false, forceSuper: boolean = false) => {
-    if (!appState.imagePreviewUrl) return;
-    
-    setAppState(prev => ({ ...prev, isGenerating: true, step: AppStep.PREVIEW, generatedFrames: [], generationError: null }));
+  const runJob = async (job: GenerationJob) => {
+    const controller = new AbortController();
+    abortRef.current?.abort();
+    abortRef.current = controller;
 
-    const style = STYLE_PRESETS.find(s => s.id === appState.selectedStyleId);
-    const imageBase64 = appState.imagePreviewUrl;
-    
-    let effectiveMotionPrompt = appState.motionPrompt;
-    if (appState.motionPreset !== 'custom' && appState.motionPreset !== 'auto') {
-        if (appState.motionPreset === 'bounce') effectiveMotionPrompt = "Bouncy, energetic, rhythmic jumping";
-        if (appState.motionPreset === 'flow') effectiveMotionPrompt = "Smooth, fluid, liquid motion, floating";
-        if (appState.motionPreset === 'glitch') effectiveMotionPrompt = "Twitchy, glitchy, rapid robotic movements";
-    }
+    setAppState(prev => ({ ...prev, isGenerating: true, step: AppStep.PREVIEW, generatedFrames: [], generationError: null, generationJob: job }));
+    await saveGenerationJob(job);
 
     try {
         const { frames, category } = await generateDanceFrames(
-            imageBase64, 
-            style?.promptModifier || 'artistic style',
-            effectiveMotionPrompt,
-            forceTurbo || appState.useTurbo,
-            forceSuper || appState.superMode,
+            job,
             (partialFrames) => {
                 // LIVE STREAMING UPDATE
                 setAppState(prev => ({
@@ -131,6 +139,16 @@ const App: React.FC = () => {
                     generatedFrames: partialFrames,
                     // Auto-detect category from first batch logic if needed, or wait for final
                 }));
+            },
+            createSheetProvider(job.request.sheetProvider),
+            {
+                signal: controller.signal,
+                matting: job.request.matting === 'off' ? null : { mode: job.request.matting, format: preferredAlphaFormat() },
+                rerollBudget: SHEET_REROLL_BUDGET,
+                onJobUpdate: (updated) => {
+                    setAppState(prev => ({ ...prev, generationJob: updated }));
+                    saveGenerationJob(updated);
+                }
             }
         );
 
@@ -141,6 +159,12 @@ const App: React.FC = () => {
             isGenerating: false
         }));
     } catch (e: any) {
+        if (controller.signal.aborted) {
+            // User cancelled before any frames existed: back to the director
+            setAppState(prev => ({ ...prev, isGenerating: false, step: AppStep.DIRECTOR }));
+            return;
+        }
+
         console.error("Generation Failed:", e);
         const msg = e.message || "Unknown error";
         let userMessage = msg;
@@ -164,8 +188,99 @@ const App: React.FC = () => {
             isGenerating: false,
             generationError: userMessage
         }));
+    } finally {
+        // Only interrupted (reloaded) runs are kept for resuming
+        if (abortRef.current === controller) abortRef.current = null;
+        await deleteGenerationJob(job.id);
     }
   };
+
+  const handleGenerate = async (forceTurbo: boolean = false, forceSuper: boolean = false) => {
+    if (!appState.imagePreviewUrl) return;
+
+    const style = STYLE_PRESETS.find(s => s.id === appState.selectedStyleId);
+    const secondaryStyle = STYLE_PRESETS.find(s => s.id === appState.secondaryStyleId);
+    const dualRig = appState.styleMorphMode === 'dual' && !!secondaryStyle && secondaryStyle.id !== style?.id;
+    
+    let effectiveMotionPrompt = appState.motionPrompt;
+    if (appState.motionPreset !== 'custom' && appState.motionPreset !== 'auto') {
+        if (appState.motionPreset === 'bounce') effectiveMotionPrompt = "Bouncy, energetic, rhythmic jumping";
+        if (appState.motionPreset === 'flow') effectiveMotionPrompt = "Smooth, fluid, liquid motion, floating";
+        if (appState.motionPreset === 'glitch') effectiveMotionPrompt = "Twitchy, glitchy, rapid robotic movements";
+    }
+
+    // Manual override wins; otherwise use (or wait for) the upload classification
+    let category: SubjectCategory = 'CHARACTER';
+    if (appState.subjectOverride !== 'auto') {
+        category = appState.subjectOverride;
+    } else {
+        const classification = appState.subjectClassification
+            || await classifySubject(appState.imagePreviewUrl, createSheetProvider(appState.sheetProvider));
+        category = classification.category;
+    }
+
+    await runJob(createGenerationJob({
+        imageBase64: appState.imagePreviewUrl,
+        // Dual mode keeps the primary rig pure and draws the secondary style as its own sheet
+        stylePrompt: blendStylePrompts(style, dualRig ? undefined : secondaryStyle, appState.morphIntensity),
+        motionPrompt: effectiveMotionPrompt,
+        useTurbo: forceTurbo || appState.useTurbo,
+        superMode: forceSuper || appState.superMode,
+        sheetProvider: appState.sheetProvider,
+        matting: appState.matting,
+        styleId: appState.selectedStyleId,
+        secondaryStylePrompt: dualRig ? secondaryStyle.promptModifier : undefined
+    }, category));
+  };
+
+  const handleCancelGeneration = () => {
+      abortRef.current?.abort();
+  };
+
+  const handleTimelineChange = (choreography: ChoreographyTimeline | null) => {
+      setAppState(prev => ({ ...prev, choreography }));
+  };
+
+  const handleKineticGraphChange = (kineticGraph: KineticGraphSpec | null) => {
+      setAppState(prev => ({ ...prev, kineticGraph }));
+  };
+
+  const handlePerformanceBindingsChange = (performanceBindings: PerformanceBinding[]) => {
+      setAppState(prev => ({ ...prev, performanceBindings }));
+  };
+
+  const handleOnsetBindingsChange = (onsetBindings: OnsetBindings) => {
+      setAppState(prev => ({ ...prev, onsetBindings }));
+  };
+
+  const handleAudioAnalysisChange = (audioAnalysis: AudioAnalysisSettings) => {
+      setAppState(prev => ({ ...prev, audioAnalysis }));
+  };
+
+  // --- RESUME INTERRUPTED RUNS ---
+  useEffect(() => {
+      loadResumableJob().then(job => { if (job) setResumableJob(job); });
+  }, []);
+
+  const handleResumeJob = () => {
+      if (!resumableJob) return;
+      const job = prepareJobForResume(resumableJob);
+      setResumableJob(null);
+      setAppState(prev => ({
+          ...prev,
+          imagePreviewUrl: job.request.imageBase64,
+          selectedStyleId: job.request.styleId,
+          sheetProvider: job.request.sheetProvider,
+          matting: job.request.matting
+      }));
+      runJob(job);
+  };
+
+  const handleDiscardJob = () => {
+      if (!resumableJob) return;
+      deleteGenerationJob(resumableJob.id);
+      setResumableJob(null);
+  };
   
   // --- PROJECT SAVING / LOADING ---
   const saveProject = () => {
@@ -180,7 +295,13 @@ const App: React.FC = () => {
           frames: appState.generatedFrames,
           styleId: appState.selectedStyleId,
           subjectCategory: appState.subjectCategory,
-          hologramParams: style?.hologramParams // Save visualizer state
+          hologramParams: style?.hologramParams, // Save visualizer state
+          performanceSeed: appState.performanceSeed,
+          choreography: appState.choreography || undefined,
+          kineticGraph: appState.kineticGraph || undefined,
+          performanceBindings: appState.performanceBindings,
+          onsetBindings: appState.onsetBindings,
+          audioAnalysis: appState.audioAnalysis
       };
       
       const blob = new Blob([JSON.stringify(project)], { type: 'application/json' });
@@ -210,6 +331,12 @@ const App: React.FC = () => {
                   generatedFrames: project.frames,
                   selectedStyleId: project.styleId,
                   subjectCategory: project.subjectCategory || 'CHARACTER',
+                  performanceSeed: project.performanceSeed ?? prev.performanceSeed,
+                  choreography: project.choreography || null,
+                  kineticGraph: project.kineticGraph || null,
+                  performanceBindings: project.performanceBindings ?? prev.performanceBindings,
+                  onsetBindings: project.onsetBindings ?? prev.onsetBindings,
+                  audioAnalysis: project.audioAnalysis ? sanitizeAudioAnalysis(project.audioAnalysis) : prev.audioAnalysis,
                   imagePreviewUrl: project.frames[0].url, // Set base image
                   step: AppStep.PREVIEW // Jump straight to preview
               }));
@@ -324,6 +451,22 @@ const App: React.FC = () => {
 
         {/* MAIN CONTENT AREA */}
         <main className="flex-1 p-6 overflow-y-auto scrollbar-hide relative">
+
+            {/* RESUME BANNER (interrupted generation found in IndexedDB) */}
+            {resumableJob && !appState.isGenerating && (
+                <div className="max-w-3xl mx-auto mb-6 glass-panel rounded-2xl px-5 py-3 flex items-center justify-between gap-4 border border-brand-500/30 animate-fade-in">
+                    <div className="flex items-center gap-3 text-sm">
+                        <RotateCcw size={16} className="text-brand-300" />
+                        <span className="text-gray-200">
+                            Unfinished generation found ({resumableJob.sheets.filter(s => s.status === 'done').length}/{resumableJob.sheets.length} sheets done)
+                        </span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <button onClick={handleDiscardJob} className="px-3 py-1.5 rounded-full text-xs font-bold text-gray-400 hover:text-white border border-white/10">DISCARD</button>
+                        <button onClick={handleResumeJob} className="glass-button px-4 py-1.5 rounded-full text-xs font-bold text-white">RESUME</button>
+                    </div>
+                </div>
+            )}
             
             {appState.step === AppStep.ASSETS && (
                 <div className="animate-fade-in">
@@ -353,6 +496,12 @@ const App: React.FC = () => {
                         onSpendCredit={handleSpendCredit}
                         onUploadAudio={handleAudioUpload}
                         onSaveProject={saveProject}
+                        onCancelGeneration={handleCancelGeneration}
+                        onTimelineChange={handleTimelineChange}
+                        onKineticGraphChange={handleKineticGraphChange}
+                        onPerformanceBindingsChange={handlePerformanceBindingsChange}
+                        onOnsetBindingsChange={handleOnsetBindingsChange}
+                        onAudioAnalysisChange={handleAudioAnalysisChange}
                     />
                 </div>
             )}
@@ -0,0 +1,207 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  AudioAnalysisSettings,
+  BAND_IDS,
+  BandId,
+  FFT_SIZES,
+  FftSize,
+  MAX_BAND_GAIN,
+  MAX_BAND_HZ,
+  sanitizeAudioAnalysis
+} from '../services/audioAnalysis';
+import { AudioSpectrum } from '../hooks/useAudioPlayer';
+import { AudioLines, RotateCcw } from 'lucide-react';
+
+interface AudioBandEditorProps {
+  settings: AudioAnalysisSettings;
+  getSpectrum: () => AudioSpectrum;
+  onChange: (settings: AudioAnalysisSettings) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const WIDTH = 352;
+const HEIGHT = 96;
+const MIN_HZ = 20; // Left edge of the log axis
+const GRAB_PX = 6; // How close to an edge a drag has to start
+
+const BAND_COLORS: Record<BandId, string> = {
+  bass: '239, 68, 68',
+  mid: '234, 179, 8',
+  high: '6, 182, 212'
+};
+
+const xOf = (hz: number) => (Math.log(Math.max(MIN_HZ, hz) / MIN_HZ) / Math.log(MAX_BAND_HZ / MIN_HZ)) * WIDTH;
+const hzOf = (x: number) => Math.round(MIN_HZ * (MAX_BAND_HZ / MIN_HZ) ** Math.max(0, Math.min(1, x / WIDTH)));
+
+const formatHz = (hz: number) => (hz >= 1000 ? `${(hz / 1000).toFixed(hz >= 10000 ? 0 : 1)}k` : `${hz}`);
+
+/**
+ * EQ-style editor for the analysis bands (see audioAnalysis.ts). The live
+ * spectrum is drawn on a log axis under the three bands; drag a band's edge
+ * to move it, the sliders set gain, resolution and smoothing.
+ */
+export const AudioBandEditor: React.FC<AudioBandEditorProps> = ({ settings, getSpectrum, onChange, onReset, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ band: BandId; edge: 'lo' | 'hi' } | null>(null);
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  const update = (next: Partial<AudioAnalysisSettings>) => onChange(sanitizeAudioAnalysis({ ...settings, ...next }));
+  const updateBand = (band: BandId, changes: Partial<AudioAnalysisSettings['bands'][BandId]>) =>
+    update({ bands: { ...settings.bands, [band]: { ...settings.bands[band], ...changes } } });
+
+  // Live spectrum under the bands
+  useEffect(() => {
+    let frame = 0;
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+      const { bands } = settingsRef.current;
+      ctx.clearRect(0, 0, WIDTH, HEIGHT);
+
+      for (const id of BAND_IDS) {
+        const band = bands[id];
+        const x0 = xOf(band.lo);
+        const x1 = xOf(band.hi);
+        const top = HEIGHT - (band.gain / MAX_BAND_GAIN) * HEIGHT;
+        ctx.fillStyle = `rgba(${BAND_COLORS[id]}, 0.15)`;
+        ctx.fillRect(x0, top, x1 - x0, HEIGHT - top);
+        ctx.fillStyle = `rgba(${BAND_COLORS[id]}, 0.9)`;
+        ctx.fillRect(x0, 0, 1, HEIGHT);
+        ctx.fillRect(x1 - 1, 0, 1, HEIGHT);
+      }
+
+      const { bins, binHz } = getSpectrum();
+      if (bins.length > 1) {
+        ctx.beginPath();
+        ctx.strokeStyle = 'rgba(167, 139, 250, 0.9)';
+        ctx.lineWidth = 1;
+        for (let i = 1; i < bins.length; i++) {
+          const x = xOf(i * binHz);
+          const y = HEIGHT - bins[i] * HEIGHT;
+          if (i === 1) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
+        ctx.stroke();
+      }
+    };
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [getSpectrum]);
+
+  const canvasX = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return ((e.clientX - rect.left) / rect.width) * WIDTH;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const x = canvasX(e);
+    let nearest: { band: BandId; edge: 'lo' | 'hi'; distance: number } | null = null;
+    for (const band of BAND_IDS) {
+      for (const edge of ['lo', 'hi'] as const) {
+        const distance = Math.abs(xOf(settings.bands[band][edge]) - x);
+        if (distance <= GRAB_PX && (!nearest || distance < nearest.distance)) nearest = { band, edge, distance };
+      }
+    }
+    if (!nearest) return;
+    dragRef.current = { band: nearest.band, edge: nearest.edge };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (drag) updateBand(drag.band, { [drag.edge]: hzOf(canvasX(e)) });
+  };
+
+  return (
+    <div className="fixed top-20 left-4 w-96 flex flex-col bg-black/90 backdrop-blur-xl border border-brand-500/30 rounded-xl shadow-2xl z-50 overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 bg-brand-900/50 border-b border-white/10">
+        <div className="flex items-center gap-2">
+          <AudioLines size={16} className="text-brand-400" />
+          <span className="text-xs font-bold text-white tracking-widest">AUDIO BANDS</span>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white text-xs">✕</button>
+      </div>
+
+      {/* Spectrum */}
+      <div className="p-3 border-b border-white/5">
+        <canvas
+          ref={canvasRef}
+          width={WIDTH}
+          height={HEIGHT}
+          className="w-full rounded bg-black/50 cursor-ew-resize touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => { dragRef.current = null; }}
+        />
+        <div className="flex justify-between mt-1 text-[8px] font-mono text-gray-500">
+          {[MIN_HZ, 100, 1000, 10000, MAX_BAND_HZ].map(hz => <span key={hz}>{formatHz(hz)}</span>)}
+        </div>
+      </div>
+
+      {/* Bands */}
+      <div className="p-3 border-b border-white/5 space-y-2">
+        {BAND_IDS.map(id => {
+          const band = settings.bands[id];
+          return (
+            <div key={id} className="flex items-center gap-2">
+              <span className="w-10 text-[9px] font-bold uppercase" style={{ color: `rgb(${BAND_COLORS[id]})` }}>{id}</span>
+              <span className="w-20 text-[9px] font-mono text-gray-400">{formatHz(band.lo)}–{formatHz(band.hi)} Hz</span>
+              <input
+                type="range"
+                min={0}
+                max={MAX_BAND_GAIN}
+                step={0.05}
+                value={band.gain}
+                onChange={e => updateBand(id, { gain: Number(e.target.value) })}
+                className="flex-1 accent-brand-500"
+                title="Gain"
+              />
+              <span className="w-8 text-[9px] font-mono text-gray-400 text-right">×{band.gain.toFixed(2)}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Analyser */}
+      <div className="p-3 space-y-2">
+        <div className="flex items-center gap-2">
+          <span className="w-16 text-[9px] text-gray-500">FFT SIZE</span>
+          <select
+            value={settings.fftSize}
+            onChange={e => update({ fftSize: Number(e.target.value) as FftSize })}
+            className="bg-black/50 border border-white/10 rounded px-1 py-0.5 text-[9px] font-mono text-gray-300"
+          >
+            {FFT_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+          </select>
+          <button
+            onClick={() => update({ autoGain: !settings.autoGain })}
+            className={`ml-auto text-[9px] px-2 py-0.5 rounded border ${settings.autoGain ? 'border-brand-400 text-brand-300 bg-brand-900/40' : 'border-white/10 text-gray-500 hover:text-white'}`}
+            title="Scale each band against its recent peak"
+          >
+            {settings.autoGain ? '◉ AUTO GAIN' : '○ AUTO GAIN'}
+          </button>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="w-16 text-[9px] text-gray-500">SMOOTHING</span>
+          <input
+            type="range"
+            min={0}
+            max={0.99}
+            step={0.01}
+            value={settings.smoothing}
+            onChange={e => update({ smoothing: Number(e.target.value) })}
+            className="flex-1 accent-brand-500"
+          />
+          <span className="w-8 text-[9px] font-mono text-gray-400 text-right">{settings.smoothing.toFixed(2)}</span>
+        </div>
+        <button onClick={onReset} className="w-full flex items-center justify-center gap-1 text-[9px] py-1 rounded border bg-black/30 border-white/10 text-gray-400 hover:text-white" title="Back to the default bands">
+          <RotateCcw size={10} /> DEFAULTS
+        </button>
+      </div>
+    </div>
+  );
+};
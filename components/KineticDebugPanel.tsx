@@ -1,6 +1,16 @@
 import React, { useEffect, useRef } from 'react';
 import { KineticTelemetry } from '../services/KineticEngine';
-import { Activity, Radio, Zap, BarChart3, Clock, Layers, ChevronRight } from 'lucide-react';
+import { ONSET_TYPES, OnsetType } from '../services/onsetClassifier';
+import { Activity, Radio, Zap, BarChart3, Clock, Layers, ChevronRight, Shuffle } from 'lucide-react';
+
+const ONSET_FLASH_MS = 150; // An onset stays lit this long
+
+const ONSET_COLORS: Record<OnsetType, string> = {
+  kick: 'bg-red-500',
+  snare: 'bg-yellow-400',
+  hat: 'bg-cyan-400',
+  vocal: 'bg-pink-400'
+};
 
 interface DebugPanelProps {
   telemetry: KineticTelemetry | null;
@@ -10,7 +20,7 @@ interface DebugPanelProps {
 
 /**
  * Real-time debug visualization panel for the Kinetic Engine.
- * Shows audio levels, BPM detection, frame pool stats, and transition history.
+ * Shows audio levels, typed onsets, BPM detection, frame pool stats, transition odds and history.
  */
 export const KineticDebugPanel: React.FC<DebugPanelProps> = ({ telemetry, isVisible, onClose }) => {
   const waveformCanvasRef = useRef<HTMLCanvasElement>(null);
@@ -132,6 +142,18 @@ export const KineticDebugPanel: React.FC<DebugPanelProps> = ({ telemetry, isVisi
           <LevelBar label="HIGH" value={telemetry.highLevel} color="bg-cyan-500" />
           <LevelBar label="ENERGY" value={telemetry.energy} color="bg-brand-500" />
         </div>
+        <div className="grid grid-cols-4 gap-1 mt-2 text-center">
+          {ONSET_TYPES.map(type => {
+            const last = telemetry.onsets.filter(onset => onset.type === type).pop();
+            const lit = last !== undefined && telemetry.clockTime - last.time < ONSET_FLASH_MS;
+            const bound = telemetry.onsetBindings.stutter.includes(type) || telemetry.onsetBindings.camera.includes(type);
+            return (
+              <div key={type} className={`rounded py-0.5 text-[8px] font-mono uppercase ${lit ? `${ONSET_COLORS[type]} text-black` : 'bg-black/40 text-gray-500'} ${bound ? 'ring-1 ring-brand-400' : ''}`}>
+                {type}
+              </div>
+            );
+          })}
+        </div>
       </div>
 
       {/* BPM Detection */}
@@ -167,6 +189,12 @@ export const KineticDebugPanel: React.FC<DebugPanelProps> = ({ telemetry, isVisi
               />
             </div>
           </div>
+          <div className="flex justify-between mt-1 text-[9px] font-mono text-gray-500">
+            <span>BEAT {telemetry.structure.beatInBar + 1}/{telemetry.meter.beatsPerBar}</span>
+            <span>BAR {telemetry.structure.barInPhrase + 1}/{telemetry.meter.phraseBars}</span>
+            <span>PHRASE {telemetry.structure.phrase + 1}</span>
+            {telemetry.structure.section && <span className="text-brand-300 uppercase">{telemetry.structure.section}</span>}
+          </div>
         </div>
       </div>
 
@@ -188,6 +216,23 @@ export const KineticDebugPanel: React.FC<DebugPanelProps> = ({ telemetry, isVisi
         </div>
       </div>
 
+      {/* Transition Odds */}
+      <div className="p-3 border-b border-white/5">
+        <div className="flex items-center gap-2 mb-2">
+          <Shuffle size={12} className="text-brand-400" />
+          <span className="text-[10px] font-bold text-gray-400 tracking-wider">TRANSITION ODDS</span>
+          <span className="text-[9px] font-mono text-gray-500 ml-auto">VARIETY {telemetry.variety}%</span>
+        </div>
+        <div className="space-y-1">
+          {telemetry.transitionCandidates.map(candidate => (
+            <LevelBar key={candidate.node} label={candidate.node.replace('groove_', 'g_').toUpperCase()} value={candidate.probability} color="bg-green-500" />
+          ))}
+        </div>
+        <div className="mt-2 text-[8px] font-mono text-gray-500 truncate" title={telemetry.recentPoses.join(' › ')}>
+          RECENT {telemetry.recentNodes.slice(-4).join(' › ') || '-'}
+        </div>
+      </div>
+
       {/* Transition History */}
       <div className="p-3 max-h-32 overflow-y-auto">
         <div className="flex items-center gap-2 mb-2">
@@ -197,7 +242,7 @@ export const KineticDebugPanel: React.FC<DebugPanelProps> = ({ telemetry, isVisi
         <div className="space-y-1">
           {telemetry.transitionHistory.slice().reverse().map((entry, i) => {
             const [node, time] = entry.split('@');
-            const relTime = Date.now() - parseInt(time);
+            const relTime = telemetry.clockTime - parseInt(time);
             return (
               <div key={i} className="flex items-center gap-1 text-[9px]">
                 <ChevronRight size={8} className="text-brand-500" />
@@ -0,0 +1,231 @@
+import React from 'react';
+import { KineticNodeId } from '../services/KineticEngine';
+import {
+  PERFORMANCE_FX,
+  PerformanceAction,
+  PerformanceBinding,
+  PerformanceFx,
+  describeAction,
+  describeInput
+} from '../services/performanceInput';
+import { ONSET_TYPES, OnsetBindings, OnsetType } from '../services/onsetClassifier';
+import { MidiStatus } from '../hooks/usePerformanceInput';
+import { Keyboard, Plus, Radio, RotateCcw, Trash2 } from 'lucide-react';
+
+interface PerformanceControlsProps {
+  bindings: PerformanceBinding[];
+  onsetBindings: OnsetBindings;
+  nodes: KineticNodeId[]; // Nodes of the current graph
+  deckCount: number;
+  learning: number | null; // Binding waiting for its next input
+  midiStatus: MidiStatus;
+  midiDevices: string[];
+  onMidiEnabledChange: (enabled: boolean) => void;
+  onChange: (bindings: PerformanceBinding[]) => void;
+  onOnsetBindingsChange: (bindings: OnsetBindings) => void;
+  onLearn: (index: number | null) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+const ACTION_KINDS: PerformanceAction['kind'][] = ['node', 'stutter', 'glitch', 'lock', 'tap', 'fx', 'crossfade'];
+
+const MIDI_STATUS_LABELS: Record<MidiStatus, string> = {
+  off: 'MIDI OFF',
+  unsupported: 'NO WEB MIDI',
+  pending: 'MIDI…',
+  ready: 'MIDI READY',
+  denied: 'MIDI BLOCKED'
+};
+
+const ONSET_TARGETS: { key: keyof OnsetBindings; label: string; fallback: string }[] = [
+  { key: 'stutter', label: 'STUTTER', fallback: 'mid hits' },
+  { key: 'camera', label: 'CAMERA', fallback: 'bass on the beat' }
+];
+
+const selectClass = 'bg-black/50 border border-white/10 rounded px-1 py-0.5 text-[9px] font-mono text-gray-300';
+
+/**
+ * Editor for the keyboard / MIDI bindings. Each row is one input and the
+ * action it plays; LEARN takes the next key, note or CC as the row's input.
+ * MIDI stays off until enabled here. Below the bindings, the onset types
+ * that fire auto stutters and camera bounces.
+ */
+export const PerformanceControls: React.FC<PerformanceControlsProps> = ({
+  bindings,
+  onsetBindings,
+  nodes,
+  deckCount,
+  learning,
+  midiStatus,
+  midiDevices,
+  onMidiEnabledChange,
+  onChange,
+  onOnsetBindingsChange,
+  onLearn,
+  onReset,
+  onClose
+}) => {
+  const firstNode = nodes[0] ?? 'idle';
+
+  const actionOfKind = (kind: PerformanceAction['kind']): PerformanceAction => {
+    switch (kind) {
+      case 'node': return { kind, node: firstNode };
+      case 'lock': return { kind, node: nodes.includes('closeup') ? 'closeup' : firstNode };
+      case 'fx': return { kind, fx: 'hue' };
+      case 'crossfade': return { kind, from: 0, to: Math.min(1, deckCount - 1) };
+      default: return { kind } as PerformanceAction;
+    }
+  };
+
+  const updateAction = (index: number, action: PerformanceAction) => {
+    onChange(bindings.map((binding, i) => i === index ? { ...binding, action } : binding));
+  };
+
+  const removeBinding = (index: number) => {
+    if (learning === index) onLearn(null);
+    onChange(bindings.filter((_, i) => i !== index));
+  };
+
+  const addBinding = () => {
+    onChange([...bindings, { input: { device: 'key', code: 'KeyQ' }, action: actionOfKind('stutter') }]);
+    onLearn(bindings.length);
+  };
+
+  const toggleOnset = (key: keyof OnsetBindings, type: OnsetType) => {
+    const types = onsetBindings[key];
+    onOnsetBindingsChange({ ...onsetBindings, [key]: types.includes(type) ? types.filter(t => t !== type) : [...types, type] });
+  };
+
+  const decks = Array.from({ length: deckCount }, (_, i) => i);
+
+  return (
+    <div className="fixed top-20 left-4 w-96 max-h-[70vh] flex flex-col bg-black/90 backdrop-blur-xl border border-brand-500/30 rounded-xl shadow-2xl z-50 overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 bg-brand-900/50 border-b border-white/10">
+        <div className="flex items-center gap-2">
+          <Keyboard size={16} className="text-brand-400" />
+          <span className="text-xs font-bold text-white tracking-widest">PERFORMANCE CONTROLS</span>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white text-xs">✕</button>
+      </div>
+
+      {/* MIDI */}
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-white/5 text-[9px] font-mono">
+        <Radio size={10} className={midiStatus === 'ready' ? 'text-green-400' : 'text-gray-500'} />
+        <span className={midiStatus === 'ready' ? 'text-green-300' : 'text-gray-500'}>{MIDI_STATUS_LABELS[midiStatus]}</span>
+        <span className="text-gray-500 truncate ml-auto" title={midiDevices.join(', ')}>
+          {midiStatus === 'ready' && (midiDevices.length > 0 ? midiDevices.join(', ') : 'no devices')}
+        </span>
+        {midiStatus !== 'unsupported' && (
+          <button
+            onClick={() => onMidiEnabledChange(midiStatus === 'off')}
+            className="shrink-0 px-1.5 py-0.5 rounded border border-white/10 text-gray-400 hover:text-white"
+            title={midiStatus === 'off' ? 'Ask the browser for MIDI access' : 'Stop listening to MIDI'}
+          >
+            {midiStatus === 'off' ? 'ENABLE MIDI' : 'DISABLE'}
+          </button>
+        )}
+      </div>
+
+      {/* Bindings */}
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {bindings.map((binding, index) => {
+          const { action } = binding;
+          return (
+            <div key={index} className="flex items-center gap-1">
+              <button
+                onClick={() => onLearn(learning === index ? null : index)}
+                className={`w-20 text-[9px] font-mono px-1 py-0.5 rounded border truncate ${learning === index ? 'border-yellow-400 text-yellow-300 animate-pulse' : 'border-white/10 text-brand-300 hover:text-white'}`}
+                title="Click, then press a key or play a note / CC"
+              >
+                {learning === index ? 'LEARN…' : describeInput(binding.input)}
+              </button>
+              <select
+                value={action.kind}
+                onChange={e => updateAction(index, actionOfKind(e.target.value as PerformanceAction['kind']))}
+                className={selectClass}
+              >
+                {ACTION_KINDS.map(kind => <option key={kind} value={kind}>{kind}</option>)}
+              </select>
+              {(action.kind === 'node' || action.kind === 'lock') && (
+                <select
+                  value={action.node}
+                  onChange={e => updateAction(index, { ...action, node: e.target.value as KineticNodeId })}
+                  className={`${selectClass} flex-1`}
+                >
+                  {(nodes.includes(action.node) ? nodes : [action.node, ...nodes]).map(node => <option key={node} value={node}>{node}</option>)}
+                </select>
+              )}
+              {action.kind === 'fx' && (
+                <select
+                  value={action.fx}
+                  onChange={e => updateAction(index, { ...action, fx: e.target.value as PerformanceFx })}
+                  className={`${selectClass} flex-1`}
+                >
+                  {PERFORMANCE_FX.map(fx => <option key={fx} value={fx}>{fx}</option>)}
+                </select>
+              )}
+              {action.kind === 'crossfade' && (
+                <>
+                  <select
+                    value={action.from}
+                    onChange={e => updateAction(index, { ...action, from: Number(e.target.value) })}
+                    className={selectClass}
+                    title="Fades out"
+                  >
+                    {decks.map(id => <option key={id} value={id}>CH {id + 1}</option>)}
+                  </select>
+                  <span className="text-[9px] text-gray-500">→</span>
+                  <select
+                    value={action.to}
+                    onChange={e => updateAction(index, { ...action, to: Number(e.target.value) })}
+                    className={selectClass}
+                    title="Fades in"
+                  >
+                    {decks.map(id => <option key={id} value={id}>CH {id + 1}</option>)}
+                  </select>
+                </>
+              )}
+              {!['node', 'lock', 'fx', 'crossfade'].includes(action.kind) && (
+                <span className="flex-1 text-[9px] font-mono text-gray-500">{describeAction(action)}</span>
+              )}
+              <button onClick={() => removeBinding(index)} className="p-1 text-gray-500 hover:text-red-400" title="Remove">
+                <Trash2 size={10} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Onsets */}
+      <div className="px-3 py-2 border-t border-white/5 space-y-1">
+        {ONSET_TARGETS.map(({ key, label, fallback }) => (
+          <div key={key} className="flex items-center gap-1">
+            <span className="w-14 text-[9px] font-mono text-gray-400">{label}</span>
+            {ONSET_TYPES.map(type => (
+              <button
+                key={type}
+                onClick={() => toggleOnset(key, type)}
+                className={`text-[9px] font-mono px-1.5 py-0.5 rounded border ${onsetBindings[key].includes(type) ? 'border-brand-400 text-brand-300 bg-brand-900/40' : 'border-white/10 text-gray-500 hover:text-white'}`}
+              >
+                {type}
+              </button>
+            ))}
+            {onsetBindings[key].length === 0 && <span className="ml-auto text-[8px] text-gray-600">{fallback}</span>}
+          </div>
+        ))}
+      </div>
+
+      {/* Footer */}
+      <div className="flex gap-2 p-2 border-t border-white/5">
+        <button onClick={addBinding} className="flex-1 flex items-center justify-center gap-1 text-[9px] py-1 rounded border bg-black/30 border-white/10 text-gray-400 hover:text-white">
+          <Plus size={10} /> ADD
+        </button>
+        <button onClick={onReset} className="flex items-center justify-center gap-1 text-[9px] px-2 py-1 rounded border bg-black/30 border-white/10 text-gray-400 hover:text-white" title="Back to the default bindings">
+          <RotateCcw size={10} /> DEFAULTS
+        </button>
+      </div>
+    </div>
+  );
+};
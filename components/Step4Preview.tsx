@@ -1,13 +1,31 @@
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { Play, Pause, Video, Settings, Mic, MicOff, Maximize2, Minimize2, Upload, X, Loader2, Sliders, Package, Music, ChevronDown, ChevronUp, Activity, Download, FileVideo, Radio, Star, Camera, Volume2, VolumeX, Sparkles, CircleDot, Monitor, Smartphone, Square, Eye, Layers, Plus, Trash2, Zap, RotateCcw, ZapOff, Shuffle, Merge, Grid, Gauge } from 'lucide-react';
-import { AppState, EnergyLevel, MoveDirection, FrameType, DeckSlot, SavedProject, GeneratedFrame, SequenceMode, FXSettings } from '../types';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { Play, Pause, Video, Settings, Mic, MicOff, Maximize2, Minimize2, Upload, X, Loader2, Sliders, Package, Music, ChevronDown, ChevronUp, Activity, Download, FileVideo, Radio, Star, Camera, Volume2, VolumeX, Sparkles, CircleDot, Monitor, Smartphone, Square, Eye, Layers, Plus, Trash2, Zap, RotateCcw, ZapOff, Shuffle, Merge, Grid, Gauge, Users, AppWindow, AudioWaveform } from 'lucide-react';
+import { AppState, MoveDirection, FrameType, DeckSlot, DeckMixMode, SavedProject, GeneratedFrame, SequenceMode, FXSettings, SheetJobStatus, SubjectCategory } from '../types';
 import { QuantumVisualizer } from './Visualizer/HolographicVisualizer';
 import { generatePlayerHTML } from '../services/playerExport';
 import { STYLE_PRESETS } from '../constants';
 import { useAudioPlayer } from '../hooks/useAudioPlayer';
-import { KineticEngine, KineticState, KineticTelemetry, createDollyZoom, generateVirtualZoomVariants } from '../services/KineticEngine';
+import { ChoreographyTimeline, KineticEngine, KineticNodeId, KineticState, KineticTelemetry, createDollyZoom, generateVirtualZoomVariants } from '../services/KineticEngine';
 import { KineticDebugPanel } from './KineticDebugPanel';
+import { TimelineEditor } from './TimelineEditor';
+import { TransportBar } from './TransportBar';
+import { mergeLockedEvents } from '../services/choreographyTimeline';
+import { isMorphFrame, morphPoseFor, styleMixForEnergy } from '../services/styleMorph';
+import { recordingLimitMs } from '../services/playbackSettings';
+import { createMediaElementClock } from '../services/engineClock';
+import { hashString } from '../services/prng';
+import { GraphValidation, KineticGraphSpec, parseGraphSpec, serializeGraphSpec } from '../services/kineticGraph';
+import { DEFAULT_METER, MusicalMeter, PHRASE_LENGTHS } from '../services/musicalStructure';
+import { VIRTUAL_SUFFIX, deckFrames, usableFrames } from '../services/framePool';
+import { DEFAULT_PERFORMANCE_BINDINGS, PerformanceAction, PerformanceBinding, PerformanceEvent, actionsFor, createTapTempo } from '../services/performanceInput';
+import { usePerformanceInput } from '../hooks/usePerformanceInput';
+import { PerformanceControls } from './PerformanceControls';
+import { DEFAULT_ONSET_BINDINGS, OnsetBindings } from '../services/onsetClassifier';
+import { AudioAnalysisSettings, DEFAULT_AUDIO_ANALYSIS } from '../services/audioAnalysis';
+import { AudioBandEditor } from './AudioBandEditor';
+import { CameraTransform, createCameraDirector, visualizerRotation } from '../services/cameraDirector';
+import { CANON_DELAYS, DEFAULT_PERFORMER_PART, EngineSetup, PERFORMER_RELATIONSHIPS, Performer, PerformerPart, StageSpot, configureEngine, createPerformer, stagePositions } from '../services/performers';
 
 interface Step4Props {
   state: AppState;
@@ -15,28 +33,71 @@ interface Step4Props {
   onSpendCredit: (amount: number) => boolean;
   onUploadAudio: (file: File) => void;
   onSaveProject: () => void;
+  onCancelGeneration: () => void;
+  onTimelineChange: (timeline: ChoreographyTimeline | null) => void;
+  onKineticGraphChange: (graph: KineticGraphSpec | null) => void;
+  onPerformanceBindingsChange: (bindings: PerformanceBinding[]) => void;
+  onOnsetBindingsChange: (bindings: OnsetBindings) => void;
+  onAudioAnalysisChange: (settings: AudioAnalysisSettings) => void;
 }
 
 type AspectRatio = '9:16' | '1:1' | '16:9';
 type Resolution = '720p' | '1080p' | '4K';
 type InterpMode = 'CUT' | 'SLIDE' | 'MORPH' | 'SMOOTH' | 'ZOOM_IN';
 
-export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSpendCredit, onUploadAudio, onSaveProject }) => {
+// A mixer deck dancing next to the main actor, and the rig its engine was loaded with
+interface StagePerformer {
+  rig: SavedProject;
+  performer: Performer;
+}
+
+const SOLO_SPOT: StageSpot = { x: 0, scale: 1 };
+const DECK_MIX_MODES: DeckMixMode[] = ['sequencer', 'layer', 'performer'];
+
+const SHEET_STATUS_STYLES: Record<SheetJobStatus, string> = {
+  queued: 'border-white/10 text-gray-500',
+  running: 'border-brand-500 text-brand-300 animate-pulse',
+  done: 'border-green-500/50 text-green-400',
+  failed: 'border-red-500/50 text-red-400',
+  cancelled: 'border-yellow-500/50 text-yellow-400'
+};
+
+export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSpendCredit, onUploadAudio, onSaveProject, onCancelGeneration, onTimelineChange, onKineticGraphChange, onPerformanceBindingsChange, onOnsetBindingsChange, onAudioAnalysisChange }) => {
   const bgCanvasRef = useRef<HTMLCanvasElement>(null);
   const charCanvasRef = useRef<HTMLCanvasElement>(null); 
   const containerRef = useRef<HTMLDivElement>(null);
   const importInputRef = useRef<HTMLInputElement>(null);
+  const graphInputRef = useRef<HTMLInputElement>(null);
   
   // -- Audio System --
   const { 
       audioElement, 
       isPlaying, 
+      audioSource,
       isMicActive, 
       togglePlay, 
       toggleMic, 
+      toggleTabCapture,
+      toggleTestTone,
+      getCurrentTime,
+      duration: trackDuration,
+      seek,
+      loopRegion,
+      setLoopRegion,
+      playbackRate,
+      setPlaybackRate,
       getAnalysis,
-      audioDestNode 
-  } = useAudioPlayer(state.audioPreviewUrl);
+      getSpectrum,
+      audioDestNode,
+      trackAnalysis,
+      isAnalyzing
+  } = useAudioPlayer(state.audioPreviewUrl, analysis => stageEngines().forEach(engine => engine.loadTrackAnalysis(analysis)), state.audioAnalysis);
+
+  // The engines' clocks hold the song position while it is paused, but not once another source plays
+  const audioSourceRef = useRef(audioSource);
+  audioSourceRef.current = audioSource;
+  const isSongSource = useCallback(() => audioSourceRef.current === 'file' || audioSourceRef.current === null, []);
+  const onTrackGrid = !!trackAnalysis && isSongSource(); // Matches KineticEngine.followsTrackGrid with the song loaded
 
   const [isRecording, setIsRecording] = useState(false);
   const [showExportMenu, setShowExportMenu] = useState(false);
@@ -47,7 +108,7 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
       hue: { base: 0, reactive: 0 },
       aberration: { base: 0, reactive: 20 },
       scanlines: { base: 0, reactive: 0 },
-      stutter: { base: 20, reactive: 50 }, 
+      stutter: { base: state.stutter, reactive: 50 }, // Seeded from the Director
       chaos: { base: 0, reactive: 0 }       
   });
 
@@ -61,21 +122,23 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
 
   const hologramRef = useRef<QuantumVisualizer | null>(null);
   const kineticEngineRef = useRef<KineticEngine | null>(null);
+  const performersRef = useRef<Map<number, StagePerformer>>(new Map()); // By deck id
 
   const requestRef = useRef<number>(0);
   const lastFrameTimeRef = useRef<number>(0);
-  const lastBeatTimeRef = useRef<number>(0);
-  const lastStutterRef = useRef<number>(0);
+  const lastStutterRef = useRef<number>(-Infinity); // Engine's lastStutterTime already rendered
 
   // Kinetic Engine State
-  const [useKineticEngine, setUseKineticEngine] = useState(true);
   const [kineticState, setKineticState] = useState<KineticState | null>(null);
   const [detectedBPM, setDetectedBPM] = useState(120);
   const [showDebugPanel, setShowDebugPanel] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
+  const timeline = state.choreography;
   const [telemetry, setTelemetry] = useState<KineticTelemetry | null>(null);
   const [autoBPM, setAutoBPM] = useState(true);
+  const [meter, setMusicalMeter] = useState<MusicalMeter>(DEFAULT_METER);
   
-  const [brainState, setBrainState] = useState({ activePoseName: 'BASE', fps: 0, mode: 'GROOVE' });
+  const [brainState, setBrainState] = useState({ activePoseName: 'BASE', fps: 0, mode: 'GROOVE', shot: 'medium' });
   const [hoveredFrame, setHoveredFrame] = useState<GeneratedFrame | null>(null);
 
   // --- MULTI-DECK STATE ---
@@ -88,8 +151,6 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
 
   // --- KINETIC GRAPH STATE ---
   const sequenceModeRef = useRef<SequenceMode>('GROOVE');
-  const barCounterRef = useRef<number>(0);
-  const phraseCounterRef = useRef<number>(0); 
   
   const sourcePoseRef = useRef<string>('base'); 
   const targetPoseRef = useRef<string>('base'); 
@@ -103,10 +164,8 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
   const triggerReverseRef = useRef<boolean>(false);
   const triggerGlitchRef = useRef<boolean>(false);
 
-  const BASE_ZOOM = 1.15;
-  const camZoomRef = useRef<number>(BASE_ZOOM);
-  const camPanXRef = useRef<number>(0); 
-  const camPanYRef = useRef<number>(0); 
+  // Camera: shots and springs live in the director (see cameraDirector.ts)
+  const cameraDirectorRef = useRef(createCameraDirector());
   
   // Physics
   const charSquashRef = useRef<number>(1.0); 
@@ -115,14 +174,8 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
   const targetTiltRef = useRef<number>(0.0); 
   const charBounceYRef = useRef<number>(0.0); 
 
-  const masterRotXRef = useRef<number>(0); 
-  const masterVelXRef = useRef<number>(0); 
-  const masterRotYRef = useRef<number>(0); 
-  const masterVelYRef = useRef<number>(0); 
-  const masterRotZRef = useRef<number>(0); 
-  const masterVelZRef = useRef<number>(0); 
-  
   const rgbSplitRef = useRef<number>(0); 
+  const styleMixRef = useRef<number>(0); // Share of the secondary-style (morph) rig on screen
   
   const [frameCount, setFrameCount] = useState(0);
   const [imagesReady, setImagesReady] = useState(false);
@@ -131,17 +184,8 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
   // Lookup map: Key = "deckId_poseName"
   const frameLookupRef = useRef<Map<string, GeneratedFrame>>(new Map());
 
-  // HELPER: Process Rig into Buckets & Machine Categories
+  // HELPER: Load a rig's images and frame lookup. The engine pools the frames (see framePool.ts)
   const processRig = useCallback(async (frames: GeneratedFrame[], slotId: number) => {
-      const sorted: Record<EnergyLevel, GeneratedFrame[]> = { low: [], mid: [], high: [] };
-      const closeups: GeneratedFrame[] = [];
-      const hands: GeneratedFrame[] = [];
-      const feet: GeneratedFrame[] = [];
-      
-      const mandalas: GeneratedFrame[] = [];
-      const virtuals: GeneratedFrame[] = [];
-      const acrobatics: GeneratedFrame[] = [];
-
       const images: Record<string, HTMLImageElement> = {};
       const loadPromises: Promise<void>[] = [];
 
@@ -157,61 +201,21 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
           });
       };
 
-      for (const f of frames) {
-          const frameData = { ...f, deckId: slotId };
-          const lookupKey = `${slotId}_${f.pose}`;
-          
-          frameLookupRef.current.set(lookupKey, frameData);
-          loadPromises.push(preload(frameData.url, frameData.pose));
-
-          // 1. Sort by Type
-          if (f.type === 'closeup') {
-              closeups.push(frameData);
-              // Machine Frame: Virtual Zoom
-              const vPose = f.pose + '_vzoom';
-              const vLookupKey = `${slotId}_${vPose}`;
-              const vFrame = { 
-                  ...frameData, 
-                  pose: vPose, 
-                  isVirtual: true, 
-                  virtualZoom: 1.5,
-                  virtualOffsetY: 0.0 
-              };
-              frameLookupRef.current.set(vLookupKey, vFrame);
-              virtuals.push(vFrame); 
-              loadPromises.push(new Promise<void>(r => { images[vPose] = images[f.pose]; r(); }));
-          } 
-          else if (f.type === 'hands') {
-              hands.push(frameData);
-              if (f.pose.includes('mandala')) mandalas.push(frameData); 
-          }
-          else if (f.type === 'feet') feet.push(frameData);
-          else {
-              // Body Frames
-              if (sorted[f.energy]) sorted[f.energy].push(frameData);
-              
-              if (f.role === 'alt') acrobatics.push(frameData);
-          }
+      // Pooled frames (with their virtual zooms) plus the morph frames drawn over them
+      const drawable = [...deckFrames(frames, slotId), ...usableFrames(frames).filter(isMorphFrame).map(f => ({ ...f, deckId: slotId }))];
+      for (const frameData of drawable) {
+          frameLookupRef.current.set(`${slotId}_${frameData.pose}`, frameData);
+          if (!frameData.isVirtual) loadPromises.push(preload(frameData.url, frameData.pose));
       }
 
-      // Safety Fill
-      if (sorted.low.length === 0 && sorted.mid.length > 0) sorted.low = [...sorted.mid];
-      if (sorted.mid.length === 0 && sorted.low.length > 0) sorted.mid = [...sorted.low];
-
       await Promise.all(loadPromises);
 
-      setDecks(prev => prev.map(d => d.id === slotId ? { 
-          ...d, 
-          isActive: true, 
-          images, 
-          framesByEnergy: sorted, 
-          closeups, 
-          hands, 
-          feet,
-          mandalas,
-          virtuals,
-          acrobatics
-      } : d));
+      // Virtual zooms draw the close-up's own image
+      for (const frameData of drawable) {
+          if (frameData.isVirtual) images[frameData.pose] = images[frameData.pose.slice(0, -VIRTUAL_SUFFIX.length)];
+      }
+
+      setDecks(prev => prev.map(d => d.id === slotId ? { ...d, isActive: true, images } : d));
       
       setFrameCount(prev => prev + frames.length);
   }, []);
@@ -235,14 +239,26 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
 
           // Initialize Kinetic Engine
           if (!kineticEngineRef.current) {
-              kineticEngineRef.current = new KineticEngine();
+              kineticEngineRef.current = new KineticEngine(createMediaElementClock(audioElement, isSongSource), state.performanceSeed);
           }
-          kineticEngineRef.current.loadFramePool(state.generatedFrames);
-          kineticEngineRef.current.setBPM(detectedBPM);
+          setupEngine(kineticEngineRef.current, state.subjectCategory);
+          kineticEngineRef.current.loadTimeline(timeline);
 
           processRig(state.generatedFrames, 0).then(() => setImagesReady(true));
       }
-  }, [state.generatedFrames, processRig, detectedBPM]);
+  }, [state.generatedFrames, state.subjectCategory, processRig, detectedBPM, trackAnalysis]);
+
+  // Sequencer decks share the main actor's pool; re-pooled only when their rigs change
+  const pooledRigsRef = useRef<SavedProject[]>([]);
+  useEffect(() => {
+      const engine = kineticEngineRef.current;
+      if (!engine) return;
+      const sequencerDecks = decks.filter(d => d.isActive && d.rig && d.mixMode === 'sequencer');
+      const rigs = sequencerDecks.map(d => d.rig!);
+      if (rigs.length === pooledRigsRef.current.length && rigs.every((rig, i) => rig === pooledRigsRef.current[i])) return;
+      pooledRigsRef.current = rigs;
+      engine.loadDecks(sequencerDecks.map(d => ({ id: d.id, frames: d.rig!.frames })));
+  }, [decks, imagesReady]);
 
   // Visualizer Init
   useEffect(() => {
@@ -262,23 +278,6 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
     }
   }, []);
 
-  const triggerTransition = (newPose: string, deckId: number, mode: InterpMode, speedMult: number = 1.0) => {
-      if (newPose === targetPoseRef.current && deckId === currentDeckIdRef.current) return;
-      sourcePoseRef.current = targetPoseRef.current;
-      targetPoseRef.current = newPose;
-      currentDeckIdRef.current = deckId;
-      transitionProgressRef.current = 0.0;
-      transitionModeRef.current = mode;
-      
-      let speed = 20.0;
-      if (mode === 'CUT') speed = 1000.0; 
-      else if (mode === 'MORPH') speed = 5.0; 
-      else if (mode === 'ZOOM_IN') speed = 6.0; 
-      else if (mode === 'SLIDE') speed = 8.0; 
-      else if (mode === 'SMOOTH') speed = 1.5; 
-      transitionSpeedRef.current = speed * speedMult;
-  };
-
   // --- THE BRAIN LOOP ---
   const loop = useCallback((time: number) => {
     if (!lastFrameTimeRef.current) lastFrameTimeRef.current = time;
@@ -293,47 +292,21 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
 
     const { bass, mid, high, energy } = getAnalysis();
 
-    // SEQUENCER LOGIC: Gather all "Sequencer" decks
-    const seqDecks = decks.filter(d => d.isActive && d.rig && d.mixMode === 'sequencer');
-    const refDeck = seqDecks[0]; // Primary logic driver, but pools are shared
-
-    // --- PHYSICS SOLVER (Springs) ---
     const sensitivity = (state.reactivity || 80) / 100;
-    const stiffness = 140;
-    const damping = 8;
-
-    let targetRotX = bass * 35.0 * sensitivity;
-    let targetRotY = mid * 25.0 * Math.sin(time * 0.005) * sensitivity;
-
-    if (sequenceModeRef.current === 'FOOTWORK') {
-        targetRotX += 20; // Look down
-    }
-
-    masterVelXRef.current += ((targetRotX - masterRotXRef.current) * stiffness - (masterVelXRef.current * damping)) * deltaTime;
-    masterRotXRef.current += masterVelXRef.current * deltaTime;
-    masterVelYRef.current += ((targetRotY - masterRotYRef.current) * stiffness * 0.5 - (masterVelYRef.current * damping * 0.8)) * deltaTime;
-    masterRotYRef.current += masterVelYRef.current * deltaTime;
-
-    // Visualizer Render
-    if (hologramRef.current) {
-        hologramRef.current.updateAudio({ bass, mid, high, energy });
-        const rx = superCamActive ? masterRotXRef.current * 0.3 : 0;
-        const ry = superCamActive ? masterRotYRef.current * 0.3 : 0;
-        hologramRef.current.render(0, { x: rx, y: ry, z: 0 });
-    }
+    let engineState: KineticState | null = null;
+    const performerStates = new Map<number, KineticState>();
 
-    const now = Date.now();
-
-    // ========== KINETIC ENGINE MODE ==========
-    if (useKineticEngine && kineticEngineRef.current) {
-        // Feed audio into lookahead buffer
+    // ========== KINETIC ENGINE ==========
+    // Sequencing, pooling, stutter and chaos live in the engine; this loop only renders its state
+    if (kineticEngineRef.current) {
+        // Feed audio into lookahead buffer, and the spectrum into the onset classifier
         kineticEngineRef.current.feedAudio(bass, mid, high);
+        const spectrum = getSpectrum();
+        kineticEngineRef.current.feedSpectrum(spectrum.bins, spectrum.binHz);
 
-        // Handle manual triggers
+        // Handle manual triggers (auto stutter and chaos come from the engine's settings)
         if (triggerStutterRef.current) {
             kineticEngineRef.current.triggerStutter();
-            charSquashRef.current = 1.2;
-            rgbSplitRef.current = 0.5;
         }
         if (triggerGlitchRef.current) {
             kineticEngineRef.current.triggerGlitch();
@@ -341,13 +314,19 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
             charSkewRef.current = Math.sin(time * 0.05) * 0.5;
         }
         if (triggerReverseRef.current) {
-            kineticEngineRef.current.forceState('idle');
+            kineticEngineRef.current.forceState(kineticEngineRef.current.getStartNode());
         }
 
         // Update engine and get state
-        const engineState = kineticEngineRef.current.update(deltaTime);
+        engineState = kineticEngineRef.current.update(deltaTime);
         setKineticState(engineState);
 
+        if (engineState.lastStutterTime !== lastStutterRef.current) {
+            lastStutterRef.current = engineState.lastStutterTime;
+            charSquashRef.current = 1.2;
+            rgbSplitRef.current = 0.5;
+        }
+
         // Get telemetry for debug panel
         if (showDebugPanel) {
             setTelemetry(kineticEngineRef.current.getTelemetry());
@@ -361,17 +340,23 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
             }
         }
 
+        // Performer decks take their moves from the main actor
+        for (const deck of decks) {
+            const entry = performersRef.current.get(deck.id);
+            if (entry) performerStates.set(deck.id, entry.performer.follow(kineticEngineRef.current, deck.performer ?? DEFAULT_PERFORMER_PART, deltaTime));
+        }
+
         // Sync refs from engine state for rendering
         sequenceModeRef.current = engineState.sequenceMode;
-        barCounterRef.current = engineState.barCounter;
-        phraseCounterRef.current = engineState.phraseCounter;
 
-        // Update transition if engine changed frames
+        // Update transition if engine changed frames (pooled frames carry their deck)
         if (engineState.currentFrame) {
             const newPose = engineState.currentFrame.pose;
-            if (newPose !== targetPoseRef.current) {
+            const newDeckId = engineState.currentFrame.deckId ?? 0;
+            if (newPose !== targetPoseRef.current || newDeckId !== currentDeckIdRef.current) {
                 sourcePoseRef.current = targetPoseRef.current;
                 targetPoseRef.current = newPose;
+                currentDeckIdRef.current = newDeckId;
                 transitionProgressRef.current = engineState.transitionProgress;
                 transitionModeRef.current = engineState.transitionStyle;
 
@@ -386,139 +371,25 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
             }
         }
 
-        // Zoom for closeup/impact modes
-        const nodeConfig = kineticEngineRef.current.getCurrentNodeConfig();
-        if (nodeConfig.mechanicalFx === 'zoom') {
-            camZoomRef.current = 1.5;
-        }
-
-        // Beat-synced bounce on bass hits
-        if (engineState.beatPos < 0.1 && bass > 0.5) {
-            charSquashRef.current = 0.85;
-            charBounceYRef.current = -50 * bass * sensitivity;
-        }
-
-    } else {
-        // ========== LEGACY DFF MODE ==========
-
-        // --- STUTTER & GLITCH ENGINE ---
-        if (triggerGlitchRef.current) {
-            rgbSplitRef.current = 1.0;
-            charSkewRef.current = Math.sin(time * 0.05) * 0.5;
-            // Chaos: Random deck, random frame
-            if (Math.random() > 0.8 && seqDecks.length > 0) {
-                 const randomDeck = seqDecks[Math.floor(Math.random() * seqDecks.length)];
-                 if (randomDeck.framesByEnergy?.high) {
-                    const pool = randomDeck.framesByEnergy.high;
-                    const frame = pool[Math.floor(Math.random() * pool.length)];
-                    triggerTransition(frame.pose, randomDeck.id, 'CUT');
-                 }
-            }
-        }
-
-        const stutterThreshold = 1.0 - (fxSettings.stutter.base / 100);
-        const isStuttering = triggerStutterRef.current || (mid > 0.6 && Math.random() > stutterThreshold);
-
-        if (isStuttering && (now - lastStutterRef.current) > 80 && refDeck) {
-            lastStutterRef.current = now;
-            // Retrigger same frame (Stutter)
-            triggerTransition(targetPoseRef.current, currentDeckIdRef.current, 'CUT');
-            charSquashRef.current = 1.2;
-            rgbSplitRef.current = 0.5;
-
-            // Variation
-            if (Math.random() > 0.5) {
-                 // Try Mirror or Virtual
-                 if (targetPoseRef.current.includes('_mirror')) {
-                     triggerTransition(targetPoseRef.current.replace('_mirror',''), currentDeckIdRef.current, 'CUT');
-                 } else {
-                     triggerTransition(targetPoseRef.current + '_mirror', currentDeckIdRef.current, 'CUT');
-                 }
+        // Beat-synced bounce on bass hits (live or from the planned timeline)
+        for (const impulse of engineState.cameraImpulses) {
+            if (impulse.type === 'bounce') {
+                charSquashRef.current = 0.85;
+                charBounceYRef.current = -50 * impulse.amount * sensitivity;
             }
         }
-        else if ((now - lastBeatTimeRef.current) > 300 && bass > 0.5 && seqDecks.length > 0) {
-            // --- INTELLIGENT SEQUENCER ---
-            lastBeatTimeRef.current = now;
-            barCounterRef.current = (barCounterRef.current + 1) % 16;
-            phraseCounterRef.current = (phraseCounterRef.current + 1) % 8;
-
-            const isDrop = bass > 0.8;
-            const isPeak = high > 0.7;
-            const isFill = phraseCounterRef.current === 7;
-
-            if (triggerReverseRef.current) {
-                 sequenceModeRef.current = 'GROOVE';
-            } else {
-                // Check global pool capabilities
-                const hasCloseups = seqDecks.some(d => d.closeups && d.closeups.length > 0);
-                const hasHands = seqDecks.some(d => d.hands && d.hands.length > 0);
-                const hasFeet = seqDecks.some(d => d.feet && d.feet.length > 0);
-
-                if (isPeak && hasCloseups) sequenceModeRef.current = 'EMOTE';
-                else if (isDrop && hasHands) sequenceModeRef.current = 'IMPACT';
-                else if (barCounterRef.current >= 12 && hasFeet) sequenceModeRef.current = 'FOOTWORK';
-                else if (isFill) sequenceModeRef.current = 'IMPACT';
-                else sequenceModeRef.current = 'GROOVE';
-            }
 
-            if (Math.random() * 100 < fxSettings.chaos.base) {
-                 sequenceModeRef.current = 'IMPACT';
-            }
+    }
 
-            // --- GLOBAL FRAME POOLING ---
-            // Helper to grab frames from ALL sequencer decks
-            const gatherFrames = (selector: (d: DeckSlot) => GeneratedFrame[] | undefined) => {
-                return seqDecks.flatMap(d => {
-                    const frames = selector(d) || [];
-                    return frames.map(f => ({...f, deckId: d.id})); // Ensure deckID is attached
-                });
-            };
-
-            let pool: GeneratedFrame[] = [];
-            let nextMode: InterpMode = 'CUT';
-
-            switch (sequenceModeRef.current) {
-                case 'EMOTE':
-                    if (isPeak) {
-                         pool = gatherFrames(d => d.virtuals);
-                         if (pool.length === 0) pool = gatherFrames(d => d.closeups);
-                         nextMode = 'CUT';
-                    } else {
-                         pool = gatherFrames(d => d.closeups);
-                         nextMode = 'MORPH';
-                    }
-                    camZoomRef.current = 1.5;
-                    break;
-                case 'FOOTWORK':
-                    pool = gatherFrames(d => d.feet);
-                    nextMode = 'CUT';
-                    break;
-                case 'IMPACT':
-                    if (isDrop) pool = gatherFrames(d => d.mandalas);
-                    if (pool.length === 0 && isFill) pool = gatherFrames(d => d.acrobatics);
-                    if (pool.length === 0) pool = gatherFrames(d => d.hands);
-                    if (pool.length === 0) pool = gatherFrames(d => d.framesByEnergy?.high);
-                    nextMode = 'CUT';
-                    break;
-                case 'GROOVE':
-                default:
-                    const dir = barCounterRef.current % 2 === 0 ? 'left' : 'right';
-                    pool = gatherFrames(d => d.framesByEnergy?.mid.filter(f => f.direction === dir));
-                    if (pool.length === 0) pool = gatherFrames(d => d.framesByEnergy?.mid);
-                    if (pool.length === 0) pool = gatherFrames(d => d.framesByEnergy?.low);
-
-                    nextMode = 'CUT';
-                    charSquashRef.current = 0.85;
-                    charBounceYRef.current = -50 * bass * sensitivity;
-                    break;
-            }
+    // --- CAMERA ---
+    // One transform for the character and the visualizer; CAM off keeps the framing but drops the motion
+    const fx = kineticEngineRef.current?.getCurrentNodeConfig().mechanicalFx ?? 'none';
+    const directed = cameraDirectorRef.current.update(engineState, fx, { bass, mid, reactivity: sensitivity }, deltaTime);
+    const camera: CameraTransform = superCamActive ? directed : { ...directed, rotX: 0, rotY: 0, rotZ: 0 };
 
-            if (pool.length > 0) {
-                const nextFrame = pool[Math.floor(Math.random() * pool.length)];
-                // Pass the specific Deck ID of the chosen frame
-                triggerTransition(nextFrame.pose, nextFrame.deckId || 0, nextMode);
-            }
-        }
+    if (hologramRef.current) {
+        hologramRef.current.updateAudio({ bass, mid, high, energy });
+        hologramRef.current.render(camera.dolly, visualizerRotation(camera));
     }
 
     // --- PHYSICS DECAY ---
@@ -526,12 +397,10 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
     charBounceYRef.current += (0 - charBounceYRef.current) * (10 * deltaTime); 
     charSkewRef.current *= 0.9;
     rgbSplitRef.current *= 0.9;
-    
-    const targetZoom = sequenceModeRef.current === 'EMOTE' ? 1.5 : BASE_ZOOM;
-    camZoomRef.current += (targetZoom - camZoomRef.current) * (2 * deltaTime);
-    
-    const targetPanY = sequenceModeRef.current === 'FOOTWORK' ? -150 : 0; 
-    camPanYRef.current += (targetPanY - camPanYRef.current) * (4 * deltaTime);
+
+    // Dual style morph: loud passages crossfade toward the secondary-style rig
+    const targetStyleMix = styleMixForEnergy(energy, state.morphIntensity);
+    styleMixRef.current += (targetStyleMix - styleMixRef.current) * (6 * deltaTime);
     
     // --- RENDERER ---
     const render = (ctx: CanvasRenderingContext2D, w: number, h: number) => {
@@ -548,8 +417,12 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
         // 1. Draw Main Actor (Sequencer)
         // Find the deck corresponding to currentDeckIdRef
         const mainDeck = decks.find(d => d.id === currentDeckIdRef.current);
+
+        // With performers on stage everyone gets a spot, the main actor the central one
+        const performerDecks = decks.filter(d => performerStates.has(d.id));
+        const spots = stagePositions(1 + performerDecks.length);
         
-        const drawFrame = (deck: DeckSlot, pose: string, opacity: number) => {
+        const drawFrame = (deck: DeckSlot, pose: string, opacity: number, blend: GlobalCompositeOperation = 'source-over', spot: StageSpot = SOLO_SPOT, flip: boolean = false) => {
              if (!deck || !deck.images) return;
              const img = deck.images[pose];
              if (!img) return;
@@ -564,13 +437,16 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
              if (dh > h) { dh = h; dw = dh * aspect; }
              
              ctx.save();
-             ctx.translate(cx + camPanXRef.current, cy + charBounceYRef.current + camPanYRef.current + offsetY);
-             const radY = (superCamActive ? masterRotYRef.current : 0) * Math.PI / 180;
-             const scaleX = Math.cos(radY); 
+             // Camera roll turns the whole stage around the frame centre
+             ctx.translate(cx, cy);
+             ctx.rotate(camera.rotZ * Math.PI / 180);
+             ctx.translate(camera.panX + spot.x * w, charBounceYRef.current + camera.panY + offsetY);
+             ctx.scale(flip ? -spot.scale : spot.scale, spot.scale);
+             const scaleX = Math.cos(camera.rotY * Math.PI / 180); 
              ctx.transform(1, 0, charSkewRef.current, 1, 0, 0);
              ctx.scale(Math.abs(scaleX), 1);
              ctx.scale(1/charSquashRef.current, charSquashRef.current);
-             ctx.scale(camZoomRef.current * extraScale, camZoomRef.current * extraScale);
+             ctx.scale(camera.zoom * extraScale, camera.zoom * extraScale);
              ctx.globalAlpha = opacity * deck.opacity;
              if(filter) ctx.filter = filter;
              
@@ -582,21 +458,46 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
                  ctx.drawImage(img, -dw/2 + (aber * 0.2), -dh/2, dw, dh);
                  ctx.globalCompositeOperation = 'source-over';
              } else {
+                 ctx.globalCompositeOperation = blend;
                  ctx.drawImage(img, -dw/2, -dh/2, dw, dh);
+                 ctx.globalCompositeOperation = 'source-over';
              }
              ctx.restore();
         };
 
+        // Base poses with a morph counterpart get the secondary-style frame layered on top
+        const drawStyled = (deck: DeckSlot, pose: string, opacity: number, spot: StageSpot = spots[0], flip: boolean = false) => {
+             drawFrame(deck, pose, opacity, 'source-over', spot, flip);
+             const morphPose = morphPoseFor(pose);
+             if (morphPose && styleMixRef.current > 0.01 && deck.images?.[morphPose]) {
+                 drawFrame(deck, morphPose, opacity * styleMixRef.current, 'source-over', spot, flip);
+             }
+        };
+
+        // Performers stand behind the main actor, each drawn from its own engine
+        performerDecks.forEach((deck, i) => {
+             const performerState = performerStates.get(deck.id)!;
+             if (!performerState.currentFrame) return;
+             const flip = deck.performer?.relationship === 'mirror';
+             const progress = performerState.transitionProgress;
+             if (performerState.transitionStyle === 'MORPH' && progress < 1.0 && performerState.sourceFrame) {
+                 drawStyled(deck, performerState.sourceFrame.pose, 1.0 - progress, spots[i + 1], flip);
+                 drawStyled(deck, performerState.currentFrame.pose, progress, spots[i + 1], flip);
+             } else {
+                 drawStyled(deck, performerState.currentFrame.pose, 1.0, spots[i + 1], flip);
+             }
+        });
+
         if (mainDeck && mainDeck.isActive) {
             const progress = transitionProgressRef.current;
             if (progress >= 1.0 || transitionModeRef.current === 'CUT') {
-                drawFrame(mainDeck, targetPoseRef.current, 1.0);
+                drawStyled(mainDeck, targetPoseRef.current, 1.0);
             } else {
                  if (transitionModeRef.current === 'MORPH') {
-                     drawFrame(mainDeck, sourcePoseRef.current, 1.0 - progress);
-                     drawFrame(mainDeck, targetPoseRef.current, progress);
+                     drawStyled(mainDeck, sourcePoseRef.current, 1.0 - progress);
+                     drawStyled(mainDeck, targetPoseRef.current, progress);
                  } else {
-                     drawFrame(mainDeck, targetPoseRef.current, 1.0);
+                     drawStyled(mainDeck, targetPoseRef.current, 1.0);
                  }
             }
         }
@@ -609,7 +510,9 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
              // Check if layer deck has the target pose, else fallback
              let layerPose = targetPoseRef.current;
              if (!layerDeck.images[layerPose]) layerPose = Object.keys(layerDeck.images)[0]; 
-             drawFrame(layerDeck, layerPose, 1.0);
+             // Cutouts stack normally; opaque frames screen so their backdrop doesn't hide the main actor
+             const isCutout = frameLookupRef.current.get(`${layerDeck.id}_${layerPose}`)?.hasAlpha;
+             drawFrame(layerDeck, layerPose, 1.0, isCutout ? 'source-over' : 'screen', spots[0]);
         });
         
         const scans = fxSettings.scanlines.base + (mid * 0.3);
@@ -630,18 +533,227 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
     }
     
     // Update brain state display
-    const displayMode = useKineticEngine && kineticState
+    const displayMode = kineticState
         ? `${kineticState.currentNode.toUpperCase()}${kineticState.isLocked ? ' [LOCKED]' : ''}`
         : sequenceModeRef.current;
-    setBrainState({ activePoseName: targetPoseRef.current, fps: Math.round(1/deltaTime), mode: displayMode });
+    setBrainState({ activePoseName: targetPoseRef.current, fps: Math.round(1/deltaTime), mode: displayMode, shot: camera.shot });
 
-  }, [imagesReady, superCamActive, isRecording, getAnalysis, decks, fxSettings, state.reactivity, useKineticEngine, kineticState, showDebugPanel, autoBPM, detectedBPM]); 
+  }, [imagesReady, superCamActive, isRecording, getAnalysis, getSpectrum, decks, fxSettings, state.reactivity, state.morphIntensity, kineticState, showDebugPanel, autoBPM, detectedBPM]); 
 
   useEffect(() => {
     if (imagesReady) requestRef.current = requestAnimationFrame(loop);
     return () => cancelAnimationFrame(requestRef.current);
   }, [loop, imagesReady]);
 
+  // Director settings can change while the preview stays mounted
+  useEffect(() => {
+      stageEngines().forEach(engine => engine.configure({ intensity: state.intensity, smoothness: state.smoothness, variety: state.variety }));
+  }, [state.intensity, state.smoothness, state.variety]);
+
+  // The FX rack's stutter and chaos drive the engine's own auto stutter and impact rolls
+  useEffect(() => {
+      stageEngines().forEach(engine => engine.configure({ stutter: fxSettings.stutter.base, chaos: fxSettings.chaos.base }));
+  }, [fxSettings.stutter.base, fxSettings.chaos.base]);
+
+  useEffect(() => {
+      stageEngines().forEach(engine => engine.setMeter(meter));
+  }, [meter]);
+
+  useEffect(() => {
+      stageEngines().forEach(engine => engine.setOnsetBindings(state.onsetBindings));
+  }, [state.onsetBindings]);
+
+  // The engines notice seeks by themselves; the speed scales the analysed tempo
+  useEffect(() => {
+      stageEngines().forEach(engine => engine.setPlaybackRate(playbackRate));
+  }, [playbackRate]);
+
+  useEffect(() => {
+      kineticEngineRef.current?.setSeed(state.performanceSeed);
+  }, [state.performanceSeed]);
+
+  // --- ENGINE SETUP ---
+  // The main actor and every performer count the same song: same tempo, grid, meter and settings
+  const stageEngines = (): KineticEngine[] => [
+      ...(kineticEngineRef.current ? [kineticEngineRef.current] : []),
+      ...[...performersRef.current.values()].map(({ performer }) => performer.engine)
+  ];
+
+  const engineSetup = (category: SubjectCategory): EngineSetup => ({
+      category,
+      graph: state.kineticGraph,
+      settings: { intensity: state.intensity, smoothness: state.smoothness, variety: state.variety, stutter: fxSettings.stutter.base, chaos: fxSettings.chaos.base },
+      meter,
+      onsetBindings: state.onsetBindings,
+      playbackRate,
+      autoBPM,
+      bpm: detectedBPM,
+      trackAnalysis
+  });
+
+  const setupEngine = (engine: KineticEngine, category: SubjectCategory) => reportGraph(configureEngine(engine, engineSetup(category)));
+
+  // --- PERFORMERS ---
+  // Every active `performer` deck with a loaded rig dances its own engine (see performers.ts)
+  const performerSeed = (deckId: number) => state.performanceSeed ^ hashString(`performer${deckId}`);
+
+  useEffect(() => {
+      const performers = performersRef.current;
+      for (const deck of decks) {
+          if (!deck.rig || !deck.images || !deck.isActive || deck.mixMode !== 'performer') {
+              performers.delete(deck.id);
+              continue;
+          }
+          if (performers.get(deck.id)?.rig === deck.rig) continue;
+          const engine = new KineticEngine(createMediaElementClock(audioElement, isSongSource), performerSeed(deck.id));
+          engine.loadDecks([{ id: deck.id, frames: deck.rig.frames }]);
+          setupEngine(engine, state.subjectCategory);
+          performers.set(deck.id, { rig: deck.rig, performer: createPerformer(engine) });
+      }
+  }, [decks]);
+
+  useEffect(() => {
+      performersRef.current.forEach(({ performer }, deckId) => performer.engine.setSeed(performerSeed(deckId)));
+  }, [state.performanceSeed]);
+
+  // --- PERFORMANCE INPUT ---
+  // Keyboard / MIDI bindings play the same triggers as the pads (see performanceInput.ts)
+  const [showControls, setShowControls] = useState(false);
+  const [showBands, setShowBands] = useState(false);
+  const [learning, setLearning] = useState<number | null>(null);
+  const tapTempoRef = useRef(createTapTempo());
+
+  const performAction = (action: PerformanceAction, value: number) => {
+      const engine = kineticEngineRef.current;
+      const pressed = value > 0;
+      switch (action.kind) {
+          case 'node':
+              if (pressed) engine?.forceState(action.node);
+              break;
+          case 'stutter':
+              triggerStutterRef.current = pressed;
+              break;
+          case 'glitch':
+              triggerGlitchRef.current = pressed;
+              break;
+          case 'lock':
+              engine?.hold(pressed ? action.node : null);
+              break;
+          case 'tap': {
+              // The track's beat grid would override the tapped tempo straight away
+              if (engine?.followsTrackGrid()) break;
+              const bpm = pressed ? tapTempoRef.current.tap(performance.now()) : null;
+              if (bpm === null) break;
+              setAutoBPM(false);
+              setDetectedBPM(Math.round(bpm));
+              stageEngines().forEach(e => {
+                  e.setAutoBPM(false);
+                  e.setBPM(Math.round(bpm));
+              });
+              break;
+          }
+          case 'fx': {
+              // Visual FX ride their audio-reactive amount, motion tricks their base
+              const key = action.fx === 'stutter' || action.fx === 'chaos' ? 'base' : 'reactive';
+              setFxSettings(p => ({ ...p, [action.fx]: { ...p[action.fx], [key]: Math.round(value * 100) } }));
+              break;
+          }
+          case 'crossfade':
+              setDecks(prev => prev.map(d =>
+                  d.id === action.from ? { ...d, opacity: 1 - value } :
+                  d.id === action.to ? { ...d, opacity: value } : d
+              ));
+              break;
+      }
+  };
+
+  const handlePerformanceEvent = (event: PerformanceEvent) => {
+      if (learning !== null) {
+          // Releases don't teach, so learning a key takes its press
+          if (event.value === 0) return;
+          onPerformanceBindingsChange(state.performanceBindings.map((binding, i) => i === learning ? { ...binding, input: event.input } : binding));
+          setLearning(null);
+          return;
+      }
+      actionsFor(state.performanceBindings, event.input).forEach(action => performAction(action, event.value));
+  };
+
+  const { midiStatus, midiDevices, setMidiEnabled } = usePerformanceInput(handlePerformanceEvent);
+
+  // --- KINETIC GRAPH ---
+  // A user-loaded graph (JSON, see kineticGraph.ts) replaces the subject category's graph
+  const reportGraph = (validation: GraphValidation | null) => {
+      if (!validation) return;
+      if (validation.errors.length > 0) console.error('[KineticGraph] Not loaded:', validation.errors);
+      if (validation.warnings.length > 0) console.warn('[KineticGraph]', validation.warnings);
+  };
+
+  useEffect(() => {
+      const engine = kineticEngineRef.current;
+      if (!engine) return;
+      engine.setSubjectCategory(state.subjectCategory);
+      if (state.kineticGraph) reportGraph(engine.loadGraph(state.kineticGraph));
+  }, [state.kineticGraph]);
+
+  const handleImportGraph = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (ev) => {
+          try {
+              onKineticGraphChange(parseGraphSpec(ev.target?.result as string));
+          } catch (err) { alert((err as Error).message); }
+      };
+      reader.readAsText(file);
+      e.target.value = '';
+  };
+
+  const handleExportGraph = () => {
+      if (!kineticEngineRef.current) return;
+      const spec = kineticEngineRef.current.getGraphSpec();
+      const blob = new Blob([serializeGraphSpec(spec)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a'); a.href = url; a.download = `jusdnce_graph_${spec.name.replace(/\W+/g, '_').toLowerCase()}.json`;
+      document.body.appendChild(a); a.click(); document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+  };
+
+  // --- RENDER-AHEAD TIMELINE ---
+  const timelineFrames = useMemo(() => state.generatedFrames.filter(f => !isMorphFrame(f)), [state.generatedFrames]);
+  const getPlaybackMs = useCallback(() => audioElement.currentTime * 1000, [audioElement]);
+
+  const planChoreography = () => {
+      if (!kineticEngineRef.current || !trackAnalysis) return;
+      onTimelineChange(kineticEngineRef.current.planTimeline(trackAnalysis));
+      setShowTimeline(true);
+  };
+
+  const clearChoreography = () => {
+      onTimelineChange(null);
+      setShowTimeline(false);
+  };
+
+  useEffect(() => {
+      kineticEngineRef.current?.loadTimeline(timeline);
+  }, [timeline]);
+
+  // A plan belongs to one song: a different track drops it
+  useEffect(() => {
+      if (timeline && trackAnalysis && Math.abs(timeline.durationMs - trackAnalysis.duration * 1000) > 1000) clearChoreography();
+  }, [trackAnalysis]);
+
+  // Rig, seed or settings changes re-plan it around the locked (user-edited) cuts
+  const replanReadyRef = useRef(false);
+  useEffect(() => {
+      if (!replanReadyRef.current) {
+          replanReadyRef.current = true;
+          return;
+      }
+      if (!timeline || !trackAnalysis || !kineticEngineRef.current) return;
+      const planned = kineticEngineRef.current.planTimeline(trackAnalysis);
+      onTimelineChange(mergeLockedEvents(planned, timeline, new Set(timelineFrames.map(f => f.pose))));
+  }, [timelineFrames, state.subjectCategory, state.kineticGraph, state.performanceSeed, state.intensity, state.smoothness, state.variety, meter]);
+
   // --- RECORDING & EXPORT ---
   const startRecording = () => {
       if (!recordCanvasRef.current || !audioDestNode) return;
@@ -674,7 +786,12 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
       recorder.start();
       setIsRecording(true);
       const startTime = Date.now();
-      const interval = setInterval(() => setRecordingTime(Date.now() - startTime), 100);
+      const limitMs = recordingLimitMs(state.duration, state.userTier);
+      const interval = setInterval(() => {
+          const elapsed = Date.now() - startTime;
+          setRecordingTime(elapsed);
+          if (elapsed >= limitMs) stopRecording(); // Duration reached: stop and download
+      }, 100);
       (mediaRecorderRef.current as any).timerInterval = interval;
   };
   
@@ -688,8 +805,9 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
 
   const handleExportPlayer = () => {
       if(!hologramRef.current) return;
+      // The player's engine pools the sequencer decks itself, as loadDecks does here
       const exportDecks = decks.map(d => ({ id: d.id, rig: d.rig, isActive: d.isActive, mixMode: d.mixMode }));
-      const html = generatePlayerHTML(exportDecks, hologramRef.current.params, state.subjectCategory);
+      const html = generatePlayerHTML(exportDecks, hologramRef.current.params, state.subjectCategory, recordingLimitMs(state.duration, state.userTier), state.performanceSeed, timeline, state.audioAnalysis, trackAnalysis);
       const blob = new Blob([html], {type: 'text/html'});
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a'); a.href = url; a.download = `jusdnce_player.html`;
@@ -700,13 +818,23 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
       setDecks(prev => prev.map(d => d.id === id ? { ...d, isActive: !d.isActive } : d));
   };
 
+  const cycle = <T,>(options: T[], current: T): T => options[(options.indexOf(current) + 1) % options.length];
+
+  // Deck 1 carries the main actor, so it can't join as a performer
   const toggleDeckMode = (id: number) => {
+      const modes = id === 0 ? DECK_MIX_MODES.filter(m => m !== 'performer') : DECK_MIX_MODES;
       setDecks(prev => prev.map(d => d.id === id ? { 
           ...d, 
-          mixMode: d.mixMode === 'sequencer' ? 'layer' : 'sequencer' 
+          mixMode: cycle(modes, d.mixMode) 
       } : d));
   };
 
+  const partOf = (deck: DeckSlot): PerformerPart => deck.performer ?? DEFAULT_PERFORMER_PART;
+
+  const updatePerformerPart = (id: number, change: Partial<PerformerPart>) => {
+      setDecks(prev => prev.map(d => d.id === id ? { ...d, performer: { ...partOf(d), ...change } } : d));
+  };
+
   const handleImportRig = (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (!file) return;
@@ -724,13 +852,13 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
 
               // Process the rig and set imagesReady when done
               processRig(project.frames, targetSlotId).then(() => {
-                  setImagesReady(true);
-                  // If this is the first rig loaded, initialize Kinetic Engine with these frames
+                  // If this is the first rig loaded, initialize Kinetic Engine (the deck pool follows imagesReady)
                   if (!kineticEngineRef.current) {
-                      kineticEngineRef.current = new KineticEngine();
+                      kineticEngineRef.current = new KineticEngine(createMediaElementClock(audioElement, isSongSource), state.performanceSeed);
                   }
-                  kineticEngineRef.current.loadFramePool(project.frames);
-                  kineticEngineRef.current.setBPM(detectedBPM);
+                  setupEngine(kineticEngineRef.current, project.subjectCategory || 'CHARACTER');
+                  kineticEngineRef.current.loadTimeline(timeline);
+                  setImagesReady(true);
               });
           } catch (err) { alert("Failed to load rig."); }
       };
@@ -744,6 +872,7 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
   };
   
   const getFrameIcon = (frame: GeneratedFrame) => {
+      if (frame.quality && !frame.quality.passed) return '⚠️';
       if (frame.pose.includes('mandala')) return '💠';
       if (frame.pose.includes('mirror')) return '🪞';
       if (frame.isVirtual) return '🔮';
@@ -808,6 +937,21 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
              <p className="text-gray-500 text-xs mt-4 max-w-xs text-center">
                  Creating sprite sheets with base poses, actions, and variations
              </p>
+             {state.generationJob && (
+                 <div className="flex flex-wrap justify-center gap-2 mt-6">
+                     {state.generationJob.sheets.map(sheet => (
+                         <span key={sheet.role} className={`px-3 py-1 rounded-full text-[10px] font-mono uppercase tracking-wider border ${SHEET_STATUS_STYLES[sheet.status]}`}>
+                             {sheet.role}: {sheet.status}
+                         </span>
+                     ))}
+                 </div>
+             )}
+             <button
+                 onClick={onCancelGeneration}
+                 className="mt-6 px-4 py-2 rounded-full text-xs font-bold text-gray-300 border border-white/10 hover:border-red-500/50 hover:text-white flex items-center gap-2"
+             >
+                 <X size={14} /> CANCEL
+             </button>
          </div>
       )}
 
@@ -904,11 +1048,11 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
                                      {/* MIX MODE TOGGLE */}
                                      <button
                                         onClick={() => toggleDeckMode(deck.id)}
-                                        title={deck.mixMode === 'sequencer' ? "Pooled (Sequencer)" : "Overlay (Layer)"}
+                                        title={deck.mixMode === 'sequencer' ? "Pooled (Sequencer)" : deck.mixMode === 'layer' ? "Overlay (Layer)" : "Performer (own dancer)"}
                                         disabled={!deck.rig}
-                                        className={`p-1 rounded ${deck.mixMode === 'sequencer' ? 'bg-blue-500/20 text-blue-300' : 'bg-purple-500/20 text-purple-300'}`}
+                                        className={`p-1 rounded ${deck.mixMode === 'sequencer' ? 'bg-blue-500/20 text-blue-300' : deck.mixMode === 'layer' ? 'bg-purple-500/20 text-purple-300' : 'bg-green-500/20 text-green-300'}`}
                                      >
-                                         {deck.mixMode === 'sequencer' ? <Shuffle size={10} /> : <Merge size={10} />}
+                                         {deck.mixMode === 'sequencer' ? <Shuffle size={10} /> : deck.mixMode === 'layer' ? <Merge size={10} /> : <Users size={10} />}
                                      </button>
 
                                      <button 
@@ -918,6 +1062,28 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
                                      />
                                  </div>
                              </div>
+
+                             {/* PERFORMER RELATIONSHIP (to the main actor) */}
+                             {deck.mixMode === 'performer' && (
+                                 <div className="flex gap-1">
+                                     <button
+                                        onClick={() => updatePerformerPart(deck.id, { relationship: cycle(PERFORMER_RELATIONSHIPS, partOf(deck).relationship) })}
+                                        title="Relationship to the main actor"
+                                        className="flex-1 text-[8px] font-mono uppercase px-1 py-0.5 rounded bg-green-500/20 text-green-300"
+                                     >
+                                         {partOf(deck).relationship}
+                                     </button>
+                                     {partOf(deck).relationship === 'canon' && (
+                                         <button
+                                            onClick={() => updatePerformerPart(deck.id, { delayBeats: cycle(CANON_DELAYS, partOf(deck).delayBeats) })}
+                                            title="Canon delay (beats)"
+                                            className="text-[8px] font-mono px-1 py-0.5 rounded bg-black/40 text-yellow-300"
+                                         >
+                                             +{partOf(deck).delayBeats}
+                                         </button>
+                                     )}
+                                 </div>
+                             )}
                          </div>
                      ))}
                  </div>
@@ -963,64 +1129,132 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
           <div className="flex justify-between items-start">
              <div className="bg-black/40 backdrop-blur-md border border-white/10 p-3 rounded-lg pointer-events-auto">
                  <div className="flex items-center gap-2 mb-1">
-                     <Activity size={14} className={useKineticEngine ? "text-green-400" : "text-brand-400"} />
-                     <span className="text-[10px] font-bold text-gray-300 tracking-widest">
-                         {useKineticEngine ? 'KINETIC CORE' : 'LEGACY DFF'}
-                     </span>
-                     <button
-                         onClick={() => setUseKineticEngine(!useKineticEngine)}
-                         className={`ml-2 w-8 h-4 rounded-full transition-all ${useKineticEngine ? 'bg-green-500' : 'bg-gray-600'}`}
-                     >
-                         <div className={`w-3 h-3 rounded-full bg-white transition-transform ${useKineticEngine ? 'translate-x-4' : 'translate-x-0.5'}`} />
-                     </button>
+                     <Activity size={14} className="text-green-400" />
+                     <span className="text-[10px] font-bold text-gray-300 tracking-widest">KINETIC CORE</span>
                  </div>
                  <div className="font-mono text-xs text-brand-300">
                      FPS: {brainState.fps}<br/>
                      MODE: {brainState.mode}<br/>
+                     SHOT: {brainState.shot.toUpperCase()}<br/>
                      DECK: {currentDeckIdRef.current + 1}
-                     {useKineticEngine && kineticState && (
-                         <><br/>BEAT: {(kineticState.beatPos * 100).toFixed(0)}%<br/>BAR: {kineticState.barCounter}/16</>
+                     {kineticState && (
+                         <><br/>BEAT: {(kineticState.beatPos * 100).toFixed(0)}%<br/>BAR: {kineticState.barCounter + 1}/{meter.phraseBars} · PHRASE {kineticState.phraseCounter + 1}</>
                      )}
                  </div>
-                 {useKineticEngine && (
-                     <div className="mt-2 space-y-2">
-                         <div className="flex items-center gap-2">
-                             <Gauge size={12} className="text-yellow-400" />
-                             <span className="text-[10px] text-gray-400">BPM:</span>
-                             <input
-                                 type="number"
-                                 min="60"
-                                 max="200"
-                                 value={detectedBPM}
-                                 disabled={autoBPM}
-                                 onChange={(e) => {
-                                     const bpm = parseInt(e.target.value) || 120;
-                                     setDetectedBPM(bpm);
-                                     kineticEngineRef.current?.setBPM(bpm);
-                                 }}
-                                 className={`w-12 bg-black/40 border border-white/20 rounded px-1 text-[10px] font-mono ${autoBPM ? 'text-green-300' : 'text-yellow-300'}`}
-                             />
+                 <div className="mt-2 space-y-2">
+                     <div className="flex items-center gap-2">
+                         <Gauge size={12} className="text-yellow-400" />
+                         <span className="text-[10px] text-gray-400">BPM:</span>
+                         <input
+                             type="number"
+                             min="60"
+                             max="200"
+                             value={detectedBPM}
+                             disabled={autoBPM || onTrackGrid}
+                             onChange={(e) => {
+                                 const bpm = parseInt(e.target.value) || 120;
+                                 setDetectedBPM(bpm);
+                                 stageEngines().forEach(engine => engine.setBPM(bpm));
+                             }}
+                             className={`w-12 bg-black/40 border border-white/20 rounded px-1 text-[10px] font-mono ${autoBPM ? 'text-green-300' : 'text-yellow-300'}`}
+                         />
+                         <button
+                             onClick={() => {
+                                 setAutoBPM(!autoBPM);
+                                 stageEngines().forEach(engine => engine.setAutoBPM(!autoBPM));
+                             }}
+                             className={`text-[8px] px-1.5 py-0.5 rounded ${autoBPM ? 'bg-green-500/30 text-green-300' : 'bg-gray-600/30 text-gray-400'}`}
+                         >
+                             AUTO
+                         </button>
+                         {(isAnalyzing || trackAnalysis) && (
+                             <span
+                                 className={`text-[8px] font-mono ${isAnalyzing ? 'text-gray-400 animate-pulse' : 'text-green-300'}`}
+                                 title={onTrackGrid ? "The song's beat grid sets the tempo: tap tempo and the BPM field are off while it plays" : undefined}
+                             >
+                                 {isAnalyzing ? 'ANALYZING' : `GRID ${Math.round(trackAnalysis!.confidence * 100)}%${onTrackGrid ? ' · TAP OFF' : ''}`}
+                             </span>
+                         )}
+                     </div>
+                     <div className="flex items-center gap-1">
+                         <span className="text-[10px] text-gray-400">METER:</span>
+                         <input
+                             type="number"
+                             min="2"
+                             max="12"
+                             value={meter.beatsPerBar}
+                             onChange={(e) => setMusicalMeter({ ...meter, beatsPerBar: parseInt(e.target.value) || 4 })}
+                             className="w-8 bg-black/40 border border-white/20 rounded px-1 text-[10px] font-mono text-yellow-300"
+                             title="Beats per bar"
+                         />
+                         <span className="text-[8px] text-gray-500 mr-1">/ BAR</span>
+                         {PHRASE_LENGTHS.map(bars => (
                              <button
-                                 onClick={() => {
-                                     setAutoBPM(!autoBPM);
-                                     kineticEngineRef.current?.setAutoBPM(!autoBPM);
-                                 }}
-                                 className={`text-[8px] px-1.5 py-0.5 rounded ${autoBPM ? 'bg-green-500/30 text-green-300' : 'bg-gray-600/30 text-gray-400'}`}
+                                 key={bars}
+                                 onClick={() => setMusicalMeter({ ...meter, phraseBars: bars })}
+                                 className={`text-[8px] px-1.5 py-0.5 rounded ${meter.phraseBars === bars ? 'bg-green-500/30 text-green-300' : 'bg-gray-600/30 text-gray-400'}`}
+                                 title={`${bars}-bar phrases`}
                              >
-                                 AUTO
+                                 {bars}
                              </button>
-                         </div>
+                         ))}
+                     </div>
+                     <div className="flex gap-1">
                          <button
-                             onClick={() => setShowDebugPanel(!showDebugPanel)}
-                             className={`text-[9px] w-full py-1 rounded border transition-all ${showDebugPanel ? 'bg-brand-500/30 border-brand-400 text-brand-300' : 'bg-black/30 border-white/10 text-gray-500 hover:text-white'}`}
+                             onClick={timeline ? () => setShowTimeline(!showTimeline) : planChoreography}
+                             disabled={!trackAnalysis}
+                             className={`text-[9px] flex-1 py-1 rounded border transition-all disabled:opacity-40 ${timeline ? 'bg-green-500/20 border-green-400 text-green-300' : 'bg-black/30 border-white/10 text-gray-500 hover:text-white'}`}
+                             title={trackAnalysis ? 'Plan the whole song ahead of time' : 'Needs an analysed track'}
                          >
-                             {showDebugPanel ? '◉ DEBUG ON' : '○ DEBUG OFF'}
+                             {timeline ? `◉ PLAN ${timeline.events.filter(e => e.kind === 'transition').length}` : '○ PLAN'}
+                         </button>
+                         {timeline && (
+                             <button onClick={clearChoreography} className="text-[9px] px-2 py-1 rounded border bg-black/30 border-white/10 text-gray-500 hover:text-white" title="Back to live decisions">
+                                 <X size={10} />
+                             </button>
+                         )}
+                     </div>
+                     <div className="flex gap-1">
+                         <span className={`text-[9px] flex-1 py-1 px-1.5 rounded border truncate ${state.kineticGraph ? 'bg-green-500/20 border-green-400 text-green-300' : 'bg-black/30 border-white/10 text-gray-500'}`} title="Choreography graph">
+                             GRAPH {state.kineticGraph ? state.kineticGraph.name : state.subjectCategory}
+                         </span>
+                         <button onClick={() => graphInputRef.current?.click()} className="text-[9px] px-2 py-1 rounded border bg-black/30 border-white/10 text-gray-500 hover:text-white" title="Load a graph (.json)">
+                             <Upload size={10} />
+                         </button>
+                         <button onClick={handleExportGraph} className="text-[9px] px-2 py-1 rounded border bg-black/30 border-white/10 text-gray-500 hover:text-white" title="Save the current graph as JSON">
+                             <Download size={10} />
                          </button>
+                         {state.kineticGraph && (
+                             <button onClick={() => onKineticGraphChange(null)} className="text-[9px] px-2 py-1 rounded border bg-black/30 border-white/10 text-gray-500 hover:text-white" title="Back to the subject's graph">
+                                 <X size={10} />
+                             </button>
+                         )}
+                         <input type="file" ref={graphInputRef} accept=".json,application/json" onChange={handleImportGraph} className="hidden" />
                      </div>
-                 )}
+                     <button
+                         onClick={() => { setShowControls(!showControls); setShowBands(false); }}
+                         className={`text-[9px] w-full py-1 rounded border transition-all ${showControls ? 'bg-brand-500/30 border-brand-400 text-brand-300' : 'bg-black/30 border-white/10 text-gray-500 hover:text-white'}`}
+                         title="Keyboard / MIDI bindings"
+                     >
+                         {showControls ? '◉ CONTROLS' : '○ CONTROLS'}{midiStatus === 'ready' && midiDevices.length > 0 ? ' · MIDI' : ''}
+                     </button>
+                     <button
+                         onClick={() => { setShowBands(!showBands); setShowControls(false); }}
+                         className={`text-[9px] w-full py-1 rounded border transition-all ${showBands ? 'bg-brand-500/30 border-brand-400 text-brand-300' : 'bg-black/30 border-white/10 text-gray-500 hover:text-white'}`}
+                         title="Analysis bands, FFT size and gain"
+                     >
+                         {showBands ? '◉ BANDS' : '○ BANDS'} · FFT {state.audioAnalysis.fftSize}
+                     </button>
+                     <button
+                         onClick={() => setShowDebugPanel(!showDebugPanel)}
+                         className={`text-[9px] w-full py-1 rounded border transition-all ${showDebugPanel ? 'bg-brand-500/30 border-brand-400 text-brand-300' : 'bg-black/30 border-white/10 text-gray-500 hover:text-white'}`}
+                     >
+                         {showDebugPanel ? '◉ DEBUG ON' : '○ DEBUG OFF'}
+                     </button>
+                 </div>
              </div>
              <div className="flex gap-2 pointer-events-auto items-center">
-                 {isRecording && <div className="flex items-center gap-2 bg-red-500/20 border border-red-500/50 px-3 py-1.5 rounded-full animate-pulse"><div className="w-2 h-2 bg-red-500 rounded-full" /><span className="text-red-300 font-mono text-xs">{(recordingTime / 1000).toFixed(1)}s</span></div>}
+                 {isRecording && <div className="flex items-center gap-2 bg-red-500/20 border border-red-500/50 px-3 py-1.5 rounded-full animate-pulse"><div className="w-2 h-2 bg-red-500 rounded-full" /><span className="text-red-300 font-mono text-xs">{(recordingTime / 1000).toFixed(1)}s / {recordingLimitMs(state.duration, state.userTier) / 1000}s</span></div>}
                  <button onClick={() => isRecording ? stopRecording() : startRecording()} className={`glass-button px-4 py-2 rounded-lg text-white flex items-center gap-2 ${isRecording ? 'bg-red-500/50 border-red-500' : ''}`}><CircleDot size={18} /><span className="text-xs font-bold">{isRecording ? 'STOP' : 'REC VIDEO'}</span></button>
                  <button className="glass-button p-2 rounded-lg text-white" onClick={handleExportPlayer} title="Export Player"><FileVideo size={20} /></button>
              </div>
@@ -1031,6 +1265,8 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
                    <button onClick={togglePlay} className={`w-12 h-12 rounded-full flex items-center justify-center transition-all ${isPlaying ? 'bg-brand-500 text-white shadow-[0_0_20px_rgba(139,92,246,0.4)]' : 'bg-white/10 text-white hover:bg-white/20'}`}>{isPlaying ? <Pause size={20} fill="currentColor" /> : <Play size={20} fill="currentColor" className="ml-1" />}</button>
                    <div className="h-8 w-[1px] bg-white/10" />
                    <button onClick={toggleMic} className={`px-4 py-2 rounded-full flex items-center gap-2 text-xs font-bold transition-all border ${isMicActive ? 'bg-red-500/20 border-red-500 text-red-400 animate-pulse' : 'border-transparent text-gray-400 hover:text-white'}`}>{isMicActive ? <Mic size={16} /> : <MicOff size={16} />} LIVE</button>
+                   <button onClick={toggleTabCapture} title="Listen to another browser tab" className={`p-2 rounded-full transition-all border ${audioSource === 'tab' ? 'bg-red-500/20 border-red-500 text-red-400 animate-pulse' : 'border-transparent text-gray-400 hover:text-white'}`}><AppWindow size={16} /></button>
+                   <button onClick={toggleTestTone} title="Test tone: a bass pulse on every beat at 120 BPM" className={`p-2 rounded-full transition-all border ${audioSource === 'tone' ? 'bg-brand-500/20 border-brand-500 text-brand-300' : 'border-transparent text-gray-400 hover:text-white'}`}><AudioWaveform size={16} /></button>
                    <div className="h-8 w-[1px] bg-white/10" />
                    <button onClick={() => setSuperCamActive(!superCamActive)} className={`px-4 py-2 rounded-full flex items-center gap-2 text-xs font-bold transition-all border ${superCamActive ? 'bg-blue-500/20 border-blue-500 text-blue-400' : 'border-transparent text-gray-400 hover:text-white'}`}><Camera size={16} /> CAM</button>
                    <div className="h-8 w-[1px] bg-white/10" />
@@ -1038,13 +1274,67 @@ export const Step4Preview: React.FC<Step4Props> = ({ state, onGenerateMore, onSp
                    <div className="h-8 w-[1px] bg-white/10" />
                    <button onClick={() => { setShowFX(false); setShowDeck(!showDeck); }} className={`px-4 py-2 rounded-full flex items-center gap-2 text-xs font-bold transition-all border ${showDeck ? 'bg-white/20 border-white/30 text-white' : 'border-transparent text-gray-400 hover:text-white'}`}><Layers size={16} /> MIXER</button>
               </div>
+              {trackDuration > 0 && (
+                  <TransportBar
+                      getCurrentTime={getCurrentTime}
+                      duration={trackDuration}
+                      onSeek={seek}
+                      loopRegion={loopRegion}
+                      onLoopRegionChange={setLoopRegion}
+                      playbackRate={playbackRate}
+                      onPlaybackRateChange={setPlaybackRate}
+                  />
+              )}
           </div>
       </div>
 
+      {/* Timeline Editor */}
+      {timeline && trackAnalysis && showTimeline && (
+        <TimelineEditor
+          timeline={timeline}
+          analysis={trackAnalysis}
+          frames={timelineFrames}
+          getPosition={getPlaybackMs}
+          onChange={onTimelineChange}
+          onSeek={ms => seek(ms / 1000)}
+          onClose={() => setShowTimeline(false)}
+        />
+      )}
+
+      {/* Performance Controls */}
+      {showControls && (
+        <PerformanceControls
+          bindings={state.performanceBindings}
+          onsetBindings={state.onsetBindings}
+          nodes={Object.keys(kineticEngineRef.current?.getGraphSpec().nodes ?? {}) as KineticNodeId[]}
+          deckCount={decks.length}
+          learning={learning}
+          midiStatus={midiStatus}
+          midiDevices={midiDevices}
+          onMidiEnabledChange={setMidiEnabled}
+          onChange={onPerformanceBindingsChange}
+          onOnsetBindingsChange={onOnsetBindingsChange}
+          onLearn={setLearning}
+          onReset={() => { setLearning(null); onPerformanceBindingsChange(DEFAULT_PERFORMANCE_BINDINGS); onOnsetBindingsChange(DEFAULT_ONSET_BINDINGS); }}
+          onClose={() => { setLearning(null); setShowControls(false); }}
+        />
+      )}
+
+      {/* Audio Bands */}
+      {showBands && (
+        <AudioBandEditor
+          settings={state.audioAnalysis}
+          getSpectrum={getSpectrum}
+          onChange={onAudioAnalysisChange}
+          onReset={() => onAudioAnalysisChange(DEFAULT_AUDIO_ANALYSIS)}
+          onClose={() => setShowBands(false)}
+        />
+      )}
+
       {/* Debug Panel */}
       <KineticDebugPanel
         telemetry={telemetry}
-        isVisible={showDebugPanel && useKineticEngine}
+        isVisible={showDebugPanel}
         onClose={() => setShowDebugPanel(false)}
       />
     </div>
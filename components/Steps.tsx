@@ -1,8 +1,8 @@
 
 import React, { useRef, useState, useMemo, useEffect } from 'react';
-import { Music, Play, Pause, Check, Wand2, Zap, Film, Coins, CreditCard, Image as ImageIcon, Shuffle, ChevronDown, ChevronUp, Sparkles, Rocket, Mic, Layers, Grid, Sliders, Activity, ArrowRight, Star, X } from 'lucide-react';
+import { Music, Play, Pause, Check, Wand2, Zap, Film, Coins, CreditCard, Image as ImageIcon, Shuffle, ChevronDown, ChevronUp, Sparkles, Rocket, Mic, Layers, Grid, Sliders, Activity, ArrowRight, Star, X, Cpu, Cloud, Scissors, ScanEye } from 'lucide-react';
 import { AppState, StyleCategory, StylePreset } from '../types';
-import { STYLE_PRESETS, CREDITS_PACK_PRICE } from '../constants';
+import { STYLE_PRESETS, CREDITS_PACK_PRICE, TIER_LIMITS } from '../constants';
 
 /* -------------------------------------------------------------------------- */
 /*                                UTILITIES                                   */
@@ -216,7 +216,7 @@ export const Step1Assets: React.FC<Step1Props> = ({ state, onUploadImage, onUplo
 /* -------------------------------------------------------------------------- */
 
 interface Step2Props {
-  config: Pick<AppState, 'selectedStyleId' | 'intensity' | 'duration' | 'motionPrompt' | 'credits' | 'motionPreset' | 'useTurbo' | 'secondaryStyleId' | 'morphIntensity' | 'reactivity' | 'superMode'>;
+  config: Pick<AppState, 'selectedStyleId' | 'intensity' | 'duration' | 'smoothness' | 'variety' | 'stutter' | 'userTier' | 'motionPrompt' | 'credits' | 'motionPreset' | 'useTurbo' | 'secondaryStyleId' | 'morphIntensity' | 'styleMorphMode' | 'reactivity' | 'superMode' | 'sheetProvider' | 'matting' | 'subjectOverride' | 'subjectClassification'>;
   onUpdate: (key: string, value: any) => void;
   onBuyCredits: () => void;
 }
@@ -414,6 +414,62 @@ export const Step2Director: React.FC<Step2Props> = ({ config, onUpdate, onBuyCre
                         </div>
                       </div>
 
+                      {/* Frame Source */}
+                      <div>
+                        <label className="text-xs font-bold text-gray-400 mb-3 block uppercase tracking-wider">Frame Source</label>
+                        <div className="grid grid-cols-2 gap-2">
+                            <button
+                                onClick={() => onUpdate('sheetProvider', 'gemini')}
+                                className={`px-3 py-2 rounded-lg text-xs font-bold border transition-all flex items-center gap-2 ${config.sheetProvider === 'gemini' ? 'bg-brand-500/20 border-brand-500 text-white' : 'bg-black/20 border-white/5 text-gray-500 hover:border-white/20 hover:text-gray-300'}`}
+                            >
+                                <Cloud size={12} /> Gemini AI
+                            </button>
+                            <button
+                                onClick={() => onUpdate('sheetProvider', 'procedural')}
+                                className={`px-3 py-2 rounded-lg text-xs font-bold border transition-all flex items-center gap-2 ${config.sheetProvider === 'procedural' ? 'bg-brand-500/20 border-brand-500 text-white' : 'bg-black/20 border-white/5 text-gray-500 hover:border-white/20 hover:text-gray-300'}`}
+                            >
+                                <Cpu size={12} /> Procedural (Offline)
+                            </button>
+                        </div>
+                      </div>
+
+                      {/* Background Cutout */}
+                      <div>
+                        <label className="text-xs font-bold text-gray-400 mb-3 block uppercase tracking-wider flex items-center gap-2"><Scissors size={12} /> Background Cutout</label>
+                        <div className="grid grid-cols-3 gap-2">
+                            {([['off', 'Off'], ['floodfill', 'Flood Fill'], ['chroma', 'Chroma']] as const).map(([mode, label]) => (
+                                <button
+                                    key={mode}
+                                    onClick={() => onUpdate('matting', mode)}
+                                    className={`px-3 py-2 rounded-lg text-xs font-bold border transition-all ${config.matting === mode ? 'bg-brand-500/20 border-brand-500 text-white' : 'bg-black/20 border-white/5 text-gray-500 hover:border-white/20 hover:text-gray-300'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                      </div>
+
+                      {/* Subject Category */}
+                      <div>
+                        <label className="text-xs font-bold text-gray-400 mb-3 block uppercase tracking-wider flex items-center gap-2"><ScanEye size={12} /> Subject</label>
+                        <div className="grid grid-cols-4 gap-2">
+                            {([['auto', 'Auto'], ['CHARACTER', 'Character'], ['TEXT', 'Text'], ['SYMBOL', 'Symbol']] as const).map(([mode, label]) => (
+                                <button
+                                    key={mode}
+                                    onClick={() => onUpdate('subjectOverride', mode)}
+                                    className={`px-3 py-2 rounded-lg text-xs font-bold border transition-all ${config.subjectOverride === mode ? 'bg-brand-500/20 border-brand-500 text-white' : 'bg-black/20 border-white/5 text-gray-500 hover:border-white/20 hover:text-gray-300'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        <p className="text-[10px] text-gray-500 mt-2 font-mono">
+                            {config.subjectClassification
+                                ? `DETECTED: ${config.subjectClassification.category} (${Math.round(config.subjectClassification.confidence * 100)}%, ${config.subjectClassification.source})`
+                                : 'DETECTING...'}
+                        </p>
+                      </div>
+
                       {config.motionPreset === 'custom' && (
                         <div className="animate-fade-in">
                             <label className="text-xs font-bold text-gray-400 mb-2 block uppercase tracking-wider">Custom Prompt</label>
@@ -431,7 +487,7 @@ export const Step2Director: React.FC<Step2Props> = ({ config, onUpdate, onBuyCre
                         <div>
                             <label className="text-xs font-bold text-gray-400 mb-3 block uppercase tracking-wider">Duration</label>
                             <input 
-                                type="range" min="10" max="60" 
+                                type="range" min="10" max={Math.min(60, TIER_LIMITS[config.userTier].maxDuration)} 
                                 value={config.duration} 
                                 onChange={(e) => onUpdate('duration', Number(e.target.value))}
                                 className="w-full h-1.5 bg-white/10 rounded-full accent-brand-400 cursor-pointer"
@@ -448,6 +504,36 @@ export const Step2Director: React.FC<Step2Props> = ({ config, onUpdate, onBuyCre
                             />
                             <div className="text-right text-xs text-brand-300 font-mono mt-1">{config.intensity}%</div>
                         </div>
+                        <div>
+                            <label className="text-xs font-bold text-gray-400 mb-3 block uppercase tracking-wider">Smoothness</label>
+                            <input 
+                                type="range" min="0" max="100" 
+                                value={config.smoothness} 
+                                onChange={(e) => onUpdate('smoothness', Number(e.target.value))}
+                                className="w-full h-1.5 bg-white/10 rounded-full accent-brand-400 cursor-pointer"
+                            />
+                            <div className="text-right text-xs text-brand-300 font-mono mt-1">{config.smoothness}%</div>
+                        </div>
+                        <div>
+                            <label className="text-xs font-bold text-gray-400 mb-3 block uppercase tracking-wider">Variety</label>
+                            <input 
+                                type="range" min="0" max="100" 
+                                value={config.variety} 
+                                onChange={(e) => onUpdate('variety', Number(e.target.value))}
+                                className="w-full h-1.5 bg-white/10 rounded-full accent-brand-400 cursor-pointer"
+                            />
+                            <div className="text-right text-xs text-brand-300 font-mono mt-1">{config.variety}%</div>
+                        </div>
+                        <div>
+                            <label className="text-xs font-bold text-gray-400 mb-3 block uppercase tracking-wider">Stutter</label>
+                            <input 
+                                type="range" min="0" max="100" 
+                                value={config.stutter} 
+                                onChange={(e) => onUpdate('stutter', Number(e.target.value))}
+                                className="w-full h-1.5 bg-white/10 rounded-full accent-brand-400 cursor-pointer"
+                            />
+                            <div className="text-right text-xs text-brand-300 font-mono mt-1">{config.stutter}%</div>
+                        </div>
                       </div>
                   </div>
 
@@ -485,6 +571,22 @@ export const Step2Director: React.FC<Step2Props> = ({ config, onUpdate, onBuyCre
                                         onChange={(e) => onUpdate('morphIntensity', Number(e.target.value))}
                                         className="w-full h-1.5 bg-white/10 rounded-full accent-purple-500 cursor-pointer"
                                     />
+                                    <div className="grid grid-cols-2 gap-2 mt-3">
+                                        {([['blend', 'Blend Prompt'], ['dual', 'Dual Rig (+1 Sheet)']] as const).map(([mode, label]) => (
+                                            <button
+                                                key={mode}
+                                                onClick={() => onUpdate('styleMorphMode', mode)}
+                                                className={`px-3 py-2 rounded-lg text-[10px] font-bold border transition-all ${config.styleMorphMode === mode ? 'bg-purple-500/20 border-purple-500 text-white' : 'bg-black/20 border-white/5 text-gray-500 hover:border-white/20 hover:text-gray-300'}`}
+                                            >
+                                                {label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <p className="text-[10px] text-gray-500 mt-2">
+                                        {config.styleMorphMode === 'dual'
+                                            ? 'Draws the base sheet again in the secondary style; the player crossfades to it on loud passages.'
+                                            : 'Both styles are mixed into one prompt.'}
+                                    </p>
                                 </div>
                            )}
                        </div>
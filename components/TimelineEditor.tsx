@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GeneratedFrame, TrackAnalysis, TrackSectionKind } from '../types';
+import { ChoreographyTimeline, TimelineTransition } from '../services/KineticEngine';
+import {
+  deleteTimelineEvent,
+  moveTimelineEvent,
+  pinFrameAt,
+  replaceTimelineFrame,
+  setTimelineEventLocked,
+  snapToBeat
+} from '../services/choreographyTimeline';
+import { Film, Lock, Unlock, Trash2, Pin, Replace } from 'lucide-react';
+
+interface TimelineEditorProps {
+  timeline: ChoreographyTimeline;
+  analysis: TrackAnalysis;
+  frames: GeneratedFrame[];
+  getPosition: () => number; // Playback position (ms)
+  onChange: (timeline: ChoreographyTimeline) => void;
+  onSeek: (ms: number) => void;
+  onClose: () => void;
+}
+
+const PX_PER_SECOND = 60;
+const WAVE_HEIGHT = 48;
+
+const SECTION_COLORS: Record<TrackSectionKind, string> = {
+  intro: 'bg-sky-500/15 text-sky-300',
+  verse: 'bg-white/5 text-gray-400',
+  chorus: 'bg-brand-500/20 text-brand-300',
+  drop: 'bg-red-500/20 text-red-300',
+  breakdown: 'bg-emerald-500/15 text-emerald-300'
+};
+
+/**
+ * Editor for a planned choreography timeline: waveform with beat markers,
+ * section bands and one block per transition. Blocks can be dragged (snapped
+ * to beats), deleted, locked or given another frame; a frame can be pinned to
+ * the beat under the playhead.
+ */
+export const TimelineEditor: React.FC<TimelineEditorProps> = ({ timeline, analysis, frames, getPosition, onChange, onSeek, onClose }) => {
+  const waveCanvasRef = useRef<HTMLCanvasElement>(null);
+  const playheadRef = useRef<HTMLDivElement>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [pickedFrame, setPickedFrame] = useState<GeneratedFrame | null>(null);
+  const [drag, setDrag] = useState<{ index: number; startX: number; time: number } | null>(null);
+
+  const width = Math.ceil((timeline.durationMs / 1000) * PX_PER_SECOND);
+  const framesByPose = useMemo(() => new Map(frames.map(f => [f.pose, f])), [frames]);
+
+  const transitions = useMemo(() => timeline.events
+    .map((event, index) => ({ event, index }))
+    .filter((t): t is { event: TimelineTransition; index: number } => t.event.kind === 'transition'), [timeline]);
+
+  // Waveform + beat grid
+  useEffect(() => {
+    const canvas = waveCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = 'rgba(139, 92, 246, 0.6)';
+    const step = PX_PER_SECOND / analysis.waveformRate;
+    analysis.waveform.forEach((peak, i) => {
+      const h = peak * WAVE_HEIGHT;
+      ctx.fillRect(i * step, (WAVE_HEIGHT - h) / 2, Math.max(1, step), h);
+    });
+
+    const downbeats = new Set(analysis.downbeats);
+    analysis.beats.forEach(beat => {
+      ctx.fillStyle = downbeats.has(beat) ? 'rgba(255, 255, 255, 0.5)' : 'rgba(255, 255, 255, 0.12)';
+      ctx.fillRect(Math.round(beat * PX_PER_SECOND), 0, 1, WAVE_HEIGHT);
+    });
+  }, [analysis, width]);
+
+  // Playhead follows playback without re-rendering the editor
+  useEffect(() => {
+    let raf = 0;
+    const tick = () => {
+      if (playheadRef.current) playheadRef.current.style.transform = `translateX(${(getPosition() / 1000) * PX_PER_SECOND}px)`;
+      raf = requestAnimationFrame(tick);
+    };
+    raf = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(raf);
+  }, [getPosition]);
+
+  const commit = (next: ChoreographyTimeline, index: number | null) => {
+    onChange(next);
+    setSelected(index);
+  };
+
+  const selectedEvent = selected !== null && timeline.events[selected]?.kind === 'transition'
+    ? timeline.events[selected] as TimelineTransition
+    : null;
+
+  // --- DRAG ---
+  const handlePointerDown = (e: React.PointerEvent, index: number, time: number) => {
+    e.stopPropagation();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    setSelected(index);
+    setDrag({ index, startX: e.clientX, time });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const event = timeline.events[drag.index];
+    const time = snapToBeat(analysis, event.time + ((e.clientX - drag.startX) / PX_PER_SECOND) * 1000);
+    if (time !== drag.time) setDrag({ ...drag, time });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    if (drag.time !== timeline.events[drag.index].time) {
+      const edit = moveTimelineEvent(timeline, drag.index, drag.time);
+      commit(edit.timeline, edit.index);
+    }
+    setDrag(null);
+  };
+
+  const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(((e.clientX - rect.left) / PX_PER_SECOND) * 1000);
+  };
+
+  // --- ACTIONS ---
+  const handleDelete = () => {
+    if (selected === null) return;
+    commit(deleteTimelineEvent(timeline, selected), null);
+  };
+
+  const handleToggleLock = () => {
+    if (!selectedEvent || selected === null) return;
+    const edit = setTimelineEventLocked(timeline, selected, !selectedEvent.locked);
+    commit(edit.timeline, edit.index);
+  };
+
+  const handleReplace = () => {
+    if (selected === null || !pickedFrame) return;
+    const edit = replaceTimelineFrame(timeline, selected, pickedFrame);
+    commit(edit.timeline, edit.index);
+  };
+
+  const handlePin = () => {
+    if (!pickedFrame) return;
+    const edit = pinFrameAt(timeline, pickedFrame, snapToBeat(analysis, getPosition()));
+    commit(edit.timeline, edit.index);
+  };
+
+  return (
+    <div className="fixed bottom-28 left-4 right-4 bg-black/90 backdrop-blur-xl border border-brand-500/30 rounded-xl shadow-2xl z-50 overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center gap-2 px-4 py-2 bg-brand-900/50 border-b border-white/10">
+        <Film size={14} className="text-brand-400" />
+        <span className="text-xs font-bold text-white tracking-widest">TIMELINE</span>
+        <span className="text-[10px] text-gray-500 font-mono">
+          {transitions.length} cuts · {timeline.bpm.toFixed(1)} BPM · seed {timeline.seed}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          <ToolButton onClick={handleToggleLock} disabled={!selectedEvent} title="Lock / unlock (locked cuts survive re-planning)">
+            {selectedEvent?.locked ? <Unlock size={12} /> : <Lock size={12} />}
+          </ToolButton>
+          <ToolButton onClick={handleReplace} disabled={!selectedEvent || !pickedFrame} title="Replace the selected cut's frame with the picked one">
+            <Replace size={12} />
+          </ToolButton>
+          <ToolButton onClick={handlePin} disabled={!pickedFrame} title="Pin the picked frame to the beat under the playhead">
+            <Pin size={12} />
+          </ToolButton>
+          <ToolButton onClick={handleDelete} disabled={!selectedEvent} title="Delete the selected cut">
+            <Trash2 size={12} />
+          </ToolButton>
+          <button onClick={onClose} className="ml-2 text-gray-400 hover:text-white text-xs">✕</button>
+        </div>
+      </div>
+
+      {/* Tracks */}
+      <div className="overflow-x-auto" onPointerMove={handlePointerMove} onPointerUp={handlePointerUp}>
+        <div className="relative" style={{ width }}>
+          {/* Sections */}
+          <div className="relative h-4">
+            {analysis.sections.map((section, i) => (
+              <div
+                key={i}
+                className={`absolute top-0 h-full text-[8px] font-bold uppercase px-1 border-l border-white/10 ${SECTION_COLORS[section.kind]}`}
+                style={{ left: section.start * PX_PER_SECOND, width: (section.end - section.start) * PX_PER_SECOND }}
+              >
+                {section.kind}
+              </div>
+            ))}
+          </div>
+
+          {/* Waveform + beats (click to seek) */}
+          <div className="cursor-text" onClick={handleSeek}>
+            <canvas ref={waveCanvasRef} width={width} height={WAVE_HEIGHT} className="block" />
+          </div>
+
+          {/* Node blocks */}
+          <div className="relative h-14">
+            {transitions.map(({ event, index }, i) => {
+              const time = drag?.index === index ? drag.time : event.time;
+              const end = transitions[i + 1]?.event.time ?? timeline.durationMs;
+              const frame = framesByPose.get(event.pose);
+              return (
+                <div
+                  key={`${index}-${event.time}-${event.pose}`}
+                  onPointerDown={e => handlePointerDown(e, index, event.time)}
+                  className={`absolute top-1 bottom-1 rounded border overflow-hidden cursor-grab select-none flex items-center gap-1 px-0.5 ${
+                    selected === index ? 'border-yellow-400 bg-yellow-500/20 z-10' : event.locked ? 'border-green-400/60 bg-green-500/10' : 'border-white/15 bg-white/5'
+                  }`}
+                  style={{ left: (time / 1000) * PX_PER_SECOND, width: Math.max(6, ((end - event.time) / 1000) * PX_PER_SECOND - 1) }}
+                  title={`${(event.time / 1000).toFixed(2)}s ${event.node} / ${event.pose} (${event.style})`}
+                >
+                  {frame && <img src={frame.url} alt={event.pose} draggable={false} className="h-10 w-10 object-contain shrink-0" />}
+                  <span className="text-[8px] font-mono text-gray-300 truncate">{event.node}</span>
+                  {event.locked && <Lock size={8} className="text-green-400 shrink-0" />}
+                </div>
+              );
+            })}
+          </div>
+
+          <div ref={playheadRef} className="absolute top-0 left-0 h-full w-px bg-yellow-300 pointer-events-none" />
+        </div>
+      </div>
+
+      {/* Frame picker */}
+      <div className="flex gap-1 overflow-x-auto p-2 border-t border-white/10">
+        {frames.map(frame => (
+          <button
+            key={frame.pose}
+            onClick={() => setPickedFrame(pickedFrame?.pose === frame.pose ? null : frame)}
+            className={`shrink-0 rounded border ${pickedFrame?.pose === frame.pose ? 'border-yellow-400' : 'border-white/10 hover:border-white/40'}`}
+            title={frame.pose}
+          >
+            <img src={frame.url} alt={frame.pose} className="h-10 w-10 object-contain" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Helper components
+const ToolButton: React.FC<{ onClick: () => void; disabled: boolean; title: string; children: React.ReactNode }> = ({ onClick, disabled, title, children }) => (
+  <button
+    onClick={onClick}
+    disabled={disabled}
+    title={title}
+    className="p-1.5 rounded border border-white/10 text-gray-300 hover:text-white hover:border-white/30 disabled:opacity-30"
+  >
+    {children}
+  </button>
+);
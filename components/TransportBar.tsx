@@ -0,0 +1,116 @@
+import React, { useEffect, useRef } from 'react';
+import { LoopRegion, PLAYBACK_RATES, formatTime } from '../services/audioTransport';
+import { Repeat } from 'lucide-react';
+
+interface TransportBarProps {
+  getCurrentTime: () => number;
+  duration: number;
+  onSeek: (seconds: number) => void;
+  loopRegion: LoopRegion | null;
+  onLoopRegionChange: (region: LoopRegion | null) => void;
+  playbackRate: number;
+  onPlaybackRateChange: (rate: number) => void;
+}
+
+/**
+ * Scrubber for the loaded track: drag to seek, A and B set a loop region at
+ * the playhead (snapped to bars by the player), the loop button loops the
+ * whole track or clears the region. The playhead follows the audio on its
+ * own animation frame so the preview doesn't re-render with it.
+ */
+export const TransportBar: React.FC<TransportBarProps> = ({
+  getCurrentTime,
+  duration,
+  onSeek,
+  loopRegion,
+  onLoopRegionChange,
+  playbackRate,
+  onPlaybackRateChange
+}) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const playedRef = useRef<HTMLDivElement>(null);
+  const timeRef = useRef<HTMLSpanElement>(null);
+  const draggingRef = useRef(false);
+
+  useEffect(() => {
+    let frame = 0;
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const t = getCurrentTime();
+      if (playedRef.current) playedRef.current.style.width = `${duration > 0 ? (t / duration) * 100 : 0}%`;
+      if (timeRef.current) timeRef.current.textContent = formatTime(t);
+    };
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [getCurrentTime, duration]);
+
+  const seekTo = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    onSeek(Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * duration);
+  };
+
+  const setA = () => {
+    const t = getCurrentTime();
+    onLoopRegionChange({ start: t, end: loopRegion && loopRegion.end > t ? loopRegion.end : duration });
+  };
+
+  const setB = () => {
+    const t = getCurrentTime();
+    onLoopRegionChange({ start: loopRegion && loopRegion.start < t ? loopRegion.start : 0, end: t });
+  };
+
+  const percent = (t: number) => `${duration > 0 ? (t / duration) * 100 : 0}%`;
+
+  return (
+    <div className="flex items-center gap-3 w-full bg-black/60 backdrop-blur-xl border border-white/10 px-4 py-2 rounded-full shadow-2xl">
+      <span ref={timeRef} className="w-9 text-[10px] font-mono text-gray-300 text-right">0:00</span>
+
+      {/* Track */}
+      <div
+        ref={trackRef}
+        className="relative flex-1 h-2 rounded-full bg-white/10 cursor-pointer touch-none"
+        onPointerDown={e => {
+          draggingRef.current = true;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          seekTo(e);
+        }}
+        onPointerMove={e => { if (draggingRef.current) seekTo(e); }}
+        onPointerUp={() => { draggingRef.current = false; }}
+      >
+        {loopRegion && (
+          <div
+            className="absolute -top-1 -bottom-1 bg-brand-500/25 border-x border-brand-400 rounded-sm"
+            style={{ left: percent(loopRegion.start), width: `calc(${percent(loopRegion.end)} - ${percent(loopRegion.start)})` }}
+          />
+        )}
+        <div ref={playedRef} className="absolute inset-y-0 left-0 rounded-full bg-brand-500 pointer-events-none" />
+      </div>
+
+      <span className="w-9 text-[10px] font-mono text-gray-500">{formatTime(duration)}</span>
+
+      {/* Loop */}
+      <div className="flex items-center gap-1">
+        <button onClick={setA} className="w-6 h-6 rounded text-[10px] font-bold text-gray-400 hover:text-white hover:bg-white/10" title="Loop from this bar">A</button>
+        <button onClick={setB} className="w-6 h-6 rounded text-[10px] font-bold text-gray-400 hover:text-white hover:bg-white/10" title="Loop up to this bar">B</button>
+        <button
+          onClick={() => onLoopRegionChange(loopRegion ? null : { start: 0, end: duration })}
+          className={`w-6 h-6 rounded flex items-center justify-center ${loopRegion ? 'text-brand-300 bg-brand-500/20' : 'text-gray-400 hover:text-white hover:bg-white/10'}`}
+          title={loopRegion ? `Looping ${formatTime(loopRegion.start)}–${formatTime(loopRegion.end)}: click to play through` : 'Loop the whole track'}
+        >
+          <Repeat size={12} />
+        </button>
+      </div>
+
+      {/* Speed */}
+      <select
+        value={playbackRate}
+        onChange={e => onPlaybackRateChange(Number(e.target.value))}
+        className="bg-black/50 border border-white/10 rounded px-1 py-0.5 text-[10px] font-mono text-gray-300"
+        title="Playback speed (pitch kept)"
+      >
+        {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+      </select>
+    </div>
+  );
+};
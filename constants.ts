@@ -5,6 +5,9 @@ export const CREDIT_COST_PER_SONG = 1;
 export const CREDITS_PACK_PRICE = 5;
 export const CREDITS_PER_PACK = 10;
 
+// Extra sheet requests a generation may spend re-rolling sheets that fail validation
+export const SHEET_REROLL_BUDGET = 2;
+
 export const TIER_LIMITS = {
   free: {
     maxDuration: 300, // Allow full song for dev/beta
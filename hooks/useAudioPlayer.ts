@@ -1,79 +1,105 @@
-
-import { useRef, useState, useCallback, useEffect } from 'react';
+import { useRef, useState, useCallback, useEffect, useSyncExternalStore } from 'react';
+import { TrackAnalysis } from '../types';
+import { analyzeTrack } from '../services/trackAnalysis';
+import { AudioAnalysis, AudioAnalysisSettings, DEFAULT_AUDIO_ANALYSIS, createBandAnalyser } from '../services/audioAnalysis';
+import { AudioSourceKind, getAudioEngine } from '../services/audioEngine';
+import { LoopRegion, barLines, nearestPlaybackRate, snapLoopRegion, wrapPosition } from '../services/audioTransport';
 
 export interface AudioPlayer {
     audioElement: HTMLAudioElement;
+    audioSource: AudioSourceKind | null; // What the shared audio engine is listening to
     isPlaying: boolean;
     isMicActive: boolean;
     togglePlay: () => void;
     toggleMic: () => Promise<void>;
+    toggleTabCapture: () => Promise<void>;
+    toggleTestTone: () => void;
     loadAudio: (url: string) => void;
+    // Transport (see audioTransport.ts)
+    getCurrentTime: () => number; // Seconds; read per frame instead of re-rendering
+    duration: number; // Seconds, 0 until the file's metadata loads
+    seek: (seconds: number) => void;
+    loopRegion: LoopRegion | null; // Snapped to bars; null plays through to the end
+    setLoopRegion: (region: LoopRegion | null) => void;
+    playbackRate: number;
+    setPlaybackRate: (rate: number) => void; // Pitch is preserved
     getAnalysis: () => AudioAnalysis;
+    getSpectrum: () => AudioSpectrum; // For onset classification
     audioDestNode: MediaStreamAudioDestinationNode | null; // For recording
+    trackAnalysis: TrackAnalysis | null; // Offline beat grid / sections of the loaded file
+    isAnalyzing: boolean;
 }
 
-export interface AudioAnalysis {
-    bass: number;
-    mid: number;
-    high: number;
-    energy: number;
+export interface AudioSpectrum {
+    bins: Float32Array; // Magnitudes 0-1, empty before the context starts; overwritten by the next call
+    binHz: number;
 }
 
-export const useAudioPlayer = (initialUrl?: string | null): AudioPlayer => {
-    const audioCtxRef = useRef<AudioContext | null>(null);
-    const analyserRef = useRef<AnalyserNode | null>(null);
-    const sourceNodeRef = useRef<MediaElementAudioSourceNode | MediaStreamAudioSourceNode | null>(null);
-    const audioDestRef = useRef<MediaStreamAudioDestinationNode | null>(null);
-    const micStreamRef = useRef<MediaStream | null>(null);
+const ANALYSIS_WAIT_MS = 3000;
+
+/**
+ * The loaded track's <audio> element and its offline analysis, bound to the
+ * shared audio engine (services/audioEngine.ts) which owns the context,
+ * sources and routing.
+ */
+export const useAudioPlayer = (
+    initialUrl?: string | null,
+    onTrackAnalysis?: (analysis: TrackAnalysis) => void,
+    analysisSettings: AudioAnalysisSettings = DEFAULT_AUDIO_ANALYSIS
+): AudioPlayer => {
+    const engine = getAudioEngine();
+    const { source } = useSyncExternalStore(engine.subscribe, engine.getSnapshot);
+
+    // Band definitions (see audioAnalysis.ts); auto gain keeps its peaks across frames
+    const settingsRef = useRef(analysisSettings);
+    settingsRef.current = analysisSettings;
+    const bandAnalyserRef = useRef(createBandAnalyser());
+    const spectrumRef = useRef(new Float32Array(0)); // Reused by every getSpectrum
     
     // The actual audio element
     const audioRef = useRef<HTMLAudioElement>(new Audio());
     
     const [isPlaying, setIsPlaying] = useState(false);
-    const [isMicActive, setIsMicActive] = useState(false);
-
-    // Initialize Audio Context on user interaction
-    const initContext = useCallback(() => {
-        if (!audioCtxRef.current) {
-            const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-            audioCtxRef.current = new AudioContextClass();
-            
-            analyserRef.current = audioCtxRef.current.createAnalyser();
-            analyserRef.current.fftSize = 256;
-            analyserRef.current.smoothingTimeConstant = 0.8; // Snappy but smooth
-            
-            // Destination node for recording
-            audioDestRef.current = audioCtxRef.current.createMediaStreamDestination();
-        }
-        if (audioCtxRef.current.state === 'suspended') {
-            audioCtxRef.current.resume();
-        }
-        return audioCtxRef.current;
-    }, []);
+    const [duration, setDuration] = useState(0);
+    const [loopRegion, setLoopRegionState] = useState<LoopRegion | null>(null);
+    const [playbackRate, setPlaybackRateState] = useState(1);
+    const loopRegionRef = useRef(loopRegion);
+    loopRegionRef.current = loopRegion;
 
-    const connectSource = useCallback(() => {
-        const ctx = initContext();
-        if (analyserRef.current && audioDestRef.current) {
-             // Disconnect old source
-             if (sourceNodeRef.current) {
-                 try { sourceNodeRef.current.disconnect(); } catch(e) {}
-             }
-             
-             // Create new element source
-             const src = ctx.createMediaElementSource(audioRef.current);
-             src.connect(analyserRef.current);
-             src.connect(ctx.destination); // Output to speakers
-             src.connect(audioDestRef.current); // Output to recorder
-             sourceNodeRef.current = src;
-        }
-    }, [initContext]);
+    // Offline pre-analysis (runs on load, awaited before the first play)
+    const [trackAnalysis, setTrackAnalysis] = useState<TrackAnalysis | null>(null);
+    const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const analysisRef = useRef<Promise<TrackAnalysis | null> | null>(null);
+    const onTrackAnalysisRef = useRef(onTrackAnalysis);
+    onTrackAnalysisRef.current = onTrackAnalysis;
+
+    // The engine closes its context once no component holds it
+    useEffect(() => engine.retain(), [engine]);
 
     const loadAudio = useCallback((url: string) => {
         if (audioRef.current.src !== url) {
             audioRef.current.src = url;
             audioRef.current.crossOrigin = "anonymous";
-            audioRef.current.loop = true;
             setIsPlaying(false);
+            setLoopRegionState(null);
+
+            setTrackAnalysis(null);
+            setIsAnalyzing(true);
+            const pending = analyzeTrack(url)
+                .then(analysis => {
+                    if (analysisRef.current !== pending) return null; // A newer file was loaded
+                    onTrackAnalysisRef.current?.(analysis);
+                    setTrackAnalysis(analysis);
+                    return analysis;
+                })
+                .catch(e => {
+                    console.warn("[TrackAnalysis] Pre-analysis failed, falling back to live BPM detection", e);
+                    return null;
+                })
+                .finally(() => {
+                    if (analysisRef.current === pending) setIsAnalyzing(false);
+                });
+            analysisRef.current = pending;
         }
     }, []);
 
@@ -81,112 +107,181 @@ export const useAudioPlayer = (initialUrl?: string | null): AudioPlayer => {
         if (initialUrl) loadAudio(initialUrl);
     }, [initialUrl, loadAudio]);
 
-    const togglePlay = useCallback(async () => {
-        if (isMicActive) {
-            disconnectMic();
-        }
+    const pauseFile = useCallback(() => {
+        audioRef.current.pause();
+        setIsPlaying(false);
+    }, []);
 
-        const ctx = initContext();
-        
-        if (isPlaying) {
-            audioRef.current.pause();
-            setIsPlaying(false);
-        } else {
-            // Check if connected
-            if (!sourceNodeRef.current || sourceNodeRef.current instanceof MediaStreamAudioSourceNode) {
-                connectSource();
-            }
-            try {
-                await audioRef.current.play();
-                setIsPlaying(true);
-            } catch (e) {
-                console.error("Playback failed", e);
+    // Duration, and what happens at the end: wrap into the loop region or stop
+    useEffect(() => {
+        const audioEl = audioRef.current;
+        audioEl.preservesPitch = true;
+        const onDuration = () => setDuration(Number.isFinite(audioEl.duration) ? audioEl.duration : 0);
+        const onEnded = () => {
+            const region = loopRegionRef.current;
+            if (!region) {
+                setIsPlaying(false);
+                return;
             }
-        }
-    }, [isPlaying, isMicActive, initContext, connectSource]);
+            audioEl.currentTime = region.start;
+            audioEl.play().catch(e => console.error("Loop restart failed", e));
+        };
+        audioEl.addEventListener('durationchange', onDuration);
+        audioEl.addEventListener('ended', onEnded);
+        return () => {
+            audioEl.removeEventListener('durationchange', onDuration);
+            audioEl.removeEventListener('ended', onEnded);
+        };
+    }, []);
 
-    const toggleMic = useCallback(async () => {
-        if (isMicActive) {
-            disconnectMic();
+    // 'timeupdate' only fires a few times a second, too coarse for a bar-exact loop
+    useEffect(() => {
+        if (!isPlaying || !loopRegion) return;
+        let frame = 0;
+        const check = () => {
+            const audioEl = audioRef.current;
+            const next = wrapPosition(audioEl.currentTime, loopRegion);
+            if (next !== audioEl.currentTime) audioEl.currentTime = next;
+            frame = requestAnimationFrame(check);
+        };
+        check();
+        return () => cancelAnimationFrame(frame);
+    }, [isPlaying, loopRegion]);
+
+    const getCurrentTime = useCallback(() => audioRef.current.currentTime, []);
+
+    const seek = useCallback((seconds: number) => {
+        const audioEl = audioRef.current;
+        const end = Number.isFinite(audioEl.duration) ? audioEl.duration : 0;
+        audioEl.currentTime = Math.max(0, Math.min(end, seconds));
+    }, []);
+
+    const setLoopRegion = useCallback((region: LoopRegion | null) => {
+        const end = audioRef.current.duration;
+        if (!region || !Number.isFinite(end) || end <= 0) {
+            setLoopRegionState(null);
             return;
         }
+        setLoopRegionState(snapLoopRegion(region, barLines(trackAnalysis, end), end));
+    }, [trackAnalysis]);
+
+    // A region set while the track was still being analysed lands on the bars once they are known
+    useEffect(() => {
+        const end = audioRef.current.duration;
+        if (!trackAnalysis || !Number.isFinite(end) || end <= 0) return;
+        setLoopRegionState(prev => prev && snapLoopRegion(prev, barLines(trackAnalysis, end), end));
+    }, [trackAnalysis]);
+
+    const setPlaybackRate = useCallback((rate: number) => {
+        const next = nearestPlaybackRate(rate);
+        audioRef.current.playbackRate = next;
+        audioRef.current.defaultPlaybackRate = next; // Survives loading another file
+        setPlaybackRateState(next);
+    }, []);
+
+    // Any other source takes over from the file
+    useEffect(() => {
+        if (source !== 'file' && source !== null) pauseFile();
+    }, [source, pauseFile]);
 
-        // Stop file playback
+    const togglePlay = useCallback(async () => {
         if (isPlaying) {
-            audioRef.current.pause();
-            setIsPlaying(false);
+            pauseFile();
+            return;
         }
-
-        const ctx = initContext();
         try {
-            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-            micStreamRef.current = stream;
-
-            if (analyserRef.current && audioDestRef.current) {
-                if (sourceNodeRef.current) {
-                    try { sourceNodeRef.current.disconnect(); } catch(e){}
-                }
-                
-                const src = ctx.createMediaStreamSource(stream);
-                src.connect(analyserRef.current);
-                // NOTE: We do NOT connect mic to ctx.destination (speakers) to avoid feedback
-                src.connect(audioDestRef.current); // Connect to recorder
-                sourceNodeRef.current = src;
+            engine.connectFile(audioRef.current);
+            // The engine gets the beat grid before the first beat plays. The wait is
+            // bounded so play() still runs inside the click's user-activation window.
+            if (analysisRef.current) {
+                await Promise.race([analysisRef.current, new Promise(r => setTimeout(r, ANALYSIS_WAIT_MS))]);
             }
-            setIsMicActive(true);
+            await audioRef.current.play();
+            setIsPlaying(true);
         } catch (e) {
-            alert("Microphone access denied.");
+            console.error("Playback failed", e);
         }
-    }, [isMicActive, isPlaying, initContext]);
+    }, [isPlaying, engine, pauseFile]);
 
-    const disconnectMic = () => {
-        if (micStreamRef.current) {
-            micStreamRef.current.getTracks().forEach(t => t.stop());
-            micStreamRef.current = null;
+    const toggleMic = useCallback(async () => {
+        if (source === 'mic') {
+            engine.stopSource();
+            return;
         }
-        setIsMicActive(false);
-    };
+        try {
+            await engine.startMic();
+        } catch (e) {
+            alert("Microphone access denied.");
+        }
+    }, [source, engine]);
 
-    const getAnalysis = useCallback((): AudioAnalysis => {
-        if (!analyserRef.current) return { bass: 0, mid: 0, high: 0, energy: 0 };
+    const toggleTabCapture = useCallback(async () => {
+        if (source === 'tab') {
+            engine.stopSource();
+            return;
+        }
+        try {
+            await engine.startTabCapture();
+        } catch (e) {
+            if (e instanceof DOMException && e.name === 'NotAllowedError') return; // Picker cancelled
+            alert(e instanceof Error ? e.message : "Tab capture failed.");
+        }
+    }, [source, engine]);
 
-        const bufferLength = analyserRef.current.frequencyBinCount;
-        const dataArray = new Uint8Array(bufferLength);
-        analyserRef.current.getByteFrequencyData(dataArray);
+    const toggleTestTone = useCallback(() => {
+        if (source === 'tone') engine.stopSource();
+        else engine.startTone();
+    }, [source, engine]);
 
-        // Bands
-        const bassRange = dataArray.slice(0, 5); 
-        const midRange = dataArray.slice(5, 30); 
-        const highRange = dataArray.slice(30, 100); 
+    // Resolution and smoothing can change while the analyser runs
+    useEffect(() => {
+        engine.configureAnalyser(analysisSettings.fftSize, analysisSettings.smoothing);
+    }, [engine, analysisSettings.fftSize, analysisSettings.smoothing]);
 
-        const bass = bassRange.reduce((a, b) => a + b, 0) / (bassRange.length * 255);
-        const mid = midRange.reduce((a, b) => a + b, 0) / (midRange.length * 255);
-        const high = highRange.reduce((a, b) => a + b, 0) / (highRange.length * 255);
-        const energy = (bass * 0.5 + mid * 0.3 + high * 0.2);
+    const getAnalysis = useCallback((): AudioAnalysis => {
+        const frame = engine.readSpectrum();
+        if (!frame) return { bass: 0, mid: 0, high: 0, energy: 0 };
+        return bandAnalyserRef.current.analyse(frame.data, frame.sampleRate, settingsRef.current);
+    }, [engine]);
 
-        return { bass, mid, high, energy };
-    }, []);
+    const getSpectrum = useCallback((): AudioSpectrum => {
+        const frame = engine.readSpectrum();
+        if (!frame) return { bins: new Float32Array(0), binHz: 0 };
+        if (spectrumRef.current.length !== frame.data.length) spectrumRef.current = new Float32Array(frame.data.length);
+        const bins = spectrumRef.current;
+        for (let i = 0; i < bins.length; i++) bins[i] = frame.data[i] / 255;
+        return { bins, binHz: frame.sampleRate / (frame.data.length * 2) };
+    }, [engine]);
 
-    // Cleanup
+    // The element stops with the component; the engine drops it when it next switches source
     useEffect(() => {
         const audioEl = audioRef.current;
         return () => {
             audioEl.pause();
-            if (micStreamRef.current) {
-                micStreamRef.current.getTracks().forEach(t => t.stop());
-            }
-            // We don't close context to avoid recreating it constantly
         };
     }, []);
 
     return {
         audioElement: audioRef.current,
+        audioSource: source,
         isPlaying,
-        isMicActive,
+        isMicActive: source === 'mic',
         togglePlay,
         toggleMic,
+        toggleTabCapture,
+        toggleTestTone,
         loadAudio,
+        getCurrentTime,
+        duration,
+        seek,
+        loopRegion,
+        setLoopRegion,
+        playbackRate,
+        setPlaybackRate,
         getAnalysis,
-        audioDestNode: audioDestRef.current
+        getSpectrum,
+        audioDestNode: engine.getRecorderNode(),
+        trackAnalysis,
+        isAnalyzing
     };
 };
@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState } from 'react';
+import { PerformanceEvent, parseMidiMessage } from '../services/performanceInput';
+
+export type MidiStatus = 'off' | 'unsupported' | 'pending' | 'ready' | 'denied';
+
+export interface PerformanceInputState {
+    midiStatus: MidiStatus;
+    midiDevices: string[]; // Names of the connected MIDI inputs
+    setMidiEnabled: (enabled: boolean) => void;
+}
+
+const hasWebMidi = () => typeof navigator !== 'undefined' && !!navigator.requestMIDIAccess;
+
+// Typing into the HUD's fields (BPM, meter) must not play the rig
+const isEditable = (target: EventTarget | null): boolean =>
+    target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Keyboard and Web MIDI input as PerformanceEvents (see performanceInput.ts).
+ * Key repeats are dropped: a held key is one press. MIDI access is only
+ * asked for once enabled, since the browser prompts for it; a missing or
+ * refused API just shows in the status.
+ */
+export const usePerformanceInput = (onEvent: (event: PerformanceEvent) => void): PerformanceInputState => {
+    const [midiEnabled, setMidiEnabled] = useState(false);
+    const [midiStatus, setMidiStatus] = useState<MidiStatus>(() => (hasWebMidi() ? 'off' : 'unsupported'));
+    const [midiDevices, setMidiDevices] = useState<string[]>([]);
+    const onEventRef = useRef(onEvent);
+    onEventRef.current = onEvent;
+
+    // Keyboard
+    useEffect(() => {
+        const handleKey = (value: number) => (e: KeyboardEvent) => {
+            if (e.repeat || e.metaKey || e.ctrlKey || e.altKey || isEditable(e.target)) return;
+            onEventRef.current({ input: { device: 'key', code: e.code }, value });
+        };
+        const down = handleKey(1);
+        const up = handleKey(0);
+        window.addEventListener('keydown', down);
+        window.addEventListener('keyup', up);
+        return () => {
+            window.removeEventListener('keydown', down);
+            window.removeEventListener('keyup', up);
+        };
+    }, []);
+
+    // Web MIDI: every connected input, re-scanned when devices come and go
+    useEffect(() => {
+        if (!hasWebMidi()) {
+            setMidiStatus('unsupported');
+            return;
+        }
+        if (!midiEnabled) {
+            setMidiStatus('off');
+            setMidiDevices([]);
+            return;
+        }
+        setMidiStatus('pending');
+
+        let access: MIDIAccess | null = null;
+        let cancelled = false;
+        const handleMessage = (e: MIDIMessageEvent) => {
+            const event = e.data ? parseMidiMessage(e.data) : null;
+            if (event) onEventRef.current(event);
+        };
+        const connectInputs = () => {
+            if (!access) return;
+            const names: string[] = [];
+            access.inputs.forEach(input => {
+                input.onmidimessage = handleMessage;
+                names.push(input.name || input.id);
+            });
+            setMidiDevices(names);
+        };
+
+        navigator.requestMIDIAccess().then(midi => {
+            if (cancelled) return;
+            access = midi;
+            access.onstatechange = connectInputs;
+            connectInputs();
+            setMidiStatus('ready');
+        }).catch(() => {
+            if (!cancelled) setMidiStatus('denied');
+        });
+
+        return () => {
+            cancelled = true;
+            if (!access) return;
+            access.onstatechange = null;
+            access.inputs.forEach(input => { input.onmidimessage = null; });
+        };
+    }, [midiEnabled]);
+
+    return { midiStatus, midiDevices, setMidiEnabled };
+};
@@ -7,12 +7,29 @@
  * - 200ms Lookahead Buffer for predictive beat analysis
  * - beatPos metronomic quantization
  * - Close-up Lock mechanism
- * - Auto BPM Detection
+ * - Auto BPM Detection (or an offline beat grid, see trackAnalysis.ts)
+ * - Injectable clock: beat phase follows the song position (see engineClock.ts)
+ * - Seeded randomness: same rig + audio + seed = same performance (see prng.ts)
+ * - Render-ahead: planTimeline simulates a whole song, loadTimeline replays it
+ * - Declarative graphs: loadGraph swaps in a validated JSON graph (see kineticGraph.ts)
+ * - Weighted transitions with anti-repetition memory, tuned by `variety`
+ * - Musical structure: bars, phrases and section cues (see musicalStructure.ts)
+ * - One frame pool for every mixer deck (see framePool.ts)
+ * - Live performance: stutter and chaos settings, held nodes (see performanceInput.ts)
+ * - Typed onsets (kick / snare / hat / vocal) for node triggers, stutters and camera hits (see onsetClassifier.ts)
  * - Peak/Transient Detection
  * - Debug Telemetry
  */
 
-import { GeneratedFrame, EnergyLevel, SequenceMode, MoveDirection } from '../types';
+import { GeneratedFrame, EnergyLevel, SequenceMode, MoveDirection, SubjectCategory, TrackAnalysis, TrackSectionKind } from '../types';
+import { DEFAULT_KINETIC_SETTINGS, KineticSettings, biasTransitionStyle, energyThresholdScale, recencyFactor, stutterChance, transitionSharpness } from './playbackSettings';
+import { beatAt, createFeatureEstimator, sectionAt } from './trackAnalysis';
+import { EngineClock, createManualClock, createSystemClock } from './engineClock';
+import { Random, createRandom, hashString, randomSeed } from './prng';
+import { MusicalMeter, MusicalPosition, StructureCondition, StructureCue, DEFAULT_METER, matchesStructure, musicalPosition, structureCues } from './musicalStructure';
+import { KineticGraphSpec, KineticNodeSpec, GraphValidation, compileGraph, graphStart, validateGraph } from './kineticGraph';
+import { RigDeck, buildFramePool, frameKey, poolDecks } from './framePool';
+import { DEFAULT_ONSET_BINDINGS, OnsetBindings, OnsetClassifier, OnsetEvent, OnsetType, createOnsetClassifier } from './onsetClassifier';
 
 // --- DEBUG TELEMETRY ---
 export interface KineticTelemetry {
@@ -25,6 +42,8 @@ export interface KineticTelemetry {
   energy: number;
   peakDetected: boolean;
   transientDetected: boolean;
+  onsets: OnsetEvent[]; // Recent typed onsets, oldest first
+  onsetBindings: OnsetBindings;
   beatPhase: number;
   framePoolStats: {
     low: number;
@@ -36,7 +55,14 @@ export interface KineticTelemetry {
     mandalas: number;
     virtuals: number;
   };
-  transitionHistory: string[];
+  transitionHistory: string[]; // `node/pose@ms`, on the engine clock
+  meter: MusicalMeter;
+  structure: MusicalPosition;
+  variety: number;
+  transitionCandidates: TransitionCandidate[]; // Odds of the last live node decision
+  recentNodes: KineticNodeId[]; // Anti-repetition memory, oldest first
+  recentPoses: string[];
+  clockTime: number;
   audioHistory: number[];
 }
 
@@ -56,23 +82,38 @@ export type KineticNodeId =
   | 'hands'
   | 'feet'
   | 'impact'
-  | 'mandala';
+  | 'mandala'
+  | (string & {}); // Nodes of user-defined graphs
 
 export type MechanicalFX = 'none' | 'zoom' | 'mirror' | 'stutter' | 'mandala';
 export type TransitionStyle = 'CUT' | 'SLIDE' | 'MORPH' | 'SMOOTH' | 'ZOOM_IN';
 
 export interface KineticNode {
   id: KineticNodeId;
-  possibleTransitions: KineticNodeId[];
+  possibleTransitions: KineticNodeId[]; // Heaviest first
+  transitionWeights: Partial<Record<KineticNodeId, number>>;
   energyRequirement: number; // 0.0 - 1.0 threshold to enter
   exitThreshold: number; // Energy below this exits to idle
   mechanicalFx: MechanicalFX;
   preferredTransition: TransitionStyle;
   minDuration: number; // Minimum ms before allowing transition (Lock mechanism)
-  frameSelector: (frames: KineticFramePool) => GeneratedFrame | null;
+  when?: StructureCondition; // Only enterable where the song structure matches
+  cue?: StructureCondition; // Cut here when a matching beat starts (from any node)
+  trigger?: OnsetType[]; // Leave on these onsets instead of on the beat
+  frameSelector: (frames: KineticFramePool, pick: FramePicker) => GeneratedFrame | null;
+}
+
+// Draws one frame from a list (seeded, recency-weighted); undefined if empty
+export type FramePicker = (frames: GeneratedFrame[]) => GeneratedFrame | undefined;
+
+export interface TransitionCandidate {
+  node: KineticNodeId;
+  weight: number; // Edge weight × sequence-mode bias × recency penalty
+  probability: number;
 }
 
 export interface KineticFramePool {
+  all: GeneratedFrame[]; // Queried by graph frame queries
   byEnergy: Record<EnergyLevel, GeneratedFrame[]>;
   closeups: GeneratedFrame[];
   hands: GeneratedFrame[];
@@ -83,6 +124,59 @@ export interface KineticFramePool {
   byDirection: Record<MoveDirection, GeneratedFrame[]>;
 }
 
+// --- CHOREOGRAPHY TIMELINE ---
+
+export interface CameraImpulse {
+  type: 'zoom' | 'bounce';
+  amount: number; // zoom: target scale, bounce: bass level or onset strength
+  onset?: OnsetType; // The bound onset behind a bounce
+}
+
+// `locked` = placed or edited by the user; kept when the song is planned again
+export interface TimelineTransition {
+  time: number;
+  kind: 'transition';
+  node: KineticNodeId;
+  pose: string;
+  frame?: string; // frameKey (deck + pose); timelines saved before decks had keys only carry the pose
+  style: TransitionStyle;
+  locked?: boolean;
+}
+
+export type TimelineEvent =
+  | TimelineTransition
+  | { time: number; kind: 'camera'; impulse: CameraImpulse };
+
+// A whole song decided ahead of time; `time` is ms into the song
+export interface ChoreographyTimeline {
+  seed: number;
+  bpm: number;
+  durationMs: number;
+  events: TimelineEvent[];
+}
+
+const PLAN_STEP_MS = 1000 / 60;
+const ZOOM_IMPULSE = 1.5;
+
+/**
+ * Last transition at or before `ms`, or null before the first one.
+ */
+export const timelineTransitionAt = (timeline: ChoreographyTimeline, ms: number): TimelineTransition | null => {
+  const { events } = timeline;
+  let lo = 0;
+  let hi = events.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (events[mid].time <= ms) lo = mid + 1;
+    else hi = mid;
+  }
+  for (let i = lo - 1; i >= 0; i--) {
+    const event = events[i];
+    if (event.kind === 'transition') return event;
+  }
+  return null;
+};
+
 export interface AudioSample {
   bass: number;
   mid: number;
@@ -98,157 +192,230 @@ export interface KineticState {
   transitionStyle: TransitionStyle;
   sourceFrame: GeneratedFrame | null;
   beatPos: number; // 0.0 - 1.0 normalized beat position
-  barCounter: number;
-  phraseCounter: number;
+  barCounter: number; // Bar within the phrase
+  phraseCounter: number; // Phrases since the first downbeat
+  structure: MusicalPosition;
+  structureCues: StructureCue[]; // Fired during the last update
+  onsets: OnsetEvent[]; // Classified since the last update
   lastTransitionTime: number;
+  lastStutterTime: number; // Last re-trigger of the current frame (auto or manual)
   isLocked: boolean; // Close-up lock active
   lockReleaseTime: number;
   sequenceMode: SequenceMode;
+  section: TrackSectionKind | null; // From the track pre-analysis, when loaded
+  cameraImpulses: CameraImpulse[]; // Fired during the last update
 }
 
 // --- THE KINETIC GRAPH (DAG) ---
+// Data form (see kineticGraph.ts); compiled into KINETIC_GRAPHS below
+const CHARACTER_GRAPH_SPEC: KineticGraphSpec = {
+  name: 'Character',
+  start: 'idle',
+  nodes: {
+    idle: {
+      transitions: { groove_left: 1, groove_right: 1, groove_center: 1, crouch: 1 },
+      energyRequirement: 0,
+      exitThreshold: 0,
+      mechanicalFx: 'none',
+      preferredTransition: 'SMOOTH',
+      minDuration: 0,
+      frames: [{ energy: 'low', pick: 'first' }, { energy: 'mid', pick: 'first' }]
+    },
+    groove_left: {
+      transitions: { idle: 1, groove_center: 1, vogue_left: 1, crouch: 1 },
+      energyRequirement: 0.3,
+      exitThreshold: 0.2,
+      mechanicalFx: 'none',
+      preferredTransition: 'CUT',
+      minDuration: 100,
+      frames: [{ direction: 'left' }, { energy: 'mid', pick: 'first' }]
+    },
+    groove_right: {
+      transitions: { idle: 1, groove_center: 1, vogue_right: 1, crouch: 1 },
+      energyRequirement: 0.3,
+      exitThreshold: 0.2,
+      mechanicalFx: 'mirror',
+      preferredTransition: 'CUT',
+      minDuration: 100,
+      frames: [{ direction: 'right' }, { energy: 'mid', pick: 'first' }]
+    },
+    groove_center: {
+      transitions: { groove_left: 1, groove_right: 1, jump: 1, spin: 1, closeup: 1 },
+      energyRequirement: 0.4,
+      exitThreshold: 0.3,
+      mechanicalFx: 'none',
+      preferredTransition: 'CUT',
+      minDuration: 150,
+      frames: [{ direction: 'center' }, { energy: 'mid', pick: 'first' }]
+    },
+    crouch: {
+      transitions: { idle: 1, jump: 1, feet: 1 },
+      energyRequirement: 0.5,
+      exitThreshold: 0.3,
+      mechanicalFx: 'none',
+      preferredTransition: 'SMOOTH',
+      minDuration: 200,
+      frames: [{ energy: 'low' }, { energy: 'mid' }]
+    },
+    jump: {
+      transitions: { crouch: 1, groove_center: 1, impact: 1 },
+      energyRequirement: 0.7,
+      exitThreshold: 0.5,
+      mechanicalFx: 'zoom',
+      preferredTransition: 'CUT',
+      minDuration: 100,
+      frames: [{ role: 'alt' }, { energy: 'high', pick: 'first' }]
+    },
+    spin: {
+      transitions: { groove_center: 1, jump: 1, vogue_left: 1, vogue_right: 1 },
+      energyRequirement: 0.6,
+      exitThreshold: 0.4,
+      mechanicalFx: 'none',
+      preferredTransition: 'MORPH',
+      minDuration: 300,
+      cue: { bars: [0], beats: [0] }, // Signature move on phrase downbeats
+      frames: [{ role: 'alt' }, { energy: 'high', pick: 'first' }]
+    },
+    vogue_left: {
+      transitions: { vogue_right: 1, groove_left: 1, hands: 1, mandala: 1 },
+      energyRequirement: 0.5,
+      exitThreshold: 0.3,
+      mechanicalFx: 'none',
+      preferredTransition: 'CUT',
+      minDuration: 150,
+      frames: [{ type: 'hands' }, { direction: 'left', pick: 'first' }]
+    },
+    vogue_right: {
+      transitions: { vogue_left: 1, groove_right: 1, hands: 1, mandala: 1 },
+      energyRequirement: 0.5,
+      exitThreshold: 0.3,
+      mechanicalFx: 'mirror',
+      preferredTransition: 'CUT',
+      minDuration: 150,
+      frames: [{ type: 'hands' }, { direction: 'right', pick: 'first' }]
+    },
+    closeup: {
+      transitions: { groove_center: 1, idle: 1 },
+      energyRequirement: 0.6,
+      exitThreshold: 0.4,
+      mechanicalFx: 'zoom',
+      preferredTransition: 'ZOOM_IN',
+      minDuration: 500, // Close-up Lock: Minimum 500ms
+      frames: [{ type: 'closeup' }, { virtual: true, pick: 'first' }]
+    },
+    hands: {
+      transitions: { vogue_left: 1, vogue_right: 1, mandala: 1, groove_center: 1 },
+      energyRequirement: 0.5,
+      exitThreshold: 0.3,
+      mechanicalFx: 'none',
+      preferredTransition: 'CUT',
+      minDuration: 200,
+      frames: [{ type: 'hands' }]
+    },
+    feet: {
+      transitions: { crouch: 1, groove_left: 1, groove_right: 1 },
+      energyRequirement: 0.4,
+      exitThreshold: 0.2,
+      mechanicalFx: 'none',
+      preferredTransition: 'CUT',
+      minDuration: 200,
+      frames: [{ type: 'feet' }]
+    },
+    impact: {
+      transitions: { groove_center: 1, crouch: 1, mandala: 1 },
+      energyRequirement: 0.8,
+      exitThreshold: 0.6,
+      mechanicalFx: 'zoom',
+      preferredTransition: 'CUT',
+      minDuration: 100,
+      frames: [{ virtual: true }, { energy: 'high', pick: 'first' }]
+    },
+    mandala: {
+      transitions: { hands: 1, groove_center: 1, impact: 1 },
+      energyRequirement: 0.7,
+      exitThreshold: 0.5,
+      mechanicalFx: 'mandala',
+      preferredTransition: 'CUT',
+      minDuration: 300,
+      frames: [{ type: 'hands', pose: 'mandala' }, { type: 'hands', pick: 'first' }]
+    }
+  }
+};
+
+// --- CATEGORY GRAPHS ---
 
-const KINETIC_GRAPH: Record<KineticNodeId, KineticNode> = {
-  idle: {
-    id: 'idle',
-    possibleTransitions: ['groove_left', 'groove_right', 'groove_center', 'crouch'],
-    energyRequirement: 0,
-    exitThreshold: 0,
-    mechanicalFx: 'none',
-    preferredTransition: 'SMOOTH',
-    minDuration: 0,
-    frameSelector: (pool) => pool.byEnergy.low[0] || pool.byEnergy.mid[0] || null
-  },
-  groove_left: {
-    id: 'groove_left',
-    possibleTransitions: ['idle', 'groove_center', 'vogue_left', 'crouch'],
-    energyRequirement: 0.3,
-    exitThreshold: 0.2,
-    mechanicalFx: 'none',
-    preferredTransition: 'CUT',
-    minDuration: 100,
-    frameSelector: (pool) => pool.byDirection.left[Math.floor(Math.random() * pool.byDirection.left.length)] || pool.byEnergy.mid[0]
-  },
-  groove_right: {
-    id: 'groove_right',
-    possibleTransitions: ['idle', 'groove_center', 'vogue_right', 'crouch'],
-    energyRequirement: 0.3,
-    exitThreshold: 0.2,
-    mechanicalFx: 'mirror',
-    preferredTransition: 'CUT',
-    minDuration: 100,
-    frameSelector: (pool) => pool.byDirection.right[Math.floor(Math.random() * pool.byDirection.right.length)] || pool.byEnergy.mid[0]
-  },
-  groove_center: {
-    id: 'groove_center',
-    possibleTransitions: ['groove_left', 'groove_right', 'jump', 'spin', 'closeup'],
-    energyRequirement: 0.4,
-    exitThreshold: 0.3,
-    mechanicalFx: 'none',
-    preferredTransition: 'CUT',
-    minDuration: 150,
-    frameSelector: (pool) => pool.byDirection.center[Math.floor(Math.random() * pool.byDirection.center.length)] || pool.byEnergy.mid[0]
-  },
-  crouch: {
-    id: 'crouch',
-    possibleTransitions: ['idle', 'jump', 'feet'],
-    energyRequirement: 0.5,
-    exitThreshold: 0.3,
-    mechanicalFx: 'none',
-    preferredTransition: 'SMOOTH',
-    minDuration: 200,
-    frameSelector: (pool) => pool.byEnergy.low[Math.floor(Math.random() * pool.byEnergy.low.length)]
-  },
-  jump: {
-    id: 'jump',
-    possibleTransitions: ['crouch', 'groove_center', 'impact'],
-    energyRequirement: 0.7,
-    exitThreshold: 0.5,
-    mechanicalFx: 'zoom',
-    preferredTransition: 'CUT',
-    minDuration: 100,
-    frameSelector: (pool) => pool.acrobatics[Math.floor(Math.random() * pool.acrobatics.length)] || pool.byEnergy.high[0]
-  },
-  spin: {
-    id: 'spin',
-    possibleTransitions: ['groove_center', 'jump', 'vogue_left', 'vogue_right'],
-    energyRequirement: 0.6,
-    exitThreshold: 0.4,
-    mechanicalFx: 'none',
-    preferredTransition: 'MORPH',
-    minDuration: 300,
-    frameSelector: (pool) => pool.acrobatics[Math.floor(Math.random() * pool.acrobatics.length)] || pool.byEnergy.high[0]
-  },
-  vogue_left: {
-    id: 'vogue_left',
-    possibleTransitions: ['vogue_right', 'groove_left', 'hands', 'mandala'],
-    energyRequirement: 0.5,
-    exitThreshold: 0.3,
-    mechanicalFx: 'none',
-    preferredTransition: 'CUT',
-    minDuration: 150,
-    frameSelector: (pool) => pool.hands[Math.floor(Math.random() * pool.hands.length)] || pool.byDirection.left[0]
-  },
-  vogue_right: {
-    id: 'vogue_right',
-    possibleTransitions: ['vogue_left', 'groove_right', 'hands', 'mandala'],
-    energyRequirement: 0.5,
-    exitThreshold: 0.3,
-    mechanicalFx: 'mirror',
-    preferredTransition: 'CUT',
-    minDuration: 150,
-    frameSelector: (pool) => pool.hands[Math.floor(Math.random() * pool.hands.length)] || pool.byDirection.right[0]
-  },
-  closeup: {
-    id: 'closeup',
-    possibleTransitions: ['groove_center', 'idle'],
-    energyRequirement: 0.6,
-    exitThreshold: 0.4,
-    mechanicalFx: 'zoom',
-    preferredTransition: 'ZOOM_IN',
-    minDuration: 500, // Close-up Lock: Minimum 500ms
-    frameSelector: (pool) => pool.closeups[Math.floor(Math.random() * pool.closeups.length)] || pool.virtuals[0]
-  },
-  hands: {
-    id: 'hands',
-    possibleTransitions: ['vogue_left', 'vogue_right', 'mandala', 'groove_center'],
-    energyRequirement: 0.5,
-    exitThreshold: 0.3,
-    mechanicalFx: 'none',
-    preferredTransition: 'CUT',
-    minDuration: 200,
-    frameSelector: (pool) => pool.hands[Math.floor(Math.random() * pool.hands.length)]
-  },
-  feet: {
-    id: 'feet',
-    possibleTransitions: ['crouch', 'groove_left', 'groove_right'],
-    energyRequirement: 0.4,
-    exitThreshold: 0.2,
-    mechanicalFx: 'none',
-    preferredTransition: 'CUT',
-    minDuration: 200,
-    frameSelector: (pool) => pool.feet[Math.floor(Math.random() * pool.feet.length)]
-  },
-  impact: {
-    id: 'impact',
-    possibleTransitions: ['groove_center', 'crouch', 'mandala'],
-    energyRequirement: 0.8,
-    exitThreshold: 0.6,
-    mechanicalFx: 'zoom',
-    preferredTransition: 'CUT',
-    minDuration: 100,
-    frameSelector: (pool) => pool.virtuals[Math.floor(Math.random() * pool.virtuals.length)] || pool.byEnergy.high[0]
-  },
-  mandala: {
-    id: 'mandala',
-    possibleTransitions: ['hands', 'groove_center', 'impact'],
-    energyRequirement: 0.7,
-    exitThreshold: 0.5,
-    mechanicalFx: 'mandala',
-    preferredTransition: 'CUT',
-    minDuration: 300,
-    frameSelector: (pool) => pool.mandalas[Math.floor(Math.random() * pool.mandalas.length)] || pool.hands[0]
+/**
+ * Derive a graph from the character graph with restricted transitions. Nodes
+ * that are not listed keep their config but can only return to the groove, so
+ * a forced state (manual trigger) never strands the engine; they lose their
+ * structure cues.
+ */
+const restrictGraph = (name: string, transitions: Partial<Record<KineticNodeId, KineticNodeId[]>>): KineticGraphSpec => {
+  const nodes: KineticGraphSpec['nodes'] = {};
+  for (const [id, node] of Object.entries(CHARACTER_GRAPH_SPEC.nodes) as [KineticNodeId, KineticNodeSpec][]) {
+    const listed = transitions[id];
+    const targets = listed || ['groove_center', 'idle'];
+    nodes[id] = { ...node, transitions: Object.fromEntries(targets.map(target => [target, 1])), cue: listed ? node.cue : undefined };
   }
+  return { ...CHARACTER_GRAPH_SPEC, name, nodes };
+};
+
+// Lettering: sway and pulse, no body-part nodes (the sheets have none)
+const TEXT_GRAPH_SPEC = restrictGraph('Text', {
+  idle: ['groove_left', 'groove_right', 'groove_center'],
+  groove_left: ['idle', 'groove_center', 'groove_right'],
+  groove_right: ['idle', 'groove_center', 'groove_left'],
+  groove_center: ['groove_left', 'groove_right', 'jump', 'impact'],
+  jump: ['groove_center', 'impact'],
+  impact: ['groove_center', 'idle']
+});
+
+// Emblems: like lettering, plus spins and radial bursts
+const SYMBOL_GRAPH_SPEC = restrictGraph('Symbol', {
+  idle: ['groove_left', 'groove_right', 'groove_center'],
+  groove_left: ['idle', 'groove_center', 'groove_right'],
+  groove_right: ['idle', 'groove_center', 'groove_left'],
+  groove_center: ['groove_left', 'groove_right', 'jump', 'spin', 'impact'],
+  jump: ['groove_center', 'spin', 'impact'],
+  spin: ['groove_center', 'impact', 'mandala'],
+  impact: ['groove_center', 'spin', 'mandala', 'idle'],
+  mandala: ['impact', 'groove_center']
+});
+
+export const KINETIC_GRAPH_SPECS: Record<SubjectCategory, KineticGraphSpec> = {
+  CHARACTER: CHARACTER_GRAPH_SPEC,
+  TEXT: TEXT_GRAPH_SPEC,
+  SYMBOL: SYMBOL_GRAPH_SPEC
+};
+
+export const KINETIC_GRAPHS: Record<SubjectCategory, Record<KineticNodeId, KineticNode>> = {
+  CHARACTER: compileGraph(CHARACTER_GRAPH_SPEC),
+  TEXT: compileGraph(TEXT_GRAPH_SPEC),
+  SYMBOL: compileGraph(SYMBOL_GRAPH_SPEC)
+};
+
+// --- TRANSITION WEIGHTING ---
+
+// Sequence-mode preferences, most preferred first; each step up doubles the edge
+// weight, so at variety 0 they act as a priority list
+const SEQUENCE_MODE_PREFERENCES: Record<SequenceMode, KineticNodeId[][]> = {
+  GROOVE: [['groove_left', 'groove_center'], ['groove_right', 'groove_center']], // Ping-pong per beat
+  EMOTE: [['closeup', 'hands']],
+  IMPACT: [['impact', 'mandala', 'jump']],
+  FOOTWORK: [['feet', 'crouch']]
+};
+
+const RECENCY_MEMORY = 8; // Nodes / frames remembered for the repetition penalty
+const STUTTER_GAP_MS = 80; // Auto stutters re-trigger at most this often
+const ONSET_MEMORY = 16; // Onsets kept for telemetry
+const SPECTRUM_TIMEOUT_MS = 1000; // Onset bindings fall back to the levels after this long without a spectrum
+const SEEK_TOLERANCE_S = 0.25; // Song position may drift this far from the wall clock before it counts as a seek
+const MAX_PLAYBACK_RATE = 2; // Fastest the song position is expected to run
+
+// Picks since `item` was last used (0 = the latest), null if not in memory
+const recentAge = <T>(recent: T[], item: T): number | null => {
+  const i = recent.lastIndexOf(item);
+  return i < 0 ? null : recent.length - 1 - i;
 };
 
 // --- BPM DETECTOR ---
@@ -500,7 +667,9 @@ export class AudioLookaheadBuffer {
 // --- KINETIC ENGINE ---
 
 export class KineticEngine {
-  private graph: Record<KineticNodeId, KineticNode> = KINETIC_GRAPH;
+  private graphSpec: KineticGraphSpec = CHARACTER_GRAPH_SPEC;
+  private graph: Record<KineticNodeId, KineticNode> = KINETIC_GRAPHS.CHARACTER;
+  private startNode: KineticNodeId = graphStart(CHARACTER_GRAPH_SPEC);
   private state: KineticState;
   private framePool: KineticFramePool;
   private audioBuffer: AudioLookaheadBuffer;
@@ -513,17 +682,72 @@ export class KineticEngine {
   // Enhanced detection
   private bpmDetector: BPMDetector;
   private transientDetector: TransientDetector;
+  private onsetClassifier: OnsetClassifier;
   private autoBPM: boolean = true;
   private bpmConfidence: number = 0;
 
+  // Time source; its song position drives beat phase
+  private clock: EngineClock;
+
+  // Seeded randomness for frame picks, style bias and glitches
+  private seed: number;
+  private random: Random;
+  private fxRandom: Random; // Auto stutter and chaos, so they don't shift the move draws
+
+  // Offline pre-analysis: beat grid + sections
+  private track: TrackAnalysis | null = null;
+  private lastSongBeat: number = -1;
+  private playbackRate: number = 1;
+
+  // Last song position seen, to notice seeks and loops
+  private lastPosition: number | null = null;
+  private lastPositionTime: number = 0;
+
+  // Beats per bar / bars per phrase for the structure counters
+  private meter: MusicalMeter = { ...DEFAULT_METER };
+
+  // Render-ahead replay (see planTimeline)
+  private timeline: ChoreographyTimeline | null = null;
+  private lastTimelineMs: number | null = null;
+  private framesByKey: Map<string, GeneratedFrame> = new Map(); // frameKey, and bare pose for the first deck holding it
+  private lastBounceTime: number = -Infinity;
+  private transitionCount: number = 0;
+
+  // Director settings (intensity / smoothness / variety)
+  private settings: KineticSettings = { ...DEFAULT_KINETIC_SETTINGS };
+
+  // Performer mode: moves come from forceState only (see performers.ts)
+  private following: boolean = false;
+
+  // Live performance: a held node (close-up lock pad), this beat's chaos roll
+  // and whether mid was already above the stutter threshold last update
+  private heldNode: KineticNodeId | null = null;
+  private chaosBeat: boolean = false;
+  private midHit: boolean = false;
+
+  // Typed onsets: waiting for the next update, and what they drive
+  private pendingOnsets: OnsetEvent[] = [];
+  private recentOnsets: OnsetEvent[] = [];
+  private lastSpectrumTime: number = -Infinity;
+  private onsetBindings: OnsetBindings = { ...DEFAULT_ONSET_BINDINGS };
+
+  // Anti-repetition memory (oldest first) and the last node decision's odds
+  private recentNodes: KineticNodeId[] = [];
+  private recentPoses: string[] = [];
+  private transitionCandidates: TransitionCandidate[] = [];
+
   // Telemetry
   private transitionHistory: string[] = [];
   private lastPeakDetected: boolean = false;
   private lastTransientDetected: boolean = false;
 
-  constructor() {
+  constructor(clock: EngineClock = createSystemClock(), seed: number = randomSeed()) {
+    this.clock = clock;
+    this.seed = seed;
+    this.random = createRandom(seed);
+    this.fxRandom = createRandom(seed ^ hashString('fx'));
     this.state = {
-      currentNode: 'idle',
+      currentNode: this.startNode,
       currentFrame: null,
       transitionProgress: 1.0,
       transitionStyle: 'CUT',
@@ -531,26 +755,24 @@ export class KineticEngine {
       beatPos: 0,
       barCounter: 0,
       phraseCounter: 0,
+      structure: musicalPosition(0, DEFAULT_METER),
+      structureCues: [],
+      onsets: [],
       lastTransitionTime: 0,
+      lastStutterTime: -Infinity,
       isLocked: false,
       lockReleaseTime: 0,
-      sequenceMode: 'GROOVE'
+      sequenceMode: 'GROOVE',
+      section: null,
+      cameraImpulses: []
     };
 
-    this.framePool = {
-      byEnergy: { low: [], mid: [], high: [] },
-      closeups: [],
-      hands: [],
-      feet: [],
-      mandalas: [],
-      virtuals: [],
-      acrobatics: [],
-      byDirection: { left: [], right: [], center: [] }
-    };
+    this.framePool = buildFramePool([]);
 
     this.audioBuffer = new AudioLookaheadBuffer(200, 60);
     this.bpmDetector = new BPMDetector();
     this.transientDetector = new TransientDetector();
+    this.onsetClassifier = createOnsetClassifier();
   }
 
   /**
@@ -562,66 +784,227 @@ export class KineticEngine {
   }
 
   /**
-   * Load frames into the pool, categorizing by type/energy/direction.
+   * Hand over the offline analysis of the loaded song. BPM and confidence are
+   * known from the first bar, and live BPM detection stands down.
    */
-  loadFramePool(frames: GeneratedFrame[]): void {
-    // Reset pools
-    this.framePool = {
-      byEnergy: { low: [], mid: [], high: [] },
-      closeups: [],
-      hands: [],
-      feet: [],
-      mandalas: [],
-      virtuals: [],
-      acrobatics: [],
-      byDirection: { left: [], right: [], center: [] }
-    };
+  loadTrackAnalysis(analysis: TrackAnalysis | null): void {
+    this.track = analysis;
+    this.lastSongBeat = -1;
+    this.state.section = null;
+    if (analysis) {
+      this.setBPM(analysis.bpm * this.playbackRate);
+      this.bpmConfidence = analysis.confidence;
+      this.bpmDetector.reset();
+    }
+  }
 
-    for (const frame of frames) {
-      // Energy sorting
-      if (frame.energy && this.framePool.byEnergy[frame.energy]) {
-        this.framePool.byEnergy[frame.energy].push(frame);
-      }
+  /**
+   * Swap the time source (e.g. follow the <audio> element instead of the wall clock).
+   */
+  setClock(clock: EngineClock): void {
+    this.clock = clock;
+    this.lastSongBeat = -1;
+    this.lastPosition = null;
+  }
 
-      // Direction sorting
-      const dir = frame.direction || 'center';
-      this.framePool.byDirection[dir].push(frame);
-
-      // Type sorting
-      if (frame.type === 'closeup') {
-        this.framePool.closeups.push(frame);
-      } else if (frame.type === 'hands') {
-        this.framePool.hands.push(frame);
-        if (frame.pose?.includes('mandala')) {
-          this.framePool.mandalas.push(frame);
-        }
-      } else if (frame.type === 'feet') {
-        this.framePool.feet.push(frame);
-      }
+  /**
+   * Speed the song plays at. An analysed track's tempo is scaled with it; the
+   * beat grid itself follows the clock's position either way.
+   */
+  setPlaybackRate(rate: number): void {
+    this.playbackRate = rate;
+    if (this.track) this.setBPM(this.track.bpm * rate);
+  }
 
-      // Role sorting
-      if (frame.role === 'alt') {
-        this.framePool.acrobatics.push(frame);
-      }
+  /**
+   * Pick the song up again after its position jumped (seek, loop, A/B region).
+   * The beat, bar and phrase counters restart from the new position, a
+   * timeline resumes without firing what was skipped, and locks and detector
+   * history from before the jump are dropped. `update` calls this itself when
+   * the clock's position jumps.
+   */
+  resync(): void {
+    this.lastSongBeat = -1;
+    this.lastTimelineMs = null;
+    this.state.isLocked = false;
+    this.transientDetector.reset();
+    this.onsetClassifier.reset();
+    this.pendingOnsets = [];
+    this.audioBuffer.clear();
+  }
+
+  /**
+   * Restart the random sequence. Replaying the same audio from here with the
+   * same seed reproduces the same transitions.
+   */
+  setSeed(seed: number): void {
+    this.seed = seed;
+    this.random = createRandom(seed);
+    this.fxRandom = createRandom(seed ^ hashString('fx'));
+  }
 
-      // Virtual frames
-      if (frame.isVirtual) {
-        this.framePool.virtuals.push(frame);
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Simulate the whole song ahead of time on a copy of this engine (same
+   * graph, frames, settings and seed) fed with features estimated from the
+   * analysis. Deterministic: the same inputs always give the same timeline.
+   */
+  planTimeline(analysis: TrackAnalysis, durationMs: number = analysis.duration * 1000): ChoreographyTimeline {
+    const clock = createManualClock(0);
+    const sim = new KineticEngine(clock, this.seed);
+    sim.useGraph(this.graphSpec, this.graph);
+    sim.settings = { ...this.settings };
+    sim.meter = { ...this.meter };
+    sim.framePool = this.framePool;
+    sim.framesByKey = this.framesByKey;
+    sim.loadTrackAnalysis(analysis);
+
+    const featuresAt = createFeatureEstimator(analysis);
+    const events: TimelineEvent[] = [];
+
+    for (let ms = 0; ms < durationMs; ms += PLAN_STEP_MS) {
+      const time = Math.floor(ms);
+      const { bass, mid, high } = featuresAt(ms / 1000);
+      const transitionsBefore = sim.transitionCount;
+
+      sim.feedAudio(bass, mid, high);
+      const state = sim.update(PLAN_STEP_MS / 1000);
+
+      if (sim.transitionCount !== transitionsBefore && state.currentFrame) {
+        events.push({
+          time,
+          kind: 'transition',
+          node: state.currentNode,
+          pose: state.currentFrame.pose,
+          frame: frameKey(state.currentFrame),
+          style: state.transitionStyle
+        });
       }
+      for (const impulse of state.cameraImpulses) {
+        events.push({ time, kind: 'camera', impulse });
+      }
+      clock.advance(PLAN_STEP_MS);
     }
 
-    // Ensure pools have fallbacks
-    if (this.framePool.byEnergy.low.length === 0) {
-      this.framePool.byEnergy.low = [...this.framePool.byEnergy.mid];
+    return { seed: this.seed, bpm: analysis.bpm, durationMs, events };
+  }
+
+  /**
+   * Replay a planned timeline while the clock has a song position (null =
+   * decide live again).
+   */
+  loadTimeline(timeline: ChoreographyTimeline | null): void {
+    this.timeline = timeline;
+    this.lastTimelineMs = null;
+  }
+
+  getTimeline(): ChoreographyTimeline | null {
+    return this.timeline;
+  }
+
+  /**
+   * Set beats per bar and bars per phrase. Positions are recounted on the next beat.
+   */
+  setMeter(meter: Partial<MusicalMeter>): void {
+    this.meter = { ...this.meter, ...meter };
+    this.meter.beatsPerBar = Math.max(1, Math.round(this.meter.beatsPerBar));
+  }
+
+  getMeter(): MusicalMeter {
+    return { ...this.meter };
+  }
+
+  /**
+   * Apply the Director's intensity / smoothness / variety (see playbackSettings.ts).
+   */
+  configure(settings: Partial<KineticSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+  }
+
+  /**
+   * Choose the onsets that fire auto stutters and camera bounces (see onsetClassifier.ts).
+   */
+  setOnsetBindings(bindings: OnsetBindings): void {
+    this.onsetBindings = { stutter: [...bindings.stutter], camera: [...bindings.camera] };
+  }
+
+  getOnsetBindings(): OnsetBindings {
+    return { stutter: [...this.onsetBindings.stutter], camera: [...this.onsetBindings.camera] };
+  }
+
+  /**
+   * Switch the choreography graph for the subject (see KINETIC_GRAPHS).
+   */
+  setSubjectCategory(category: SubjectCategory): void {
+    if (KINETIC_GRAPH_SPECS[category]) {
+      this.useGraph(KINETIC_GRAPH_SPECS[category], KINETIC_GRAPHS[category]);
+    } else {
+      this.useGraph(CHARACTER_GRAPH_SPEC, KINETIC_GRAPHS.CHARACTER);
     }
-    if (this.framePool.byEnergy.mid.length === 0) {
-      this.framePool.byEnergy.mid = [...this.framePool.byEnergy.low];
+  }
+
+  /**
+   * Swap in a user-defined graph (see kineticGraph.ts), validated against the
+   * loaded frames. Nothing changes if there are errors. If the current node is
+   * not in the new graph the engine continues from its start node.
+   */
+  loadGraph(spec: KineticGraphSpec): GraphValidation {
+    const validation = validateGraph(spec, this.framePool.all);
+    if (validation.errors.length === 0) {
+      this.useGraph(spec, compileGraph(spec));
     }
-    if (this.framePool.byDirection.center.length === 0) {
-      this.framePool.byDirection.center = [...this.framePool.byEnergy.mid];
+    return validation;
+  }
+
+  getGraphSpec(): KineticGraphSpec {
+    return this.graphSpec;
+  }
+
+  getStartNode(): KineticNodeId {
+    return this.startNode;
+  }
+
+  private useGraph(spec: KineticGraphSpec, graph: Record<KineticNodeId, KineticNode>): void {
+    this.graphSpec = spec;
+    this.graph = graph;
+    this.startNode = graphStart(spec);
+    if (!this.graph[this.state.currentNode]) {
+      this.state.currentNode = this.startNode;
     }
   }
 
+  /**
+   * Load frames into the pool, categorizing by type/energy/direction.
+   */
+  loadFramePool(frames: GeneratedFrame[]): void {
+    this.framePool = buildFramePool(frames);
+    this.framesByKey = new Map();
+    for (const frame of frames) {
+      this.framesByKey.set(frameKey(frame), frame);
+      if (!this.framesByKey.has(frame.pose)) this.framesByKey.set(frame.pose, frame);
+    }
+  }
+
+  /**
+   * Pool the frames of several mixer decks (see framePool.ts): validated,
+   * tagged with their deck, with virtual zooms for the close-ups.
+   */
+  loadDecks(decks: RigDeck[]): void {
+    this.loadFramePool(poolDecks(decks));
+  }
+
+  /**
+   * Hand the move decisions to someone else (a lead performer, see
+   * performers.ts). A following engine keeps counting beats and running
+   * transitions but only changes node through forceState.
+   */
+  setFollowing(following: boolean): void {
+    this.following = following;
+  }
+
   /**
    * Enable/disable automatic BPM detection.
    */
@@ -636,7 +1019,7 @@ export class KineticEngine {
    * Feed audio sample into the lookahead buffer.
    */
   feedAudio(bass: number, mid: number, high: number): void {
-    const now = Date.now();
+    const now = this.clock.now();
     const energy = bass * 0.5 + mid * 0.3 + high * 0.2;
 
     this.audioBuffer.push({
@@ -647,8 +1030,8 @@ export class KineticEngine {
       timestamp: now
     });
 
-    // Auto BPM detection
-    if (this.autoBPM) {
+    // Auto BPM detection (an analysed track already knows its tempo)
+    if (this.autoBPM && !this.track) {
       const beatDetected = this.bpmDetector.detectBeat(bass, now);
       if (beatDetected) {
         const { bpm, confidence } = this.bpmDetector.calculateBPM();
@@ -668,14 +1051,51 @@ export class KineticEngine {
     this.lastPeakDetected = this.audioBuffer.detectPeak();
   }
 
+  /**
+   * Feed the analyser's spectrum (magnitudes 0-1, `binHz` per bin) to the
+   * onset classifier. Its events reach the state on the next update.
+   */
+  feedSpectrum(spectrum: ArrayLike<number>, binHz: number): void {
+    if (spectrum.length === 0) return;
+    const now = this.clock.now();
+    this.lastSpectrumTime = now;
+    const events = this.onsetClassifier.process(spectrum, binHz, now);
+    if (events.length === 0) return;
+    this.pendingOnsets.push(...events);
+    this.recentOnsets = [...this.recentOnsets, ...events].slice(-ONSET_MEMORY);
+  }
+
   /**
    * Main update loop - call every frame.
    */
   update(deltaTime: number): KineticState {
-    const now = Date.now();
+    const now = this.clock.now();
+    this.followPosition(now);
+    this.state.cameraImpulses = [];
+    this.state.onsets = this.pendingOnsets;
+    this.pendingOnsets = [];
+
+    // Update beat position: from the song position (beat grid if analysed), else metronomic
+    const songBeat = this.getSongBeat();
+    if (songBeat) {
+      this.state.beatPos = songBeat.phase;
+    } else {
+      this.state.beatPos = ((now % this.beatDuration) / this.beatDuration);
+    }
 
-    // Update beat position (metronomic quantization)
-    this.state.beatPos = ((now % this.beatDuration) / this.beatDuration);
+    // Musical structure on each new beat. Song beats are absolute, so they land
+    // in the right place after a seek or loop; the metronome counts on.
+    this.state.structureCues = [];
+    if (songBeat) {
+      if (songBeat.index !== this.lastSongBeat) {
+        this.lastSongBeat = songBeat.index;
+        this.lastBeatTime = now;
+        this.enterBeat(songBeat.index - songBeat.firstDownbeat, songBeat.sectionStart);
+      }
+    } else if (this.state.beatPos < 0.1 && this.lastBeatTime < now - (this.beatDuration * 0.9)) {
+      this.lastBeatTime = now;
+      this.enterBeat(this.state.structure.beat + 1, false);
+    }
 
     // Update transition progress
     if (this.state.transitionProgress < 1.0) {
@@ -699,36 +1119,205 @@ export class KineticEngine {
 
     const { bass, mid, high, energy } = current;
 
-    // Determine sequence mode from audio
+    // Determine sequence mode from audio; chaos may turn any beat into an impact
     this.updateSequenceMode(bass, mid, high);
+    if (this.state.structureCues.length > 0) {
+      this.chaosBeat = this.settings.chaos > 0 && this.fxRandom() * 100 < this.settings.chaos;
+    }
+    if (this.chaosBeat) {
+      this.state.sequenceMode = 'IMPACT';
+    }
+
+    // Auto stutter on mid-range hits, or on the bound onsets. One roll per hit
+    // (mid crossing the threshold, or an onset), never per frame, so the fx
+    // draws don't depend on the frame rate.
+    const midHit = mid > 0.6;
+    const stutterHit = this.hearsOnsets(this.onsetBindings.stutter, now) ? this.strongestOnset(this.onsetBindings.stutter) !== undefined : midHit && !this.midHit;
+    this.midHit = midHit;
+    if (stutterHit && this.settings.stutter > 0 && now - this.state.lastStutterTime > STUTTER_GAP_MS && this.fxRandom() < stutterChance(this.settings.stutter)) {
+      this.triggerStutter();
+    }
+
+    const position = this.clock.position();
+    if (this.following || this.heldNode !== null) {
+      return this.state;
+    }
+    if (this.timeline && position !== null) {
+      this.replayTimeline(position * 1000, now);
+    } else {
+      const transitionsBefore = this.transitionCount;
 
-    // Check for beat-triggered transition
-    const beatTrigger = this.shouldTriggerOnBeat(bass);
+      // Structure cues (e.g. a signature move on phrase downbeats) win the beat they start
+      const cued = this.state.structureCues.length > 0 && this.fireStructureCue(energy, now);
 
-    if (beatTrigger && !this.state.isLocked) {
-      const timeSinceLastTransition = now - this.state.lastTransitionTime;
-      const currentNodeConfig = this.graph[this.state.currentNode];
+      // Check for beat-triggered transition
+      const beatTrigger = !cued && this.shouldTriggerOnBeat(bass, now);
 
-      // Respect minimum duration
-      if (timeSinceLastTransition >= currentNodeConfig.minDuration) {
-        this.attemptTransition(energy, bass, mid, high, now);
+      if (beatTrigger && !this.state.isLocked) {
+        const timeSinceLastTransition = now - this.state.lastTransitionTime;
+        const currentNodeConfig = this.getCurrentNodeConfig();
+
+        // Respect minimum duration
+        if (timeSinceLastTransition >= currentNodeConfig.minDuration) {
+          this.attemptTransition(energy, bass, mid, high, now);
+        }
       }
-    }
 
-    // Update bar/phrase counters on beat
-    if (this.state.beatPos < 0.1 && this.lastBeatTime < now - (this.beatDuration * 0.9)) {
-      this.lastBeatTime = now;
-      this.state.barCounter = (this.state.barCounter + 1) % 16;
-      this.state.phraseCounter = (this.state.phraseCounter + 1) % 8;
+      this.state.cameraImpulses = this.detectCameraImpulses(bass, now, this.transitionCount !== transitionsBefore);
     }
 
     return this.state;
   }
 
   /**
-   * Determine if we should trigger a transition based on beat position.
+   * Resync when the song position moved further than playback could have
+   * taken it since the last update. Paused time doesn't count.
+   */
+  private followPosition(now: number): void {
+    const position = this.clock.position();
+    if (position !== null && this.lastPosition !== null) {
+      const elapsed = (now - this.lastPositionTime) / 1000;
+      const moved = position - this.lastPosition;
+      if (moved < -SEEK_TOLERANCE_S || moved > elapsed * MAX_PLAYBACK_RATE + SEEK_TOLERANCE_S) this.resync();
+    }
+    if (position !== null) this.lastPosition = position;
+    this.lastPositionTime = now;
+  }
+
+  /**
+   * Beat at the clock's song position: from the analysed grid (counted from its
+   * first downbeat), or from the BPM counted from 0s. Null while no song plays.
+   * Also updates `state.section`.
+   */
+  private getSongBeat(): { index: number; phase: number; firstDownbeat: number; sectionStart: boolean } | null {
+    const position = this.clock.position();
+    if (position === null) {
+      this.state.section = null;
+      return null;
+    }
+
+    if (this.track) {
+      const section = sectionAt(this.track, position);
+      this.state.section = section?.kind ?? null;
+      const beat = beatAt(this.track, position);
+      if (!beat) return null;
+      const firstDownbeat = Math.round((this.track.downbeatOffset - this.track.beats[0]) * this.track.bpm / 60);
+      // A section started within the last bar
+      const barSeconds = (60 / this.track.bpm) * this.meter.beatsPerBar;
+      const sectionStart = section !== null && sectionAt(this.track, position - barSeconds) !== section;
+      return { ...beat, firstDownbeat, sectionStart };
+    }
+
+    const beats = (position * 1000) / this.beatDuration;
+    const index = Math.floor(beats);
+    return { index, phase: beats - index, firstDownbeat: 0, sectionStart: false };
+  }
+
+  /**
+   * Move the structure counters to `beat` (from the first downbeat) and fire
+   * its cues.
+   */
+  private enterBeat(beat: number, sectionStart: boolean): void {
+    const structure = musicalPosition(beat, this.meter, this.state.section, sectionStart);
+    this.state.structure = structure;
+    this.state.barCounter = structure.barInPhrase;
+    this.state.phraseCounter = structure.phrase;
+    this.state.structureCues = structureCues(structure, this.meter);
+  }
+
+  /**
+   * Cut to the first node whose `cue` matches the beat that just started and
+   * whose energy requirement is met. Ignores the graph's edges and locks.
+   */
+  private fireStructureCue(energy: number, now: number): boolean {
+    const thresholdScale = energyThresholdScale(this.settings.intensity);
+    for (const node of Object.values(this.graph)) {
+      if (!node.cue || node.id === this.state.currentNode) continue;
+      if (energy < node.energyRequirement * thresholdScale) continue;
+      if (!matchesStructure(this.state.structure, node.cue, this.meter)) continue;
+
+      const transitionsBefore = this.transitionCount;
+      this.transitionTo(node.id, now);
+      if (this.transitionCount !== transitionsBefore) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Whether `types` should stand in for the level-based trigger: some are
+   * bound and a spectrum has been coming in (planned timelines have none).
+   */
+  private hearsOnsets(types: OnsetType[], now: number): boolean {
+    return types.length > 0 && now - this.lastSpectrumTime < SPECTRUM_TIMEOUT_MS;
+  }
+
+  /**
+   * The strongest onset of `types` since the last update.
+   */
+  private strongestOnset(types: OnsetType[]): OnsetEvent | undefined {
+    let strongest: OnsetEvent | undefined;
+    for (const onset of this.state.onsets) {
+      if (types.includes(onset.type) && (!strongest || onset.strength > strongest.strength)) strongest = onset;
+    }
+    return strongest;
+  }
+
+  /**
+   * Camera moves for this update: a zoom when entering a `zoom` node, and a
+   * bounce on each bound onset, or once per beat on a bass hit near the beat.
+   */
+  private detectCameraImpulses(bass: number, now: number, transitioned: boolean): CameraImpulse[] {
+    const impulses: CameraImpulse[] = [];
+    if (transitioned && this.getCurrentNodeConfig().mechanicalFx === 'zoom') {
+      impulses.push({ type: 'zoom', amount: ZOOM_IMPULSE });
+    }
+    if (this.hearsOnsets(this.onsetBindings.camera, now)) {
+      const onset = this.strongestOnset(this.onsetBindings.camera);
+      if (onset) {
+        this.lastBounceTime = now;
+        impulses.push({ type: 'bounce', amount: onset.strength, onset: onset.type });
+      }
+    } else if (this.state.beatPos < 0.1 && bass > 0.5 && now - this.lastBounceTime > this.beatDuration * 0.5) {
+      this.lastBounceTime = now;
+      impulses.push({ type: 'bounce', amount: bass });
+    }
+    return impulses;
+  }
+
+  /**
+   * Follow a planned timeline instead of deciding: show the transition in
+   * effect at `ms` and fire the camera events passed since the last update.
+   * Nothing fires across a seek.
    */
-  private shouldTriggerOnBeat(bass: number): boolean {
+  private replayTimeline(ms: number, now: number): void {
+    const timeline = this.timeline!;
+    const event = timelineTransitionAt(timeline, ms);
+    if (event) {
+      const key = event.frame ?? event.pose;
+      const current = this.state.currentFrame;
+      // Editor pins and old timelines carry a bare pose (no deck), which matches on the pose alone
+      const showing = current && (key.includes('/') ? frameKey(current) : current.pose);
+      const frame = key !== showing ? this.framesByKey.get(key) : undefined;
+      if (frame) this.applyTransition(event.node, frame, event.style, now);
+    }
+
+    const last = this.lastTimelineMs;
+    this.state.cameraImpulses = last !== null && ms >= last && ms - last < 250
+      ? timeline.events.flatMap(e => (e.kind === 'camera' && e.time > last && e.time <= ms ? [e.impulse] : []))
+      : [];
+    this.lastTimelineMs = ms;
+  }
+
+  /**
+   * Determine if we should trigger a transition: on the node's trigger onsets
+   * while they are heard, else on beat position.
+   */
+  private shouldTriggerOnBeat(bass: number, now: number): boolean {
+    const { trigger } = this.getCurrentNodeConfig();
+    if (trigger && this.hearsOnsets(trigger, now)) {
+      return this.strongestOnset(trigger) !== undefined;
+    }
+
     // Trigger near beat boundaries (first 10% or last 10% of beat)
     const nearBeat = this.state.beatPos < 0.1 || this.state.beatPos > 0.9;
 
@@ -742,9 +1331,16 @@ export class KineticEngine {
    * Update sequence mode based on audio characteristics.
    */
   private updateSequenceMode(bass: number, mid: number, high: number): void {
-    const isDrop = bass > 0.8;
-    const isPeak = high > 0.7;
-    const isFill = this.state.phraseCounter === 7;
+    const { beatInBar, barInPhrase, sectionStart } = this.state.structure;
+    const phraseBars = this.meter.phraseBars;
+
+    // Drop sections hit on every downbeat; breakdowns favour close-ups, from their first bar
+    const isDrop = bass > 0.8 || (this.state.section === 'drop' && beatInBar === 0);
+    const isPeak = high > 0.7 || (this.state.section === 'breakdown' && (mid > 0.5 || sectionStart));
+
+    // Fill on the last bar of the phrase, footwork through the rest of its last quarter
+    const isFill = barInPhrase === phraseBars - 1;
+    const isFootwork = barInPhrase >= phraseBars * 0.75;
 
     const hasCloseups = this.framePool.closeups.length > 0;
     const hasHands = this.framePool.hands.length > 0;
@@ -754,10 +1350,10 @@ export class KineticEngine {
       this.state.sequenceMode = 'EMOTE';
     } else if (isDrop && hasHands) {
       this.state.sequenceMode = 'IMPACT';
-    } else if (this.state.barCounter >= 12 && hasFeet) {
-      this.state.sequenceMode = 'FOOTWORK';
     } else if (isFill) {
       this.state.sequenceMode = 'IMPACT';
+    } else if (isFootwork && hasFeet) {
+      this.state.sequenceMode = 'FOOTWORK';
     } else {
       this.state.sequenceMode = 'GROOVE';
     }
@@ -767,64 +1363,109 @@ export class KineticEngine {
    * Attempt to transition to a new node based on current audio state.
    */
   private attemptTransition(energy: number, bass: number, mid: number, high: number, now: number): void {
-    const currentNode = this.graph[this.state.currentNode];
+    const currentNode = this.getCurrentNodeConfig();
 
-    // Find valid transitions based on energy
+    // Find valid transitions based on energy (thresholds scaled by intensity)
+    const thresholdScale = energyThresholdScale(this.settings.intensity);
     const validTransitions = currentNode.possibleTransitions.filter(nodeId => {
       const targetNode = this.graph[nodeId];
-      return energy >= targetNode.energyRequirement;
+      if (targetNode.when && !matchesStructure(this.state.structure, targetNode.when, this.meter)) return false;
+      return energy >= targetNode.energyRequirement * thresholdScale;
     });
 
     if (validTransitions.length === 0) {
-      // Fall back to idle if energy drops
-      if (energy < currentNode.exitThreshold) {
-        this.transitionTo('idle', now);
+      // Fall back to the start node (idle) if energy drops
+      if (energy < currentNode.exitThreshold * thresholdScale) {
+        this.transitionTo(this.startNode, now);
       }
       return;
     }
 
-    // Select next node based on sequence mode
-    let targetNodeId: KineticNodeId = validTransitions[0];
-
-    switch (this.state.sequenceMode) {
-      case 'EMOTE':
-        targetNodeId = validTransitions.includes('closeup') ? 'closeup' :
-                       validTransitions.includes('hands') ? 'hands' : validTransitions[0];
-        break;
-      case 'IMPACT':
-        targetNodeId = validTransitions.includes('impact') ? 'impact' :
-                       validTransitions.includes('mandala') ? 'mandala' :
-                       validTransitions.includes('jump') ? 'jump' : validTransitions[0];
-        break;
-      case 'FOOTWORK':
-        targetNodeId = validTransitions.includes('feet') ? 'feet' :
-                       validTransitions.includes('crouch') ? 'crouch' : validTransitions[0];
-        break;
-      case 'GROOVE':
-      default:
-        // Ping-pong left/right based on bar counter
-        if (this.state.barCounter % 2 === 0) {
-          targetNodeId = validTransitions.includes('groove_left') ? 'groove_left' :
-                        validTransitions.includes('groove_center') ? 'groove_center' : validTransitions[0];
-        } else {
-          targetNodeId = validTransitions.includes('groove_right') ? 'groove_right' :
-                        validTransitions.includes('groove_center') ? 'groove_center' : validTransitions[0];
-        }
-        break;
-    }
+    // Weigh the candidates: edge weight, sequence-mode preference, recency penalty
+    const variety = this.settings.variety;
+    const preferences = this.getModePreferences();
+    const weights = validTransitions.map(nodeId => {
+      const rank = preferences.indexOf(nodeId);
+      const bias = rank < 0 ? 1 : 2 ** (preferences.length - rank);
+      const recency = recencyFactor(recentAge(this.recentNodes, nodeId), variety, RECENCY_MEMORY);
+      return (currentNode.transitionWeights[nodeId] ?? 1) * bias * recency;
+    });
+
+    const { index, probabilities } = this.drawWeighted(weights, transitionSharpness(variety));
+    this.transitionCandidates = validTransitions.map((node, i) => ({ node, weight: weights[i], probability: probabilities[i] }));
+    const targetNodeId = validTransitions[index];
 
     this.transitionTo(targetNodeId, now);
   }
 
+  /**
+   * Preferred nodes for the current sequence mode, most preferred first
+   * (alternating per beat where a mode has several lists).
+   */
+  private getModePreferences(): KineticNodeId[] {
+    const options = SEQUENCE_MODE_PREFERENCES[this.state.sequenceMode];
+    const beat = this.state.structure.beat;
+    return options[((beat % options.length) + options.length) % options.length];
+  }
+
+  /**
+   * Draw an index with odds proportional to weight^sharpness (Infinity = the
+   * heaviest, first on ties, without a draw). If every weight is zero the
+   * penalties are ignored and the draw is uniform.
+   */
+  private drawWeighted(weights: number[], sharpness: number): { index: number; probabilities: number[] } {
+    const usable = weights.some(w => w > 0) ? weights : weights.map(() => 1);
+
+    if (sharpness === Infinity) {
+      const index = usable.indexOf(Math.max(...usable));
+      return { index, probabilities: usable.map((_, i) => (i === index ? 1 : 0)) };
+    }
+
+    const scaled = usable.map(w => w ** sharpness);
+    const total = scaled.reduce((sum, w) => sum + w, 0);
+    const probabilities = scaled.map(w => w / total);
+    let roll = this.random() * total;
+    for (let i = 0; i < scaled.length; i++) {
+      roll -= scaled[i];
+      if (roll < 0) return { index: i, probabilities };
+    }
+    return { index: scaled.length - 1, probabilities };
+  }
+
+  /**
+   * Frame picker handed to node frame selectors: uniform at variety 0, and
+   * steering away from recently shown poses as variety rises.
+   */
+  private pickFrame(frames: GeneratedFrame[]): GeneratedFrame | undefined {
+    if (frames.length === 0) return undefined;
+    const weights = frames.map(frame => recencyFactor(recentAge(this.recentPoses, frame.pose), this.settings.variety, RECENCY_MEMORY));
+    return frames[this.drawWeighted(weights, 1).index];
+  }
+
   /**
    * Execute transition to a new node.
    */
   private transitionTo(nodeId: KineticNodeId, now: number): void {
     const targetNode = this.graph[nodeId];
-    const frame = targetNode.frameSelector(this.framePool);
+    if (!targetNode) return;
+    const frame = targetNode.frameSelector(this.framePool, frames => this.pickFrame(frames));
 
     if (!frame) return;
 
+    const style = biasTransitionStyle(targetNode.preferredTransition, targetNode.energyRequirement, this.settings.smoothness, this.random());
+    this.applyTransition(nodeId, frame, style, now);
+
+    // Apply lock for closeup/impact
+    if (targetNode.minDuration >= 500) {
+      this.state.isLocked = true;
+      this.state.lockReleaseTime = now + targetNode.minDuration;
+    }
+  }
+
+  /**
+   * Switch to a frame (decided live or read from a timeline).
+   */
+  private applyTransition(nodeId: KineticNodeId, frame: GeneratedFrame, style: TransitionStyle, now: number): void {
     // Store source frame for transitions
     this.state.sourceFrame = this.state.currentFrame;
 
@@ -832,20 +1473,19 @@ export class KineticEngine {
     this.state.currentNode = nodeId;
     this.state.currentFrame = frame;
     this.state.transitionProgress = 0;
-    this.state.transitionStyle = targetNode.preferredTransition;
+    this.state.transitionStyle = style;
     this.state.lastTransitionTime = now;
+    this.transitionCount++;
 
     // Track transition history
-    this.transitionHistory.push(`${nodeId}@${now}`);
+    this.transitionHistory.push(`${nodeId}/${frame.pose}@${now}`);
     if (this.transitionHistory.length > 50) {
       this.transitionHistory.shift();
     }
 
-    // Apply lock for closeup/impact
-    if (targetNode.minDuration >= 500) {
-      this.state.isLocked = true;
-      this.state.lockReleaseTime = now + targetNode.minDuration;
-    }
+    // Anti-repetition memory
+    this.recentNodes = [...this.recentNodes, nodeId].slice(-RECENCY_MEMORY);
+    this.recentPoses = [...this.recentPoses, frame.pose].slice(-RECENCY_MEMORY);
   }
 
   /**
@@ -866,7 +1506,23 @@ export class KineticEngine {
    * Force a specific state (for manual triggers).
    */
   forceState(nodeId: KineticNodeId): void {
-    this.transitionTo(nodeId, Date.now());
+    this.transitionTo(nodeId, this.clock.now());
+  }
+
+  /**
+   * Stay on a node until released with null (e.g. a close-up lock pad). Live
+   * and planned decisions pause meanwhile. Unknown nodes are ignored.
+   */
+  hold(nodeId: KineticNodeId | null): void {
+    if (nodeId !== null && !this.graph[nodeId]) return;
+    this.heldNode = nodeId;
+    if (nodeId !== null && this.state.currentNode !== nodeId) {
+      this.forceState(nodeId);
+    }
+  }
+
+  getHeldNode(): KineticNodeId | null {
+    return this.heldNode;
   }
 
   /**
@@ -874,6 +1530,7 @@ export class KineticEngine {
    */
   triggerStutter(): void {
     // Re-trigger current frame with instant transition
+    this.state.lastStutterTime = this.clock.now();
     this.state.transitionProgress = 0;
     this.state.transitionStyle = 'CUT';
     this.state.sourceFrame = this.state.currentFrame;
@@ -885,7 +1542,7 @@ export class KineticEngine {
   triggerGlitch(): void {
     const highFrames = this.framePool.byEnergy.high;
     if (highFrames.length > 0) {
-      const randomFrame = highFrames[Math.floor(Math.random() * highFrames.length)];
+      const randomFrame = highFrames[Math.floor(this.random() * highFrames.length)];
       this.state.sourceFrame = this.state.currentFrame;
       this.state.currentFrame = randomFrame;
       this.state.transitionProgress = 0;
@@ -901,10 +1558,11 @@ export class KineticEngine {
   }
 
   /**
-   * Get current node configuration.
+   * Get current node configuration. A node the graph does not have (replayed
+   * from a timeline planned on another graph) reads as the start node.
    */
   getCurrentNodeConfig(): KineticNode {
-    return this.graph[this.state.currentNode];
+    return this.graph[this.state.currentNode] || this.graph[this.startNode];
   }
 
   /**
@@ -914,6 +1572,15 @@ export class KineticEngine {
     return this.bpm;
   }
 
+  /**
+   * True while the analysed beat grid sets the tempo: a track analysis is
+   * loaded and the clock has a song position. Tap tempo and the BPM field
+   * wait until it doesn't (mic input, song ended).
+   */
+  followsTrackGrid(): boolean {
+    return this.track !== null && this.clock.position() !== null;
+  }
+
   /**
    * Get BPM confidence (0-1).
    */
@@ -921,6 +1588,13 @@ export class KineticEngine {
     return this.bpmConfidence;
   }
 
+  /**
+   * Recent transitions (`node/pose@ms`, last 50), e.g. to compare two runs.
+   */
+  getTransitionLog(): string[] {
+    return [...this.transitionHistory];
+  }
+
   /**
    * Get full telemetry for debug visualization.
    */
@@ -937,6 +1611,8 @@ export class KineticEngine {
       energy: current?.energy || 0,
       peakDetected: this.lastPeakDetected,
       transientDetected: this.lastTransientDetected,
+      onsets: [...this.recentOnsets],
+      onsetBindings: this.getOnsetBindings(),
       beatPhase: this.state.beatPos,
       framePoolStats: {
         low: this.framePool.byEnergy.low.length,
@@ -949,6 +1625,13 @@ export class KineticEngine {
         virtuals: this.framePool.virtuals.length
       },
       transitionHistory: [...this.transitionHistory].slice(-10),
+      meter: { ...this.meter },
+      structure: { ...this.state.structure },
+      variety: this.settings.variety,
+      transitionCandidates: [...this.transitionCandidates],
+      recentNodes: [...this.recentNodes],
+      recentPoses: [...this.recentPoses],
+      clockTime: this.clock.now(),
       audioHistory: this.audioBuffer.getEnergyHistory()
     };
   }
@@ -959,6 +1642,9 @@ export class KineticEngine {
   resetDetectors(): void {
     this.bpmDetector.reset();
     this.transientDetector.reset();
+    this.onsetClassifier.reset();
+    this.pendingOnsets = [];
+    this.recentOnsets = [];
     this.audioBuffer.clear();
     this.transitionHistory = [];
     this.bpmConfidence = 0;
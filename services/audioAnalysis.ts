@@ -0,0 +1,138 @@
+/**
+ * AUDIO ANALYSIS
+ *
+ * Band levels from the analyser's spectrum, defined in Hz so they mean the
+ * same thing at any sample rate and FFT size:
+ * - bands:    bass / mid / high, each a frequency range with a gain
+ * - fftSize:  analyser resolution (256 = snappy and coarse, 4096 = fine and slower)
+ * - smoothing: the analyser's smoothingTimeConstant
+ * - autoGain: each band is scaled against its own decaying peak, so quiet
+ *   sources (a phone mic) and hot masters drive the engine alike
+ * The app's audio hooks and the exported player (see playerExport.ts) read
+ * the same settings. The defaults match the old 256-point bins at 44.1 kHz.
+ */
+
+// --- TYPES ---
+
+export type BandId = 'bass' | 'mid' | 'high';
+
+export const BAND_IDS: BandId[] = ['bass', 'mid', 'high'];
+
+export const FFT_SIZES = [256, 512, 1024, 2048, 4096] as const;
+export type FftSize = typeof FFT_SIZES[number];
+
+export interface BandSpec {
+    lo: number; // Hz
+    hi: number; // Hz
+    gain: number; // Level multiplier, 0-4
+}
+
+export interface AudioAnalysisSettings {
+    fftSize: FftSize;
+    smoothing: number; // 0-0.99
+    autoGain: boolean;
+    bands: Record<BandId, BandSpec>;
+}
+
+export interface AudioAnalysis {
+    bass: number;
+    mid: number;
+    high: number;
+    energy: number;
+}
+
+export const DEFAULT_AUDIO_ANALYSIS: AudioAnalysisSettings = {
+    fftSize: 256,
+    smoothing: 0.8,
+    autoGain: false,
+    bands: {
+        bass: { lo: 0, hi: 860, gain: 1 },
+        mid: { lo: 860, hi: 5200, gain: 1 },
+        high: { lo: 5200, hi: 17200, gain: 1 }
+    }
+};
+
+export const MAX_BAND_HZ = 20000;
+export const MAX_BAND_GAIN = 4;
+
+// Shared with the exported player
+export const AUTO_GAIN = {
+    decay: 0.995, // Per frame: a peak halves in ~2s at 60fps
+    floor: 0.05, // Silence is not boosted into noise
+    target: 0.85 // Where the running peak lands, below the engine's hardest thresholds
+};
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+// --- BANDS ---
+
+/**
+ * Bins [from, to) of `band` for an analyser at this sample rate and FFT
+ * size; always at least one bin.
+ */
+export const bandBins = (band: BandSpec, sampleRate: number, fftSize: number): [number, number] => {
+    const binHz = sampleRate / fftSize;
+    const count = fftSize / 2;
+    const from = clamp(Math.round(band.lo / binHz), 0, count - 1);
+    return [from, clamp(Math.round(band.hi / binHz), from + 1, count)];
+};
+
+/**
+ * Average level (0-1) of each band in a byte spectrum (getByteFrequencyData),
+ * before gain.
+ */
+export const bandLevels = (data: ArrayLike<number>, sampleRate: number, settings: AudioAnalysisSettings): Record<BandId, number> => {
+    const levels = {} as Record<BandId, number>;
+    for (const id of BAND_IDS) {
+        const [from, to] = bandBins(settings.bands[id], sampleRate, data.length * 2);
+        let sum = 0;
+        for (let i = from; i < to; i++) sum += data[i];
+        levels[id] = sum / ((to - from) * 255);
+    }
+    return levels;
+};
+
+/**
+ * Settings from the editor or a saved project, made safe: a known FFT size,
+ * bands inside 0-20 kHz with lo below hi, gains 0-4.
+ */
+export const sanitizeAudioAnalysis = (settings: Partial<AudioAnalysisSettings> | undefined): AudioAnalysisSettings => {
+    const fftSize = FFT_SIZES.includes(settings?.fftSize as FftSize) ? settings!.fftSize! : DEFAULT_AUDIO_ANALYSIS.fftSize;
+    const smoothing = typeof settings?.smoothing === 'number' ? clamp(settings.smoothing, 0, 0.99) : DEFAULT_AUDIO_ANALYSIS.smoothing;
+    const bands = {} as Record<BandId, BandSpec>;
+    for (const id of BAND_IDS) {
+        const band = { ...DEFAULT_AUDIO_ANALYSIS.bands[id], ...settings?.bands?.[id] };
+        const lo = clamp(band.lo, 0, MAX_BAND_HZ - 1);
+        bands[id] = { lo, hi: clamp(band.hi, lo + 1, MAX_BAND_HZ), gain: clamp(band.gain, 0, MAX_BAND_GAIN) };
+    }
+    return { fftSize, smoothing, autoGain: settings?.autoGain === true, bands };
+};
+
+// --- ANALYSER ---
+
+export interface BandAnalyser {
+    /** Band levels and energy for one byte spectrum; auto gain learns from every call. */
+    analyse(data: ArrayLike<number>, sampleRate: number, settings: AudioAnalysisSettings): AudioAnalysis;
+    reset(): void;
+}
+
+export const createBandAnalyser = (): BandAnalyser => {
+    let peaks: Record<BandId, number> = { bass: 0, mid: 0, high: 0 };
+
+    return {
+        analyse(data, sampleRate, settings) {
+            if (data.length === 0) return { bass: 0, mid: 0, high: 0, energy: 0 };
+            const levels = bandLevels(data, sampleRate, settings);
+            const out = {} as Record<BandId, number>;
+            for (const id of BAND_IDS) {
+                peaks[id] = Math.max(levels[id], peaks[id] * AUTO_GAIN.decay);
+                const level = settings.autoGain ? levels[id] / Math.max(peaks[id], AUTO_GAIN.floor) * AUTO_GAIN.target : levels[id];
+                out[id] = clamp(level * settings.bands[id].gain, 0, 1);
+            }
+            return { ...out, energy: out.bass * 0.5 + out.mid * 0.3 + out.high * 0.2 };
+        },
+        reset() {
+            peaks = { bass: 0, mid: 0, high: 0 };
+        }
+    };
+};
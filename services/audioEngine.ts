@@ -0,0 +1,396 @@
+/**
+ * AUDIO ENGINE
+ *
+ * The app's one Web Audio graph, shared by the audio hooks:
+ *
+ *   source ──► input ──┬──► [analyser]  band levels, spectrum, onsets
+ *                      ├──► [speakers]  ctx.destination
+ *                      └──► [recorder]  MediaStreamDestination for REC VIDEO
+ *
+ * One source plays at a time: a file (an <audio> element), the mic, a shared
+ * browser tab or a generated test tone. Each route is a gain node wired once
+ * when the context is built, so switching sources only connects the new
+ * source to the input and sets the route gains. An element is wrapped in a
+ * MediaElementAudioSourceNode once per context and reused after that;
+ * nothing is ever connected twice. Failures are reported, not swallowed.
+ *
+ * The context is created on first use (from a click, so it may start) and
+ * closed shortly after the last user releases it.
+ */
+
+// --- TYPES ---
+
+export type AudioSourceKind = 'file' | 'mic' | 'tab' | 'tone';
+
+export type AudioRoute = 'analyser' | 'speakers' | 'recorder';
+
+export const AUDIO_ROUTES: AudioRoute[] = ['analyser', 'speakers', 'recorder'];
+
+export type AudioRoutes = Record<AudioRoute, boolean>;
+
+// The mic would feed back and a shared tab already plays itself
+export const SOURCE_ROUTES: Record<AudioSourceKind, AudioRoutes> = {
+    file: { analyser: true, speakers: true, recorder: true },
+    mic: { analyser: true, speakers: false, recorder: true },
+    tab: { analyser: true, speakers: false, recorder: true },
+    tone: { analyser: true, speakers: true, recorder: true }
+};
+
+export interface TestTone {
+    frequency: number; // Hz of the sine
+    bpm: number; // It pulses on and off once per beat
+}
+
+export const DEFAULT_TEST_TONE: TestTone = { frequency: 55, bpm: 120 };
+
+export interface AudioEngineSnapshot {
+    source: AudioSourceKind | null;
+    routes: AudioRoutes;
+    contextState: AudioContextState | 'none'; // 'none' before first use and after closing
+    error: string | null; // Why the last source failed to start
+}
+
+export interface AudioFrame {
+    data: Uint8Array; // getByteFrequencyData; reused by the next read
+    sampleRate: number;
+}
+
+export interface AudioEngine {
+    /** Keep the graph alive while a component uses it; returns the release. */
+    retain(): () => void;
+    /** The context, built on first use and resumed. Call from a user gesture. */
+    ensureContext(): AudioContext;
+
+    /** Make this element the source. Repeat calls for the same element are free. */
+    connectFile(element: HTMLMediaElement): void;
+    startMic(): Promise<void>;
+    startTabCapture(): Promise<void>;
+    startTone(tone?: Partial<TestTone>): void;
+    stopSource(): void;
+
+    /** Override one route of the current source until the next source starts. */
+    setRoute(route: AudioRoute, enabled: boolean): void;
+    configureAnalyser(fftSize: number, smoothing: number): void;
+    /**
+     * The analyser's latest spectrum, or null before the context exists. Read
+     * at most once per audio render quantum; callers in the same frame share it.
+     */
+    readSpectrum(): AudioFrame | null;
+    getRecorderNode(): MediaStreamAudioDestinationNode | null;
+
+    /** For useSyncExternalStore: the same object until something changes. */
+    getSnapshot(): AudioEngineSnapshot;
+    subscribe(listener: () => void): () => void;
+}
+
+interface EngineOptions {
+    closeGraceMs: number; // Survives a StrictMode or route remount without rebuilding
+}
+
+const DEFAULT_OPTIONS: EngineOptions = { closeGraceMs: 2000 };
+
+const NO_ROUTES: AudioRoutes = { analyser: false, speakers: false, recorder: false };
+
+interface Graph {
+    ctx: AudioContext;
+    input: GainNode;
+    analyser: AnalyserNode;
+    recorder: MediaStreamAudioDestinationNode;
+    routes: Record<AudioRoute, GainNode>;
+    elements: WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>;
+    spectrum: Uint8Array;
+    spectrumTime: number; // ctx.currentTime of the last read, -1 = stale
+}
+
+interface ActiveSource {
+    kind: AudioSourceKind;
+    element?: HTMLMediaElement;
+    stop(): void; // Disconnect from the input and release whatever the source holds
+}
+
+const describe = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+// --- ENGINE ---
+
+export const createAudioEngine = (options: Partial<EngineOptions> = {}): AudioEngine => {
+    const { closeGraceMs } = { ...DEFAULT_OPTIONS, ...options };
+
+    let graph: Graph | null = null;
+    let active: ActiveSource | null = null;
+    let routes: AudioRoutes = NO_ROUTES;
+    let error: string | null = null;
+    let analyserConfig = { fftSize: 256, smoothing: 0.8 };
+    let users = 0;
+    let closeTimer: ReturnType<typeof setTimeout> | null = null;
+    let snapshot: AudioEngineSnapshot = { source: null, routes, contextState: 'none', error };
+    const listeners = new Set<() => void>();
+
+    const notify = () => {
+        snapshot = { source: active?.kind ?? null, routes, contextState: graph?.ctx.state ?? 'none', error };
+        listeners.forEach(listener => listener());
+    };
+
+    const applyRoutes = () => {
+        if (!graph) return;
+        for (const route of AUDIO_ROUTES) {
+            graph.routes[route].gain.setValueAtTime(routes[route] ? 1 : 0, graph.ctx.currentTime);
+        }
+    };
+
+    const build = (): Graph => {
+        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+        const ctx: AudioContext = new AudioContextClass();
+
+        const input = ctx.createGain();
+        const analyser = ctx.createAnalyser();
+        analyser.fftSize = analyserConfig.fftSize;
+        analyser.smoothingTimeConstant = analyserConfig.smoothing;
+        const recorder = ctx.createMediaStreamDestination();
+
+        const outputs: Record<AudioRoute, AudioNode> = { analyser, speakers: ctx.destination, recorder };
+        const routeGains = {} as Record<AudioRoute, GainNode>;
+        for (const route of AUDIO_ROUTES) {
+            const gain = ctx.createGain();
+            gain.gain.value = 0;
+            input.connect(gain);
+            gain.connect(outputs[route]);
+            routeGains[route] = gain;
+        }
+
+        ctx.onstatechange = notify;
+        return {
+            ctx,
+            input,
+            analyser,
+            recorder,
+            routes: routeGains,
+            elements: new WeakMap(),
+            spectrum: new Uint8Array(analyser.frequencyBinCount),
+            spectrumTime: -1
+        };
+    };
+
+    const ensureContext = (): AudioContext => {
+        if (!graph) {
+            graph = build();
+            notify();
+        }
+        if (graph.ctx.state === 'suspended') {
+            graph.ctx.resume().catch(e => console.warn('[AudioEngine] Could not resume the audio context', e));
+        }
+        return graph.ctx;
+    };
+
+    const stopSource = () => {
+        if (!active) return;
+        const previous = active;
+        active = null;
+        routes = NO_ROUTES;
+        applyRoutes();
+        previous.stop();
+        notify();
+    };
+
+    // Swap in a started source and open its routes
+    const activate = (source: ActiveSource) => {
+        stopSource();
+        active = source;
+        routes = { ...SOURCE_ROUTES[source.kind] };
+        error = null;
+        applyRoutes();
+        notify();
+    };
+
+    const fail = (kind: AudioSourceKind, e: unknown): never => {
+        error = `${kind}: ${describe(e)}`;
+        console.error(`[AudioEngine] Could not start the ${kind} source`, e);
+        notify();
+        throw e;
+    };
+
+    // A stream source that goes away by itself (mic unplugged, "Stop sharing")
+    const streamSource = (kind: AudioSourceKind, stream: MediaStream): ActiveSource => {
+        const { ctx, input } = graph!;
+        const node = ctx.createMediaStreamSource(stream);
+        node.connect(input);
+        const source: ActiveSource = {
+            kind,
+            stop() {
+                node.disconnect();
+                stream.getTracks().forEach(track => track.stop());
+            }
+        };
+        stream.getAudioTracks().forEach(track => track.addEventListener('ended', () => {
+            if (active === source) stopSource();
+        }));
+        return source;
+    };
+
+    const close = () => {
+        closeTimer = null;
+        if (users > 0 || !graph) return;
+        stopSource();
+        const { ctx } = graph;
+        graph = null;
+        ctx.onstatechange = null;
+        ctx.close().catch(e => console.warn('[AudioEngine] Closing the audio context failed', e));
+        notify();
+    };
+
+    return {
+        retain() {
+            users++;
+            if (closeTimer !== null) {
+                clearTimeout(closeTimer);
+                closeTimer = null;
+            }
+            let released = false;
+            return () => {
+                if (released) return;
+                released = true;
+                users--;
+                if (users === 0) closeTimer = setTimeout(close, closeGraceMs);
+            };
+        },
+
+        ensureContext,
+
+        connectFile(element) {
+            if (active?.element === element) return;
+            ensureContext();
+            const { ctx, input, elements } = graph!;
+            let node = elements.get(element);
+            if (!node) {
+                try {
+                    node = ctx.createMediaElementSource(element);
+                } catch (e) {
+                    // The element already belongs to another context; it can never be rewired
+                    fail('file', e);
+                }
+                elements.set(element, node!);
+            }
+            const wired = node!;
+            wired.connect(input);
+            activate({ kind: 'file', element, stop: () => wired.disconnect(input) });
+        },
+
+        async startMic() {
+            ensureContext();
+            let stream: MediaStream;
+            try {
+                stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            } catch (e) {
+                return fail('mic', e);
+            }
+            if (!graph) {
+                stream.getTracks().forEach(track => track.stop()); // Closed while the prompt was open
+                return;
+            }
+            activate(streamSource('mic', stream));
+        },
+
+        async startTabCapture() {
+            ensureContext();
+            let stream: MediaStream;
+            try {
+                // Browsers only offer tab audio alongside video; the video is dropped straight away
+                stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+            } catch (e) {
+                return fail('tab', e);
+            }
+            stream.getVideoTracks().forEach(track => {
+                track.stop();
+                stream.removeTrack(track);
+            });
+            if (stream.getAudioTracks().length === 0) {
+                return fail('tab', new Error('The shared tab has no audio. Tick "Share tab audio" when choosing it.'));
+            }
+            if (!graph) {
+                stream.getTracks().forEach(track => track.stop());
+                return;
+            }
+            activate(streamSource('tab', stream));
+        },
+
+        startTone(tone = {}) {
+            const { frequency, bpm } = { ...DEFAULT_TEST_TONE, ...tone };
+            const ctx = ensureContext();
+            const { input } = graph!;
+
+            // A sine gated by a square LFO: on for the first half of every beat
+            const osc = ctx.createOscillator();
+            osc.frequency.value = frequency;
+            const lfo = ctx.createOscillator();
+            lfo.type = 'square';
+            lfo.frequency.value = bpm / 60;
+            const depth = ctx.createGain();
+            depth.gain.value = 0.5;
+            const out = ctx.createGain();
+            out.gain.value = 0.5;
+
+            lfo.connect(depth);
+            depth.connect(out.gain);
+            osc.connect(out);
+            out.connect(input);
+            osc.start();
+            lfo.start();
+
+            activate({
+                kind: 'tone',
+                stop() {
+                    osc.stop();
+                    lfo.stop();
+                    out.disconnect();
+                }
+            });
+        },
+
+        stopSource,
+
+        setRoute(route, enabled) {
+            if (!active) return;
+            routes = { ...routes, [route]: enabled };
+            applyRoutes();
+            notify();
+        },
+
+        configureAnalyser(fftSize, smoothing) {
+            analyserConfig = { fftSize, smoothing };
+            if (!graph) return;
+            graph.analyser.fftSize = fftSize;
+            graph.analyser.smoothingTimeConstant = smoothing;
+            graph.spectrum = new Uint8Array(graph.analyser.frequencyBinCount);
+            graph.spectrumTime = -1;
+        },
+
+        readSpectrum() {
+            if (!graph) return null;
+            // The analyser only moves on when the context has rendered more audio
+            if (graph.ctx.currentTime !== graph.spectrumTime) {
+                graph.analyser.getByteFrequencyData(graph.spectrum);
+                graph.spectrumTime = graph.ctx.currentTime;
+            }
+            return { data: graph.spectrum, sampleRate: graph.ctx.sampleRate };
+        },
+
+        getRecorderNode: () => graph?.recorder ?? null,
+
+        getSnapshot: () => snapshot,
+
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        }
+    };
+};
+
+// --- SHARED INSTANCE ---
+
+let shared: AudioEngine | null = null;
+
+/**
+ * The engine every hook binds to.
+ */
+export const getAudioEngine = (): AudioEngine => (shared ??= createAudioEngine());
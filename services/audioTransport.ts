@@ -0,0 +1,98 @@
+import { TrackAnalysis } from "../types";
+
+/**
+ * AUDIO TRANSPORT
+ *
+ * Position, loop and speed of the loaded track (see useAudioPlayer):
+ * - loop regions: an A/B range that playback wraps around, snapped to the
+ *   bars of the track analysis so a loop stays on the beat
+ * - playback rate: a few fixed speeds, pitch preserved by the element
+ * Without an analysis (still analysing, or it failed) nothing snaps.
+ */
+
+// --- TYPES ---
+
+export interface LoopRegion {
+    start: number; // Seconds
+    end: number; // Seconds, after start
+}
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5] as const;
+
+export const MIN_LOOP_SECONDS = 0.5; // Shortest region when there are no bars to snap to
+
+// --- BARS ---
+
+/**
+ * The bar lines of the track: every downbeat plus both ends of the song.
+ */
+export const barLines = (analysis: TrackAnalysis | null, duration: number): number[] => {
+    if (!analysis || analysis.downbeats.length === 0) return [];
+    const inside = analysis.downbeats.filter(t => t > 0 && t < duration);
+    return [0, ...inside, duration];
+};
+
+/**
+ * The bar line nearest to `seconds`, or `seconds` itself without bars.
+ */
+export const snapToBar = (seconds: number, bars: number[]): number => {
+    let nearest = seconds;
+    let distance = Infinity;
+    for (const bar of bars) {
+        if (Math.abs(bar - seconds) < distance) {
+            distance = Math.abs(bar - seconds);
+            nearest = bar;
+        }
+    }
+    return nearest;
+};
+
+// --- LOOP REGIONS ---
+
+/**
+ * `region` inside the song with both ends on bar lines and at least one bar
+ * (or MIN_LOOP_SECONDS) long. The ends may come in either order.
+ */
+export const snapLoopRegion = (region: LoopRegion, bars: number[], duration: number): LoopRegion => {
+    const clamp = (t: number) => Math.max(0, Math.min(duration, t));
+    let start = snapToBar(clamp(Math.min(region.start, region.end)), bars);
+    let end = snapToBar(clamp(Math.max(region.start, region.end)), bars);
+
+    if (end <= start || (bars.length === 0 && end - start < MIN_LOOP_SECONDS)) {
+        // Too short to span a bar: take the bar that starts here, or the one before the end of the song
+        const next = bars.find(t => t > start);
+        if (next !== undefined) {
+            end = next;
+        } else if (bars.length > 1) {
+            start = bars[bars.length - 2];
+            end = bars[bars.length - 1];
+        } else {
+            end = Math.min(duration, start + MIN_LOOP_SECONDS);
+            start = Math.max(0, Math.min(start, end - MIN_LOOP_SECONDS));
+        }
+    }
+    return { start, end };
+};
+
+/**
+ * Where playback at `seconds` goes next: back to the region's start once it
+ * reaches the end, else where it is.
+ */
+export const wrapPosition = (seconds: number, region: LoopRegion | null): number =>
+    region && seconds >= region.end ? region.start : seconds;
+
+// --- RATE ---
+
+/**
+ * The nearest of PLAYBACK_RATES.
+ */
+export const nearestPlaybackRate = (rate: number): number =>
+    PLAYBACK_RATES.reduce((best, r) => (Math.abs(r - rate) < Math.abs(best - rate) ? r : best), 1);
+
+/**
+ * mm:ss for the transport readout.
+ */
+export const formatTime = (seconds: number): string => {
+    const total = Math.max(0, Math.floor(seconds));
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+};
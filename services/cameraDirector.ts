@@ -0,0 +1,189 @@
+import { SequenceMode } from "../types";
+import type { KineticNodeId, KineticState, MechanicalFX } from "./KineticEngine";
+
+/**
+ * CAMERA DIRECTOR
+ *
+ * One virtual camera for the character canvas and the visualizer behind it.
+ * A shot is a framing plus the spring that moves the camera into it:
+ * - wide:    pulled back and looking down at the footwork
+ * - medium:  the groove framing, nodding with the bass and swaying with the mids
+ * - closeup: slow push in for close-ups and emotes
+ * - dutch:   rolled horizon for impacts, leaning the other way every bar
+ * - orbit:   swings around spins and mandalas
+ * - whip:    fast pan out and back on phrase and section starts
+ * - dolly:   the vertigo move: the character grows while the background pulls away
+ * - shake:   handheld jolt on a hard bass downbeat during impacts
+ * Whip, dolly and shake are one-shots that fall back to the shot the node and
+ * sequence mode call for. Time only advances with `update`, so the same
+ * engine states always film the same way.
+ */
+
+// --- TYPES ---
+
+export type ShotType = 'wide' | 'medium' | 'closeup' | 'dutch' | 'orbit' | 'whip' | 'dolly' | 'shake';
+
+export interface ShotSpec {
+    zoom: number; // Character scale
+    panX: number; // px; whips swing to alternating sides
+    panY: number; // px, negative shows more of the legs
+    pitch: number; // deg, on top of the bass nod
+    roll: number; // deg, dutch angle
+    orbit: number; // deg of yaw swing
+    dolly: number; // Visualizer camera travel, negative pulls back
+    shake: number; // px of jitter
+    stiffness: number;
+    damping: number;
+    durationMs?: number; // One-shots only
+}
+
+/**
+ * The camera for one frame. Rotations are in degrees; `dolly` goes to the
+ * visualizer's camera z (see visualizerRotation).
+ */
+export interface CameraTransform {
+    shot: ShotType;
+    zoom: number;
+    panX: number;
+    panY: number;
+    rotX: number;
+    rotY: number;
+    rotZ: number;
+    dolly: number;
+}
+
+export interface CameraAudio {
+    bass: number;
+    mid: number;
+    reactivity: number; // 0-1, scales the audio-driven sway
+}
+
+export interface CameraDirector {
+    /** Advance the springs towards the shot this state calls for. */
+    update(state: KineticState | null, fx: MechanicalFX, audio: CameraAudio, deltaTime: number): CameraTransform;
+    getShot(): ShotType;
+}
+
+export const SHOTS: Record<ShotType, ShotSpec> = {
+    wide: { zoom: 1.0, panX: 0, panY: -150, pitch: 20, roll: 0, orbit: 0, dolly: 0, shake: 0, stiffness: 60, damping: 14 },
+    medium: { zoom: 1.15, panX: 0, panY: 0, pitch: 0, roll: 0, orbit: 0, dolly: 0, shake: 0, stiffness: 140, damping: 12 },
+    closeup: { zoom: 1.5, panX: 0, panY: 0, pitch: 0, roll: 0, orbit: 0, dolly: 0, shake: 0, stiffness: 30, damping: 11 },
+    dutch: { zoom: 1.25, panX: 0, panY: 0, pitch: 0, roll: 12, orbit: 0, dolly: 0, shake: 0, stiffness: 120, damping: 14 },
+    orbit: { zoom: 1.1, panX: 0, panY: 0, pitch: 5, roll: 0, orbit: 25, dolly: 0, shake: 0, stiffness: 80, damping: 10 },
+    whip: { zoom: 1.15, panX: 600, panY: 0, pitch: 0, roll: 4, orbit: 0, dolly: 0, shake: 0, stiffness: 400, damping: 28, durationMs: 250 },
+    dolly: { zoom: 1.6, panX: 0, panY: 0, pitch: 0, roll: 0, orbit: 0, dolly: -1.5, shake: 0, stiffness: 20, damping: 9, durationMs: 1500 },
+    shake: { zoom: 1.2, panX: 0, panY: 0, pitch: 0, roll: 0, orbit: 0, dolly: 0, shake: 18, stiffness: 200, damping: 16, durationMs: 400 }
+};
+
+const ORBIT_SPEED = 2.5; // rad/s
+const SHAKE_THRESHOLD = 0.8; // Bass of a bounce that shakes an impact
+
+const ORBIT_NODES: KineticNodeId[] = ['spin', 'mandala'];
+
+// --- SHOT CHOICE ---
+
+/**
+ * The shot a node calls for while nothing one-shot is running.
+ */
+export const baseShotFor = (node: KineticNodeId, mode: SequenceMode, fx: MechanicalFX): ShotType => {
+    if (ORBIT_NODES.includes(node) || fx === 'mandala') return 'orbit';
+    if (fx === 'zoom' || mode === 'EMOTE') return 'closeup';
+    if (mode === 'FOOTWORK') return 'wide';
+    if (mode === 'IMPACT') return 'dutch';
+    return 'medium';
+};
+
+/**
+ * The one-shot this update cues, if any: a dolly entering a zoom node, a
+ * whip on a phrase or section start, a shake on a hard bass hit on an
+ * impact's downbeat.
+ */
+export const oneShotFor = (state: KineticState): ShotType | null => {
+    if (state.cameraImpulses.some(impulse => impulse.type === 'zoom')) return 'dolly';
+    if (state.structureCues.includes('phrase') || state.structureCues.includes('section')) return 'whip';
+    if (state.sequenceMode === 'IMPACT' && state.structure.beatInBar === 0 && state.cameraImpulses.some(impulse => impulse.type === 'bounce' && impulse.amount >= SHAKE_THRESHOLD)) return 'shake';
+    return null;
+};
+
+/**
+ * Camera rotation in the visualizer's units (radians), so the background
+ * turns with the character.
+ */
+export const visualizerRotation = (camera: CameraTransform): { x: number; y: number; z: number } => ({
+    x: camera.rotX * Math.PI / 180,
+    y: camera.rotY * Math.PI / 180,
+    z: camera.rotZ * Math.PI / 180
+});
+
+// --- DIRECTOR ---
+
+interface Spring {
+    value: number;
+    velocity: number;
+}
+
+const CHANNELS = ['zoom', 'panX', 'panY', 'rotX', 'rotY', 'rotZ', 'dolly'] as const;
+type Channel = typeof CHANNELS[number];
+
+export const createCameraDirector = (): CameraDirector => {
+    const springs = Object.fromEntries(CHANNELS.map(channel => [channel, { value: 0, velocity: 0 }])) as Record<Channel, Spring>;
+    springs.zoom.value = SHOTS.medium.zoom;
+
+    let shot: ShotType = 'medium';
+    let oneShot: ShotType | null = null;
+    let oneShotLeft = 0; // ms
+    let whipSide = 1;
+    let elapsed = 0; // ms
+
+    const step = (spring: Spring, target: number, spec: ShotSpec, dt: number) => {
+        spring.velocity += ((target - spring.value) * spec.stiffness - spring.velocity * spec.damping) * dt;
+        spring.value += spring.velocity * dt;
+    };
+
+    return {
+        update(state, fx, audio, deltaTime) {
+            elapsed += deltaTime * 1000;
+
+            const cue = state ? oneShotFor(state) : null;
+            if (cue) {
+                oneShot = cue;
+                oneShotLeft = SHOTS[cue].durationMs ?? 0;
+                if (cue === 'whip') whipSide = -whipSide;
+            } else if (oneShot) {
+                oneShotLeft -= deltaTime * 1000;
+                if (oneShotLeft <= 0) oneShot = null;
+            }
+            shot = oneShot ?? (state ? baseShotFor(state.currentNode, state.sequenceMode, fx) : 'medium');
+
+            const spec = SHOTS[shot];
+            const bar = state?.structure.bar ?? 0;
+            const t = elapsed / 1000;
+            const targets: Record<Channel, number> = {
+                zoom: spec.zoom,
+                panX: spec.panX * whipSide,
+                panY: spec.panY,
+                rotX: spec.pitch + audio.bass * 35 * audio.reactivity,
+                rotY: spec.orbit > 0 ? spec.orbit * Math.sin(t * ORBIT_SPEED) : audio.mid * 25 * Math.sin(elapsed * 0.005) * audio.reactivity,
+                rotZ: spec.roll * (shot === 'whip' ? whipSide : bar % 2 === 0 ? 1 : -1),
+                dolly: spec.dolly
+            };
+            for (const channel of CHANNELS) step(springs[channel], targets[channel], spec, deltaTime);
+
+            // Shake rides on top of the springs, fading out with the shot
+            const shake = spec.shake * (spec.durationMs ? Math.max(0, oneShotLeft) / spec.durationMs : 1);
+            return {
+                shot,
+                zoom: springs.zoom.value,
+                panX: springs.panX.value + shake * Math.sin(elapsed * 0.09),
+                panY: springs.panY.value + shake * Math.sin(elapsed * 0.13 + 1),
+                rotX: springs.rotX.value,
+                rotY: springs.rotY.value,
+                rotZ: springs.rotZ.value + shake * 0.1 * Math.sin(elapsed * 0.07 + 2),
+                dolly: springs.dolly.value
+            };
+        },
+        getShot() {
+            return shot;
+        }
+    };
+};
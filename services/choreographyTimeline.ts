@@ -0,0 +1,99 @@
+import { GeneratedFrame, TrackAnalysis } from "../types";
+import { ChoreographyTimeline, KineticNodeId, TimelineEvent, TimelineTransition } from "./KineticEngine";
+import { frameKey } from "./framePool";
+
+/**
+ * CHOREOGRAPHY TIMELINE EDITING
+ *
+ * Pure edits on a planned timeline (see KineticEngine.planTimeline), used by
+ * the preview's timeline editor. Every edit returns a new timeline with the
+ * events sorted by time, and marks the touched transition `locked` so it
+ * survives the next re-plan (mergeLockedEvents).
+ */
+
+export interface TimelineEdit {
+    timeline: ChoreographyTimeline;
+    index: number; // Where the edited event ended up
+}
+
+const withEvents = (timeline: ChoreographyTimeline, events: TimelineEvent[]): ChoreographyTimeline => ({
+    ...timeline,
+    events: [...events].sort((a, b) => a.time - b.time)
+});
+
+const transitionAt = (timeline: ChoreographyTimeline, index: number): TimelineTransition => {
+    const event = timeline.events[index];
+    if (!event || event.kind !== 'transition') throw new Error(`No transition at timeline index ${index}`);
+    return event;
+};
+
+const replaceEvent = (timeline: ChoreographyTimeline, index: number, event: TimelineTransition): TimelineEdit => {
+    const events = timeline.events.map((e, i) => (i === index ? event : e));
+    const next = withEvents(timeline, events);
+    return { timeline: next, index: next.events.indexOf(event) };
+};
+
+/**
+ * Nearest beat of the analysed grid (ms), or `ms` itself without a grid.
+ */
+export const snapToBeat = (analysis: TrackAnalysis | null, ms: number): number => {
+    if (!analysis || analysis.beats.length === 0) return Math.max(0, Math.floor(ms));
+    let best = analysis.beats[0];
+    for (const beat of analysis.beats) {
+        if (Math.abs(beat * 1000 - ms) < Math.abs(best * 1000 - ms)) best = beat;
+    }
+    return Math.floor(best * 1000);
+};
+
+/**
+ * The graph node a hand-picked frame would normally play under, so zoom and
+ * other node effects still apply to it.
+ */
+export const nodeForFrame = (frame: GeneratedFrame): KineticNodeId => {
+    if (frame.type === 'closeup') return 'closeup';
+    if (frame.type === 'hands') {
+        if (frame.pose.includes('mandala')) return 'mandala';
+        return frame.direction === 'left' ? 'vogue_left' : frame.direction === 'right' ? 'vogue_right' : 'hands';
+    }
+    if (frame.type === 'feet') return 'feet';
+    if (frame.role === 'alt') return 'jump';
+    if (frame.isVirtual) return 'impact';
+    if (frame.energy === 'low') return 'idle';
+    return frame.direction === 'left' ? 'groove_left' : frame.direction === 'right' ? 'groove_right' : 'groove_center';
+};
+
+export const moveTimelineEvent = (timeline: ChoreographyTimeline, index: number, time: number): TimelineEdit =>
+    replaceEvent(timeline, index, { ...transitionAt(timeline, index), time: Math.max(0, Math.floor(time)), locked: true });
+
+export const deleteTimelineEvent = (timeline: ChoreographyTimeline, index: number): ChoreographyTimeline =>
+    ({ ...timeline, events: timeline.events.filter((_, i) => i !== index) });
+
+export const setTimelineEventLocked = (timeline: ChoreographyTimeline, index: number, locked: boolean): TimelineEdit =>
+    replaceEvent(timeline, index, { ...transitionAt(timeline, index), locked });
+
+export const replaceTimelineFrame = (timeline: ChoreographyTimeline, index: number, frame: GeneratedFrame): TimelineEdit =>
+    replaceEvent(timeline, index, { ...transitionAt(timeline, index), node: nodeForFrame(frame), pose: frame.pose, frame: frameKey(frame), locked: true });
+
+/**
+ * Insert a locked hard cut to `frame` at `time` (ms, usually a snapped beat).
+ */
+export const pinFrameAt = (timeline: ChoreographyTimeline, frame: GeneratedFrame, time: number): TimelineEdit => {
+    const event: TimelineTransition = { time: Math.max(0, Math.floor(time)), kind: 'transition', node: nodeForFrame(frame), pose: frame.pose, frame: frameKey(frame), style: 'CUT', locked: true };
+    const next = withEvents(timeline, [...timeline.events, event]);
+    return { timeline: next, index: next.events.indexOf(event) };
+};
+
+/**
+ * Carry the locked transitions of `previous` into a fresh plan. Planned
+ * transitions from half a beat before to one beat after a locked one are
+ * dropped so the pinned frame gets its beat. Locked events whose pose is not
+ * in `poses` (the rig changed) are dropped.
+ */
+export const mergeLockedEvents = (planned: ChoreographyTimeline, previous: ChoreographyTimeline | null, poses: Set<string>): ChoreographyTimeline => {
+    const locked = (previous?.events || []).filter((e): e is TimelineTransition => e.kind === 'transition' && !!e.locked && poses.has(e.pose));
+    if (locked.length === 0) return planned;
+
+    const beatMs = 60000 / planned.bpm;
+    const cleared = planned.events.filter(e => e.kind !== 'transition' || !locked.some(l => e.time > l.time - beatMs / 2 && e.time < l.time + beatMs));
+    return withEvents(planned, [...cleared, ...locked]);
+};
@@ -0,0 +1,77 @@
+/**
+ * ENGINE CLOCK
+ *
+ * Where KineticEngine reads time from:
+ * - now():      monotonic milliseconds for locks, minimum node durations and
+ *               live BPM detection
+ * - position(): seconds into the song, or null when there is no song (mic
+ *               input, ended). A paused song holds its position, so the beat
+ *               phase and bar/phrase counters, which come from this, wait for
+ *               it; pause, seek and loop keep the choreography in sync.
+ */
+
+export interface EngineClock {
+    now(): number;
+    position(): number | null;
+}
+
+export interface ManualClock extends EngineClock {
+    advance(ms: number): void;
+    seek(seconds: number | null): void;
+}
+
+const wallTime = () => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+/**
+ * Wall clock only: no song position, beat phase falls back to the metronome.
+ */
+export const createSystemClock = (): EngineClock => ({
+    now: wallTime,
+    position: () => null
+});
+
+/**
+ * Follows an <audio>/<video> element's `currentTime` while it has a song
+ * loaded, held while paused. `isSongSource` says whether the element is what
+ * is being heard (not while the mic or another source has taken over).
+ */
+export const createMediaElementClock = (element: HTMLMediaElement, isSongSource: () => boolean = () => true): EngineClock => ({
+    now: wallTime,
+    position: () => {
+        if (element.ended || element.readyState < element.HAVE_METADATA || !isSongSource()) return null;
+        return element.currentTime;
+    }
+});
+
+/**
+ * Follows an AudioContext, for songs started on it at `startTime`
+ * (e.g. `AudioBufferSourceNode.start(startTime)`). A suspended context holds
+ * its position like a paused song; a closed one has no song.
+ */
+export const createAudioContextClock = (context: BaseAudioContext, startTime: number = 0): EngineClock => ({
+    now: wallTime,
+    position: () => {
+        if (context.state === 'closed' || context.currentTime < startTime) return null;
+        return context.currentTime - startTime;
+    }
+});
+
+/**
+ * Stepped by hand (tests, offline rendering). `advance` moves both the wall
+ * time and, while a song position is set, the position.
+ */
+export const createManualClock = (startSeconds: number | null = 0): ManualClock => {
+    let now = 0;
+    let position = startSeconds;
+    return {
+        now: () => now,
+        position: () => position,
+        advance: (ms: number) => {
+            now += ms;
+            if (position !== null) position += ms / 1000;
+        },
+        seek: (seconds: number | null) => {
+            position = seconds;
+        }
+    };
+};
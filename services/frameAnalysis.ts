@@ -0,0 +1,159 @@
+import { PixelBuffer } from "./gridDetection";
+
+/**
+ * FRAME ANALYSIS
+ *
+ * Foreground/background separation for single sliced cells.
+ * The generator is asked for a plain background, so the border ring of a
+ * cell is a good estimate of the background colour; anything far enough
+ * from it is treated as subject.
+ */
+
+export interface RGB {
+    r: number;
+    g: number;
+    b: number;
+}
+
+export interface BoundingBox {
+    left: number;
+    top: number;
+    right: number;   // inclusive
+    bottom: number;  // inclusive
+}
+
+export interface SubjectAnalysis {
+    background: RGB;
+    bbox: BoundingBox | null;
+    centroid: { x: number; y: number } | null;
+    coverage: number;        // Fraction of pixels that are foreground (0-1)
+    width: number;
+    height: number;
+}
+
+const DEFAULT_FOREGROUND_THRESHOLD = 40; // RGB distance from background
+const BORDER_RING = 3;
+const MIN_LINE_PIXELS = 2; // Ignore isolated specks when building the bbox
+
+const median = (values: number[]): number => {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Estimate the background colour from the outer ring of the cell.
+ */
+export const estimateBackground = (pixels: PixelBuffer, ring: number = BORDER_RING): RGB => {
+    const { data, width, height } = pixels;
+    const rs: number[] = [], gs: number[] = [], bs: number[] = [];
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const onBorder = x < ring || y < ring || x >= width - ring || y >= height - ring;
+            if (!onBorder) continue;
+            const i = (y * width + x) * 4;
+            rs.push(data[i]);
+            gs.push(data[i + 1]);
+            bs.push(data[i + 2]);
+        }
+    }
+
+    return { r: median(rs), g: median(gs), b: median(bs) };
+};
+
+export const colorDistance = (data: Uint8ClampedArray, i: number, bg: RGB): number => {
+    const dr = data[i] - bg.r;
+    const dg = data[i + 1] - bg.g;
+    const db = data[i + 2] - bg.b;
+    return Math.sqrt(dr * dr + dg * dg + db * db);
+};
+
+/**
+ * Boolean mask of foreground pixels (1 = subject).
+ */
+export const foregroundMask = (pixels: PixelBuffer, bg: RGB, threshold: number = DEFAULT_FOREGROUND_THRESHOLD): Uint8Array => {
+    const { data, width, height } = pixels;
+    const mask = new Uint8Array(width * height);
+    for (let p = 0; p < width * height; p++) {
+        const i = p * 4;
+        // Already transparent pixels are never foreground
+        if (data[i + 3] < 16) continue;
+        if (colorDistance(data, i, bg) > threshold) mask[p] = 1;
+    }
+    return mask;
+};
+
+/**
+ * Find subject bounding box, centre of mass and coverage.
+ */
+export const analyzeSubject = (pixels: PixelBuffer, threshold: number = DEFAULT_FOREGROUND_THRESHOLD): SubjectAnalysis => {
+    const { width, height } = pixels;
+    const background = estimateBackground(pixels);
+    const mask = foregroundMask(pixels, background, threshold);
+
+    const rowCounts = new Array(height).fill(0);
+    const colCounts = new Array(width).fill(0);
+    let count = 0, sumX = 0, sumY = 0;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!mask[y * width + x]) continue;
+            rowCounts[y]++;
+            colCounts[x]++;
+            sumX += x;
+            sumY += y;
+            count++;
+        }
+    }
+
+    if (count === 0) {
+        return { background, bbox: null, centroid: null, coverage: 0, width, height };
+    }
+
+    const firstAbove = (counts: number[]) => counts.findIndex(c => c >= MIN_LINE_PIXELS);
+    const lastAbove = (counts: number[]) => {
+        for (let i = counts.length - 1; i >= 0; i--) if (counts[i] >= MIN_LINE_PIXELS) return i;
+        return -1;
+    };
+
+    const top = firstAbove(rowCounts);
+    const left = firstAbove(colCounts);
+    const bbox = top < 0 || left < 0 ? null : {
+        left,
+        top,
+        right: lastAbove(colCounts),
+        bottom: lastAbove(rowCounts)
+    };
+
+    return {
+        background,
+        bbox,
+        centroid: { x: sumX / count, y: sumY / count },
+        coverage: count / (width * height),
+        width,
+        height
+    };
+};
+
+/**
+ * Read the pixels of an image URL through a canvas.
+ */
+export const loadPixels = (url: string): Promise<{ image: HTMLImageElement; pixels: PixelBuffer }> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.crossOrigin = "anonymous";
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = img.width;
+            canvas.height = img.height;
+            const ctx = canvas.getContext('2d', { willReadFrequently: true });
+            if (!ctx) { reject(new Error("Canvas context failed")); return; }
+            ctx.drawImage(img, 0, 0);
+            const { data } = ctx.getImageData(0, 0, img.width, img.height);
+            resolve({ image: img, pixels: { data, width: img.width, height: img.height } });
+        };
+        img.onerror = () => reject(new Error("Image load failed"));
+        img.src = url;
+    });
+};
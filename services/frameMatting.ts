@@ -0,0 +1,151 @@
+import { MattingMode } from "../types";
+import { PixelBuffer } from "./gridDetection";
+import { RGB, colorDistance, estimateBackground, loadPixels } from "./frameAnalysis";
+
+/**
+ * FRAME MATTING
+ *
+ * Local background removal for sliced cells so the rig can be composited
+ * over the hologram instead of carrying the model's backdrop around.
+ * - chroma:    alpha ramps with colour distance from the border background
+ * - floodfill: only background connected to the cell border is removed,
+ *              so interior whites (eyes, shirts) survive
+ * Both finish with a box-blur feather on the alpha edge.
+ */
+
+export type AlphaFormat = 'image/png' | 'image/webp';
+
+export interface MattingOptions {
+    mode: Exclude<MattingMode, 'off'>;
+    tolerance?: number;   // RGB distance treated as background
+    softness?: number;    // Width of the chroma ramp above tolerance
+    feather?: number;     // Edge blur radius in pixels
+    format?: AlphaFormat;
+}
+
+const DEFAULT_TOLERANCE = 48;
+const DEFAULT_SOFTNESS = 32;
+const DEFAULT_FEATHER = 2;
+
+/**
+ * Alpha from colour distance: 0 inside tolerance, 255 beyond tolerance + softness.
+ */
+export const chromaAlpha = (pixels: PixelBuffer, bg: RGB, tolerance: number, softness: number): Uint8ClampedArray => {
+    const { data, width, height } = pixels;
+    const alpha = new Uint8ClampedArray(width * height);
+    for (let p = 0; p < width * height; p++) {
+        const d = colorDistance(data, p * 4, bg);
+        const t = softness > 0 ? (d - tolerance) / softness : (d > tolerance ? 1 : 0);
+        alpha[p] = Math.round(Math.max(0, Math.min(1, t)) * data[p * 4 + 3]);
+    }
+    return alpha;
+};
+
+/**
+ * Alpha from a flood fill of background-coloured pixels seeded at the border.
+ */
+export const floodFillAlpha = (pixels: PixelBuffer, bg: RGB, tolerance: number): Uint8ClampedArray => {
+    const { data, width, height } = pixels;
+    const total = width * height;
+    const alpha = new Uint8ClampedArray(total);
+    const visited = new Uint8Array(total);
+    const stack: number[] = [];
+
+    for (let p = 0; p < total; p++) alpha[p] = data[p * 4 + 3];
+
+    const push = (p: number) => {
+        if (visited[p]) return;
+        visited[p] = 1;
+        if (colorDistance(data, p * 4, bg) <= tolerance) stack.push(p);
+    };
+
+    for (let x = 0; x < width; x++) { push(x); push((height - 1) * width + x); }
+    for (let y = 0; y < height; y++) { push(y * width); push(y * width + width - 1); }
+
+    while (stack.length > 0) {
+        const p = stack.pop()!;
+        alpha[p] = 0;
+        const x = p % width;
+        const y = (p - x) / width;
+        if (x > 0) push(p - 1);
+        if (x < width - 1) push(p + 1);
+        if (y > 0) push(p - width);
+        if (y < height - 1) push(p + width);
+    }
+
+    return alpha;
+};
+
+/**
+ * Separable box blur on the alpha channel only.
+ */
+export const featherAlpha = (alpha: Uint8ClampedArray, width: number, height: number, radius: number): Uint8ClampedArray => {
+    if (radius < 1) return alpha;
+    const r = Math.round(radius);
+    const temp = new Float32Array(width * height);
+    const out = new Uint8ClampedArray(width * height);
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let sum = 0, n = 0;
+            for (let k = Math.max(0, x - r); k <= Math.min(width - 1, x + r); k++) { sum += alpha[y * width + k]; n++; }
+            temp[y * width + x] = sum / n;
+        }
+    }
+    for (let x = 0; x < width; x++) {
+        for (let y = 0; y < height; y++) {
+            let sum = 0, n = 0;
+            for (let k = Math.max(0, y - r); k <= Math.min(height - 1, y + r); k++) { sum += temp[k * width + x]; n++; }
+            out[y * width + x] = Math.round(sum / n);
+        }
+    }
+    return out;
+};
+
+/**
+ * Compute the final (feathered) alpha matte for a cell.
+ */
+export const computeMatte = (pixels: PixelBuffer, options: MattingOptions): Uint8ClampedArray => {
+    const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+    const bg = estimateBackground(pixels);
+    const raw = options.mode === 'chroma'
+        ? chromaAlpha(pixels, bg, tolerance, options.softness ?? DEFAULT_SOFTNESS)
+        : floodFillAlpha(pixels, bg, tolerance);
+    return featherAlpha(raw, pixels.width, pixels.height, options.feather ?? DEFAULT_FEATHER);
+};
+
+/**
+ * WebP keeps alpha at a fraction of PNG size where the browser can encode it.
+ */
+export const preferredAlphaFormat = (): AlphaFormat => {
+    const probe = document.createElement('canvas');
+    probe.width = probe.height = 1;
+    return probe.toDataURL('image/webp').startsWith('data:image/webp') ? 'image/webp' : 'image/png';
+};
+
+/**
+ * Cut a single frame out of its background. Returns the original URL on failure.
+ */
+export const matteFrame = async (frameUrl: string, options: MattingOptions): Promise<string> => {
+    try {
+        const { pixels } = await loadPixels(frameUrl);
+        const matte = computeMatte(pixels, options);
+
+        const canvas = document.createElement('canvas');
+        canvas.width = pixels.width;
+        canvas.height = pixels.height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return frameUrl;
+
+        const out = ctx.createImageData(pixels.width, pixels.height);
+        out.data.set(pixels.data);
+        for (let p = 0; p < matte.length; p++) out.data[p * 4 + 3] = matte[p];
+        ctx.putImageData(out, 0, 0);
+
+        const format = options.format ?? 'image/png';
+        return format === 'image/webp' ? canvas.toDataURL(format, 0.9) : canvas.toDataURL(format);
+    } catch (e) {
+        console.warn("[Matting] Frame matte failed, keeping original", e);
+        return frameUrl;
+    }
+};
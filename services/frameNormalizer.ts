@@ -0,0 +1,145 @@
+import { FrameAnchor, FrameNormalization } from "../types";
+import { SubjectAnalysis, analyzeSubject, loadPixels } from "./frameAnalysis";
+
+/**
+ * FRAME NORMALIZER
+ *
+ * The MECHANICAL_MANIFEST asks for a subject at 75% cell height, centred,
+ * but the model drifts. This pass measures every sliced cell and re-draws
+ * it so all frames of a sheet share one scale and one anchor:
+ * - feet:     bottom of the subject sits on the 87.5% line, centroid on the centre column
+ * - centroid: centre of mass sits in the middle of the cell
+ * Full-body (feet) sheets of one rig also share a RigReference: the base
+ * sheet sets the scale and feet line, and every later body sheet reuses them,
+ * so a cut between sheets doesn't change the dancer's size or footing.
+ * The applied transform is x' = x * scale + offsetX * width (same for y).
+ */
+
+export const TARGET_SUBJECT_HEIGHT = 0.75;
+export const FEET_LINE = 0.875;
+
+const MIN_COVERAGE = 0.005; // Below this the cell is treated as empty
+const MIN_SCALE = 0.67;
+const MAX_SCALE = 1.5;
+
+const IDENTITY: Omit<FrameNormalization, 'anchor'> = { offsetX: 0, offsetY: 0, scale: 1 };
+
+export interface RigReference {
+    scale: number;
+    baseline: number; // Feet line, fraction of the cell height
+}
+
+/**
+ * Shared scale for a whole sheet: median subject height mapped to the target.
+ */
+export const computeSheetScale = (analyses: SubjectAnalysis[]): number => {
+    const heights = analyses
+        .filter(a => a.bbox && a.coverage >= MIN_COVERAGE)
+        .map(a => (a.bbox!.bottom - a.bbox!.top + 1) / a.height)
+        .sort((a, b) => a - b);
+
+    if (heights.length === 0) return 1;
+    const medianHeight = heights[Math.floor(heights.length / 2)];
+    if (medianHeight <= 0) return 1;
+
+    return Math.max(MIN_SCALE, Math.min(MAX_SCALE, TARGET_SUBJECT_HEIGHT / medianHeight));
+};
+
+/**
+ * The rig's body reference, read back from the normalized frames of its
+ * first body sheet (so resumed jobs get it from their saved frames). Null
+ * without feet-anchored frames.
+ */
+export const rigReferenceFromFrames = (normalizations: (FrameNormalization | undefined)[]): RigReference | null => {
+    const scales = normalizations
+        .filter((n): n is FrameNormalization => n?.anchor === 'feet')
+        .map(n => n.scale)
+        .sort((a, b) => a - b);
+    if (scales.length === 0) return null;
+    return { scale: scales[Math.floor(scales.length / 2)], baseline: FEET_LINE };
+};
+
+/**
+ * Transform that moves this cell's anchor point onto the common anchor.
+ */
+export const computeNormalization = (
+    analysis: SubjectAnalysis,
+    scale: number,
+    anchor: FrameAnchor,
+    baseline: number = FEET_LINE
+): FrameNormalization => {
+    if (!analysis.bbox || !analysis.centroid || analysis.coverage < MIN_COVERAGE) {
+        return { ...IDENTITY, anchor };
+    }
+
+    const { width, height, centroid, bbox } = analysis;
+    const srcX = centroid.x;
+    const srcY = anchor === 'feet' ? bbox.bottom : centroid.y;
+    const targetX = width / 2;
+    const targetY = anchor === 'feet' ? height * baseline : height / 2;
+
+    return {
+        offsetX: (targetX - srcX * scale) / width,
+        offsetY: (targetY - srcY * scale) / height,
+        scale,
+        anchor
+    };
+};
+
+const renderNormalized = (image: HTMLImageElement, analysis: SubjectAnalysis, norm: FrameNormalization, mimeType: string): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return image.src;
+
+    // Fill exposed edges with the detected background so no seams appear
+    const { r, g, b } = analysis.background;
+    ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+    if (mimeType === 'image/jpeg') ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    ctx.setTransform(norm.scale, 0, 0, norm.scale, norm.offsetX * canvas.width, norm.offsetY * canvas.height);
+    ctx.drawImage(image, 0, 0);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+
+    return mimeType === 'image/jpeg' ? canvas.toDataURL('image/jpeg', 0.85) : canvas.toDataURL(mimeType);
+};
+
+/**
+ * Normalize every frame of a sheet to a common scale and anchor. Feet sheets
+ * take the rig's reference when there is one, else measure their own scale.
+ * Frames that fail to load are passed through untouched.
+ */
+export const normalizeSheetFrames = async (
+    frameUrls: string[],
+    anchor: FrameAnchor,
+    mimeType: string = 'image/jpeg',
+    reference: RigReference | null = null
+): Promise<{ url: string; normalization: FrameNormalization }[]> => {
+    const loaded = await Promise.all(frameUrls.map(url => loadPixels(url).catch(() => null)));
+    const analyses = loaded.map(l => l ? analyzeSubject(l.pixels) : null);
+    const shared = anchor === 'feet' ? reference : null;
+    const scale = shared?.scale ?? computeSheetScale(analyses.filter((a): a is SubjectAnalysis => a !== null));
+    const baseline = shared?.baseline ?? FEET_LINE;
+
+    return frameUrls.map((url, i) => {
+        const entry = loaded[i];
+        const analysis = analyses[i];
+        if (!entry || !analysis) return { url, normalization: { ...IDENTITY, anchor } };
+
+        const normalization = computeNormalization(analysis, scale, anchor, baseline);
+        const isIdentity = normalization.scale === 1 && normalization.offsetX === 0 && normalization.offsetY === 0;
+        return {
+            url: isIdentity ? url : renderNormalized(entry.image, analysis, normalization, mimeType),
+            normalization
+        };
+    });
+};
+
+/**
+ * Normalization of a horizontally mirrored copy of a normalized frame.
+ */
+export const mirrorNormalization = (norm: FrameNormalization): FrameNormalization => ({
+    ...norm,
+    offsetX: 1 - norm.scale - norm.offsetX
+});
@@ -0,0 +1,114 @@
+import { GeneratedFrame } from "../types";
+import type { KineticFramePool } from "./KineticEngine";
+import { isMorphFrame } from "./styleMorph";
+
+/**
+ * FRAME POOL
+ *
+ * The one place a rig's frames become choreography material, shared by
+ * KineticEngine, the preview renderer and the exported player:
+ * - usable frames: cells the validator rejected stay on the rig but out of the pool
+ * - deck frames:   usable base-style frames tagged with their mixer deck, plus a
+ *                  virtual zoom (a closer crop drawn from the same image) for
+ *                  every close-up. Secondary-style (morph) frames are drawn over
+ *                  their base pose, never pooled.
+ * - pool:          buckets by energy, direction, type and role for the graph
+ */
+
+export interface RigDeck {
+    id: number;
+    frames: GeneratedFrame[];
+}
+
+export const VIRTUAL_ZOOM = 1.5;
+export const VIRTUAL_SUFFIX = '_vzoom'; // Virtual pose = close-up pose + suffix, same image
+
+/**
+ * Frames that passed validation (all of them if none did).
+ */
+export const usableFrames = (frames: GeneratedFrame[]): GeneratedFrame[] => {
+    const passing = frames.filter(f => f.quality?.passed !== false);
+    return passing.length > 0 ? passing : frames;
+};
+
+export const deckFrames = (frames: GeneratedFrame[], deckId: number): GeneratedFrame[] =>
+    usableFrames(frames)
+        .filter(f => !isMorphFrame(f))
+        .flatMap(f => {
+            const frame = { ...f, deckId };
+            if (f.type !== 'closeup' || f.isVirtual) return [frame];
+            return [frame, { ...frame, pose: f.pose + VIRTUAL_SUFFIX, isVirtual: true, virtualZoom: VIRTUAL_ZOOM, virtualOffsetY: 0 }];
+        });
+
+/**
+ * Identifies a pooled frame: two decks can hold the same pose, so the deck is
+ * part of the key. Frames outside a deck are keyed by their pose.
+ */
+export const frameKey = (frame: GeneratedFrame): string =>
+    frame.deckId === undefined ? frame.pose : `${frame.deckId}/${frame.pose}`;
+
+/**
+ * Frames of several decks pooled together, in deck order.
+ */
+export const poolDecks = (decks: RigDeck[]): GeneratedFrame[] =>
+    decks.flatMap(deck => deckFrames(deck.frames, deck.id));
+
+export const buildFramePool = (frames: GeneratedFrame[]): KineticFramePool => {
+    const pool: KineticFramePool = {
+        all: [...frames],
+        byEnergy: { low: [], mid: [], high: [] },
+        closeups: [],
+        hands: [],
+        feet: [],
+        mandalas: [],
+        virtuals: [],
+        acrobatics: [],
+        byDirection: { left: [], right: [], center: [] }
+    };
+
+    for (const frame of frames) {
+        // Energy sorting
+        if (frame.energy && pool.byEnergy[frame.energy]) {
+            pool.byEnergy[frame.energy].push(frame);
+        }
+
+        // Direction sorting
+        const dir = frame.direction || 'center';
+        pool.byDirection[dir].push(frame);
+
+        // Type sorting
+        if (frame.type === 'closeup') {
+            pool.closeups.push(frame);
+        } else if (frame.type === 'hands') {
+            pool.hands.push(frame);
+            if (frame.pose?.includes('mandala')) {
+                pool.mandalas.push(frame);
+            }
+        } else if (frame.type === 'feet') {
+            pool.feet.push(frame);
+        }
+
+        // Role sorting
+        if (frame.role === 'alt') {
+            pool.acrobatics.push(frame);
+        }
+
+        // Virtual frames
+        if (frame.isVirtual) {
+            pool.virtuals.push(frame);
+        }
+    }
+
+    // Ensure pools have fallbacks
+    if (pool.byEnergy.low.length === 0) {
+        pool.byEnergy.low = [...pool.byEnergy.mid];
+    }
+    if (pool.byEnergy.mid.length === 0) {
+        pool.byEnergy.mid = [...pool.byEnergy.low];
+    }
+    if (pool.byDirection.center.length === 0) {
+        pool.byDirection.center = [...pool.byEnergy.mid];
+    }
+
+    return pool;
+};
@@ -0,0 +1,188 @@
+import { FrameQuality, FrameQualityIssue } from "../types";
+import { PixelBuffer } from "./gridDetection";
+import { analyzeSubject, foregroundMask, loadPixels } from "./frameAnalysis";
+
+/**
+ * FRAME VALIDATOR
+ *
+ * Scores every sliced cell before it reaches the deck:
+ * - blank:     near-uniform cell or almost no foreground
+ * - duplicate: perceptual hash (DCT pHash) within HASH_DUPLICATE_DISTANCE
+ *              bits of an earlier cell on the same sheet
+ * - cropped:   foreground touching the cell border (limb cut by the grid)
+ * A sheet with too many failures can be re-rolled by the caller.
+ */
+
+const BLANK_COVERAGE = 0.01;        // Foreground fraction below this = empty cell
+const BLANK_LUMA_STDDEV = 4;        // Luminance spread below this = flat cell
+const BORDER_BAND = 2;              // Pixels checked along each edge
+const BORDER_TOUCH_RATIO = 0.02;    // Fraction of an edge that counts as touching
+const BORDER_LINE_RATIO = 0.9;      // Above this the edge is a leftover grid line, not a limb
+export const HASH_DUPLICATE_DISTANCE = 5; // Hamming distance out of 64 bits
+export const SHEET_FAILURE_RATIO = 0.25;  // Re-roll a sheet when more cells than this fail
+
+const HASH_SAMPLE = 32;
+const HASH_LOW_FREQ = 8;
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+/**
+ * Area-averaged greyscale thumbnail.
+ */
+const greyThumbnail = (pixels: PixelBuffer, size: number): Float32Array => {
+    const { data, width, height } = pixels;
+    const out = new Float32Array(size * size);
+    for (let ty = 0; ty < size; ty++) {
+        const y0 = Math.floor((ty * height) / size);
+        const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * height) / size));
+        for (let tx = 0; tx < size; tx++) {
+            const x0 = Math.floor((tx * width) / size);
+            const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * width) / size));
+            let sum = 0, n = 0;
+            for (let y = y0; y < y1; y++) {
+                for (let x = x0; x < x1; x++) {
+                    const i = (y * width + x) * 4;
+                    sum += luminance(data[i], data[i + 1], data[i + 2]);
+                    n++;
+                }
+            }
+            out[ty * size + tx] = n > 0 ? sum / n : 0;
+        }
+    }
+    return out;
+};
+
+/**
+ * 64-bit perceptual hash as a 16 character hex string.
+ * Low-frequency 8x8 DCT block of a 32x32 thumbnail, thresholded at its median (DC excluded).
+ */
+export const perceptualHash = (pixels: PixelBuffer): string => {
+    const N = HASH_SAMPLE;
+    const thumb = greyThumbnail(pixels, N);
+    const coeffs: number[] = [];
+
+    for (let v = 0; v < HASH_LOW_FREQ; v++) {
+        for (let u = 0; u < HASH_LOW_FREQ; u++) {
+            let sum = 0;
+            for (let y = 0; y < N; y++) {
+                const cy = Math.cos(((2 * y + 1) * v * Math.PI) / (2 * N));
+                for (let x = 0; x < N; x++) {
+                    sum += thumb[y * N + x] * Math.cos(((2 * x + 1) * u * Math.PI) / (2 * N)) * cy;
+                }
+            }
+            coeffs.push(sum);
+        }
+    }
+
+    const sorted = coeffs.slice(1).sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+
+    let hex = '';
+    for (let nibble = 0; nibble < 16; nibble++) {
+        let value = 0;
+        for (let bit = 0; bit < 4; bit++) {
+            if (coeffs[nibble * 4 + bit] > median) value |= 1 << (3 - bit);
+        }
+        hex += value.toString(16);
+    }
+    return hex;
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+    let distance = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        let x = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+        while (x) { distance += x & 1; x >>= 1; }
+    }
+    return distance;
+};
+
+const isBlank = (pixels: PixelBuffer, coverage: number): boolean => {
+    if (coverage < BLANK_COVERAGE) return true;
+    const { data, width, height } = pixels;
+    let sum = 0, sumSq = 0;
+    const count = width * height;
+    for (let p = 0; p < count; p++) {
+        const l = luminance(data[p * 4], data[p * 4 + 1], data[p * 4 + 2]);
+        sum += l;
+        sumSq += l * l;
+    }
+    const mean = sum / count;
+    return Math.sqrt(Math.max(0, sumSq / count - mean * mean)) < BLANK_LUMA_STDDEV;
+};
+
+/**
+ * True when the subject runs into any edge of the cell.
+ */
+export const touchesBorder = (pixels: PixelBuffer, mask: Uint8Array): boolean => {
+    const { width, height } = pixels;
+    const edgeRatio = (horizontal: boolean, start: number) => {
+        const length = horizontal ? width : height;
+        let hits = 0;
+        for (let k = 0; k < length; k++) {
+            let hit = false;
+            for (let d = 0; d < BORDER_BAND && !hit; d++) {
+                const line = start === 0 ? d : start - d;
+                const p = horizontal ? line * width + k : k * width + line;
+                if (mask[p]) hit = true;
+            }
+            if (hit) hits++;
+        }
+        return hits / length;
+    };
+
+    const edges = [
+        edgeRatio(true, 0),
+        edgeRatio(true, height - 1),
+        edgeRatio(false, 0),
+        edgeRatio(false, width - 1)
+    ];
+    return edges.some(r => r > BORDER_TOUCH_RATIO && r < BORDER_LINE_RATIO);
+};
+
+/**
+ * Validate all cells of one sheet. Duplicates are reported on the later cell.
+ */
+export const validateSheetPixels = (cells: PixelBuffer[]): FrameQuality[] => {
+    const results: FrameQuality[] = [];
+    const hashes: (string | null)[] = [];
+
+    cells.forEach((pixels, index) => {
+        const issues: FrameQualityIssue[] = [];
+        const analysis = analyzeSubject(pixels);
+        const blank = isBlank(pixels, analysis.coverage);
+        const hash = perceptualHash(pixels);
+
+        if (blank) {
+            issues.push('blank');
+        } else {
+            const duplicateOf = hashes.findIndex(h => h !== null && hammingDistance(h, hash) <= HASH_DUPLICATE_DISTANCE);
+            if (duplicateOf >= 0) issues.push('duplicate');
+
+            const mask = foregroundMask(pixels, analysis.background);
+            if (touchesBorder(pixels, mask)) issues.push('cropped');
+        }
+
+        // Blank cells never count as the original of a duplicate pair
+        hashes[index] = blank ? null : hash;
+        results.push({ passed: issues.length === 0, issues, hash });
+    });
+
+    return results;
+};
+
+/**
+ * Load and validate the sliced frames of a sheet.
+ * Frames that cannot be decoded are reported as blank.
+ */
+export const validateSheetFrames = async (frameUrls: string[]): Promise<FrameQuality[]> => {
+    const loaded = await Promise.all(frameUrls.map(url => loadPixels(url).catch(() => null)));
+    const decodable = loaded.filter((l): l is NonNullable<typeof l> => l !== null).map(l => l.pixels);
+    const scored = validateSheetPixels(decodable);
+
+    let next = 0;
+    return loaded.map(l => l ? scored[next++] : { passed: false, issues: ['blank'], hash: '' });
+};
+
+export const sheetFailureRatio = (quality: FrameQuality[]): number =>
+    quality.length === 0 ? 1 : quality.filter(q => !q.passed).length / quality.length;
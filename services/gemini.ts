@@ -1,6 +1,13 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { GeneratedFrame, PoseType, EnergyLevel, SubjectCategory, FrameType, SheetRole, MoveDirection } from "../types";
+import { GeneratedFrame, PoseType, SubjectCategory, SheetRole, MoveDirection, FrameQuality, GenerationJob, SheetJob } from "../types";
+import { SheetProvider, SheetResult, createSheetProvider } from "./sheetProvider";
+import { GridDetection, GRID_CONFIDENCE_THRESHOLD, detectGrid, fixedGrid } from "./gridDetection";
+import { normalizeSheetFrames, mirrorNormalization, rigReferenceFromFrames, RigReference } from "./frameNormalizer";
+import { MattingOptions, matteFrame } from "./frameMatting";
+import { SHEET_FAILURE_RATIO, validateSheetFrames, sheetFailureRatio } from "./frameValidator";
+import { cancelPendingSheets, collectJobFrames, getSheetJob, updateSheetJob } from "./generationJob";
+import { describeSheetLayout, getSheetLayout, rowLayoutForCell } from "./sheetLayouts";
+import { MORPH_SHEET_ROLE, describeMorphSheet } from "./styleMorph";
 
 // Strict API Key usage as per guidelines
 const API_KEY = process.env.API_KEY;
@@ -10,8 +17,6 @@ console.log('[Gemini] API Key status:', API_KEY ? `Set (${API_KEY.substring(0, 8
 
 // --- UTILITIES ---
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
 const loadImageWithTimeout = (src: string, timeoutMs: number = 8000): Promise<HTMLImageElement> => {
     return new Promise((resolve, reject) => {
         const img = new Image();
@@ -114,7 +119,36 @@ export const fileToGenericBase64 = async (file: File): Promise<string> => {
 };
 
 // --- SPRITE SHEET SLICER ---
-const sliceSpriteSheet = (base64Image: string, rows: number, cols: number): Promise<string[]> => {
+interface SlicedSheet {
+    frames: string[];
+    grid: GridDetection;
+    usedFallback: boolean;
+}
+
+const GRID_ANALYSIS_SIZE = 256;
+
+const detectSheetGrid = (source: HTMLCanvasElement, rows: number, cols: number): GridDetection | null => {
+    const analysisCanvas = document.createElement('canvas');
+    analysisCanvas.width = GRID_ANALYSIS_SIZE;
+    analysisCanvas.height = GRID_ANALYSIS_SIZE;
+    const ctx = analysisCanvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+
+    ctx.drawImage(source, 0, 0, GRID_ANALYSIS_SIZE, GRID_ANALYSIS_SIZE);
+    const { data } = ctx.getImageData(0, 0, GRID_ANALYSIS_SIZE, GRID_ANALYSIS_SIZE);
+    const detection = detectGrid({ data, width: GRID_ANALYSIS_SIZE, height: GRID_ANALYSIS_SIZE }, { expectedRows: rows, expectedCols: cols });
+
+    // Scale bounds back up to the sheet resolution
+    const scaleX = source.width / GRID_ANALYSIS_SIZE;
+    const scaleY = source.height / GRID_ANALYSIS_SIZE;
+    return {
+        ...detection,
+        xBounds: detection.xBounds.map(x => x * scaleX),
+        yBounds: detection.yBounds.map(y => y * scaleY)
+    };
+};
+
+const sliceSpriteSheet = (base64Image: string, rows: number, cols: number): Promise<SlicedSheet> => {
     return new Promise(async (resolve, reject) => {
         try {
             const img = await loadImageWithTimeout(base64Image, 8000);
@@ -129,28 +163,37 @@ const sliceSpriteSheet = (base64Image: string, rows: number, cols: number): Prom
             
             normCtx.drawImage(img, 0, 0, img.width, img.height, 0, 0, SHEET_SIZE, SHEET_SIZE);
 
-            const cellW = SHEET_SIZE / cols; // 256
-            const cellH = SHEET_SIZE / rows; // 256
-            
+            // GRID DETECTION (falls back to the fixed grid when unsure)
+            const detected = detectSheetGrid(normCanvas, rows, cols);
+            const usedFallback = !detected || detected.confidence < GRID_CONFIDENCE_THRESHOLD;
+            const grid = usedFallback
+                ? { ...fixedGrid(SHEET_SIZE, SHEET_SIZE, rows, cols), confidence: detected?.confidence ?? 0 }
+                : detected!;
+
+            console.log(`[Slicer] Grid ${grid.rows}x${grid.cols} confidence ${(grid.confidence * 100).toFixed(0)}%${usedFallback ? ' (fixed grid fallback)' : ''}`);
+
             // 1% Safety Clean
             const cropFactor = 0.01; 
-            const cropX = cellW * cropFactor;
-            const cropY = cellH * cropFactor;
-            const sourceW = cellW * (1 - 2 * cropFactor);
-            const sourceH = cellH * (1 - 2 * cropFactor);
 
             const frames: string[] = [];
             
-            for (let r = 0; r < rows; r++) {
-                for (let c = 0; c < cols; c++) {
+            for (let r = 0; r < grid.rows; r++) {
+                for (let c = 0; c < grid.cols; c++) {
+                    const cellX = grid.xBounds[c];
+                    const cellY = grid.yBounds[r];
+                    const cellW = grid.xBounds[c + 1] - cellX;
+                    const cellH = grid.yBounds[r + 1] - cellY;
+                    const sourceW = cellW * (1 - 2 * cropFactor);
+                    const sourceH = cellH * (1 - 2 * cropFactor);
+
                     const cellCanvas = document.createElement('canvas');
                     cellCanvas.width = Math.floor(sourceW);
                     cellCanvas.height = Math.floor(sourceH);
                     const cellCtx = cellCanvas.getContext('2d');
                     
                     if(cellCtx) {
-                        const cellSrcX = (c * cellW) + cropX;
-                        const cellSrcY = (r * cellH) + cropY;
+                        const cellSrcX = cellX + cellW * cropFactor;
+                        const cellSrcY = cellY + cellH * cropFactor;
 
                         cellCtx.drawImage(
                             normCanvas, 
@@ -161,7 +204,7 @@ const sliceSpriteSheet = (base64Image: string, rows: number, cols: number): Prom
                     }
                 }
             }
-            resolve(frames);
+            resolve({ frames, grid, usedFallback });
         } catch (e) {
             reject(e);
         }
@@ -169,7 +212,7 @@ const sliceSpriteSheet = (base64Image: string, rows: number, cols: number): Prom
 };
 
 // Standard Mirror
-const mirrorFrame = (frameUrl: string): Promise<string> => {
+const mirrorFrame = (frameUrl: string, mimeType: string = 'image/jpeg'): Promise<string> => {
     return new Promise((resolve) => {
         const img = new Image();
         img.crossOrigin = "anonymous";
@@ -182,7 +225,7 @@ const mirrorFrame = (frameUrl: string): Promise<string> => {
                 ctx.translate(canvas.width, 0);
                 ctx.scale(-1, 1);
                 ctx.drawImage(img, 0, 0);
-                resolve(canvas.toDataURL('image/jpeg', 0.8));
+                resolve(canvas.toDataURL(mimeType, 0.8));
             } else {
                 resolve(frameUrl);
             }
@@ -193,7 +236,7 @@ const mirrorFrame = (frameUrl: string): Promise<string> => {
 };
 
 // MANDALA MIRROR (Symmetrical Stitch) for Hands
-const mandalaFrame = (frameUrl: string): Promise<string> => {
+const mandalaFrame = (frameUrl: string, mimeType: string = 'image/jpeg'): Promise<string> => {
     return new Promise((resolve) => {
         const img = new Image();
         img.crossOrigin = "anonymous";
@@ -225,10 +268,12 @@ const mandalaFrame = (frameUrl: string): Promise<string> => {
                 ctx.restore();
                 
                 // Add center glow/blend line?
+                // Cutouts keep the seam on the subject only
+                if (mimeType !== 'image/jpeg') ctx.globalCompositeOperation = 'source-atop';
                 ctx.fillStyle = 'rgba(255,255,255,0.2)';
                 ctx.fillRect(w/2 - 2, 0, 4, h);
 
-                resolve(canvas.toDataURL('image/jpeg', 0.85));
+                resolve(canvas.toDataURL(mimeType, 0.85));
             } else {
                 resolve(frameUrl);
             }
@@ -238,38 +283,18 @@ const mandalaFrame = (frameUrl: string): Promise<string> => {
     });
 };
 
-const generateWithRetry = async (ai: GoogleGenAI, params: any, retries = 2) => {
-    let lastError: any;
-    for (let i = 0; i < retries; i++) {
-        try {
-            console.log(`[Gemini] Generation attempt ${i + 1}/${retries} with model: ${params.model}`);
-            const result = await ai.models.generateContent(params);
-            console.log(`[Gemini] Generation attempt ${i + 1} succeeded`);
-            return result;
-        } catch (e: any) {
-            console.error(`[Gemini] Attempt ${i + 1} failed:`, e.message);
-            console.error('[Gemini] Error details:', {
-                name: e.name,
-                code: e.code,
-                status: e.status,
-                statusText: e.statusText,
-                message: e.message
-            });
-            lastError = e;
-            if (i < retries - 1) {
-                const waitTime = 1000 * Math.pow(2, i);
-                console.log(`[Gemini] Retrying in ${waitTime}ms...`);
-                await delay(waitTime);
-            }
-        }
-    }
-    throw lastError;
-};
+// --- RE-ROLL BUDGET ---
+// Shared by every sheet of one generation so parallel sheets can't overspend
+interface RerollBudget {
+    remaining: number;
+}
+
+const REROLL_SEED_STRIDE = 7919;
 
 // --- MECHANICAL MANIFEST ---
-const MECHANICAL_MANIFEST = `
+const buildMechanicalManifest = (rows: number, cols: number) => `
 STRICT MECHANICAL RULES (CRITICAL):
-1. GRID: Output a strictly aligned 4x4 Grid (16 frames).
+1. GRID: Output a strictly aligned ${rows}x${cols} Grid (${rows * cols} frames).
 2. SCALE: The subject MUST occupy exactly 75% of the cell's height. 
 3. BUFFER: Leave 12.5% empty space on ALL sides of the subject within the cell.
 4. CENTERING: Center of mass must be in the absolute middle of the cell.
@@ -277,311 +302,241 @@ STRICT MECHANICAL RULES (CRITICAL):
 `;
 
 const generateSingleSheet = async (
-    ai: GoogleGenAI,
+    provider: SheetProvider,
     role: SheetRole,
     imageBase64: string,
     stylePrompt: string,
     motionPrompt: string,
     category: SubjectCategory,
     seed: number, 
-    contextImageBase64?: string
+    contextImageBase64?: string,
+    matting: MattingOptions | null = null,
+    rerollBudget: RerollBudget | null = null,
+    signal?: AbortSignal,
+    rigReference: RigReference | null = null
 ): Promise<{ frames: GeneratedFrame[], rawSheetBase64?: string }> => {
     
-    const rows = 4;
-    const cols = 4;
+    // The morph sheet redraws the base sheet in the secondary style, so it shares its layout
+    const isMorph = role === MORPH_SHEET_ROLE;
+    const layout = getSheetLayout(isMorph ? 'base' : role, category);
+    const { rows, cols } = layout;
     const isTextOrSymbol = category === 'TEXT' || category === 'SYMBOL';
     const danceStyle = motionPrompt ? `Specific Dance Style: ${motionPrompt}.` : "Style: Rhythmic, energetic dance loop.";
 
-    let systemPrompt = `TASK: Generate a 4x4 Sprite Sheet (16 frames).
-    ${MECHANICAL_MANIFEST}
+    let systemPrompt = `TASK: Generate a ${rows}x${cols} Sprite Sheet (${rows * cols} frames).
+    ${buildMechanicalManifest(rows, cols)}
     Visual Style: ${stylePrompt}
     ${danceStyle}
     `;
 
     if (isTextOrSymbol) {
-             systemPrompt += `\nSUBJECT: TEXT/LOGO. Action: Dynamic Motion/Pulsing. Keep content centered.`;
-    } else {
-        if (role === 'base') {
-            systemPrompt += `
-            SHEET 1 (GROOVE):
-            Row 1: Idle / Groove (Center).
-            Row 2: ${motionPrompt ? 'Signature Move A' : 'Step Left'}.
-            Row 3: ${motionPrompt ? 'Signature Move B' : 'Step Right'}.
-            Row 4: Power Pose / Freeze.
-            Ensure feet are visible. Center of mass in middle.
-            `;
-        } else if (role === 'alt') {
-            systemPrompt += `
-            SHEET 2 (IMPACT):
-            Row 1: Dynamic Jump or Hop (Maintain 75% scale).
-            Row 2: Low movement / Crouch / Floor work.
-            Row 3: Spin / Rotation frames.
-            Row 4: Expressive Extension / Kick.
-            Keep action contained within cell boundaries.
-            `;
-        } else if (role === 'flourish') {
-            systemPrompt += `
-            SHEET 3 (EMOTE / FACE):
-            Row 1: Profile View (Left/Right).
-            Row 2: 3/4 Perspective View.
-            Row 3: Low Angle (Heroic).
-            Row 4: High Angle (Top Down).
-            FOCUS ON FACIAL EXPRESSION. 
-            Maintain 4x4 Grid. Do not zoom in too much (keep 60% scale).
-            `;
-        } else if (role === 'details') {
-             systemPrompt += `
-             SHEET 4 (INSERTS - HANDS & FEET):
-             Row 1: Hand Gestures / Mudras / Voguing (Hands Only).
-             Row 2: Hand Gestures / Finger Tutting.
-             Row 3: Fancy Footwork / Shoes / Stepping.
-             Row 4: Fancy Footwork / Sliding.
-             FOCUS ON APPENDAGES. 
-             Center the hand/foot in the cell.
-             `;
-        }
+             systemPrompt += `\nSUBJECT: ${category === 'TEXT' ? 'TEXT/LETTERING' : 'LOGO/SYMBOL'}. Action: Dynamic Motion/Pulsing. Keep content centered.`;
     }
+    systemPrompt += `\n${describeSheetLayout(layout, !!motionPrompt, category)}\n`;
+    if (isMorph) systemPrompt += `${describeMorphSheet()}\n`;
+
+    console.log(`[${provider.label}] Generating Sheet: ${role}`);
+
+    // Generate, slice and validate; re-roll with a fresh seed while the budget allows
+    let attemptSeed = seed;
+    let best: { sheet: SheetResult, sliced: SlicedSheet, quality: FrameQuality[], failureRatio: number } | null = null;
+
+    for (let attempt = 0; ; attempt++) {
+        const sheet = await provider.generateSheet({
+            role,
+            imageBase64,
+            contextImageBase64,
+            prompt: systemPrompt,
+            seed: attemptSeed,
+            rows,
+            cols,
+            signal
+        });
+        const attemptSliced = await sliceSpriteSheet(sheet.dataUri, rows, cols);
+        const attemptQuality = await validateSheetFrames(attemptSliced.frames);
+        const failureRatio = sheetFailureRatio(attemptQuality);
+        console.log(`[Validator] ${role} sheet: ${attemptQuality.filter(q => !q.passed).length}/${attemptQuality.length} cells failed`);
 
-    console.log(`[Gemini] Generating Sheet: ${role}`);
-    const cleanBase64 = imageBase64.includes('base64,') ? imageBase64.split('base64,')[1] : imageBase64;
-    const cleanContext = contextImageBase64 && contextImageBase64.includes('base64,') ? contextImageBase64.split('base64,')[1] : contextImageBase64;
-
-    const parts: any[] = [
-        { inlineData: { mimeType: 'image/jpeg', data: cleanBase64 } }
-    ];
+        if (!best || failureRatio < best.failureRatio) {
+            best = { sheet, sliced: attemptSliced, quality: attemptQuality, failureRatio };
+        }
+        if (failureRatio <= SHEET_FAILURE_RATIO || !rerollBudget || rerollBudget.remaining <= 0 || signal?.aborted) break;
 
-    if (cleanContext) {
-        parts.push({ inlineData: { mimeType: 'image/jpeg', data: cleanContext } });
-        systemPrompt += "\nREFERENCE: Use the second image as the MASTER STYLE REFERENCE.";
+        rerollBudget.remaining--;
+        attemptSeed = seed + (attempt + 1) * REROLL_SEED_STRIDE;
+        console.warn(`[Validator] Re-rolling ${role} sheet with seed ${attemptSeed} (${rerollBudget.remaining} re-rolls left)`);
     }
 
-    parts.push({ text: systemPrompt });
-
-    try {
-        const response = await generateWithRetry(ai, {
-            model: 'gemini-2.5-flash-image',
-            contents: { parts },
-            config: { imageConfig: { aspectRatio: "1:1" }, seed: seed }
-        });
+    const { sheet, sliced, quality } = best;
+    const spriteSheetBase64 = sheet.rawBase64;
 
-        const candidate = response.candidates?.[0];
-        let spriteSheetBase64: string | undefined = undefined;
-        let mimeType = 'image/png';
+    const normalized = await normalizeSheetFrames(sliced.frames, layout.anchor, undefined, rigReference);
+    let rawFrames = normalized.map(n => n.url);
 
-        if (candidate?.content?.parts) {
-            for (const part of candidate.content.parts) {
-                if (part.inlineData && part.inlineData.data) {
-                    spriteSheetBase64 = part.inlineData.data;
-                    if (part.inlineData.mimeType) mimeType = part.inlineData.mimeType;
-                    break;
-                }
-            }
-        }
+    // Optional cutout pass: mirrors/mandalas below inherit the alpha format
+    const hasAlpha = matting !== null;
+    const frameMime = matting ? (matting.format ?? 'image/png') : 'image/jpeg';
+    if (matting) {
+        rawFrames = await Promise.all(rawFrames.map(url => matteFrame(url, matting)));
+        console.log(`[Matting] ${rawFrames.length} ${role} frames cut out (${matting.mode}, ${frameMime})`);
+    }
 
-        if (!spriteSheetBase64) throw new Error("Model returned no image data.");
+    const finalFrames: GeneratedFrame[] = [];
+
+    for (let i = 0; i < rawFrames.length; i++) {
+        const poseName = `${role}_${i}`;
+        const { energy, type, direction, expansion } = rowLayoutForCell(layout, i, sliced.grid.rows, sliced.grid.cols);
+
+        finalFrames.push({
+            url: rawFrames[i],
+            pose: poseName,
+            energy,
+            type,
+            role,
+            direction,
+            gridConfidence: sliced.grid.confidence,
+            normalization: normalized[i].normalization,
+            hasAlpha,
+            quality: quality[i]
+        });
         
-        const dataUri = `data:${mimeType};base64,${spriteSheetBase64}`;
-        const rawFrames = await sliceSpriteSheet(dataUri, rows, cols);
-        const finalFrames: GeneratedFrame[] = [];
-
-        for (let i = 0; i < rawFrames.length; i++) {
-            let energy: EnergyLevel = 'mid';
-            let type: FrameType = 'body';
-            let direction: MoveDirection = 'center';
-            let poseName = `${role}_${i}`;
-
-            // --- ROLE MAPPING ---
-            if (role === 'base') {
-                if (i < 4) { energy = 'low'; direction = 'center'; }
-                else if (i >= 4 && i < 8) { energy = 'mid'; direction = 'left'; }
-                else if (i >= 8 && i < 12) { energy = 'mid'; direction = 'right'; }
-                else if (i >= 12) { energy = 'high'; direction = 'center'; }
-            } 
-            else if (role === 'alt') {
-                energy = 'high';
-                direction = 'center'; 
-            }
-            else if (role === 'flourish') {
-                energy = 'high';
-                type = 'closeup'; // Face frames
-            }
-            else if (role === 'details') {
-                energy = 'high';
-                if (i < 8) type = 'hands'; // Row 1 & 2
-                else type = 'feet'; // Row 3 & 4
-            }
-
+        // --- TARGETED EXPANSION ---
+        if (expansion === 'mandala') {
+            // MANDALA MIRROR (symmetrical hands)
+            const mandala = await mandalaFrame(rawFrames[i], frameMime);
             finalFrames.push({
-                url: rawFrames[i],
-                pose: poseName,
+                url: mandala,
+                pose: poseName + '_mandala',
                 energy,
                 type,
                 role,
-                direction
+                direction: 'center',
+                gridConfidence: sliced.grid.confidence,
+                normalization: normalized[i].normalization,
+                hasAlpha,
+                quality: quality[i]
             });
+        } else if (expansion === 'mirror') {
+            // STANDARD MIRROR
+            const mirrored = await mirrorFrame(rawFrames[i], frameMime);
+            let mirrorDir: MoveDirection = direction;
+            if (direction === 'left') mirrorDir = 'right';
+            else if (direction === 'right') mirrorDir = 'left';
             
-            // --- TARGETED EXPANSION ---
-            if (role === 'details' && type === 'hands') {
-                // MANDALA MIRROR for Hands
-                const mandala = await mandalaFrame(rawFrames[i]);
-                finalFrames.push({
-                    url: mandala,
-                    pose: poseName + '_mandala',
-                    energy,
-                    type,
-                    role,
-                    direction: 'center'
-                });
-            } else {
-                // STANDARD MIRROR for Body/Face/Feet
-                const mirrored = await mirrorFrame(rawFrames[i]);
-                let mirrorDir: MoveDirection = direction;
-                if (direction === 'left') mirrorDir = 'right';
-                else if (direction === 'right') mirrorDir = 'left';
-                
-                finalFrames.push({
-                    url: mirrored,
-                    pose: poseName + '_mirror',
-                    energy,
-                    type,
-                    role,
-                    direction: mirrorDir
-                });
-            }
+            finalFrames.push({
+                url: mirrored,
+                pose: poseName + '_mirror',
+                energy,
+                type,
+                role,
+                direction: mirrorDir,
+                gridConfidence: sliced.grid.confidence,
+                normalization: mirrorNormalization(normalized[i].normalization),
+                hasAlpha,
+                quality: quality[i]
+            });
         }
-        
-        return { frames: finalFrames, rawSheetBase64: spriteSheetBase64 };
-
-    } catch (e: any) {
-        console.error(`Failed to generate sheet ${role}:`, e);
-        if (role === 'base') throw e;
-        return { frames: [] };
     }
+    
+    return { frames: finalFrames, rawSheetBase64: spriteSheetBase64 };
 };
 
-// Helper to validate API key with a lightweight request
-const validateApiKey = async (ai: GoogleGenAI): Promise<boolean> => {
-    try {
-        console.log('[Gemini] Validating API key...');
-        // Try to list models to validate the key works
-        const models = await ai.models.list();
-        console.log('[Gemini] API key validated successfully. Available models:',
-            models?.models?.slice(0, 5).map((m: any) => m.name) || 'Unable to list');
-        return true;
-    } catch (e: any) {
-        console.error('[Gemini] API key validation failed:', e.message);
-        if (e.message?.includes('API_KEY_INVALID') || e.message?.includes('invalid')) {
-            throw new Error('API Key is invalid. Please check your GEMINI_API_KEY in GitHub Secrets.');
-        }
-        if (e.message?.includes('expired')) {
-            throw new Error('API Key has expired. Please generate a new key from Google AI Studio.');
-        }
-        // Don't block on validation failure for other reasons
-        console.warn('[Gemini] Validation check failed but continuing...');
-        return false;
-    }
-};
+export interface GenerationRunOptions {
+    signal?: AbortSignal;
+    matting?: MattingOptions | null;
+    rerollBudget?: number;
+    onJobUpdate?: (job: GenerationJob) => void; // Fired on every sheet state change (persist here)
+}
 
 export const generateDanceFrames = async (
-  imageBase64: string,
-  stylePrompt: string,
-  motionPrompt: string,
-  useTurbo: boolean,
-  superMode: boolean,
-  onFrameUpdate: (frames: GeneratedFrame[]) => void
-): Promise<{ frames: GeneratedFrame[], category: SubjectCategory }> => {
+  job: GenerationJob,
+  onFrameUpdate: (frames: GeneratedFrame[]) => void,
+  provider: SheetProvider = createSheetProvider(job.request.sheetProvider),
+  options: GenerationRunOptions = {}
+): Promise<{ frames: GeneratedFrame[], category: SubjectCategory, job: GenerationJob }> => {
+
+  const { signal, matting = null, rerollBudget = 0, onJobUpdate } = options;
+  const { imageBase64, stylePrompt, motionPrompt, useTurbo, superMode, secondaryStylePrompt } = job.request;
+  const { masterSeed, category } = job;
 
   console.log('[Gemini] ====== STARTING GENERATION ======');
-  console.log('[Gemini] API_KEY present:', !!API_KEY);
-  console.log('[Gemini] API_KEY length:', API_KEY?.length || 0);
-  console.log('[Gemini] API_KEY prefix:', API_KEY ? API_KEY.substring(0, 10) + '...' : 'N/A');
+  console.log('[Gemini] Job:', job.id, job.sheets.map(s => `${s.role}:${s.status}`).join(' '));
+  console.log('[Gemini] Provider:', provider.id);
   console.log('[Gemini] useTurbo:', useTurbo);
   console.log('[Gemini] superMode:', superMode);
+  console.log('[Gemini] matting:', matting?.mode ?? 'off');
+  console.log('[Gemini] rerollBudget:', rerollBudget);
   console.log('[Gemini] imageBase64 length:', imageBase64?.length || 0);
 
-  if (!API_KEY) {
-    console.error('[Gemini] API Key is missing! Check your environment variables.');
-    throw new Error("API Key is missing. Please set GEMINI_API_KEY in GitHub Secrets.");
-  }
-
-  if (!API_KEY.startsWith('AIza')) {
-    console.error('[Gemini] API Key format looks invalid. Expected to start with "AIza"');
-    throw new Error("API Key format is invalid. Please check your GEMINI_API_KEY.");
-  }
-
-  const ai = new GoogleGenAI({ apiKey: API_KEY });
-
-  // Validate the key before attempting generation
-  await validateApiKey(ai);
-  const masterSeed = Math.floor(Math.random() * 2147483647);
-  let category: SubjectCategory = 'CHARACTER';
-  if (/logo|text|word|letter|font|typography/i.test(motionPrompt)) category = 'TEXT';
-  
-  let allFrames: GeneratedFrame[] = [];
-  let baseSheetBase64: string | undefined = undefined;
+  let current = job;
+  const update = (role: SheetRole, patch: Partial<SheetJob>) => {
+      current = updateSheetJob(current, role, patch);
+      onJobUpdate?.(current);
+  };
+  const emitFrames = () => onFrameUpdate(collectJobFrames(current));
+
+  // Resumed runs stream the sheets that already finished straight away
+  if (collectJobFrames(current).length > 0) emitFrames();
+
+  await provider.prepare();
+  const budget: RerollBudget = { remaining: rerollBudget };
+
+  const runSheet = async (
+      role: SheetRole,
+      seed: number,
+      contextImageBase64?: string,
+      sheetStylePrompt: string = stylePrompt,
+      rigReference: RigReference | null = null
+  ) => {
+      const sheet = getSheetJob(current, role);
+      if (!sheet || sheet.status === 'done') return;
+      if (signal?.aborted) { update(role, { status: 'cancelled' }); return; }
+
+      update(role, { status: 'running', error: undefined });
+      try {
+          const result = await generateSingleSheet(provider, role, imageBase64, sheetStylePrompt, motionPrompt, category, seed, contextImageBase64, matting, budget, signal, rigReference);
+          if (result.frames.length === 0) {
+              update(role, { status: signal?.aborted ? 'cancelled' : 'failed', error: 'Sheet produced no frames' });
+              return;
+          }
+          update(role, { status: 'done', frames: result.frames, rawSheetBase64: role === 'base' ? result.rawSheetBase64 : undefined });
+          emitFrames();
+      } catch (e: any) {
+          update(role, { status: signal?.aborted ? 'cancelled' : 'failed', error: e.message });
+          console.warn(`${role} sheet failed`, e);
+          if (role === 'base') throw e;
+      }
+  };
 
   // 1. BASE GENERATION
-  let baseResult;
   try {
-      baseResult = await generateSingleSheet(ai, 'base', imageBase64, stylePrompt, motionPrompt, category, masterSeed);
+      await runSheet('base', masterSeed);
   } catch (e) {
-      // Retry logic handled inside or here
-      baseResult = await generateSingleSheet(ai, 'base', imageBase64, stylePrompt, motionPrompt, category, masterSeed + 1);
-  }
-  
-  if (baseResult?.frames?.length > 0) {
-      allFrames = [...allFrames, ...baseResult.frames];
-      onFrameUpdate(allFrames); 
-      baseSheetBase64 = baseResult.rawSheetBase64; 
-  } else {
-      throw new Error("Base generation failed.");
+      if (signal?.aborted) throw new Error("Generation cancelled.");
+      // One retry with a shifted seed
+      await runSheet('base', masterSeed + 1);
   }
 
-  // 2. PARALLEL EXPANSION
-  const parallelGenerators: Promise<void>[] = [];
-
-  // Alt Sheet (Standard Action)
-  const generateAlt = async () => {
-      try {
-          const result = await generateSingleSheet(ai, 'alt', imageBase64, stylePrompt, motionPrompt, category, masterSeed, baseSheetBase64);
-          if(result.frames.length > 0) {
-              allFrames = [...allFrames, ...result.frames];
-              onFrameUpdate(allFrames);
-          }
-      } catch(e) { console.warn("Alt sheet failed", e); }
-  };
-  parallelGenerators.push(generateAlt());
-
-  // Quality Mode: Flourish (Faces/Angles)
-  if (!useTurbo || superMode) {
-      const generateFlourish = async () => {
-          try {
-              const result = await generateSingleSheet(ai, 'flourish', imageBase64, stylePrompt, motionPrompt, category, masterSeed, baseSheetBase64);
-              if(result.frames.length > 0) {
-                  allFrames = [...allFrames, ...result.frames];
-                  onFrameUpdate(allFrames);
-              }
-          } catch(e) { console.warn("Flourish sheet failed", e); }
-      };
-      parallelGenerators.push(generateFlourish());
+  const base = getSheetJob(current, 'base');
+  if (base?.status !== 'done') {
+      throw new Error(signal?.aborted ? "Generation cancelled." : "Base generation failed.");
   }
 
-  // Super Mode: Details (Hands/Feet)
-  if (superMode) {
-      const generateDetails = async () => {
-          try {
-              const result = await generateSingleSheet(ai, 'details', imageBase64, stylePrompt, motionPrompt, category, masterSeed, baseSheetBase64);
-              if(result.frames.length > 0) {
-                  allFrames = [...allFrames, ...result.frames];
-                  onFrameUpdate(allFrames);
-              }
-          } catch(e) { console.warn("Details sheet failed", e); }
-      };
-      parallelGenerators.push(generateDetails());
+  // 2. PARALLEL EXPANSION (alt / flourish / details as the job requires, plus the style-B morph sheet)
+  // Every body sheet takes the base sheet's scale and feet line
+  const rigReference = rigReferenceFromFrames(base.frames.map(f => f.normalization));
+  await Promise.allSettled(
+      current.sheets
+          .filter(s => s.role !== 'base')
+          .map(s => runSheet(s.role, masterSeed, base.rawSheetBase64, s.role === MORPH_SHEET_ROLE ? secondaryStylePrompt : undefined, rigReference))
+  );
+
+  if (signal?.aborted) {
+      current = cancelPendingSheets(current);
+      onJobUpdate?.(current);
   }
 
-  await Promise.allSettled(parallelGenerators);
-
+  const allFrames = collectJobFrames(current);
   if (allFrames.length === 0) throw new Error("Generation failed.");
-  return { frames: allFrames, category };
+  return { frames: allFrames, category, job: current };
 };
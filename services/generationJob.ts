@@ -0,0 +1,76 @@
+import { GeneratedFrame, GenerationJob, GenerationRequest, SheetJob, SheetRole, SubjectCategory } from "../types";
+import { layoutsForMode } from "./sheetLayouts";
+import { MORPH_SHEET_ROLE } from "./styleMorph";
+import { randomSeed } from "./prng";
+
+/**
+ * GENERATION JOB MODEL
+ *
+ * A run is a list of sheet jobs, one per role, each moving through
+ * queued -> running -> done | failed | cancelled.
+ * Jobs are plain serialisable objects so they can be stored in IndexedDB
+ * (see jobStore.ts) and picked up again after a reload: sheets that are
+ * already `done` are reused, everything else is generated again.
+ * All helpers return new objects so React state updates stay cheap.
+ */
+
+/**
+ * Which sheets a run needs for the chosen quality mode and subject (see sheetLayouts.ts).
+ */
+export const rolesForMode = (useTurbo: boolean, superMode: boolean, category: SubjectCategory = 'CHARACTER'): SheetRole[] =>
+    layoutsForMode(useTurbo, superMode, category).map(l => l.role);
+
+export const createGenerationJob = (request: GenerationRequest, category: SubjectCategory = 'CHARACTER'): GenerationJob => {
+    const now = Date.now();
+    const roles = rolesForMode(request.useTurbo, request.superMode, category);
+    // Dual style morph: the secondary-style redraw of the base sheet runs right after it
+    if (request.secondaryStylePrompt) roles.splice(1, 0, MORPH_SHEET_ROLE);
+    return {
+        id: crypto.randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+        request,
+        masterSeed: randomSeed(),
+        category,
+        sheets: roles.map(role => ({ role, status: 'queued', frames: [] }))
+    };
+};
+
+export const getSheetJob = (job: GenerationJob, role: SheetRole): SheetJob | undefined =>
+    job.sheets.find(s => s.role === role);
+
+export const updateSheetJob = (job: GenerationJob, role: SheetRole, patch: Partial<SheetJob>): GenerationJob => ({
+    ...job,
+    updatedAt: Date.now(),
+    sheets: job.sheets.map(s => s.role === role ? { ...s, ...patch } : s)
+});
+
+/**
+ * All finished frames in sheet order (base first, like the live stream).
+ */
+export const collectJobFrames = (job: GenerationJob): GeneratedFrame[] =>
+    job.sheets.flatMap(sheet => sheet.status === 'done' ? sheet.frames : []);
+
+/**
+ * A job interrupted by a reload still has queued or running sheets.
+ */
+export const isJobResumable = (job: GenerationJob): boolean =>
+    job.sheets.some(s => s.status === 'queued' || s.status === 'running');
+
+/**
+ * Reset unfinished sheets so a resumed run regenerates them.
+ */
+export const prepareJobForResume = (job: GenerationJob): GenerationJob => ({
+    ...job,
+    updatedAt: Date.now(),
+    sheets: job.sheets.map(s => s.status === 'done' ? s : { role: s.role, status: 'queued', frames: [] })
+});
+
+/**
+ * Mark every sheet that has not finished as cancelled.
+ */
+export const cancelPendingSheets = (job: GenerationJob): GenerationJob => ({
+    ...job,
+    updatedAt: Date.now(),
+    sheets: job.sheets.map(s => s.status === 'queued' || s.status === 'running' ? { ...s, status: 'cancelled' } : s)
+});
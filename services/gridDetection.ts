@@ -0,0 +1,241 @@
+/**
+ * SPRITE SHEET GRID DETECTOR
+ *
+ * Finds the real cell boundaries of a generated sprite sheet instead of
+ * trusting the 4x4 grid the prompt asked for. Works on row/column profiles:
+ * - Luminance variance per row/column (detects empty gutters and clean grid
+ *   lines: runs of near-uniform rows/columns)
+ * - Luminance mean per row/column (detects drawn grid lines that the poses
+ *   overlap: thin rows/columns much darker or lighter than their surroundings)
+ * The centre of each interior run is a candidate boundary. Candidates are
+ * then fitted against evenly spaced grids of 1..MAX_CELLS to pick the cell
+ * count.
+ */
+
+export interface PixelBuffer {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+export interface AxisFit {
+    count: number;          // Number of cells along this axis
+    bounds: number[];       // count + 1 edges in pixels, first = 0, last = length
+    confidence: number;     // 0.0 - 1.0
+}
+
+export interface GridDetection {
+    rows: number;
+    cols: number;
+    xBounds: number[];
+    yBounds: number[];
+    confidence: number;     // min(row confidence, col confidence)
+}
+
+export interface GridDetectionOptions {
+    expectedRows?: number;
+    expectedCols?: number;
+    maxCells?: number;
+}
+
+// Below this overall confidence the pipeline falls back to the fixed grid
+export const GRID_CONFIDENCE_THRESHOLD = 0.6;
+
+const MAX_CELLS = 8;
+const GUTTER_VARIANCE_RATIO = 0.08; // Normalised variance below this = uniform line
+const MATCH_TOLERANCE = 0.2;        // Fraction of a cell a boundary may drift
+const LINE_CONTRAST = 24;           // Mean luminance a grid line differs from its surroundings by
+const LINE_WINDOW = 1 / 16;         // Surroundings: this fraction of the axis on each side
+const LINE_MAX_WIDTH = 0.015;       // Wider dark/light bands are content, not lines
+const MERGE_DISTANCE = 0.02;        // Candidates closer than this fraction are the same boundary
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+/**
+ * Compute per-row or per-column luminance mean and variance.
+ */
+export const computeProfiles = (pixels: PixelBuffer, axis: 'x' | 'y'): { mean: number[]; variance: number[] } => {
+    const { data, width, height } = pixels;
+    const length = axis === 'x' ? width : height;
+    const span = axis === 'x' ? height : width;
+    const mean: number[] = new Array(length).fill(0);
+    const variance: number[] = new Array(length).fill(0);
+
+    for (let i = 0; i < length; i++) {
+        let sum = 0;
+        let sumSq = 0;
+        for (let j = 0; j < span; j++) {
+            const x = axis === 'x' ? i : j;
+            const y = axis === 'x' ? j : i;
+            const idx = (y * width + x) * 4;
+            const l = luminance(data[idx], data[idx + 1], data[idx + 2]);
+            sum += l;
+            sumSq += l * l;
+        }
+        const m = sum / span;
+        mean[i] = m;
+        variance[i] = Math.max(0, sumSq / span - m * m);
+    }
+
+    return { mean, variance };
+};
+
+/**
+ * Find centres of interior near-uniform runs (gutters and grid lines).
+ */
+export const findGutterCentres = (variance: number[]): number[] => {
+    const maxVar = Math.max(...variance, 1);
+    const isGutter = variance.map(v => v / maxVar < GUTTER_VARIANCE_RATIO);
+    const centres: number[] = [];
+
+    let runStart = -1;
+    for (let i = 0; i <= isGutter.length; i++) {
+        const inRun = i < isGutter.length && isGutter[i];
+        if (inRun && runStart < 0) {
+            runStart = i;
+        } else if (!inRun && runStart >= 0) {
+            const runEnd = i - 1;
+            // Runs touching the sheet edge are outer margins, not boundaries
+            if (runStart > 0 && runEnd < isGutter.length - 1) {
+                centres.push((runStart + runEnd) / 2);
+            }
+            runStart = -1;
+        }
+    }
+
+    return centres;
+};
+
+/**
+ * Find centres of thin interior lines in the mean profile: runs whose mean
+ * stands out from the median of the rows/columns on either side.
+ */
+export const findLineCentres = (mean: number[]): number[] => {
+    const length = mean.length;
+    const window = Math.max(3, Math.round(length * LINE_WINDOW));
+    const maxWidth = Math.max(2, Math.round(length * LINE_MAX_WIDTH));
+    const median = (values: number[]) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)];
+    // A line stands out from both sides; the edge of a pose only from one
+    const isLine = mean.map((m, i) => {
+        if (i === 0 || i === length - 1) return false;
+        const before = m - median(mean.slice(Math.max(0, i - window), i));
+        const after = m - median(mean.slice(i + 1, i + window + 1));
+        return Math.sign(before) === Math.sign(after) && Math.min(Math.abs(before), Math.abs(after)) > LINE_CONTRAST;
+    });
+    const centres: number[] = [];
+
+    let runStart = -1;
+    for (let i = 0; i <= length; i++) {
+        const inRun = i < length && isLine[i];
+        if (inRun && runStart < 0) {
+            runStart = i;
+        } else if (!inRun && runStart >= 0) {
+            const runEnd = i - 1;
+            if (runStart > 0 && runEnd < length - 1 && runEnd - runStart + 1 <= maxWidth) {
+                centres.push((runStart + runEnd) / 2);
+            }
+            runStart = -1;
+        }
+    }
+
+    return centres;
+};
+
+/**
+ * Gutter and line candidates of one axis, a line inside a gutter counted once.
+ */
+const axisCandidates = (profile: { mean: number[]; variance: number[] }): number[] => {
+    const minGap = profile.mean.length * MERGE_DISTANCE;
+    const candidates = findGutterCentres(profile.variance);
+    for (const line of findLineCentres(profile.mean)) {
+        if (candidates.every(c => Math.abs(c - line) >= minGap)) candidates.push(line);
+    }
+    return candidates.sort((a, b) => a - b);
+};
+
+/**
+ * Fit candidate boundaries to the best evenly spaced grid.
+ */
+export const fitAxis = (candidates: number[], length: number, expected: number = 4, maxCells: number = MAX_CELLS): AxisFit => {
+    let best: AxisFit = {
+        count: expected,
+        bounds: Array.from({ length: expected + 1 }, (_, i) => (i * length) / expected),
+        confidence: 0
+    };
+    let bestScore = -1;
+
+    for (let count = 2; count <= maxCells; count++) {
+        const cell = length / count;
+        const tolerance = cell * MATCH_TOLERANCE;
+        const used = new Set<number>();
+        const bounds: number[] = [0];
+        let matched = 0;
+        let drift = 0;
+
+        for (let k = 1; k < count; k++) {
+            const target = k * cell;
+            let nearest = -1;
+            let nearestDist = Infinity;
+            candidates.forEach((c, idx) => {
+                const d = Math.abs(c - target);
+                if (!used.has(idx) && d < nearestDist) { nearest = idx; nearestDist = d; }
+            });
+
+            if (nearest >= 0 && nearestDist <= tolerance) {
+                used.add(nearest);
+                matched++;
+                drift += nearestDist / tolerance;
+                bounds.push(candidates[nearest]);
+            } else {
+                bounds.push(target);
+            }
+        }
+        bounds.push(length);
+
+        const recall = matched / (count - 1);
+        const precision = candidates.length > 0 ? matched / candidates.length : 0;
+        const tightness = matched > 0 ? 1 - (drift / matched) * 0.5 : 0;
+        const confidence = recall * precision * tightness;
+        // Tie-break towards the grid the prompt asked for
+        const score = confidence + (count === expected ? 0.01 : 0);
+
+        if (score > bestScore) {
+            bestScore = score;
+            best = { count, bounds, confidence };
+        }
+    }
+
+    return best;
+};
+
+/**
+ * Detect the grid of a sprite sheet from its pixels.
+ */
+export const detectGrid = (pixels: PixelBuffer, options: GridDetectionOptions = {}): GridDetection => {
+    const { expectedRows = 4, expectedCols = 4, maxCells = MAX_CELLS } = options;
+
+    const colProfile = computeProfiles(pixels, 'x');
+    const rowProfile = computeProfiles(pixels, 'y');
+
+    const colFit = fitAxis(axisCandidates(colProfile), pixels.width, expectedCols, maxCells);
+    const rowFit = fitAxis(axisCandidates(rowProfile), pixels.height, expectedRows, maxCells);
+
+    return {
+        rows: rowFit.count,
+        cols: colFit.count,
+        xBounds: colFit.bounds,
+        yBounds: rowFit.bounds,
+        confidence: Math.min(rowFit.confidence, colFit.confidence)
+    };
+};
+
+/**
+ * Evenly spaced grid used when detection is not trusted.
+ */
+export const fixedGrid = (width: number, height: number, rows: number, cols: number): GridDetection => ({
+    rows,
+    cols,
+    xBounds: Array.from({ length: cols + 1 }, (_, i) => (i * width) / cols),
+    yBounds: Array.from({ length: rows + 1 }, (_, i) => (i * height) / rows),
+    confidence: 1
+});
@@ -0,0 +1,84 @@
+import { GenerationJob } from "../types";
+import { isJobResumable } from "./generationJob";
+
+/**
+ * JOB STORE
+ *
+ * IndexedDB persistence for generation jobs. Finished sheets (frames are
+ * data URIs) are written as they complete so a reload mid-run loses at
+ * most the sheets that were still in flight.
+ * Storage failures are logged and never break generation.
+ */
+
+const DB_NAME = 'jusdnce';
+const DB_VERSION = 1;
+const JOB_STORE = 'generationJobs';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error("IndexedDB is not available"));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(JOB_STORE)) {
+                db.createObjectStore(JOB_STORE, { keyPath: 'id' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error ?? new Error("IndexedDB open failed"));
+    });
+    // Allow a later retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+const runTransaction = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(JOB_STORE, mode);
+        const request = action(tx.objectStore(JOB_STORE));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error ?? new Error("IndexedDB transaction failed"));
+        tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+    });
+};
+
+export const saveGenerationJob = async (job: GenerationJob): Promise<void> => {
+    try {
+        await runTransaction('readwrite', store => store.put(job));
+    } catch (e) {
+        console.warn("[JobStore] Failed to persist job", e);
+    }
+};
+
+export const deleteGenerationJob = async (id: string): Promise<void> => {
+    try {
+        await runTransaction('readwrite', store => store.delete(id));
+    } catch (e) {
+        console.warn("[JobStore] Failed to delete job", e);
+    }
+};
+
+export const loadGenerationJobs = async (): Promise<GenerationJob[]> => {
+    try {
+        return await runTransaction<GenerationJob[]>('readonly', store => store.getAll());
+    } catch (e) {
+        console.warn("[JobStore] Failed to read jobs", e);
+        return [];
+    }
+};
+
+/**
+ * Most recent job that was interrupted before all its sheets finished.
+ */
+export const loadResumableJob = async (): Promise<GenerationJob | null> => {
+    const jobs = await loadGenerationJobs();
+    const resumable = jobs.filter(isJobResumable).sort((a, b) => b.updatedAt - a.updatedAt);
+    return resumable[0] ?? null;
+};
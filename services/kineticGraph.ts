@@ -0,0 +1,281 @@
+import { EnergyLevel, FrameType, GeneratedFrame, MoveDirection, SheetRole } from "../types";
+import { FramePicker, KineticFramePool, KineticNode, KineticNodeId, MechanicalFX, TransitionStyle } from "./KineticEngine";
+import { StructureCondition, validateStructureCondition } from "./musicalStructure";
+import { OnsetType, validateOnsetTypes } from "./onsetClassifier";
+
+/**
+ * KINETIC GRAPH SCHEMA
+ *
+ * Choreography graphs as plain data, so they can be saved, shared and swapped
+ * on a live KineticEngine (see KineticEngine.loadGraph):
+ * - transitions: allowed next nodes with a weight (heavier = preferred)
+ * - energyRequirement / exitThreshold, mechanicalFx, preferredTransition, minDuration
+ * - frames: ordered frame queries; the first one that matches any frame wins
+ * - when / cue: song-structure conditions (bar, phrase, section; see musicalStructure.ts)
+ * - trigger: onset types (kick, snare, hat, vocal) that move on from the node (see onsetClassifier.ts)
+ *
+ * validateGraph reports what would strand or starve the engine before a graph
+ * is loaded: unknown targets, dead ends, unreachable nodes, empty frame pools.
+ */
+
+// --- SCHEMA ---
+
+/**
+ * A frame query. Every given field must match; `pose` is a regular expression
+ * tested against the pose name. `pick` defaults to 'random'.
+ */
+export interface FrameQuery {
+    type?: FrameType; // Frames without a type count as 'body'
+    energy?: EnergyLevel;
+    direction?: MoveDirection; // Frames without a direction count as 'center'
+    role?: SheetRole;
+    pose?: string;
+    virtual?: boolean;
+    pick?: 'random' | 'first';
+}
+
+export interface KineticNodeSpec {
+    transitions: Partial<Record<KineticNodeId, number>>; // Target -> weight (> 0)
+    energyRequirement?: number; // 0-1, default 0
+    exitThreshold?: number; // 0-1, default 0
+    mechanicalFx?: MechanicalFX; // Default 'none'
+    preferredTransition?: TransitionStyle; // Default 'CUT'
+    minDuration?: number; // ms, default 0
+    when?: StructureCondition; // Only enterable where this holds, e.g. { bars: [-1] } for a fill
+    cue?: StructureCondition; // Cut here from any node when a matching beat starts
+    trigger?: OnsetType[]; // Leave on these onsets instead of on the beat, e.g. ["snare"]
+    frames: FrameQuery[];
+}
+
+export interface KineticGraphSpec {
+    name: string;
+    start?: KineticNodeId; // Entry and fallback node, default 'idle'
+    nodes: Partial<Record<KineticNodeId, KineticNodeSpec>>;
+}
+
+export interface GraphValidation {
+    errors: string[]; // The graph cannot be loaded
+    warnings: string[]; // Loadable, but parts of it will never play
+}
+
+export const DEFAULT_START_NODE: KineticNodeId = 'idle';
+
+const FX: MechanicalFX[] = ['none', 'zoom', 'mirror', 'stutter', 'mandala'];
+const STYLES: TransitionStyle[] = ['CUT', 'SLIDE', 'MORPH', 'SMOOTH', 'ZOOM_IN'];
+const FRAME_TYPES: FrameType[] = ['body', 'closeup', 'hands', 'feet'];
+const ENERGIES: EnergyLevel[] = ['low', 'mid', 'high'];
+const DIRECTIONS: MoveDirection[] = ['center', 'left', 'right'];
+
+export const graphStart = (spec: KineticGraphSpec): KineticNodeId => spec.start || DEFAULT_START_NODE;
+
+// --- FRAME QUERIES ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const matchesQuery = (frame: GeneratedFrame, query: FrameQuery, pose: RegExp | null): boolean =>
+    (!query.type || (frame.type || 'body') === query.type) &&
+    (!query.energy || frame.energy === query.energy) &&
+    (!query.direction || (frame.direction || 'center') === query.direction) &&
+    (!query.role || frame.role === query.role) &&
+    (query.virtual === undefined || !!frame.isVirtual === query.virtual) &&
+    (!pose || pose.test(frame.pose));
+
+/**
+ * Frames matching a query, in pool order.
+ */
+export const queryFrames = (frames: GeneratedFrame[], query: FrameQuery): GeneratedFrame[] => {
+    const pose = query.pose ? new RegExp(query.pose) : null;
+    return frames.filter(frame => matchesQuery(frame, query, pose));
+};
+
+const compileFrameSelector = (queries: FrameQuery[]): KineticNode['frameSelector'] => {
+    const compiled = queries.map(query => ({ query, pose: query.pose ? new RegExp(query.pose) : null }));
+    return (pool: KineticFramePool, pick: FramePicker) => {
+        for (const { query, pose } of compiled) {
+            const matches = pool.all.filter(frame => matchesQuery(frame, query, pose));
+            const frame = query.pick === 'first' ? matches[0] : pick(matches);
+            if (frame) return frame;
+        }
+        return null;
+    };
+};
+
+// --- COMPILE ---
+
+/**
+ * Turn a spec into the engine's node table. Transitions are ordered by weight
+ * (heaviest first, ties keep their authored order). Assumes a valid spec.
+ */
+export const compileGraph = (spec: KineticGraphSpec): Record<KineticNodeId, KineticNode> => {
+    const graph = {} as Record<KineticNodeId, KineticNode>;
+    for (const [id, node] of Object.entries(spec.nodes) as [KineticNodeId, KineticNodeSpec][]) {
+        const weights = node.transitions as Record<KineticNodeId, number>;
+        graph[id] = {
+            id,
+            possibleTransitions: (Object.keys(weights) as KineticNodeId[]).sort((a, b) => weights[b] - weights[a]),
+            transitionWeights: { ...weights },
+            energyRequirement: node.energyRequirement ?? 0,
+            exitThreshold: node.exitThreshold ?? 0,
+            mechanicalFx: node.mechanicalFx ?? 'none',
+            preferredTransition: node.preferredTransition ?? 'CUT',
+            minDuration: node.minDuration ?? 0,
+            when: node.when,
+            cue: node.cue,
+            trigger: node.trigger,
+            frameSelector: compileFrameSelector(node.frames)
+        };
+    }
+    return graph;
+};
+
+// --- VALIDATION ---
+
+const isValidPattern = (pattern: string): boolean => {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const validateQuery = (query: unknown, where: string, errors: string[]): void => {
+    if (!isRecord(query)) {
+        errors.push(`${where}: frame query must be an object`);
+        return;
+    }
+    if (query.type !== undefined && !FRAME_TYPES.includes(query.type as FrameType)) errors.push(`${where}: unknown frame type "${query.type}"`);
+    if (query.energy !== undefined && !ENERGIES.includes(query.energy as EnergyLevel)) errors.push(`${where}: unknown energy "${query.energy}"`);
+    if (query.direction !== undefined && !DIRECTIONS.includes(query.direction as MoveDirection)) errors.push(`${where}: unknown direction "${query.direction}"`);
+    if (query.role !== undefined && typeof query.role !== 'string') errors.push(`${where}: role must be a string`);
+    if (query.virtual !== undefined && typeof query.virtual !== 'boolean') errors.push(`${where}: virtual must be true or false`);
+    if (query.pick !== undefined && query.pick !== 'random' && query.pick !== 'first') errors.push(`${where}: pick must be "random" or "first"`);
+    if (query.pose !== undefined && (typeof query.pose !== 'string' || !isValidPattern(query.pose))) {
+        errors.push(`${where}: pose must be a valid regular expression`);
+    }
+};
+
+const validateNumber = (value: unknown, field: string, where: string, errors: string[], max: number = Infinity): void => {
+    if (value === undefined) return;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > max) {
+        errors.push(`${where}: ${field} must be a number from 0${max < Infinity ? ` to ${max}` : ' up'}`);
+    }
+};
+
+/**
+ * Check a graph (possibly straight from JSON). With `frames`, also warns about
+ * nodes none of whose queries match a frame of that rig.
+ */
+export const validateGraph = (spec: unknown, frames?: GeneratedFrame[]): GraphValidation => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!isRecord(spec) || !isRecord(spec.nodes)) {
+        return { errors: ['Graph must be an object with a "nodes" map'], warnings };
+    }
+    const nodes = spec.nodes;
+    const ids = Object.keys(nodes);
+    if (ids.length === 0) errors.push('Graph has no nodes');
+    if (typeof spec.name !== 'string') errors.push('name must be a string');
+
+    // Own keys only: `in` would also find "toString" or "constructor" on the prototype
+    const start = spec.start ?? DEFAULT_START_NODE;
+    if (typeof start !== 'string' || !Object.hasOwn(nodes, start)) errors.push(`Start node "${start}" is not in the graph`);
+
+    for (const id of ids) {
+        const node = nodes[id];
+        const where = `Node "${id}"`;
+        if (!isRecord(node)) {
+            errors.push(`${where} must be an object`);
+            continue;
+        }
+
+        // Transitions
+        if (!isRecord(node.transitions)) {
+            errors.push(`${where}: transitions must map node ids to weights`);
+        } else {
+            const targets = Object.keys(node.transitions);
+            if (targets.length === 0) errors.push(`${where} is a dead end (no transitions)`);
+            for (const target of targets) {
+                const weight = node.transitions[target];
+                if (!Object.hasOwn(nodes, target)) errors.push(`${where}: transition to unknown node "${target}"`);
+                if (typeof weight !== 'number' || !Number.isFinite(weight) || weight <= 0) {
+                    errors.push(`${where}: weight for "${target}" must be a positive number`);
+                }
+            }
+        }
+
+        // Node config
+        validateNumber(node.energyRequirement, 'energyRequirement', where, errors, 1);
+        validateNumber(node.exitThreshold, 'exitThreshold', where, errors, 1);
+        validateNumber(node.minDuration, 'minDuration', where, errors);
+        if (node.mechanicalFx !== undefined && !FX.includes(node.mechanicalFx as MechanicalFX)) {
+            errors.push(`${where}: unknown mechanicalFx "${node.mechanicalFx}"`);
+        }
+        if (node.preferredTransition !== undefined && !STYLES.includes(node.preferredTransition as TransitionStyle)) {
+            errors.push(`${where}: unknown preferredTransition "${node.preferredTransition}"`);
+        }
+
+        // Structure conditions and onset triggers
+        if (node.when !== undefined) errors.push(...validateStructureCondition(node.when, `${where} when`));
+        if (node.cue !== undefined) errors.push(...validateStructureCondition(node.cue, `${where} cue`));
+        if (node.trigger !== undefined) errors.push(...validateOnsetTypes(node.trigger, `${where} trigger`));
+
+        // Frame queries
+        if (!Array.isArray(node.frames) || node.frames.length === 0) {
+            errors.push(`${where}: frames must list at least one frame query`);
+        } else {
+            node.frames.forEach((query, i) => validateQuery(query, `${where} frame query ${i}`, errors));
+        }
+    }
+
+    if (errors.length > 0) return { errors, warnings };
+    const graph = nodes as Record<string, KineticNodeSpec>;
+
+    // Reachability from the start node and cued nodes (unreachable nodes only play when forced)
+    const entries = [start as string, ...ids.filter(id => graph[id].cue)];
+    const reached = new Set<string>(entries);
+    const queue = [...reached];
+    while (queue.length > 0) {
+        for (const target of Object.keys(graph[queue.shift()!].transitions)) {
+            if (!reached.has(target)) {
+                reached.add(target);
+                queue.push(target);
+            }
+        }
+    }
+    for (const id of ids) {
+        if (!reached.has(id)) warnings.push(`Node "${id}" is unreachable from "${start}"`);
+    }
+
+    // Frame pools for this rig
+    if (frames) {
+        for (const [id, node] of Object.entries(graph)) {
+            if (!node.frames.some(query => queryFrames(frames, query).length > 0)) {
+                warnings.push(`Node "${id}" has no matching frames in this rig`);
+            }
+        }
+    }
+
+    return { errors, warnings };
+};
+
+// --- JSON ---
+
+/**
+ * Parse and validate a graph file. Throws with every error listed.
+ */
+export const parseGraphSpec = (json: string): KineticGraphSpec => {
+    let spec: unknown;
+    try {
+        spec = JSON.parse(json);
+    } catch {
+        throw new Error('Invalid kinetic graph: not JSON');
+    }
+    const { errors } = validateGraph(spec);
+    if (errors.length > 0) throw new Error(`Invalid kinetic graph: ${errors.join('; ')}`);
+    return spec as KineticGraphSpec;
+};
+
+export const serializeGraphSpec = (spec: KineticGraphSpec): string => JSON.stringify(spec, null, 2);
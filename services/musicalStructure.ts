@@ -0,0 +1,109 @@
+import { TrackSectionKind } from "../types";
+
+/**
+ * MUSICAL STRUCTURE
+ *
+ * Beats, bars and phrases counted from the song's first downbeat, so the
+ * choreography can follow the track's form instead of raw beat counts:
+ * - meter: beats per bar (default 4) and bars per phrase (8, 16 or 32)
+ * - position: where a beat index falls (beat in bar, bar in phrase, phrase)
+ * - cues: structure events fired when a beat starts (bar, phrase, last bar, section)
+ * - conditions: data a graph node can attach to `when` (entry gate) or `cue`
+ *   (jump there when a beat starts), see kineticGraph.ts
+ */
+
+// --- TYPES ---
+
+export type PhraseLength = 8 | 16 | 32;
+
+export interface MusicalMeter {
+    beatsPerBar: number;
+    phraseBars: PhraseLength;
+}
+
+export interface MusicalPosition {
+    beat: number; // Beats since the first downbeat (negative during a pickup)
+    beatInBar: number;
+    bar: number; // Bars since the first downbeat
+    barInPhrase: number;
+    phrase: number;
+    section: TrackSectionKind | null;
+    sectionStart: boolean; // Within the first bar of a section
+}
+
+export type StructureCue = 'beat' | 'bar' | 'phrase' | 'lastBar' | 'section';
+
+/**
+ * Every given field must hold. Bars count within the phrase; negative values
+ * count from its end (-1 = the last bar, where fills go).
+ */
+export interface StructureCondition {
+    beats?: number[]; // Beat within the bar (0 = downbeat)
+    bars?: number[];
+    everyBars?: number; // Only every Nth bar since the first downbeat (e.g. 16, 32)
+    sections?: TrackSectionKind[];
+    sectionStart?: boolean;
+}
+
+export const DEFAULT_METER: MusicalMeter = { beatsPerBar: 4, phraseBars: 8 };
+export const PHRASE_LENGTHS: PhraseLength[] = [8, 16, 32];
+const SECTION_KINDS: TrackSectionKind[] = ['intro', 'verse', 'chorus', 'drop', 'breakdown'];
+
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+// --- POSITION ---
+
+export const musicalPosition = (beat: number, meter: MusicalMeter, section: TrackSectionKind | null = null, sectionStart: boolean = false): MusicalPosition => {
+    const bar = Math.floor(beat / meter.beatsPerBar);
+    return {
+        beat,
+        beatInBar: mod(beat, meter.beatsPerBar),
+        bar,
+        barInPhrase: mod(bar, meter.phraseBars),
+        phrase: Math.floor(bar / meter.phraseBars),
+        section,
+        sectionStart
+    };
+};
+
+/**
+ * Cues for the first update of a beat.
+ */
+export const structureCues = (position: MusicalPosition, meter: MusicalMeter): StructureCue[] => {
+    const cues: StructureCue[] = ['beat'];
+    if (position.beatInBar !== 0) return cues;
+    cues.push('bar');
+    if (position.barInPhrase === 0) cues.push('phrase');
+    if (position.barInPhrase === meter.phraseBars - 1) cues.push('lastBar');
+    if (position.sectionStart) cues.push('section');
+    return cues;
+};
+
+export const matchesStructure = (position: MusicalPosition, condition: StructureCondition, meter: MusicalMeter): boolean =>
+    (!condition.beats || condition.beats.includes(position.beatInBar)) &&
+    (!condition.bars || condition.bars.some(bar => mod(bar, meter.phraseBars) === position.barInPhrase)) &&
+    (!condition.everyBars || mod(position.bar, condition.everyBars) === 0) &&
+    (!condition.sections || (position.section !== null && condition.sections.includes(position.section))) &&
+    (condition.sectionStart === undefined || position.sectionStart === condition.sectionStart);
+
+// --- VALIDATION ---
+
+const isIntegerList = (value: unknown): boolean =>
+    Array.isArray(value) && value.every(v => Number.isInteger(v));
+
+/**
+ * Problems with a condition read from JSON, prefixed with `where`.
+ */
+export const validateStructureCondition = (condition: unknown, where: string): string[] => {
+    if (typeof condition !== 'object' || condition === null || Array.isArray(condition)) return [`${where} must be an object`];
+    const c = condition as Record<string, unknown>;
+    const errors: string[] = [];
+    if (c.beats !== undefined && (!isIntegerList(c.beats) || (c.beats as number[]).some(b => b < 0))) errors.push(`${where}: beats must list beat numbers from 0`);
+    if (c.bars !== undefined && !isIntegerList(c.bars)) errors.push(`${where}: bars must list bar numbers`);
+    if (c.everyBars !== undefined && (!Number.isInteger(c.everyBars) || (c.everyBars as number) < 1)) errors.push(`${where}: everyBars must be a positive whole number`);
+    if (c.sections !== undefined && (!Array.isArray(c.sections) || !c.sections.every(s => SECTION_KINDS.includes(s)))) {
+        errors.push(`${where}: sections must list ${SECTION_KINDS.join(' / ')}`);
+    }
+    if (c.sectionStart !== undefined && typeof c.sectionStart !== 'boolean') errors.push(`${where}: sectionStart must be true or false`);
+    return errors;
+};
@@ -0,0 +1,156 @@
+/**
+ * ONSET CLASSIFIER
+ *
+ * Typed hits from the analyser's spectrum, so moves, stutters and camera hits
+ * can follow one part of the kit instead of raw band levels:
+ * - kick:  flux in the bass band (40-150 Hz)
+ * - snare: noisy flux through the crack band (1-5 kHz); claps count as snares
+ * - hat:   flux in the air band (6-16 kHz) without a snare
+ * - vocal: tonal flux in the voice band (300-3000 Hz) without a kick or snare
+ * Each band's spectral flux (summed level rises) is compared with its own
+ * running mean + deviation, and each type has a refractory time so one hit is
+ * one event. Noisy vs tonal is the band's spectral flatness. Time comes in
+ * with every frame, so the same spectra always give the same events.
+ */
+
+// --- TYPES ---
+
+export type OnsetType = 'kick' | 'snare' | 'hat' | 'vocal';
+
+export const ONSET_TYPES: OnsetType[] = ['kick', 'snare', 'hat', 'vocal'];
+
+export interface OnsetEvent {
+    type: OnsetType;
+    time: number; // ms, on the caller's clock
+    strength: number; // 0-1, level of the band at the hit
+}
+
+// Which onsets drive the engine's effects (empty = the level-based triggers)
+export interface OnsetBindings {
+    stutter: OnsetType[]; // Auto stutter, else mid-range hits
+    camera: OnsetType[]; // Camera bounces, else bass hits near the beat
+}
+
+export const DEFAULT_ONSET_BINDINGS: OnsetBindings = { stutter: [], camera: [] };
+
+export interface OnsetClassifier {
+    /** Classify one analyser frame: magnitudes 0-1 per bin, each `binHz` wide. */
+    process(spectrum: ArrayLike<number>, binHz: number, now: number): OnsetEvent[];
+    reset(): void;
+}
+
+type Band = 'bass' | 'voice' | 'crack' | 'air';
+
+const BANDS: Record<Band, [number, number]> = {
+    bass: [40, 150],
+    voice: [300, 3000],
+    crack: [1000, 5000],
+    air: [6000, 16000]
+};
+
+const REFRACTORY_MS: Record<OnsetType, number> = { kick: 100, snare: 100, hat: 50, vocal: 250 };
+const FLUX_HISTORY = 43; // Frames (~0.7s at 60fps) behind each band's threshold
+const DEVIATIONS = 1.5; // Flux must clear the running mean by this many deviations
+const MIN_FLUX = 0.05; // ...and this floor, so silence and steady tones never fire
+const NOISY = 0.5; // Spectral flatness from here up is noise (snare), below is tonal (voice)
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/**
+ * Bins [from, to) covering `band`, at least one wide however coarse the FFT.
+ */
+const bandBins = ([lo, hi]: [number, number], binHz: number, count: number): [number, number] => {
+    const from = Math.min(count - 1, Math.floor(lo / binHz));
+    return [from, Math.max(from + 1, Math.min(count, Math.ceil(hi / binHz)))];
+};
+
+/**
+ * Geometric over arithmetic mean of the magnitudes: ~1 for noise, near 0 for
+ * a few strong partials.
+ */
+const spectralFlatness = (spectrum: ArrayLike<number>, [from, to]: [number, number]): number => {
+    let logSum = 0;
+    let sum = 0;
+    for (let i = from; i < to; i++) {
+        const v = spectrum[i] + 1e-3;
+        logSum += Math.log(v);
+        sum += v;
+    }
+    const n = to - from;
+    return Math.exp(logSum / n) / (sum / n);
+};
+
+// --- VALIDATION ---
+
+/**
+ * Problems with a list of onset types read from JSON, prefixed with `where`.
+ */
+export const validateOnsetTypes = (value: unknown, where: string): string[] =>
+    Array.isArray(value) && value.length > 0 && value.every(v => ONSET_TYPES.includes(v))
+        ? []
+        : [`${where} must list ${ONSET_TYPES.join(' / ')}`];
+
+// --- CLASSIFIER ---
+
+export const createOnsetClassifier = (): OnsetClassifier => {
+    let previous: number[] | null = null;
+    let history: Record<Band, number[]> = { bass: [], voice: [], crack: [], air: [] };
+    let lastHit: Record<OnsetType, number> = { kick: -Infinity, snare: -Infinity, hat: -Infinity, vocal: -Infinity };
+
+    // Does this frame's flux stand out from the band's recent flux?
+    const isOnset = (band: Band, flux: number): boolean => {
+        const past = history[band];
+        const mean = past.length > 0 ? past.reduce((a, b) => a + b, 0) / past.length : 0;
+        const deviation = past.length > 0 ? Math.sqrt(past.reduce((sum, f) => sum + (f - mean) ** 2, 0) / past.length) : 0;
+        past.push(flux);
+        if (past.length > FLUX_HISTORY) past.shift();
+        return flux > Math.max(MIN_FLUX, mean + deviation * DEVIATIONS);
+    };
+
+    return {
+        process(spectrum, binHz, now) {
+            const count = spectrum.length;
+            if (count === 0 || !(binHz > 0)) return [];
+            const prev = previous;
+            previous = Array.from(spectrum);
+            if (!prev || prev.length !== count) return []; // Nothing to rise from yet
+
+            const bins = {} as Record<Band, [number, number]>;
+            const level = {} as Record<Band, number>;
+            const hit = {} as Record<Band, boolean>;
+            for (const band of Object.keys(BANDS) as Band[]) {
+                const [from, to] = bins[band] = bandBins(BANDS[band], binHz, count);
+                let flux = 0;
+                let sum = 0;
+                for (let i = from; i < to; i++) {
+                    flux += Math.max(0, spectrum[i] - prev[i]);
+                    sum += spectrum[i];
+                }
+                level[band] = sum / (to - from);
+                hit[band] = isOnset(band, flux / (to - from));
+            }
+
+            const kick = hit.bass;
+            const snare = hit.crack && spectralFlatness(spectrum, bins.crack) >= NOISY;
+            const candidates: [OnsetType, boolean, number][] = [
+                ['kick', kick, level.bass],
+                ['snare', snare, level.crack],
+                ['hat', hit.air && !snare, level.air],
+                ['vocal', hit.voice && !kick && !snare && spectralFlatness(spectrum, bins.voice) < NOISY, level.voice]
+            ];
+
+            const events: OnsetEvent[] = [];
+            for (const [type, fired, strength] of candidates) {
+                if (!fired || now - lastHit[type] < REFRACTORY_MS[type]) continue;
+                lastHit[type] = now;
+                events.push({ type, time: now, strength: clamp01(strength) });
+            }
+            return events;
+        },
+        reset() {
+            previous = null;
+            history = { bass: [], voice: [], crack: [], air: [] };
+            lastHit = { kick: -Infinity, snare: -Infinity, hat: -Infinity, vocal: -Infinity };
+        }
+    };
+};
@@ -0,0 +1,156 @@
+import type { KineticNodeId } from "./KineticEngine";
+
+/**
+ * PERFORMANCE INPUT
+ *
+ * Keyboard keys and Web MIDI notes / CCs bound to live actions on the
+ * engine and the preview, so a VJ can play the rig:
+ * - node:      jump to a graph node
+ * - stutter / glitch: held like the on-screen pads
+ * - lock:      stay on a node while held (close-up lock)
+ * - tap:       tap tempo (sets a manual BPM)
+ * - fx:        FX rack amount (hue, aberration, scanlines, stutter, chaos)
+ * - crossfade: fades one mixer deck out as another fades in
+ * Every input arrives as a value from 0 to 1: keys and notes are 1 while
+ * held and 0 on release, CCs send their position. Bindings are plain data,
+ * edited in the preview and saved with the project.
+ */
+
+// --- TYPES ---
+
+export type PerformanceFx = 'hue' | 'aberration' | 'scanlines' | 'stutter' | 'chaos';
+
+export type PerformanceAction =
+    | { kind: 'node'; node: KineticNodeId }
+    | { kind: 'stutter' }
+    | { kind: 'glitch' }
+    | { kind: 'lock'; node: KineticNodeId }
+    | { kind: 'tap' }
+    | { kind: 'fx'; fx: PerformanceFx }
+    | { kind: 'crossfade'; from: number; to: number }; // Deck ids
+
+export type PerformanceInput =
+    | { device: 'key'; code: string } // KeyboardEvent.code, so the layout doesn't matter
+    | { device: 'note'; note: number; channel?: number } // No channel = any
+    | { device: 'cc'; cc: number; channel?: number };
+
+export interface PerformanceBinding {
+    input: PerformanceInput;
+    action: PerformanceAction;
+}
+
+export interface PerformanceEvent {
+    input: PerformanceInput;
+    value: number; // 0-1
+}
+
+export const PERFORMANCE_FX: PerformanceFx[] = ['hue', 'aberration', 'scanlines', 'stutter', 'chaos'];
+
+// Number row for the character graph's moves, pads for triggers; GM drum-pad
+// notes from C1 and the first CCs of most controllers for MIDI
+export const DEFAULT_PERFORMANCE_BINDINGS: PerformanceBinding[] = [
+    { input: { device: 'key', code: 'Digit1' }, action: { kind: 'node', node: 'idle' } },
+    { input: { device: 'key', code: 'Digit2' }, action: { kind: 'node', node: 'groove_left' } },
+    { input: { device: 'key', code: 'Digit3' }, action: { kind: 'node', node: 'groove_center' } },
+    { input: { device: 'key', code: 'Digit4' }, action: { kind: 'node', node: 'groove_right' } },
+    { input: { device: 'key', code: 'Digit5' }, action: { kind: 'node', node: 'jump' } },
+    { input: { device: 'key', code: 'Digit6' }, action: { kind: 'node', node: 'spin' } },
+    { input: { device: 'key', code: 'Digit7' }, action: { kind: 'node', node: 'mandala' } },
+    { input: { device: 'key', code: 'KeyS' }, action: { kind: 'stutter' } },
+    { input: { device: 'key', code: 'KeyG' }, action: { kind: 'glitch' } },
+    { input: { device: 'key', code: 'KeyC' }, action: { kind: 'lock', node: 'closeup' } },
+    { input: { device: 'key', code: 'KeyT' }, action: { kind: 'tap' } },
+    { input: { device: 'note', note: 36 }, action: { kind: 'node', node: 'idle' } },
+    { input: { device: 'note', note: 37 }, action: { kind: 'node', node: 'groove_left' } },
+    { input: { device: 'note', note: 38 }, action: { kind: 'node', node: 'groove_center' } },
+    { input: { device: 'note', note: 39 }, action: { kind: 'node', node: 'groove_right' } },
+    { input: { device: 'note', note: 40 }, action: { kind: 'stutter' } },
+    { input: { device: 'note', note: 41 }, action: { kind: 'glitch' } },
+    { input: { device: 'note', note: 42 }, action: { kind: 'lock', node: 'closeup' } },
+    { input: { device: 'note', note: 43 }, action: { kind: 'tap' } },
+    { input: { device: 'cc', cc: 1 }, action: { kind: 'fx', fx: 'chaos' } },
+    { input: { device: 'cc', cc: 20 }, action: { kind: 'fx', fx: 'hue' } },
+    { input: { device: 'cc', cc: 21 }, action: { kind: 'fx', fx: 'aberration' } },
+    { input: { device: 'cc', cc: 22 }, action: { kind: 'fx', fx: 'scanlines' } },
+    { input: { device: 'cc', cc: 23 }, action: { kind: 'fx', fx: 'stutter' } },
+    { input: { device: 'cc', cc: 24 }, action: { kind: 'crossfade', from: 0, to: 1 } }
+];
+
+// --- INPUT ---
+
+/**
+ * Note on/off and control change from a raw MIDI message, null for anything
+ * else (clock, sysex, pitch bend...). A note on with velocity 0 is a note off.
+ */
+export const parseMidiMessage = (data: ArrayLike<number>): PerformanceEvent | null => {
+    if (data.length < 3) return null;
+    const type = data[0] & 0xf0;
+    const channel = (data[0] & 0x0f) + 1;
+    if (type === 0x90 || type === 0x80) {
+        return { input: { device: 'note', note: data[1], channel }, value: type === 0x90 && data[2] > 0 ? 1 : 0 };
+    }
+    if (type === 0xb0) {
+        return { input: { device: 'cc', cc: data[1], channel }, value: data[2] / 127 };
+    }
+    return null;
+};
+
+const inputNumber = (input: PerformanceInput): string | number =>
+    input.device === 'key' ? input.code : input.device === 'note' ? input.note : input.cc;
+
+/**
+ * Whether an incoming event fires a bound input. A binding without a
+ * channel listens on all of them.
+ */
+export const matchesInput = (bound: PerformanceInput, incoming: PerformanceInput): boolean =>
+    bound.device === incoming.device &&
+    inputNumber(bound) === inputNumber(incoming) &&
+    (bound.device === 'key' || bound.channel === undefined || bound.channel === (incoming as { channel?: number }).channel);
+
+export const actionsFor = (bindings: PerformanceBinding[], incoming: PerformanceInput): PerformanceAction[] =>
+    bindings.filter(binding => matchesInput(binding.input, incoming)).map(binding => binding.action);
+
+// --- LABELS ---
+
+export const describeInput = (input: PerformanceInput): string => {
+    if (input.device === 'key') return input.code.replace(/^(Key|Digit)/, '');
+    const channel = input.channel === undefined ? '' : ` ch${input.channel}`;
+    return input.device === 'note' ? `NOTE ${input.note}${channel}` : `CC ${input.cc}${channel}`;
+};
+
+export const describeAction = (action: PerformanceAction): string => {
+    switch (action.kind) {
+        case 'node': return `→ ${action.node}`;
+        case 'lock': return `HOLD ${action.node}`;
+        case 'fx': return `FX ${action.fx}`;
+        case 'crossfade': return `XFADE ${action.from + 1}→${action.to + 1}`;
+        default: return action.kind.toUpperCase();
+    }
+};
+
+// --- TAP TEMPO ---
+
+export interface TapTempo {
+    /** Register a tap at `ms`; the BPM once there are two taps in a row, else null. */
+    tap(ms: number): number | null;
+}
+
+const TAP_TIMEOUT_MS = 2000; // A longer pause starts counting again
+const TAP_MEMORY = 8;
+
+/**
+ * BPM from the median interval of the last taps.
+ */
+export const createTapTempo = (): TapTempo => {
+    let taps: number[] = [];
+    return {
+        tap(ms) {
+            if (taps.length > 0 && ms - taps[taps.length - 1] > TAP_TIMEOUT_MS) taps = [];
+            taps = [...taps, ms].slice(-TAP_MEMORY);
+            if (taps.length < 2) return null;
+            const intervals = taps.slice(1).map((t, i) => t - taps[i]).sort((a, b) => a - b);
+            const median = intervals[Math.floor(intervals.length / 2)];
+            return median > 0 ? 60000 / median : null;
+        }
+    };
+};
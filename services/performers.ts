@@ -0,0 +1,177 @@
+import type { KineticEngine, KineticNodeId, KineticState } from "./KineticEngine";
+import type { SubjectCategory, TrackAnalysis } from "../types";
+import type { KineticSettings } from "./playbackSettings";
+import type { MusicalMeter } from "./musicalStructure";
+import type { OnsetBindings } from "./onsetClassifier";
+import type { GraphValidation, KineticGraphSpec } from "./kineticGraph";
+
+/**
+ * PERFORMERS
+ *
+ * Several characters dancing together in one frame. The main actor (the
+ * sequencer decks) leads; every mixer deck in `performer` mode gets its own
+ * KineticEngine, set to follow, that takes its moves from the lead:
+ * - unison:   the lead's move, at the same time, from the performer's own rig
+ * - mirror:   unison, drawn flipped so the pair face each other
+ * - canon:    the lead's moves replayed `delayBeats` beats later
+ * - response: the performer holds while the lead calls (even bars) and
+ *             answers with the call's moves in the next bar
+ * Performers share the lead's graph so node ids mean the same move, and the
+ * lead's setup (configureEngine) so they count the same beats and bars.
+ */
+
+// --- TYPES ---
+
+export type PerformerRelationship = 'unison' | 'mirror' | 'canon' | 'response';
+
+export interface PerformerPart {
+    relationship: PerformerRelationship;
+    delayBeats: number; // Canon only
+}
+
+/**
+ * Where a performer stands: horizontal offset from the centre in canvas
+ * widths, and its size relative to a solo performer.
+ */
+export interface StageSpot {
+    x: number;
+    scale: number;
+}
+
+/**
+ * What the preview tells every engine on stage about the song and the
+ * Director. Lead and performers get the same setup.
+ */
+export interface EngineSetup {
+    category: SubjectCategory;
+    graph: KineticGraphSpec | null; // A user-loaded graph replacing the category's
+    settings: Partial<KineticSettings>;
+    meter: MusicalMeter;
+    onsetBindings: OnsetBindings;
+    playbackRate: number;
+    autoBPM: boolean;
+    bpm: number; // Used until a track analysis sets the tempo
+    trackAnalysis: TrackAnalysis | null;
+}
+
+export interface Performer {
+    engine: KineticEngine;
+    /**
+     * Take the lead's latest moves, then advance the performer's engine. Call
+     * once per frame, after the lead's update.
+     */
+    follow(lead: KineticEngine, part: PerformerPart, deltaTime: number): KineticState;
+}
+
+export const PERFORMER_RELATIONSHIPS: PerformerRelationship[] = ['unison', 'mirror', 'canon', 'response'];
+export const CANON_DELAYS = [1, 2, 4, 8];
+export const DEFAULT_PERFORMER_PART: PerformerPart = { relationship: 'unison', delayBeats: 2 };
+
+const mod = (n: number, m: number) => ((n % m) + m) % m;
+
+/**
+ * Even bars belong to the lead's call, odd bars to the performers' response.
+ */
+export const isCallBar = (bar: number): boolean => mod(bar, 2) === 0;
+
+// --- STAGE ---
+
+/**
+ * Spots for `count` performers, lead first: evenly spaced across the frame,
+ * filled from the centre out, shrinking as the stage gets crowded.
+ */
+export const stagePositions = (count: number): StageSpot[] => {
+    const scale = count <= 1 ? 1 : Math.min(1, 1.2 / count);
+    const slots = Array.from({ length: Math.max(1, count) }, (_, i) => (i + 0.5) / Math.max(1, count) - 0.5);
+    return slots
+        .map((x, i) => ({ x, i }))
+        .sort((a, b) => Math.abs(a.x) - Math.abs(b.x) || a.i - b.i)
+        .map(({ x }) => ({ x, scale }));
+};
+
+// --- SETUP ---
+
+/**
+ * Apply `setup` to an engine. Returns the user graph's validation, or null
+ * without one (an invalid graph leaves the category's graph in place).
+ */
+export const configureEngine = (engine: KineticEngine, setup: EngineSetup): GraphValidation | null => {
+    engine.setSubjectCategory(setup.category);
+    const validation = setup.graph ? engine.loadGraph(setup.graph) : null;
+    engine.configure(setup.settings);
+    engine.setMeter(setup.meter);
+    engine.setOnsetBindings(setup.onsetBindings);
+    engine.setPlaybackRate(setup.playbackRate);
+    engine.setAutoBPM(setup.autoBPM);
+    engine.setBPM(setup.bpm);
+    engine.loadTrackAnalysis(setup.trackAnalysis);
+    return validation;
+};
+
+// --- FOLLOWING ---
+
+interface QueuedMove {
+    node: KineticNodeId;
+    at: number; // Lead's beat (with its phase) when it made the move
+}
+
+export const createPerformer = (engine: KineticEngine): Performer => {
+    engine.setFollowing(true);
+
+    let lastLeadMove: number | null = null;
+    let lastBeat = -Infinity;
+    let lastBar: number | null = null;
+    let partKey = '';
+    let queue: QueuedMove[] = [];
+
+    const move = (node: KineticNodeId) => engine.forceState(node);
+
+    return {
+        engine,
+        follow(lead, part, deltaTime) {
+            const state = lead.getState();
+            const { beat, bar } = state.structure;
+            const at = beat + state.beatPos;
+
+            // Same choreography as the lead
+            if (engine.getGraphSpec() !== lead.getGraphSpec()) engine.loadGraph(lead.getGraphSpec());
+
+            // A new part or a seek backwards drops the moves still waiting
+            const key = `${part.relationship}:${part.delayBeats}`;
+            if (key !== partKey || beat < lastBeat) {
+                partKey = key;
+                queue = [];
+                lastBar = null;
+            }
+            lastBeat = beat;
+
+            const leadMoved = state.currentFrame !== null && state.lastTransitionTime !== lastLeadMove;
+            lastLeadMove = state.lastTransitionTime;
+
+            switch (part.relationship) {
+                case 'unison':
+                case 'mirror':
+                    if (leadMoved) move(state.currentNode);
+                    break;
+                case 'canon':
+                    if (leadMoved) queue.push({ node: state.currentNode, at });
+                    while (queue.length > 0 && at >= queue[0].at + part.delayBeats) move(queue.shift()!.node);
+                    break;
+                case 'response': {
+                    const delay = lead.getMeter().beatsPerBar;
+                    if (leadMoved && isCallBar(bar)) queue.push({ node: state.currentNode, at });
+                    if (bar !== lastBar && isCallBar(bar)) move(engine.getStartNode());
+                    while (queue.length > 0 && at >= queue[0].at + delay) {
+                        const answer = queue.shift()!;
+                        // A move made at the very end of the call would spill into the next one
+                        if (!isCallBar(bar)) move(answer.node);
+                    }
+                    break;
+                }
+            }
+            lastBar = bar;
+
+            return engine.update(deltaTime);
+        }
+    };
+};
@@ -0,0 +1,72 @@
+import { TIER_LIMITS } from "../constants";
+import { TransitionStyle } from "./KineticEngine";
+import { UserTier } from "../types";
+
+/**
+ * PLAYBACK SETTINGS
+ *
+ * Maps the Director's 0-100 sliders onto engine and export behaviour:
+ * - intensity:  scales node energy thresholds (50 = as authored, higher = easier to reach)
+ * - smoothness: chance that a hard cut is softened to MORPH / SMOOTH
+ * - variety:    0 = the preferred move every time, 100 = weighted draws that avoid recent nodes and frames
+ * - stutter:    starting value of the stutter FX slider (chance per mid-range hit)
+ * - chaos:      FX slider, chance that a beat turns into an impact
+ * - duration:   recording length, capped by the tier's `maxDuration`
+ */
+
+// The subset KineticEngine reads (duration is applied by the recorder and the player)
+export interface KineticSettings {
+    intensity: number;
+    smoothness: number;
+    variety: number;
+    stutter: number;
+    chaos: number;
+}
+
+export const DEFAULT_KINETIC_SETTINGS: KineticSettings = { intensity: 50, smoothness: 0, variety: 0, stutter: 0, chaos: 0 };
+
+const MIN_THRESHOLD_SCALE = 0.5;
+const MAX_THRESHOLD_SCALE = 1.5;
+const SMOOTH_NODE_ENERGY = 0.5; // Softened cuts into nodes below this energy use SMOOTH, above it MORPH
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/**
+ * Multiplier for `energyRequirement` / `exitThreshold`.
+ */
+export const energyThresholdScale = (intensity: number): number =>
+    MAX_THRESHOLD_SCALE - clamp01(intensity / 100) * (MAX_THRESHOLD_SCALE - MIN_THRESHOLD_SCALE);
+
+/**
+ * Transition style after the smoothness bias. `roll` is a 0-1 random draw.
+ */
+export const biasTransitionStyle = (preferred: TransitionStyle, energyRequirement: number, smoothness: number, roll: number): TransitionStyle => {
+    if (preferred !== 'CUT' || roll >= clamp01(smoothness / 100)) return preferred;
+    return energyRequirement >= SMOOTH_NODE_ENERGY ? 'MORPH' : 'SMOOTH';
+};
+
+/**
+ * Weight multiplier for a node or frame last used `age` picks ago (0 = the
+ * previous pick, null = not remembered). The previous pick drops to
+ * 1 - variety; older ones recover linearly over `memory` picks.
+ */
+export const recencyFactor = (age: number | null, variety: number, memory: number): number =>
+    age === null || age >= memory ? 1 : 1 - clamp01(variety / 100) * (1 - age / memory);
+
+/**
+ * Exponent applied to transition weights before the draw. Infinity at 0 (the
+ * heaviest always wins), 1 at 100 (odds follow the weights).
+ */
+export const transitionSharpness = (variety: number): number =>
+    variety <= 0 ? Infinity : 100 / Math.min(100, variety);
+
+/**
+ * Stutter chance (0-1) for a mid-range hit.
+ */
+export const stutterChance = (stutter: number): number => clamp01(stutter / 100);
+
+/**
+ * Maximum recording length in milliseconds.
+ */
+export const recordingLimitMs = (duration: number, tier: UserTier): number =>
+    Math.max(1, Math.min(duration, TIER_LIMITS[tier].maxDuration)) * 1000;
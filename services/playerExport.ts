@@ -1,6 +1,10 @@
 
-import { GeneratedFrame, SubjectCategory, SavedProject, DeckMixMode } from "../types";
+import { SubjectCategory, SavedProject, DeckMixMode, TrackAnalysis } from "../types";
+import { ChoreographyTimeline } from "./KineticEngine";
 import { VERTEX_SHADER, FRAGMENT_SHADER, HolographicParams } from "../components/Visualizer/HolographicVisualizer";
+import { AudioAnalysisSettings, DEFAULT_AUDIO_ANALYSIS } from "./audioAnalysis";
+import { RigDeck } from "./framePool";
+import PLAYER_RUNTIME from "virtual:player-runtime";
 
 interface ExportDeck {
     id: number;
@@ -9,14 +13,33 @@ interface ExportDeck {
     mixMode?: DeckMixMode;
 }
 
+/**
+ * A standalone HTML player for the rig. Its choreography is the bundled
+ * player runtime (playerRuntime.ts): the preview's engine and frame pool on
+ * the same seed, replaying the planned timeline when the song it was made on
+ * (`track`) is loaded.
+ */
 export const generatePlayerHTML = (
     decks: ExportDeck[],
     hologramParams: HolographicParams,
-    subjectCategory: SubjectCategory
+    subjectCategory: SubjectCategory,
+    maxRecordMs: number,
+    performanceSeed: number,
+    timeline: ChoreographyTimeline | null,
+    audioAnalysis: AudioAnalysisSettings = DEFAULT_AUDIO_ANALYSIS,
+    track: TrackAnalysis | null = null
 ): string => {
     
-    const decksJSON = JSON.stringify(decks);
+    // Only the sequencer decks dance the main actor
+    const rigDecks: RigDeck[] = decks
+        .filter(d => d.rig && d.isActive && (d.mixMode ?? 'sequencer') === 'sequencer')
+        .map(d => ({ id: d.id, frames: d.rig!.frames }));
+    const decksJSON = JSON.stringify(rigDecks);
+    const analysisJSON = JSON.stringify(audioAnalysis);
+    const timelineJSON = JSON.stringify(timeline);
+    const trackJSON = JSON.stringify(timeline ? track : null);
     const paramsJSON = JSON.stringify(hologramParams);
+    const runtime = PLAYER_RUNTIME.replace(/<\/script/gi, '<\\/script');
     
     return `<!DOCTYPE html>
 <html lang="en">
@@ -96,9 +119,15 @@ export const generatePlayerHTML = (
     <input type="file" id="audioInput" accept="audio/*" style="display:none" onchange="loadAudioFile(this)">
     <audio id="audioEl" loop style="display:none"></audio>
 
+    <script>${runtime}</script>
     <script>
         const DECKS = ${decksJSON};
         const PARAMS = ${paramsJSON};
+        const CATEGORY = ${JSON.stringify(subjectCategory)};
+        const SEED = ${performanceSeed >>> 0};
+        const TIMELINE = ${timelineJSON};
+        const TRACK = ${trackJSON};
+        const ANALYSIS = ${analysisJSON};
         
         // --- VISUALIZER ---
         const VERTEX = \`${VERTEX_SHADER}\`;
@@ -129,13 +158,18 @@ export const generatePlayerHTML = (
         const bg=document.getElementById('bgCanvas'); const viz=new Visualizer(bg);
         const charC=document.getElementById('charCanvas'); const ctx=charC.getContext('2d');
         const tt=document.getElementById('tooltip');
+        const audio=document.getElementById('audioEl');
+
+        // The preview's engine and frame pool (playerRuntime.ts): same seed, same moves, the plan for its song
+        const player=JusDNCEPlayer.createPlayerRuntime({decks:DECKS, category:CATEGORY, seed:SEED, timeline:TIMELINE, track:TRACK, analysis:ANALYSIS}, audio);
+        audio.addEventListener('loadedmetadata', ()=>player.setSong(audio.duration));
         
         // --- AUDIO ---
         let audioCtx, analyser, srcNode;
         async function initAudioContext(){
             if(!audioCtx) {
                 audioCtx=new (window.AudioContext||window.webkitAudioContext)();
-                analyser=audioCtx.createAnalyser(); analyser.fftSize=256;
+                analyser=audioCtx.createAnalyser(); analyser.fftSize=ANALYSIS.fftSize; analyser.smoothingTimeConstant=ANALYSIS.smoothing;
             }
             if(audioCtx.state === 'suspended') audioCtx.resume();
             return audioCtx;
@@ -147,6 +181,7 @@ export const generatePlayerHTML = (
             const mic=await navigator.mediaDevices.getUserMedia({audio:true});
             srcNode=audioCtx.createMediaStreamSource(mic);
             srcNode.connect(analyser);
+            player.setSong(null);
         }
         
         async function loadAudioFile(el){
@@ -154,7 +189,6 @@ export const generatePlayerHTML = (
             if(!file) return;
             await initAudioContext();
             const url = URL.createObjectURL(file);
-            const audio = document.getElementById('audioEl');
             audio.src = url;
             
             if(srcNode) srcNode.disconnect();
@@ -164,44 +198,43 @@ export const generatePlayerHTML = (
             
             audio.play();
         }
-        
-        let targetPose='base', currentFrame=null;
-        
+
+        const images={};
+        const imageFor=url=>images[url] || (images[url]=Object.assign(new Image(), {src:url}));
+
         // --- LOOP ---
-        function loop(){
+        let spectrum=new Uint8Array(0), lastTick=performance.now(), camZoom=1, camBounce=0;
+        function loop(now){
             requestAnimationFrame(loop);
             const w=window.innerWidth; const h=window.innerHeight;
             if(bg.width!==w) {bg.width=w; bg.height=h; charC.width=w; charC.height=h;}
             
-            let bass=0, mid=0, high=0;
             if(analyser){
-                const d=new Uint8Array(analyser.frequencyBinCount);
-                analyser.getByteFrequencyData(d);
-                bass=d[0]/255; mid=d[10]/255; high=d[40]/255;
+                if(spectrum.length!==analyser.frequencyBinCount) spectrum=new Uint8Array(analyser.frequencyBinCount);
+                analyser.getByteFrequencyData(spectrum);
             }
+            const deltaTime=Math.min(0.1, Math.max(0, (now-lastTick)/1000)); lastTick=now;
+            const {levels, state}=player.frame(spectrum, audioCtx ? audioCtx.sampleRate : 44100, deltaTime);
+            const {bass, mid, high}=levels;
             
             viz.render({bass,mid,high});
             ctx.clearRect(0,0,w,h);
-            
-            // Logic to pick frame from ALL active sequencer decks
-            const activeDecks = DECKS.filter(d => d.rig && (d.isActive === undefined || d.isActive));
-            
-            if(activeDecks.length > 0) {
-                // Pick a deck based on chaos or just default to first
-                // For simplicity in player, we randomly sample if bass > threshold
-                const deck = activeDecks[Math.floor(Math.random() * activeDecks.length)];
-                
-                const pool = deck.rig.frames;
-                if(bass>0.5 && Math.random()>0.8) {
-                    currentFrame = pool[Math.floor(Math.random()*pool.length)];
-                }
-                if(!currentFrame) currentFrame=pool[0];
-                
+
+            for(const impulse of state.cameraImpulses){
+                if(impulse.type==='zoom') camZoom=impulse.amount;
+                else camBounce=-50*impulse.amount;
+            }
+            camZoom += (1-camZoom)*0.05; camBounce *= 0.85;
+
+            const currentFrame=state.currentFrame;
+            if(currentFrame) {
                 // Draw
-                const img = new Image(); img.src=currentFrame.url; 
-                if(img.complete) {
+                const img = imageFor(currentFrame.url);
+                if(img.complete && img.width>0) {
                      const ar=img.width/img.height;
                      let dw=w, dh=w/ar; if(dh>h){dh=h; dw=dh*ar;}
+                     const zoom=camZoom*(currentFrame.virtualZoom||1); // Virtual close-ups crop in on their source
+                     dw*=zoom; dh*=zoom;
                      
                      // Apply FX
                      const aber = document.getElementById('fxAberration').value / 100;
@@ -214,7 +247,7 @@ export const generatePlayerHTML = (
                          ctx.globalCompositeOperation='source-over';
                      }
                      
-                     ctx.drawImage(img, (w-dw)/2, (h-dh)/2, dw, dh);
+                     ctx.drawImage(img, (w-dw)/2, (h-dh)/2 + camBounce, dw, dh);
                 }
                 
                 // Tooltip
@@ -226,11 +259,17 @@ export const generatePlayerHTML = (
         }
         
         document.getElementById('btnMic').onclick=initMic;
-        loop();
+        requestAnimationFrame(loop);
         
         // RECORDER LOGIC
         const btnRec=document.getElementById('btnRec');
-        let mediaRec, chunks=[];
+        let mediaRec, chunks=[], recTimer;
+        const MAX_REC_MS=${Math.round(maxRecordMs)};
+        const stopRec=()=>{
+             clearTimeout(recTimer);
+             if(mediaRec && mediaRec.state==='recording') mediaRec.stop();
+             btnRec.innerText='🔴 REC';
+        };
         btnRec.onclick = () => {
              if(btnRec.innerText.includes('REC')) {
                  const st=charC.captureStream(30);
@@ -244,9 +283,9 @@ export const generatePlayerHTML = (
                  };
                  mediaRec.start();
                  btnRec.innerText='STOP';
+                 recTimer=setTimeout(stopRec, MAX_REC_MS);
              } else {
-                 mediaRec.stop();
-                 btnRec.innerText='🔴 REC';
+                 stopRec();
              }
         }
     </script>
@@ -0,0 +1,77 @@
+import { SubjectCategory, TrackAnalysis } from "../types";
+import { ChoreographyTimeline, KineticEngine, KineticState } from "./KineticEngine";
+import { createMediaElementClock } from "./engineClock";
+import { AudioAnalysis, AudioAnalysisSettings, createBandAnalyser } from "./audioAnalysis";
+import { RigDeck } from "./framePool";
+
+/**
+ * PLAYER RUNTIME
+ *
+ * The choreography of the exported player (see playerExport.ts): the same
+ * KineticEngine and frame pool the preview dances with, bundled into the HTML
+ * by the `virtual:player-runtime` plugin (vite.config.ts) and exposed there as
+ * `JusDNCEPlayer.createPlayerRuntime`. Set up from the embedded seed, timeline
+ * and analysis, so the player makes the preview's moves; the page only reads
+ * its analyser and draws the frame it is handed.
+ */
+
+// --- TYPES ---
+
+export interface PlayerSetup {
+    decks: RigDeck[]; // Sequencer decks, pooled as in the preview
+    category: SubjectCategory;
+    seed: number;
+    timeline: ChoreographyTimeline | null;
+    track: TrackAnalysis | null; // The song the timeline was planned on
+    analysis: AudioAnalysisSettings;
+}
+
+export interface PlayerFrame {
+    levels: AudioAnalysis;
+    state: KineticState;
+}
+
+export interface PlayerRuntime {
+    /**
+     * What the page is playing: a song of `duration` seconds in the element,
+     * or null for the mic. The plan only applies to the song it was made on.
+     */
+    setSong(duration: number | null): void;
+    /** One animation frame: the analyser's byte spectrum in, the engine's state out. */
+    frame(spectrum: Uint8Array, sampleRate: number, deltaTime: number): PlayerFrame;
+}
+
+const SAME_SONG_TOLERANCE_S = 1; // As the preview: a plan belongs to one song
+
+// --- RUNTIME ---
+
+export const createPlayerRuntime = (setup: PlayerSetup, element: HTMLMediaElement): PlayerRuntime => {
+    let songPlaying = false;
+    const engine = new KineticEngine(createMediaElementClock(element, () => songPlaying), setup.seed);
+    engine.setSubjectCategory(setup.category);
+    engine.loadDecks(setup.decks);
+
+    const bands = createBandAnalyser();
+    let bins = new Float32Array(0);
+
+    return {
+        setSong(duration) {
+            songPlaying = duration !== null;
+            const planned = duration !== null && setup.track !== null && Math.abs(setup.track.duration - duration) <= SAME_SONG_TOLERANCE_S;
+            engine.loadTrackAnalysis(planned ? setup.track : null);
+            engine.loadTimeline(planned ? setup.timeline : null);
+            bands.reset();
+        },
+
+        frame(spectrum, sampleRate, deltaTime) {
+            const levels = bands.analyse(spectrum, sampleRate, setup.analysis);
+            engine.feedAudio(levels.bass, levels.mid, levels.high);
+            if (spectrum.length > 0) {
+                if (bins.length !== spectrum.length) bins = new Float32Array(spectrum.length);
+                for (let i = 0; i < bins.length; i++) bins[i] = spectrum[i] / 255;
+                engine.feedSpectrum(bins, sampleRate / (spectrum.length * 2));
+            }
+            return { levels, state: engine.update(deltaTime) };
+        }
+    };
+};
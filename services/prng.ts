@@ -0,0 +1,41 @@
+/**
+ * PRNG
+ *
+ * Seedable randomness, so the same seed always draws the same sheet (procedural
+ * provider) and the same performance (KineticEngine + sequencer).
+ */
+
+export type Random = () => number;
+
+// Mulberry32: tiny seedable PRNG, uniform in [0, 1)
+export const createRandom = (seed: number): Random => {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// FNV-1a, for deriving sub-seeds from names (`seed ^ hashString(role)`)
+export const hashString = (value: string): number => {
+    let h = 2166136261;
+    for (let i = 0; i < value.length; i++) {
+        h ^= value.charCodeAt(i);
+        h = Math.imul(h, 16777619);
+    }
+    return h >>> 0;
+};
+
+/**
+ * Fresh seed for a new job or performance (the only unseeded draw).
+ */
+export const randomSeed = (): number => Math.floor(Math.random() * 2147483647);
+
+/**
+ * Uniform pick from a list, undefined when it is empty.
+ */
+export const pickRandom = <T>(random: Random, items: T[]): T | undefined =>
+    items.length > 0 ? items[Math.floor(random() * items.length)] : undefined;
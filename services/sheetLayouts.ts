@@ -0,0 +1,255 @@
+import { EnergyLevel, FrameAnchor, FrameType, MoveDirection, SheetRole, SubjectCategory } from "../types";
+
+/**
+ * SHEET LAYOUTS
+ *
+ * Declarative description of every sprite sheet the pipeline can request.
+ * A layout fixes the grid, what each row shows (prompt label) and what the
+ * sliced frames of that row mean to the engine (type / energy / direction),
+ * plus how each frame is expanded locally (mirror, mandala or nothing).
+ * Prompts and frame metadata are both generated from here, so a new sheet
+ * type is one `registerSheetLayout` call away.
+ * Layouts can be limited to subject categories: lettering is never mirrored,
+ * and a logo has no face or hands to draw.
+ */
+
+export type FrameExpansion = 'mirror' | 'mandala' | 'none';
+
+// Which quality modes request the sheet
+export type SheetInclusion = 'always' | 'quality' | 'super';
+
+export interface SheetRowLayout {
+    label: string;          // Prompt text for the row
+    customLabel?: string;   // Used instead of `label` when the user supplied a motion prompt
+    type: FrameType;
+    energy: EnergyLevel;
+    direction: MoveDirection;
+    expansion: FrameExpansion;
+}
+
+export interface SheetLayout {
+    role: SheetRole;
+    title: string;          // Prompt heading, e.g. "GROOVE"
+    rows: number;
+    cols: number;
+    include: SheetInclusion;
+    categories?: SubjectCategory[]; // Omitted = every category
+    anchor: FrameAnchor;    // Normalization anchor for the sliced cells
+    rowLayouts: SheetRowLayout[];
+    notes: string[];        // Extra prompt lines after the rows
+}
+
+const body = (label: string, energy: EnergyLevel, direction: MoveDirection = 'center', customLabel?: string): SheetRowLayout => ({
+    label, customLabel, type: 'body', energy, direction, expansion: 'mirror'
+});
+
+const graphic = (label: string, energy: EnergyLevel, direction: MoveDirection = 'center', expansion: FrameExpansion = 'mirror'): SheetRowLayout => ({
+    label, type: 'body', energy, direction, expansion
+});
+
+const registry: SheetLayout[] = [
+    {
+        role: 'base',
+        title: 'GROOVE',
+        rows: 4,
+        cols: 4,
+        include: 'always',
+        categories: ['CHARACTER'],
+        anchor: 'feet',
+        rowLayouts: [
+            body('Idle / Groove (Center)', 'low'),
+            body('Step Left', 'mid', 'left', 'Signature Move A'),
+            body('Step Right', 'mid', 'right', 'Signature Move B'),
+            body('Power Pose / Freeze', 'high')
+        ],
+        notes: ['Ensure feet are visible. Center of mass in middle.']
+    },
+    {
+        role: 'alt',
+        title: 'IMPACT',
+        rows: 4,
+        cols: 4,
+        include: 'always',
+        categories: ['CHARACTER'],
+        anchor: 'feet',
+        rowLayouts: [
+            body('Dynamic Jump or Hop (Maintain 75% scale)', 'high'),
+            body('Low movement / Crouch / Floor work', 'high'),
+            body('Spin / Rotation frames', 'high'),
+            body('Expressive Extension / Kick', 'high')
+        ],
+        notes: ['Keep action contained within cell boundaries.']
+    },
+    {
+        role: 'flourish',
+        title: 'EMOTE / FACE',
+        rows: 4,
+        cols: 4,
+        include: 'quality',
+        categories: ['CHARACTER'],
+        anchor: 'feet',
+        rowLayouts: [
+            'Profile View (Left/Right)',
+            '3/4 Perspective View',
+            'Low Angle (Heroic)',
+            'High Angle (Top Down)'
+        ].map((label): SheetRowLayout => ({ label, type: 'closeup', energy: 'high', direction: 'center', expansion: 'mirror' })),
+        notes: ['FOCUS ON FACIAL EXPRESSION.', 'Maintain 4x4 Grid. Do not zoom in too much (keep 60% scale).']
+    },
+    {
+        role: 'details',
+        title: 'INSERTS - HANDS & FEET',
+        rows: 4,
+        cols: 4,
+        include: 'super',
+        categories: ['CHARACTER'],
+        anchor: 'centroid',
+        rowLayouts: [
+            { label: 'Hand Gestures / Mudras / Voguing (Hands Only)', type: 'hands', energy: 'high', direction: 'center', expansion: 'mandala' },
+            { label: 'Hand Gestures / Finger Tutting', type: 'hands', energy: 'high', direction: 'center', expansion: 'mandala' },
+            { label: 'Fancy Footwork / Shoes / Stepping', type: 'feet', energy: 'high', direction: 'center', expansion: 'mirror' },
+            { label: 'Fancy Footwork / Sliding', type: 'feet', energy: 'high', direction: 'center', expansion: 'mirror' }
+        ],
+        notes: ['FOCUS ON APPENDAGES.', 'Center the hand/foot in the cell.']
+    },
+    {
+        role: 'base',
+        title: 'KINETIC TYPE',
+        rows: 4,
+        cols: 4,
+        include: 'always',
+        categories: ['TEXT'],
+        anchor: 'centroid',
+        rowLayouts: [
+            graphic('Neutral, perfectly centered, fully legible', 'low', 'center', 'none'),
+            graphic('Lean / Skew Left', 'mid', 'left', 'none'),
+            graphic('Lean / Skew Right', 'mid', 'right', 'none'),
+            graphic('Pulse: scaled up slightly, glowing', 'high', 'center', 'none')
+        ],
+        notes: ['Letters must stay legible and unmirrored in every cell.']
+    },
+    {
+        role: 'alt',
+        title: 'TYPE FX',
+        rows: 4,
+        cols: 4,
+        include: 'always',
+        categories: ['TEXT'],
+        anchor: 'centroid',
+        rowLayouts: [
+            graphic('Letters bounce in sequence (wave)', 'high', 'center', 'none'),
+            graphic('Stretch / Squash vertically', 'high', 'center', 'none'),
+            graphic('Glitch slices / RGB split', 'high', 'center', 'none'),
+            graphic('Letters scattered outward, still readable', 'high', 'center', 'none')
+        ],
+        notes: ['Keep the whole word inside the cell.']
+    },
+    {
+        role: 'base',
+        title: 'EMBLEM',
+        rows: 4,
+        cols: 4,
+        include: 'always',
+        categories: ['SYMBOL'],
+        anchor: 'centroid',
+        rowLayouts: [
+            graphic('Neutral, centered', 'low'),
+            graphic('Rotate 15 degrees left', 'mid', 'left'),
+            graphic('Rotate 15 degrees right', 'mid', 'right'),
+            graphic('Pulse / Glow burst', 'high')
+        ],
+        notes: ['Keep the shape crisp and centered.']
+    },
+    {
+        role: 'alt',
+        title: 'EMBLEM FX',
+        rows: 4,
+        cols: 4,
+        include: 'always',
+        categories: ['SYMBOL'],
+        anchor: 'centroid',
+        rowLayouts: [
+            graphic('Spin (3/4 turn)', 'high'),
+            graphic('Shatter into fragments', 'high'),
+            graphic('Radial echo / Afterimages', 'high', 'center', 'mandala'),
+            graphic('Zoom burst toward camera', 'high')
+        ],
+        notes: ['Keep the emblem recognisable in every cell.']
+    }
+];
+
+// --- REGISTRY ---
+
+const appliesTo = (layout: SheetLayout, category: SubjectCategory) =>
+    !layout.categories || layout.categories.includes(category);
+
+const sameCategories = (a: SheetLayout, b: SheetLayout) =>
+    (a.categories ?? []).slice().sort().join() === (b.categories ?? []).slice().sort().join();
+
+export const getSheetLayouts = (): readonly SheetLayout[] => registry;
+
+/**
+ * One layout per role for a category, in registration order.
+ * Category-specific layouts win over catch-all ones for the same role.
+ */
+export const layoutsForCategory = (category: SubjectCategory): SheetLayout[] => {
+    const result: SheetLayout[] = [];
+    for (const layout of registry) {
+        if (!appliesTo(layout, category)) continue;
+        const existing = result.findIndex(l => l.role === layout.role);
+        if (existing < 0) result.push(layout);
+        else if (!result[existing].categories && layout.categories) result[existing] = layout;
+    }
+    return result;
+};
+
+export const getSheetLayout = (role: SheetRole, category: SubjectCategory = 'CHARACTER'): SheetLayout => {
+    const layout = layoutsForCategory(category).find(l => l.role === role);
+    if (!layout) throw new Error(`Unknown sheet layout: ${role} (${category})`);
+    return layout;
+};
+
+/**
+ * Add (or replace) a sheet type. Sheets are generated in registration order;
+ * `base` always stays first because it is the style reference for the rest.
+ */
+export const registerSheetLayout = (layout: SheetLayout) => {
+    if (layout.rowLayouts.length !== layout.rows) {
+        throw new Error(`Sheet layout ${layout.role} has ${layout.rowLayouts.length} row layouts for ${layout.rows} rows`);
+    }
+    const existing = registry.findIndex(l => l.role === layout.role && sameCategories(l, layout));
+    if (existing >= 0) registry[existing] = layout;
+    else registry.push(layout);
+};
+
+export const layoutsForMode = (useTurbo: boolean, superMode: boolean, category: SubjectCategory = 'CHARACTER'): SheetLayout[] =>
+    layoutsForCategory(category).filter(l =>
+        l.include === 'always' ||
+        (l.include === 'quality' && (!useTurbo || superMode)) ||
+        (l.include === 'super' && superMode)
+    );
+
+// --- PROMPTS & METADATA ---
+
+/**
+ * Prompt block describing the rows of a sheet.
+ */
+export const describeSheetLayout = (layout: SheetLayout, hasMotionPrompt: boolean, category: SubjectCategory = 'CHARACTER'): string => {
+    const index = layoutsForCategory(category).indexOf(layout);
+    const lines = [
+        `SHEET ${index + 1} (${layout.title}):`,
+        ...layout.rowLayouts.map((row, r) => `Row ${r + 1}: ${hasMotionPrompt && row.customLabel ? row.customLabel : row.label}.`),
+        ...layout.notes
+    ];
+    return lines.join('\n');
+};
+
+/**
+ * Row layout for a sliced cell. When the detected grid differs from the
+ * layout, rows are mapped proportionally so the row semantics survive.
+ */
+export const rowLayoutForCell = (layout: SheetLayout, cellIndex: number, gridRows: number, gridCols: number): SheetRowLayout => {
+    const row = Math.floor(cellIndex / gridCols);
+    const band = Math.min(layout.rowLayouts.length - 1, Math.floor((row / gridRows) * layout.rowLayouts.length));
+    return layout.rowLayouts[band];
+};
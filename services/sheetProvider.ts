@@ -0,0 +1,345 @@
+import { GoogleGenAI } from "@google/genai";
+import { SheetRole, SheetProviderId, SubjectCategory, SubjectClassification } from "../types";
+import { createRandom, hashString } from "./prng";
+
+/**
+ * SHEET PROVIDERS
+ *
+ * The generation pipeline (Plan -> Generate -> Slice -> Mirror) only needs
+ * "give me a sprite sheet for this role". Providers are the adapters that
+ * answer that request:
+ * - gemini:     gemini-2.5-flash-image via @google/genai (production)
+ * - procedural: deterministic placeholder grids drawn locally (offline / tests)
+ */
+
+export interface SheetRequest {
+    role: SheetRole;
+    imageBase64: string;
+    contextImageBase64?: string;
+    prompt: string;
+    seed: number;
+    rows: number;
+    cols: number;
+    signal?: AbortSignal; // Cancels the request (and any pending retries)
+}
+
+export interface SheetResult {
+    dataUri: string;
+    rawBase64: string;
+    mimeType: string;
+}
+
+export interface SheetProvider {
+    readonly id: SheetProviderId;
+    readonly label: string;
+    /** One-off setup before a batch of sheets (key validation, warmup). */
+    prepare(): Promise<void>;
+    generateSheet(request: SheetRequest): Promise<SheetResult>;
+    /** Optional: classify the uploaded image (see subjectClassifier.ts for the local fallback). */
+    classifySubject?(imageBase64: string): Promise<SubjectClassification | null>;
+}
+
+// --- UTILITIES ---
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new Error("Sheet request cancelled.");
+};
+
+const stripDataUri = (base64: string): string => base64.includes('base64,') ? base64.split('base64,')[1] : base64;
+
+// --- GEMINI ADAPTER ---
+
+const GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+const GEMINI_TEXT_MODEL = 'gemini-2.5-flash';
+
+const SUBJECT_CATEGORIES: SubjectCategory[] = ['CHARACTER', 'TEXT', 'SYMBOL'];
+
+const CLASSIFY_PROMPT = `Classify the main subject of this image for a dance animation tool.
+CHARACTER: a person, animal, creature or figure with a body.
+TEXT: lettering, a word, a wordmark or typography.
+SYMBOL: a logo mark, icon, emblem or abstract shape without legible text.
+Reply with JSON only: {"category": "CHARACTER" | "TEXT" | "SYMBOL", "confidence": number between 0 and 1}`;
+
+export class GeminiSheetProvider implements SheetProvider {
+    readonly id = 'gemini';
+    readonly label = 'Gemini AI';
+    private ai: GoogleGenAI | null = null;
+
+    constructor(private readonly apiKey: string | undefined = process.env.API_KEY) {}
+
+    async prepare(): Promise<void> {
+        console.log('[Gemini] API_KEY present:', !!this.apiKey);
+        console.log('[Gemini] API_KEY length:', this.apiKey?.length || 0);
+
+        if (!this.apiKey) {
+            console.error('[Gemini] API Key is missing! Check your environment variables.');
+            throw new Error("API Key is missing. Please set GEMINI_API_KEY in GitHub Secrets.");
+        }
+
+        if (!this.apiKey.startsWith('AIza')) {
+            console.error('[Gemini] API Key format looks invalid. Expected to start with "AIza"');
+            throw new Error("API Key format is invalid. Please check your GEMINI_API_KEY.");
+        }
+
+        this.ai = new GoogleGenAI({ apiKey: this.apiKey });
+
+        // Validate the key before attempting generation
+        await this.validateApiKey(this.ai);
+    }
+
+    async generateSheet(request: SheetRequest): Promise<SheetResult> {
+        if (!this.ai) await this.prepare();
+        const ai = this.ai!;
+
+        let prompt = request.prompt;
+        const parts: any[] = [
+            { inlineData: { mimeType: 'image/jpeg', data: stripDataUri(request.imageBase64) } }
+        ];
+
+        if (request.contextImageBase64) {
+            parts.push({ inlineData: { mimeType: 'image/jpeg', data: stripDataUri(request.contextImageBase64) } });
+            prompt += "\nREFERENCE: Use the second image as the MASTER STYLE REFERENCE.";
+        }
+
+        parts.push({ text: prompt });
+
+        const response = await this.generateWithRetry(ai, {
+            model: GEMINI_IMAGE_MODEL,
+            contents: { parts },
+            config: { imageConfig: { aspectRatio: "1:1" }, seed: request.seed, abortSignal: request.signal }
+        }, request.signal);
+
+        const candidate = response.candidates?.[0];
+        let rawBase64: string | undefined = undefined;
+        let mimeType = 'image/png';
+
+        if (candidate?.content?.parts) {
+            for (const part of candidate.content.parts) {
+                if (part.inlineData && part.inlineData.data) {
+                    rawBase64 = part.inlineData.data;
+                    if (part.inlineData.mimeType) mimeType = part.inlineData.mimeType;
+                    break;
+                }
+            }
+        }
+
+        if (!rawBase64) throw new Error("Model returned no image data.");
+
+        return { dataUri: `data:${mimeType};base64,${rawBase64}`, rawBase64, mimeType };
+    }
+
+    async classifySubject(imageBase64: string): Promise<SubjectClassification | null> {
+        if (!this.ai) await this.prepare();
+        const response = await this.ai!.models.generateContent({
+            model: GEMINI_TEXT_MODEL,
+            contents: {
+                parts: [
+                    { inlineData: { mimeType: 'image/jpeg', data: stripDataUri(imageBase64) } },
+                    { text: CLASSIFY_PROMPT }
+                ]
+            },
+            config: { responseMimeType: 'application/json' }
+        });
+
+        try {
+            const parsed = JSON.parse(response.text || '');
+            const category = String(parsed.category).toUpperCase() as SubjectCategory;
+            const confidence = Number(parsed.confidence);
+            if (!SUBJECT_CATEGORIES.includes(category) || !Number.isFinite(confidence)) return null;
+            return { category, confidence: Math.max(0, Math.min(1, confidence)), source: 'provider' };
+        } catch {
+            console.warn('[Gemini] Unreadable classification response:', response.text);
+            return null;
+        }
+    }
+
+    private async generateWithRetry(ai: GoogleGenAI, params: any, signal?: AbortSignal, retries = 2) {
+        let lastError: any;
+        for (let i = 0; i < retries; i++) {
+            throwIfAborted(signal);
+            try {
+                console.log(`[Gemini] Generation attempt ${i + 1}/${retries} with model: ${params.model}`);
+                const result = await ai.models.generateContent(params);
+                console.log(`[Gemini] Generation attempt ${i + 1} succeeded`);
+                return result;
+            } catch (e: any) {
+                console.error(`[Gemini] Attempt ${i + 1} failed:`, e.message);
+                console.error('[Gemini] Error details:', {
+                    name: e.name,
+                    code: e.code,
+                    status: e.status,
+                    statusText: e.statusText,
+                    message: e.message
+                });
+                lastError = e;
+                if (signal?.aborted) break;
+                if (i < retries - 1) {
+                    const waitTime = 1000 * Math.pow(2, i);
+                    console.log(`[Gemini] Retrying in ${waitTime}ms...`);
+                    await delay(waitTime);
+                }
+            }
+        }
+        throw lastError;
+    }
+
+    // Helper to validate API key with a lightweight request
+    private async validateApiKey(ai: GoogleGenAI): Promise<boolean> {
+        try {
+            console.log('[Gemini] Validating API key...');
+            // Try to list models to validate the key works
+            const pager = await ai.models.list();
+            console.log('[Gemini] API key validated successfully. Available models:',
+                pager.page.slice(0, 5).map(m => m.name));
+            return true;
+        } catch (e: any) {
+            console.error('[Gemini] API key validation failed:', e.message);
+            if (e.message?.includes('API_KEY_INVALID') || e.message?.includes('invalid')) {
+                throw new Error('API Key is invalid. Please check your GEMINI_API_KEY in GitHub Secrets.');
+            }
+            if (e.message?.includes('expired')) {
+                throw new Error('API Key has expired. Please generate a new key from Google AI Studio.');
+            }
+            // Don't block on validation failure for other reasons
+            console.warn('[Gemini] Validation check failed but continuing...');
+            return false;
+        }
+    }
+}
+
+// --- PROCEDURAL ADAPTER ---
+
+const ROLE_HUES: Record<SheetRole, number> = {
+    base: 200,
+    alt: 320,
+    flourish: 40,
+    details: 140
+};
+
+/**
+ * Draws a stick-figure grid that follows the MECHANICAL_MANIFEST
+ * (75% cell height, centred, 12.5% buffer) so the slicer, mirror and
+ * engine stages see realistic input without calling the network.
+ */
+export class ProceduralSheetProvider implements SheetProvider {
+    readonly id = 'procedural';
+    readonly label = 'Procedural (Offline)';
+
+    constructor(private readonly sheetSize: number = 1024) {}
+
+    async prepare(): Promise<void> {
+        console.log('[Procedural] Using local placeholder sheets (no API key required)');
+    }
+
+    async generateSheet(request: SheetRequest): Promise<SheetResult> {
+        const { role, rows, cols, seed } = request;
+        throwIfAborted(request.signal);
+        const size = this.sheetSize;
+        const canvas = document.createElement('canvas');
+        canvas.width = size;
+        canvas.height = size;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error("Canvas context failed");
+
+        const random = createRandom(seed ^ hashString(role));
+        const hue = ROLE_HUES[role] ?? 0;
+        const cellW = size / cols;
+        const cellH = size / rows;
+
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillRect(0, 0, size, size);
+
+        for (let r = 0; r < rows; r++) {
+            for (let c = 0; c < cols; c++) {
+                const x = c * cellW;
+                const y = r * cellH;
+                const index = r * cols + c;
+
+                // Subject: 75% of the cell height, centred
+                const figureH = cellH * 0.75;
+                const cx = x + cellW / 2;
+                const top = y + cellH * 0.125;
+                this.drawFigure(ctx, cx, top, figureH, hue, r, random);
+
+                ctx.fillStyle = `hsl(${hue}, 40%, 35%)`;
+                ctx.font = `${Math.round(cellH * 0.06)}px monospace`;
+                ctx.textAlign = 'left';
+                ctx.fillText(`${role}_${index}`, x + cellW * 0.04, y + cellH * 0.08);
+            }
+        }
+
+        const dataUri = canvas.toDataURL('image/png');
+        return { dataUri, rawBase64: stripDataUri(dataUri), mimeType: 'image/png' };
+    }
+
+    private drawFigure(
+        ctx: CanvasRenderingContext2D,
+        cx: number,
+        top: number,
+        height: number,
+        hue: number,
+        row: number,
+        random: () => number
+    ): void {
+        const head = height * 0.12;
+        const neckY = top + head * 2;
+        const hipY = top + height * 0.55;
+        const footY = top + height;
+        const limb = height * 0.3;
+        const lean = (random() - 0.5) * height * 0.1 + (row === 1 ? -height * 0.06 : row === 2 ? height * 0.06 : 0);
+        const angle = (spread: number) => (random() - 0.5) * spread;
+
+        ctx.save();
+        ctx.strokeStyle = `hsl(${hue}, 70%, 45%)`;
+        ctx.fillStyle = `hsl(${hue}, 70%, 45%)`;
+        ctx.lineWidth = Math.max(2, height * 0.05);
+        ctx.lineCap = 'round';
+
+        // Head
+        ctx.beginPath();
+        ctx.arc(cx + lean, top + head, head, 0, Math.PI * 2);
+        ctx.fill();
+
+        // Torso
+        ctx.beginPath();
+        ctx.moveTo(cx + lean, neckY);
+        ctx.lineTo(cx, hipY);
+        ctx.stroke();
+
+        // Arms
+        const shoulderY = neckY + height * 0.05;
+        for (const side of [-1, 1]) {
+            const a = side * (Math.PI / 4 + angle(Math.PI * 0.8));
+            ctx.beginPath();
+            ctx.moveTo(cx + lean, shoulderY);
+            ctx.lineTo(cx + lean + Math.sin(a) * limb, shoulderY + Math.cos(a) * limb);
+            ctx.stroke();
+        }
+
+        // Legs (feet always land on the 75% line)
+        for (const side of [-1, 1]) {
+            const spread = side * (height * 0.08 + random() * height * 0.12);
+            ctx.beginPath();
+            ctx.moveTo(cx, hipY);
+            ctx.lineTo(cx + spread * 0.6, (hipY + footY) / 2 - random() * height * 0.05);
+            ctx.lineTo(cx + spread, footY);
+            ctx.stroke();
+        }
+
+        ctx.restore();
+    }
+}
+
+// --- REGISTRY ---
+
+export const SHEET_PROVIDER_IDS: SheetProviderId[] = ['gemini', 'procedural'];
+
+export const createSheetProvider = (id: SheetProviderId = 'gemini'): SheetProvider => {
+    switch (id) {
+        case 'procedural': return new ProceduralSheetProvider();
+        case 'gemini':
+        default: return new GeminiSheetProvider();
+    }
+};
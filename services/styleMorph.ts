@@ -0,0 +1,57 @@
+import { GeneratedFrame, SheetRole, StylePreset } from "../types";
+
+/**
+ * STYLE MORPH
+ *
+ * Turns the Director's "Style Morphing" settings (secondary style + morph
+ * intensity) into generation input:
+ * - blend: one prompt weighting both `promptModifier`s by the intensity
+ * - dual:  an extra `morph` sheet redraws the base sheet cell for cell in the
+ *          secondary style, and the player crossfades the two rigs on energy
+ */
+
+export const MORPH_SHEET_ROLE: SheetRole = 'morph';
+
+const MORPH_ENERGY_LOW = 0.25;  // Below this the primary rig plays alone
+const MORPH_ENERGY_HIGH = 0.75; // Above this the secondary rig is at full intensity
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/**
+ * Style prompt for a single rig. 0% = primary only, 100% = secondary only.
+ */
+export const blendStylePrompts = (primary: StylePreset | undefined, secondary: StylePreset | undefined, morphIntensity: number): string => {
+    const base = primary?.promptModifier || 'artistic style';
+    if (!secondary || secondary.id === primary?.id) return base;
+
+    const mix = clamp01(morphIntensity / 100);
+    if (mix <= 0) return base;
+    if (mix >= 1) return secondary.promptModifier;
+
+    const primaryWeight = Math.round((1 - mix) * 100);
+    const secondaryWeight = 100 - primaryWeight;
+    const dominant = mix < 0.5 ? 'the primary style dominates' : 'the secondary style dominates';
+    return `STYLE BLEND (${dominant}): ${primaryWeight}% ${base} + ${secondaryWeight}% ${secondary.promptModifier} Fuse both into one coherent look.`;
+};
+
+/**
+ * Prompt lines for the morph sheet, which uses the base sheet as context image.
+ */
+export const describeMorphSheet = (): string =>
+    'STYLE TRANSFER: Redraw the reference sprite sheet cell for cell. Keep every pose in the same cell and the same grid; change only the visual style.';
+
+/**
+ * Secondary-rig counterpart of a base frame (`base_3_mirror` -> `morph_3_mirror`).
+ */
+export const morphPoseFor = (pose: string): string | null =>
+    pose.startsWith('base_') ? `${MORPH_SHEET_ROLE}_${pose.slice('base_'.length)}` : null;
+
+export const isMorphFrame = (frame: GeneratedFrame): boolean => frame.role === MORPH_SHEET_ROLE;
+
+/**
+ * How much of the secondary rig shows at a given audio energy (0-1).
+ */
+export const styleMixForEnergy = (energy: number, morphIntensity: number): number => {
+    const t = clamp01((energy - MORPH_ENERGY_LOW) / (MORPH_ENERGY_HIGH - MORPH_ENERGY_LOW));
+    return t * t * (3 - 2 * t) * clamp01(morphIntensity / 100);
+};
@@ -0,0 +1,117 @@
+import { SubjectCategory, SubjectClassification } from "../types";
+import { PixelBuffer } from "./gridDetection";
+import { analyzeSubject, foregroundMask, loadPixels } from "./frameAnalysis";
+import { SheetProvider } from "./sheetProvider";
+
+/**
+ * SUBJECT CLASSIFIER
+ *
+ * Decides whether the uploaded image is a CHARACTER, TEXT or SYMBOL so the
+ * pipeline can pick sheet layouts and the engine can pick a graph.
+ * The active provider is asked first; when it can't answer (offline, no key,
+ * low confidence) a local heuristic decides from two cues:
+ * - colour count: logos and lettering use a handful of flat colours
+ * - edge density: lettering is mostly thin strokes, emblems are solid shapes
+ */
+
+export const PROVIDER_CONFIDENCE_THRESHOLD = 0.5;
+
+const COLOUR_BIN_SHARE = 0.005;   // A colour bin must hold this share of the subject to count
+const EDGE_THRESHOLD = 48;        // |dx| + |dy| luminance step that counts as an edge
+const FEW_COLOURS = 24;           // At or above this the subject reads as illustrated/photographic
+const EDGE_LOW = 0.08;            // Edge density ramp (fraction of bbox pixels on an edge)
+const EDGE_HIGH = 0.2;
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+const luminance = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+export interface SubjectFeatures {
+    colourCount: number;
+    edgeDensity: number;
+    coverage: number;
+}
+
+/**
+ * Measure the cues the heuristic uses.
+ */
+export const measureSubjectFeatures = (pixels: PixelBuffer): SubjectFeatures => {
+    const { data, width, height } = pixels;
+    const analysis = analyzeSubject(pixels);
+    if (!analysis.bbox) return { colourCount: 0, edgeDensity: 0, coverage: 0 };
+
+    const mask = foregroundMask(pixels, analysis.background);
+    const bins = new Map<number, number>();
+    let subjectPixels = 0;
+    for (let p = 0; p < width * height; p++) {
+        if (!mask[p]) continue;
+        const i = p * 4;
+        const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+        bins.set(key, (bins.get(key) || 0) + 1);
+        subjectPixels++;
+    }
+    let colourCount = 0;
+    bins.forEach(count => { if (count >= subjectPixels * COLOUR_BIN_SHARE) colourCount++; });
+
+    const { left, top, right, bottom } = analysis.bbox;
+    let edges = 0;
+    let area = 0;
+    for (let y = Math.max(1, top); y <= Math.min(height - 2, bottom); y++) {
+        for (let x = Math.max(1, left); x <= Math.min(width - 2, right); x++) {
+            const i = (y * width + x) * 4;
+            const dx = Math.abs(luminance(data, i + 4) - luminance(data, i - 4));
+            const dy = Math.abs(luminance(data, i + width * 4) - luminance(data, i - width * 4));
+            if (dx + dy > EDGE_THRESHOLD) edges++;
+            area++;
+        }
+    }
+
+    return { colourCount, edgeDensity: area > 0 ? edges / area : 0, coverage: analysis.coverage };
+};
+
+/**
+ * Local fallback: score the three categories from colour count and edge density.
+ */
+export const classifyPixels = (pixels: PixelBuffer): SubjectClassification => {
+    const features = measureSubjectFeatures(pixels);
+    if (features.coverage === 0) return { category: 'CHARACTER', confidence: 0, source: 'heuristic' };
+
+    const flat = clamp01((FEW_COLOURS - features.colourCount) / (FEW_COLOURS - 4));
+    const stroky = clamp01((features.edgeDensity - EDGE_LOW) / (EDGE_HIGH - EDGE_LOW));
+
+    const scores: Record<SubjectCategory, number> = {
+        CHARACTER: 1 - flat,
+        TEXT: flat * stroky,
+        SYMBOL: flat * (1 - stroky)
+    };
+    const total = scores.CHARACTER + scores.TEXT + scores.SYMBOL;
+    const category = (Object.keys(scores) as SubjectCategory[]).reduce((a, b) => scores[b] > scores[a] ? b : a);
+
+    return { category, confidence: total > 0 ? scores[category] / total : 0, source: 'heuristic' };
+};
+
+/**
+ * Classify an image: provider first, heuristic fallback.
+ */
+export const classifySubject = async (imageBase64: string, provider?: SheetProvider): Promise<SubjectClassification> => {
+    if (provider?.classifySubject) {
+        try {
+            const result = await provider.classifySubject(imageBase64);
+            if (result && result.confidence >= PROVIDER_CONFIDENCE_THRESHOLD) {
+                console.log(`[Classifier] ${provider.label}: ${result.category} (${(result.confidence * 100).toFixed(0)}%)`);
+                return result;
+            }
+        } catch (e: any) {
+            console.warn(`[Classifier] ${provider.label} classification failed, using heuristic:`, e.message);
+        }
+    }
+
+    try {
+        const { pixels } = await loadPixels(imageBase64);
+        const result = classifyPixels(pixels);
+        console.log(`[Classifier] Heuristic: ${result.category} (${(result.confidence * 100).toFixed(0)}%)`);
+        return result;
+    } catch (e) {
+        console.warn("[Classifier] Heuristic classification failed", e);
+        return { category: 'CHARACTER', confidence: 0, source: 'heuristic' };
+    }
+};
@@ -0,0 +1,409 @@
+import { TrackAnalysis, TrackSection, TrackSectionKind } from "../types";
+
+/**
+ * TRACK ANALYSIS
+ *
+ * Offline pre-analysis of a song so choreography is on the grid from the
+ * first bar instead of waiting for the live BPM detector to settle:
+ * 1. Decode and mix down to mono at ANALYSIS_SAMPLE_RATE (OfflineAudioContext)
+ * 2. Onset envelopes: rectified energy flux per hop (log full band, linear
+ *    bass band); tempo and beats use their sum so kicks outweigh hi-hats
+ * 3. Tempo: autocorrelation of the envelope, weighted toward 120 BPM to
+ *    avoid octave errors
+ * 4. Beat grid: the comb (tempo refined around the estimate, plus phase)
+ *    that collects the most onset strength
+ * 5. Downbeat: the beat offset (mod 4) with the strongest bass onsets
+ * 6. Sections: 8-bar blocks classified by relative loudness
+ */
+
+export const ANALYSIS_SAMPLE_RATE = 11025;
+const HOP = 128;                 // ~11.6ms per envelope sample
+const WINDOW = 256;
+const BASS_CUTOFF_HZ = 150;
+const MEAN_WINDOW_SECONDS = 0.5; // Local mean removed from the envelope
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+const TEMPO_PRIOR_BPM = 120;
+const TEMPO_PRIOR_OCTAVES = 1;
+const TEMPO_REFINE_RANGE = 0.02; // ±2% around the autocorrelation tempo
+const TEMPO_REFINE_STEP = 0.02;  // BPM
+const DOWNBEAT_SEARCH_FRAMES = 2;
+const BEATS_PER_BAR = 4;
+const BARS_PER_BLOCK = 8;
+const LOUD_MARGIN = 0.9;         // Blocks within 10% of the loud quantile count as loud
+const DROP_JUMP = 0.75;          // A loud block after one below this share of it is a drop
+const WAVEFORM_RATE = 50;        // Display peaks per second
+
+// --- ENVELOPE ---
+
+export interface OnsetEnvelopes {
+    full: Float32Array;
+    bass: Float32Array;
+    beat: Float32Array; // full + bass, each scaled to unit mean: kicks outweigh hats
+    rate: number;   // Envelope samples per second
+    offset: number; // Seconds from a frame index to its window centre
+}
+
+const energyFlux = (energies: Float32Array): Float32Array => {
+    const flux = new Float32Array(energies.length);
+    for (let i = 1; i < energies.length; i++) {
+        flux[i] = Math.max(0, energies[i] - energies[i - 1]);
+    }
+    return flux;
+};
+
+const sumUnitMean = (a: Float32Array, b: Float32Array): Float32Array => {
+    const meanA = a.reduce((sum, v) => sum + v, 0) / (a.length || 1) || 1;
+    const meanB = b.reduce((sum, v) => sum + v, 0) / (b.length || 1) || 1;
+    return a.map((v, i) => v / meanA + b[i] / meanB);
+};
+
+const removeLocalMean = (envelope: Float32Array, radius: number): Float32Array => {
+    const out = new Float32Array(envelope.length);
+    let sum = 0;
+    let count = 0;
+    let lo = 0;
+    let hi = -1;
+    for (let i = 0; i < envelope.length; i++) {
+        while (hi < Math.min(envelope.length - 1, i + radius)) { sum += envelope[++hi]; count++; }
+        while (lo < i - radius) { sum -= envelope[lo++]; count--; }
+        out[i] = Math.max(0, envelope[i] - sum / count);
+    }
+    return out;
+};
+
+/**
+ * Full-band and bass-band onset envelopes of a mono signal.
+ */
+export const computeOnsetEnvelopes = (samples: Float32Array, sampleRate: number): OnsetEnvelopes => {
+    const frames = Math.max(0, Math.floor((samples.length - WINDOW) / HOP) + 1);
+    const full = new Float32Array(frames);
+    const bass = new Float32Array(frames);
+
+    // One-pole low-pass for the bass band
+    const alpha = 1 - Math.exp(-2 * Math.PI * BASS_CUTOFF_HZ / sampleRate);
+    const low = new Float32Array(samples.length);
+    let y = 0;
+    for (let i = 0; i < samples.length; i++) {
+        y += alpha * (samples[i] - y);
+        low[i] = y;
+    }
+
+    for (let f = 0; f < frames; f++) {
+        let e = 0;
+        let b = 0;
+        const start = f * HOP;
+        for (let i = start; i < start + WINDOW; i++) {
+            e += samples[i] * samples[i];
+            b += low[i] * low[i];
+        }
+        full[f] = Math.log(1e-6 + e / WINDOW);
+        bass[f] = b / WINDOW; // Linear, so accented kicks stand out
+    }
+
+    const rate = sampleRate / HOP;
+    const radius = Math.round(MEAN_WINDOW_SECONDS * rate / 2);
+    const fullFlux = removeLocalMean(energyFlux(full), radius);
+    const bassFlux = energyFlux(bass);
+    return {
+        full: fullFlux,
+        bass: bassFlux,
+        beat: sumUnitMean(fullFlux, bassFlux),
+        rate,
+        offset: WINDOW / 2 / sampleRate
+    };
+};
+
+// --- TEMPO & BEAT GRID ---
+
+/**
+ * Tempo from envelope autocorrelation. Confidence is how far the chosen
+ * peak stands above the average correlation in the search range.
+ */
+export const estimateTempo = (envelope: Float32Array, rate: number): { bpm: number, confidence: number } => {
+    const minLag = Math.floor(60 * rate / MAX_BPM);
+    const maxLag = Math.ceil(60 * rate / MIN_BPM);
+    if (envelope.length < maxLag * 2) return { bpm: TEMPO_PRIOR_BPM, confidence: 0 };
+
+    const ac = new Float32Array(maxLag + 2);
+    for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+        let sum = 0;
+        for (let i = 0; i + lag < envelope.length; i++) sum += envelope[i] * envelope[i + lag];
+        ac[lag] = sum / (envelope.length - lag);
+    }
+
+    let bestLag = minLag;
+    let bestScore = -Infinity;
+    let mean = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+        const bpm = 60 * rate / lag;
+        const octaves = Math.log2(bpm / TEMPO_PRIOR_BPM) / TEMPO_PRIOR_OCTAVES;
+        const score = ac[lag] * Math.exp(-0.5 * octaves * octaves);
+        if (score > bestScore) { bestScore = score; bestLag = lag; }
+        mean += ac[lag];
+    }
+    mean /= (maxLag - minLag + 1);
+
+    // Parabolic refinement around the peak
+    const a = ac[bestLag - 1], b = ac[bestLag], c = ac[bestLag + 1];
+    const denom = a - 2 * b + c;
+    const shift = denom !== 0 ? Math.max(-0.5, Math.min(0.5, 0.5 * (a - c) / denom)) : 0;
+    const lag = bestLag + shift;
+
+    const confidence = b > 0 ? Math.max(0, Math.min(1, (b - mean) / b)) : 0;
+    return { bpm: 60 * rate / lag, confidence };
+};
+
+const combScore = (envelope: Float32Array, period: number, phase: number): number => {
+    let score = 0;
+    for (let t = phase; t < envelope.length; t += period) score += envelope[Math.round(t)] || 0;
+    return score;
+};
+
+/**
+ * Constant-tempo beat comb that collects the most onset strength. The
+ * autocorrelation tempo is only accurate to a fraction of a BPM, which drifts
+ * by whole beats over a song, so the tempo is refined together with the phase.
+ */
+export const fitBeatGrid = (envelope: Float32Array, rate: number, bpm: number): { bpm: number, phase: number } => {
+    let best = { bpm, phase: 0 };
+    let bestScore = -Infinity;
+    for (let candidate = bpm * (1 - TEMPO_REFINE_RANGE); candidate <= bpm * (1 + TEMPO_REFINE_RANGE); candidate += TEMPO_REFINE_STEP) {
+        const period = 60 * rate / candidate;
+        for (let phase = 0; phase < period; phase++) {
+            const score = combScore(envelope, period, phase);
+            if (score > bestScore) { bestScore = score; best = { bpm: candidate, phase }; }
+        }
+    }
+
+    // Sub-sample phase: centre of the best comb's neighbours
+    const period = 60 * rate / best.bpm;
+    const left = combScore(envelope, period, best.phase - 0.5);
+    const right = combScore(envelope, period, best.phase + 0.5);
+    const phase = best.phase + (right - left) / (2 * Math.max(bestScore, 1e-9));
+    return { bpm: best.bpm, phase: Math.max(0, phase) / rate };
+};
+
+/**
+ * Index (0-3) of the first downbeat among the first bar of beats.
+ */
+export const estimateDownbeatIndex = (envelopes: OnsetEnvelopes, beats: number[]): number => {
+    const { bass, rate, offset: frameOffset } = envelopes;
+    // Strongest bass onset within a few frames of the beat
+    const onsetAt = (time: number) => {
+        const frame = Math.round((time - frameOffset) * rate);
+        let peak = 0;
+        for (let f = frame - DOWNBEAT_SEARCH_FRAMES; f <= frame + DOWNBEAT_SEARCH_FRAMES; f++) peak = Math.max(peak, bass[f] || 0);
+        return peak;
+    };
+
+    let best = 0;
+    let bestScore = -Infinity;
+    for (let offset = 0; offset < BEATS_PER_BAR; offset++) {
+        let score = 0;
+        let count = 0;
+        for (let i = offset; i < beats.length; i += BEATS_PER_BAR) {
+            score += onsetAt(beats[i]);
+            count++;
+        }
+        const avg = count > 0 ? score / count : 0;
+        if (avg > bestScore) { bestScore = avg; best = offset; }
+    }
+    return best;
+};
+
+// --- SECTIONS ---
+
+const rms = (samples: Float32Array, start: number, end: number): number => {
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    return end > start ? Math.sqrt(sum / (end - start)) : 0;
+};
+
+const quantile = (values: number[], q: number): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+};
+
+/**
+ * Split the track into 8-bar blocks and label them by loudness: the quiet
+ * opening = intro, loud after a clear jump = drop, loud = chorus, quiet after
+ * the track got going = breakdown, everything else = verse.
+ * Adjacent blocks with the same label are merged.
+ */
+export const segmentSections = (samples: Float32Array, sampleRate: number, downbeats: number[], duration: number): TrackSection[] => {
+    if (downbeats.length < 2) return [{ kind: 'verse', start: 0, end: duration, energy: 1 }];
+
+    const bounds = [0, ...downbeats.filter(t => t > 0), duration];
+    const barEnergies: number[] = [];
+    for (let i = 0; i < bounds.length - 1; i++) {
+        barEnergies.push(rms(samples, Math.floor(bounds[i] * sampleRate), Math.floor(bounds[i + 1] * sampleRate)));
+    }
+    const peak = Math.max(...barEnergies) || 1;
+
+    const blocks: { start: number, end: number, energy: number }[] = [];
+    for (let i = 0; i < barEnergies.length; i += BARS_PER_BLOCK) {
+        const bars = barEnergies.slice(i, i + BARS_PER_BLOCK);
+        const block = { start: bounds[i], end: bounds[i + bars.length], energy: bars.reduce((a, b) => a + b, 0) / bars.length / peak };
+        // A short tail (outro fade, partial bar) belongs to the block before it
+        if (bars.length < BARS_PER_BLOCK / 2 && blocks.length > 0) blocks[blocks.length - 1].end = block.end;
+        else blocks.push(block);
+    }
+
+    const energies = blocks.map(b => b.energy);
+    const loud = quantile(energies, 0.75) * LOUD_MARGIN;
+    const quiet = quantile(energies, 0.35);
+
+    const sections: TrackSection[] = [];
+    let started = false;
+    blocks.forEach((block, i) => {
+        const prev = blocks[i - 1];
+        const isLoud = block.energy >= loud;
+        let kind: TrackSectionKind;
+        if (!started && !isLoud) kind = 'intro';
+        else if (isLoud) kind = prev && prev.energy < block.energy * DROP_JUMP ? 'drop' : 'chorus';
+        else if (block.energy <= quiet) kind = 'breakdown';
+        else kind = 'verse';
+        if (isLoud || kind === 'verse') started = true;
+
+        const last = sections[sections.length - 1];
+        if (last && last.kind === kind) {
+            const length = (last.end - last.start) + (block.end - block.start);
+            last.energy = (last.energy * (last.end - last.start) + block.energy * (block.end - block.start)) / length;
+            last.end = block.end;
+        } else {
+            sections.push({ kind, start: block.start, end: block.end, energy: block.energy });
+        }
+    });
+    return sections;
+};
+
+/**
+ * Peak amplitude per display bucket, scaled so the loudest bucket is 1.
+ */
+const computeWaveform = (samples: Float32Array, sampleRate: number): number[] => {
+    const bucket = Math.max(1, Math.round(sampleRate / WAVEFORM_RATE));
+    const peaks: number[] = [];
+    for (let start = 0; start < samples.length; start += bucket) {
+        let peak = 0;
+        for (let i = start; i < Math.min(samples.length, start + bucket); i++) peak = Math.max(peak, Math.abs(samples[i]));
+        peaks.push(peak);
+    }
+    const max = Math.max(...peaks, 1e-6);
+    return peaks.map(p => p / max);
+};
+
+// --- PIPELINE ---
+
+/**
+ * Analyse a mono signal. Pure, so it also runs on synthetic test signals.
+ */
+export const analyzeSamples = (samples: Float32Array, sampleRate: number): TrackAnalysis => {
+    const duration = samples.length / sampleRate;
+    const envelopes = computeOnsetEnvelopes(samples, sampleRate);
+    const tempo = estimateTempo(envelopes.beat, envelopes.rate);
+    const grid = tempo.confidence > 0
+        ? fitBeatGrid(envelopes.beat, envelopes.rate, tempo.bpm)
+        : { bpm: tempo.bpm, phase: 0 };
+    const { bpm } = grid;
+    const { confidence } = tempo;
+    const phase = grid.phase + envelopes.offset;
+    const beatLength = 60 / bpm;
+    const beats: number[] = [];
+    for (let t = phase; t < duration; t += beatLength) beats.push(t);
+
+    const downbeatIndex = estimateDownbeatIndex(envelopes, beats);
+    const downbeats = beats.filter((_, i) => i >= downbeatIndex && (i - downbeatIndex) % BEATS_PER_BAR === 0);
+
+    return {
+        duration,
+        bpm,
+        confidence,
+        downbeatOffset: downbeats[0] ?? phase,
+        beats,
+        downbeats,
+        onsetEnvelope: Array.from(envelopes.beat),
+        envelopeRate: envelopes.rate,
+        waveform: computeWaveform(samples, sampleRate),
+        waveformRate: sampleRate / Math.max(1, Math.round(sampleRate / WAVEFORM_RATE)),
+        sections: segmentSections(samples, sampleRate, downbeats, duration)
+    };
+};
+
+/**
+ * Decode an audio URL and render a mono mix-down at the analysis rate.
+ */
+export const decodeForAnalysis = async (url: string): Promise<Float32Array> => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Audio fetch failed: ${response.status}`);
+    const encoded = await response.arrayBuffer();
+
+    const decoder = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+    const decoded = await decoder.decodeAudioData(encoded);
+
+    const length = Math.ceil(decoded.duration * ANALYSIS_SAMPLE_RATE);
+    const ctx = new OfflineAudioContext(1, length, ANALYSIS_SAMPLE_RATE);
+    const source = ctx.createBufferSource();
+    source.buffer = decoded;
+    source.connect(ctx.destination);
+    source.start();
+    const rendered = await ctx.startRendering();
+    return rendered.getChannelData(0);
+};
+
+/**
+ * Full pre-analysis of a song URL (blob or remote).
+ */
+export const analyzeTrack = async (url: string): Promise<TrackAnalysis> => {
+    const started = performance.now();
+    const samples = await decodeForAnalysis(url);
+    const analysis = analyzeSamples(samples, ANALYSIS_SAMPLE_RATE);
+    console.log(`[TrackAnalysis] ${analysis.bpm.toFixed(1)} BPM (${(analysis.confidence * 100).toFixed(0)}%), ${analysis.beats.length} beats, sections: ${analysis.sections.map(s => s.kind).join(' > ')} in ${Math.round(performance.now() - started)}ms`);
+    return analysis;
+};
+
+// --- LOOKUPS ---
+
+/**
+ * Beat index and phase (0-1) at a playback time, or null before the first beat.
+ */
+export const beatAt = (analysis: TrackAnalysis, time: number): { index: number, phase: number } | null => {
+    const beatLength = 60 / analysis.bpm;
+    const first = analysis.beats[0];
+    if (first === undefined || time < first) return null;
+    const position = (time - first) / beatLength;
+    const index = Math.floor(position);
+    return { index, phase: position - index };
+};
+
+export const sectionAt = (analysis: TrackAnalysis, time: number): TrackSection | null =>
+    analysis.sections.find(s => time >= s.start && time < s.end) ?? null;
+
+// --- PLANNING FEATURES ---
+
+const ENVELOPE_REFERENCE_QUANTILE = 0.95;
+const KICK_DECAY = 8; // Bass pulse falloff per beat
+
+/**
+ * Stand-in bass/mid/high levels (0-1) for simulating a song ahead of time
+ * (KineticEngine.planTimeline). Kicks pulse on the grid, onsets add
+ * transients, and the section energy sets the overall level.
+ */
+export const createFeatureEstimator = (analysis: TrackAnalysis): (time: number) => { bass: number, mid: number, high: number } => {
+    const reference = quantile(analysis.onsetEnvelope.length ? analysis.onsetEnvelope : [1], ENVELOPE_REFERENCE_QUANTILE) || 1;
+    const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+    return (time: number) => {
+        const onset = clamp01((analysis.onsetEnvelope[Math.round(time * analysis.envelopeRate)] ?? 0) / reference);
+        const section = sectionAt(analysis, time);
+        const level = section?.energy ?? 0.5;
+        const loud = section?.kind === 'drop' || section?.kind === 'chorus';
+        const beat = beatAt(analysis, time);
+        const pulse = beat ? Math.exp(-beat.phase * KICK_DECAY) : 0;
+        return {
+            bass: clamp01(level * (0.35 + 0.65 * pulse) + 0.2 * onset),
+            mid: clamp01(level * 0.6 + 0.4 * onset),
+            high: clamp01(level * (loud ? 0.6 : 0.4) + 0.3 * onset)
+        };
+    };
+};
@@ -0,0 +1,118 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * AUDIO ANALYSIS TEST SUITE
+ *
+ * Hz-defined bands shared by the audio hooks and the exported player:
+ * - Bands map to the same frequencies at any sample rate and FFT size
+ * - Gain and auto gain scale the levels; sanitizing keeps settings usable
+ * - The exported player embeds the settings and the bundled engine instead of
+ *   fixed bins and its own frame sampler
+ */
+
+const MODULES = {
+  analysis: '/services/audioAnalysis.ts',
+  player: '/services/playerExport.ts'
+};
+
+test.describe('Audio Analysis', () => {
+  test('Bands, gain and auto gain', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { bandBins, bandLevels, createBandAnalyser, sanitizeAudioAnalysis, DEFAULT_AUDIO_ANALYSIS, BAND_IDS } = await import(modules.analysis);
+
+      const binsAt = (sampleRate: number, fftSize: number) =>
+        BAND_IDS.map((id: string) => bandBins(DEFAULT_AUDIO_ANALYSIS.bands[id], sampleRate, fftSize));
+      const hzAt = (sampleRate: number, fftSize: number) =>
+        binsAt(sampleRate, fftSize).map(([from, to]: number[]) => [from, to].map(bin => Math.round(bin * sampleRate / fftSize)));
+
+      // A flat spectrum at 128 with a loud first bin
+      const spectrum = new Uint8Array(128).fill(128);
+      spectrum[0] = 255;
+
+      const boosted = { ...DEFAULT_AUDIO_ANALYSIS, bands: { ...DEFAULT_AUDIO_ANALYSIS.bands, high: { ...DEFAULT_AUDIO_ANALYSIS.bands.high, gain: 1.5 } } };
+      const plain = createBandAnalyser().analyse(spectrum, 44100, DEFAULT_AUDIO_ANALYSIS);
+      const withGain = createBandAnalyser().analyse(spectrum, 44100, boosted);
+
+      // A quiet source: auto gain lifts its peaks to the target, plain levels stay low
+      const quiet = new Uint8Array(128).fill(20);
+      const auto = createBandAnalyser();
+      const autoGain = { ...DEFAULT_AUDIO_ANALYSIS, autoGain: true };
+      let lifted = auto.analyse(quiet, 44100, autoGain);
+      for (let i = 0; i < 10; i++) lifted = auto.analyse(quiet, 44100, autoGain);
+      const silence = createBandAnalyser().analyse(new Uint8Array(128), 44100, autoGain);
+
+      return {
+        legacyBins: binsAt(44100, 256),
+        hz48k: hzAt(48000, 256),
+        hz48kFine: hzAt(48000, 2048),
+        tinyBand: bandBins({ lo: 100, hi: 110, gain: 1 }, 44100, 256),
+        levels: bandLevels(spectrum, 44100, DEFAULT_AUDIO_ANALYSIS),
+        plain,
+        withGain,
+        quietPlain: createBandAnalyser().analyse(quiet, 44100, DEFAULT_AUDIO_ANALYSIS).bass,
+        lifted,
+        silence,
+        empty: createBandAnalyser().analyse(new Uint8Array(0), 44100, DEFAULT_AUDIO_ANALYSIS),
+        sanitized: sanitizeAudioAnalysis({ fftSize: 300, smoothing: 2, bands: { bass: { lo: 500, hi: 100, gain: 9 } } }),
+        restored: sanitizeAudioAnalysis(undefined)
+      };
+    }, MODULES);
+
+    console.log(`✓ Bands at 48 kHz: ${result.hz48k.map((b: number[]) => b.join('-')).join(' / ')} Hz`);
+    // The defaults reproduce the old fixed slices at 44.1 kHz / 256
+    expect(result.legacyBins).toEqual([[0, 5], [5, 30], [30, 100]]);
+    // ...and keep their frequencies elsewhere, within a bin
+    result.hz48k.forEach((band: number[], i: number) => {
+      const [lo, hi] = [[0, 860], [860, 5200], [5200, 17200]][i];
+      expect(Math.abs(band[0] - lo)).toBeLessThanOrEqual(48000 / 256 / 2);
+      expect(Math.abs(band[1] - hi)).toBeLessThanOrEqual(48000 / 256 / 2);
+    });
+    expect(Math.abs(result.hz48kFine[1][1] - 5200)).toBeLessThanOrEqual(48000 / 2048 / 2);
+    expect(result.tinyBand[1] - result.tinyBand[0]).toBe(1);
+    expect(result.levels.bass).toBeCloseTo((255 + 4 * 128) / (5 * 255), 5);
+    expect(result.levels.mid).toBeCloseTo(128 / 255, 5);
+    expect(result.withGain.high).toBeCloseTo(Math.min(1, result.plain.high * 1.5), 5);
+    expect(result.withGain.bass).toBeCloseTo(result.plain.bass, 5);
+    expect(result.plain.energy).toBeCloseTo(result.plain.bass * 0.5 + result.plain.mid * 0.3 + result.plain.high * 0.2, 5);
+    expect(result.quietPlain).toBeLessThan(0.1);
+    expect(result.lifted.bass).toBeCloseTo(0.85, 2);
+    expect(result.lifted.high).toBeCloseTo(0.85, 2);
+    expect(result.silence.bass).toBe(0);
+    expect(result.empty).toEqual({ bass: 0, mid: 0, high: 0, energy: 0 });
+    expect(result.sanitized.fftSize).toBe(256);
+    expect(result.sanitized.smoothing).toBe(0.99);
+    expect(result.sanitized.bands.bass).toEqual({ lo: 500, hi: 501, gain: 4 });
+    expect(result.sanitized.bands.mid).toEqual({ lo: 860, hi: 5200, gain: 1 });
+    expect(result.restored.autoGain).toBe(false);
+  });
+
+  test('Exported player reads the same bands', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { DEFAULT_AUDIO_ANALYSIS } = await import(modules.analysis);
+      const { generatePlayerHTML } = await import(modules.player);
+
+      const settings = { ...DEFAULT_AUDIO_ANALYSIS, fftSize: 1024, autoGain: true, bands: { ...DEFAULT_AUDIO_ANALYSIS.bands, bass: { lo: 30, hi: 180, gain: 1.4 } } };
+      const html = generatePlayerHTML([], {}, 'CHARACTER', 30000, 7, null, settings);
+      const embedded = html.match(/const ANALYSIS = (.*);/);
+      return {
+        embedded: embedded ? JSON.parse(embedded[1]) : null,
+        fixedBins: /d\[\d+\]\/255/.test(html),
+        runtime: html.includes('JusDNCEPlayer.createPlayerRuntime('),
+        sampler: /const random\b|random\(\) > /.test(html)
+      };
+    }, MODULES);
+
+    console.log('✓ Player analyser settings embedded');
+    expect(result.embedded.fftSize).toBe(1024);
+    expect(result.embedded.autoGain).toBe(true);
+    expect(result.embedded.bands.bass).toEqual({ lo: 30, hi: 180, gain: 1.4 });
+    expect(result.fixedBins).toBe(false);
+    // Levels and moves come from the bundled runtime (audioAnalysis + KineticEngine)
+    expect(result.runtime).toBe(true);
+    expect(result.sampler).toBe(false);
+  });
+});
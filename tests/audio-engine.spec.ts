@@ -0,0 +1,115 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * AUDIO ENGINE TEST SUITE
+ *
+ * The one shared Web Audio graph behind the audio hooks:
+ * - Sources switch without rewiring; an element is wrapped once and reused
+ * - Each source opens its own routes (no speakers for the mic or a tab)
+ * - The test tone reaches the analyser and the recorder
+ * - The context closes after the last user releases it
+ */
+
+const MODULES = {
+  engine: '/services/audioEngine.ts'
+};
+
+test.describe('Audio Engine', () => {
+  test('Switches sources and routes on one graph', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { createAudioEngine, getAudioEngine, SOURCE_ROUTES } = await import(modules.engine);
+      const wait = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+      const engine = createAudioEngine({ closeGraceMs: 50 });
+      const release = engine.retain();
+      let notifications = 0;
+      const unsubscribe = engine.subscribe(() => notifications++);
+
+      const before = engine.getSnapshot();
+      const ctx = engine.ensureContext();
+      const recorder = engine.getRecorderNode();
+
+      // The tone pulses a low sine; the analyser hears it when the context runs
+      engine.configureAnalyser(1024, 0);
+      engine.startTone({ frequency: 110, bpm: 60 });
+      const toneSnapshot = engine.getSnapshot();
+      await wait(300);
+      const frame = engine.readSpectrum();
+      const toneBin = Math.round(110 / (frame.sampleRate / 1024));
+      const toneLevel = frame.data[toneBin];
+
+      // The same element twice, with another source in between: never wrapped twice
+      const element = new Audio();
+      const errors: string[] = [];
+      for (const step of ['file', 'file', 'tone', 'file']) {
+        try {
+          if (step === 'file') engine.connectFile(element);
+          else engine.startTone();
+        } catch (e) {
+          errors.push(String(e));
+        }
+      }
+      const fileSnapshot = engine.getSnapshot();
+
+      engine.setRoute('speakers', false);
+      const muted = engine.getSnapshot().routes;
+      const stable = engine.getSnapshot() === engine.getSnapshot();
+
+      engine.stopSource();
+      const stopped = engine.getSnapshot();
+
+      release();
+      release(); // A second call is a no-op
+      const heldOpen = engine.getSnapshot().contextState;
+      await wait(150);
+      const closed = engine.getSnapshot().contextState;
+      unsubscribe();
+
+      return {
+        before: before.contextState,
+        hasRecorder: recorder !== null && recorder.stream.getAudioTracks().length === 1,
+        running: ctx.state === 'running',
+        toneSource: toneSnapshot.source,
+        toneRoutes: toneSnapshot.routes,
+        toneLevel,
+        errors,
+        fileSource: fileSnapshot.source,
+        fileRoutes: fileSnapshot.routes,
+        muted,
+        stable,
+        stopped: { source: stopped.source, routes: stopped.routes },
+        heldOpen,
+        closed,
+        closedContext: ctx.state,
+        afterClose: engine.readSpectrum(),
+        notified: notifications > 0,
+        micRoutes: SOURCE_ROUTES.mic,
+        tabRoutes: SOURCE_ROUTES.tab,
+        shared: getAudioEngine() === getAudioEngine()
+      };
+    }, MODULES);
+
+    console.log(`✓ Tone level ${result.toneLevel} (context ${result.running ? 'running' : 'not running'}), closed: ${result.closed}`);
+    expect(result.before).toBe('none');
+    expect(result.hasRecorder).toBe(true);
+    expect(result.toneSource).toBe('tone');
+    expect(result.toneRoutes).toEqual({ analyser: true, speakers: true, recorder: true });
+    if (result.running) expect(result.toneLevel).toBeGreaterThan(0);
+    expect(result.errors).toEqual([]);
+    expect(result.fileSource).toBe('file');
+    expect(result.fileRoutes.speakers).toBe(true);
+    expect(result.muted).toEqual({ analyser: true, speakers: false, recorder: true });
+    expect(result.stable).toBe(true);
+    expect(result.stopped).toEqual({ source: null, routes: { analyser: false, speakers: false, recorder: false } });
+    expect(result.heldOpen).not.toBe('none');
+    expect(result.closed).toBe('none');
+    expect(result.closedContext).toBe('closed');
+    expect(result.afterClose).toBeNull();
+    expect(result.notified).toBe(true);
+    expect(result.micRoutes.speakers).toBe(false);
+    expect(result.tabRoutes.speakers).toBe(false);
+    expect(result.shared).toBe(true);
+  });
+});
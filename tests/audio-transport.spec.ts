@@ -0,0 +1,137 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * AUDIO TRANSPORT TEST SUITE
+ *
+ * Seek, loop regions and playback rate for the loaded track:
+ * - Loop regions snap to the analysed bars and never collapse
+ * - Playback wraps at the end of a region; rates snap to the offered speeds
+ * - The engine re-syncs after a seek without hearing the jump as a hit
+ */
+
+const MODULES = {
+  transport: '/services/audioTransport.ts',
+  engine: '/tests/fixtures/engine.ts'
+};
+
+test.describe('Audio Transport', () => {
+  test('Loop regions snap to bars', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { barLines, snapToBar, snapLoopRegion, wrapPosition, nearestPlaybackRate, formatTime } = await import(modules.transport);
+
+      // 120 BPM, bars every 2s from 0.5s, in a 10s song
+      const analysis = { downbeats: [0.5, 2.5, 4.5, 6.5, 8.5] };
+      const bars = barLines(analysis, 10);
+      const region = { start: 2.5, end: 8.5 };
+
+      return {
+        bars,
+        noBars: barLines(null, 10),
+        snapped: [snapToBar(3.2, bars), snapToBar(3.6, bars), snapToBar(3.6, [])],
+        loop: snapLoopRegion({ start: 3.2, end: 7.9 }, bars, 10),
+        reversed: snapLoopRegion({ start: 7.9, end: 3.2 }, bars, 10),
+        tiny: snapLoopRegion({ start: 3.0, end: 3.1 }, bars, 10),
+        atEnd: snapLoopRegion({ start: 9.9, end: 10 }, bars, 10),
+        outside: snapLoopRegion({ start: -5, end: 50 }, bars, 10),
+        unsnapped: snapLoopRegion({ start: 3, end: 3.2 }, [], 10),
+        unsnappedAtEnd: snapLoopRegion({ start: 9.9, end: 10 }, [], 10),
+        wrapped: [wrapPosition(8.6, region), wrapPosition(5, region), wrapPosition(9, null)],
+        rates: [1.1, 0.6, 3, NaN].map(nearestPlaybackRate),
+        times: [formatTime(75.9), formatTime(-1), formatTime(600)]
+      };
+    }, MODULES);
+
+    console.log(`✓ Loop ${result.loop.start}-${result.loop.end}s on bars ${result.bars.join(', ')}`);
+    expect(result.bars).toEqual([0, 0.5, 2.5, 4.5, 6.5, 8.5, 10]);
+    expect(result.noBars).toEqual([]);
+    expect(result.snapped).toEqual([2.5, 4.5, 3.6]);
+    expect(result.loop).toEqual({ start: 2.5, end: 8.5 });
+    expect(result.reversed).toEqual(result.loop);
+    expect(result.tiny).toEqual({ start: 2.5, end: 4.5 });
+    expect(result.atEnd).toEqual({ start: 8.5, end: 10 });
+    expect(result.outside).toEqual({ start: 0, end: 10 });
+    expect(result.unsnapped).toEqual({ start: 3, end: 3.5 });
+    expect(result.unsnappedAtEnd).toEqual({ start: 9.5, end: 10 });
+    expect(result.wrapped).toEqual([2.5, 5, 9]);
+    expect(result.rates).toEqual([1, 0.5, 1.5, 1]);
+    expect(result.times).toEqual(['1:15', '0:00', '10:00']);
+  });
+
+  test('Engine re-syncs after a seek', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { KineticEngine, createManualClock } = await import(modules.engine);
+
+      const analysis = {
+        duration: 60, bpm: 120, confidence: 1, downbeatOffset: 0.5,
+        beats: [0.5, 1, 1.5, 2], downbeats: [0.5], onsetEnvelope: [], envelopeRate: 86,
+        sections: [{ kind: 'verse', start: 0, end: 60, energy: 1 }]
+      };
+
+      // fftSize 256 at 44.1kHz; a kick lights the first bin
+      const BIN_HZ = 44100 / 256;
+      const quiet = new Array(128).fill(0.02);
+      const loud = quiet.map((v: number, i: number) => (i === 0 ? 0.9 : v));
+
+      // Quiet for a second, then loud: played straight through, or with a seek in between
+      const run = (seekTo: number | null) => {
+        const clock = createManualClock(0);
+        const engine = new KineticEngine(clock, 1);
+        engine.loadTrackAnalysis(analysis);
+        const step = (spectrum: number[]) => {
+          clock.advance(1000 / 60);
+          engine.feedAudio(0.3, 0.3, 0.3);
+          engine.feedSpectrum(spectrum, BIN_HZ);
+          return engine.update(1 / 60);
+        };
+        for (let f = 0; f < 60; f++) step(quiet);
+        if (seekTo !== null) clock.seek(seekTo);
+        const onsets: string[] = [];
+        let beat = -1;
+        for (let f = 0; f < 10; f++) {
+          const state = step(loud);
+          if (f === 0) beat = state.structure.beat;
+          onsets.push(...state.onsets.map((o: { type: string }) => o.type));
+        }
+        return { onsets, beat };
+      };
+
+      // A song that starts at 30s hears the same beat as one seeked there
+      const fresh = (() => {
+        const clock = createManualClock(30);
+        const engine = new KineticEngine(clock, 1);
+        engine.loadTrackAnalysis(analysis);
+        clock.advance(1000 / 60);
+        engine.feedAudio(0.3, 0.3, 0.3);
+        return engine.update(1 / 60).structure.beat;
+      })();
+
+      const clock = createManualClock(0);
+      const engine = new KineticEngine(clock, 1);
+      engine.setPlaybackRate(1.5);
+      engine.loadTrackAnalysis(analysis);
+      const fastBpm = engine.getBPM();
+      engine.setPlaybackRate(1);
+
+      return {
+        straight: run(null),
+        forward: run(30),
+        back: run(0.2),
+        fresh,
+        fastBpm,
+        normalBpm: engine.getBPM()
+      };
+    }, MODULES);
+
+    console.log(`✓ Straight through: ${result.straight.onsets.join(', ')}; after a seek: ${result.forward.onsets.length} onsets`);
+    expect(result.straight.onsets).toEqual(['kick']);
+    expect(result.forward.onsets).toEqual([]);
+    expect(result.back.onsets).toEqual([]);
+    expect(result.forward.beat).toBe(result.fresh);
+    expect(result.fastBpm).toBe(180);
+    expect(result.normalBpm).toBe(120);
+  });
+});
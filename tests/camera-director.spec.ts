@@ -0,0 +1,155 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * CAMERA DIRECTOR TEST SUITE
+ *
+ * Shot choice and camera springs, in the browser:
+ * - Nodes and sequence modes pick the base shot
+ * - Zoom impulses, phrase starts and hard impact hits cue one-shots
+ * - Springs settle on the shot's framing; one-shots fall back when done
+ * - A KineticEngine run films the same way twice
+ */
+
+const MODULES = {
+  camera: '/services/cameraDirector.ts',
+  engine: '/tests/fixtures/engine.ts'
+};
+
+test.describe('Camera Director', () => {
+  test('Shots follow node, mode and beat', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { createCameraDirector, baseShotFor, oneShotFor, visualizerRotation, SHOTS } = await import(modules.camera);
+
+      const state = (overrides: Record<string, unknown> = {}) => ({
+        currentNode: 'groove_left', sequenceMode: 'GROOVE', structure: { bar: 0, beatInBar: 0 },
+        structureCues: [], cameraImpulses: [], ...overrides
+      });
+      const audio = { bass: 0, mid: 0, reactivity: 0.8 };
+
+      // Settle a fresh director on one state for `seconds`
+      const settle = (s: unknown, fx = 'none', seconds = 3) => {
+        const director = createCameraDirector();
+        let camera = director.update(s, fx, audio, 1 / 60);
+        for (let i = 1; i < seconds * 60; i++) camera = director.update(s, fx, audio, 1 / 60);
+        return camera;
+      };
+
+      // One cue, then quiet frames: the shot over time
+      const afterCue = (cue: Record<string, unknown>, frames: number) => {
+        const director = createCameraDirector();
+        const shots = [director.update(state(cue), 'none', audio, 1 / 60).shot];
+        for (let i = 1; i < frames; i++) shots.push(director.update(state(), 'none', audio, 1 / 60).shot);
+        return shots;
+      };
+
+      const whip = afterCue({ structureCues: ['beat', 'bar', 'phrase'] }, 30);
+      const dolly = afterCue({ cameraImpulses: [{ type: 'zoom', amount: 1.5 }] }, 120);
+
+      const dutchEven = settle(state({ sequenceMode: 'IMPACT', structure: { bar: 2, beatInBar: 0 } }));
+      const dutchOdd = settle(state({ sequenceMode: 'IMPACT', structure: { bar: 3, beatInBar: 0 } }));
+
+      return {
+        base: [
+          baseShotFor('groove_left', 'GROOVE', 'none'),
+          baseShotFor('closeup', 'EMOTE', 'zoom'),
+          baseShotFor('footwork_left', 'FOOTWORK', 'none'),
+          baseShotFor('impact', 'IMPACT', 'none'),
+          baseShotFor('spin', 'GROOVE', 'none'),
+          baseShotFor('idle', 'GROOVE', 'mandala')
+        ],
+        oneShots: [
+          oneShotFor(state({ cameraImpulses: [{ type: 'zoom', amount: 1.5 }] })),
+          oneShotFor(state({ structureCues: ['beat', 'bar', 'phrase'] })),
+          oneShotFor(state({ sequenceMode: 'IMPACT', cameraImpulses: [{ type: 'bounce', amount: 0.9 }] })),
+          oneShotFor(state({ cameraImpulses: [{ type: 'bounce', amount: 0.9 }] })),
+          oneShotFor(state({ sequenceMode: 'IMPACT', structure: { bar: 0, beatInBar: 2 }, cameraImpulses: [{ type: 'bounce', amount: 0.9 }] })),
+          oneShotFor(state({ structureCues: ['beat', 'bar'] }))
+        ],
+        closeupZoom: settle(state({ currentNode: 'closeup', sequenceMode: 'EMOTE' }), 'zoom').zoom,
+        wide: settle(state({ sequenceMode: 'FOOTWORK' })),
+        still: settle(state()),
+        dutchRolls: [dutchEven.rotZ, dutchOdd.rotZ],
+        whipFrames: whip.filter(s => s === 'whip').length,
+        whipEnd: whip[whip.length - 1],
+        dollyFrames: dolly.filter(s => s === 'dolly').length,
+        dollyDepth: (() => {
+          const director = createCameraDirector();
+          director.update(state({ cameraImpulses: [{ type: 'zoom', amount: 1.5 }] }), 'zoom', audio, 1 / 60);
+          let deepest = 0;
+          for (let i = 0; i < 60; i++) deepest = Math.min(deepest, director.update(state(), 'zoom', audio, 1 / 60).dolly);
+          return deepest;
+        })(),
+        radians: visualizerRotation({ shot: 'medium', zoom: 1, panX: 0, panY: 0, rotX: 180, rotY: 90, rotZ: 0, dolly: 0 }),
+        mediumZoom: SHOTS.medium.zoom
+      };
+    }, MODULES);
+
+    console.log(`✓ Whip held ${result.whipFrames} frames, dolly ${result.dollyFrames}`);
+    expect(result.base).toEqual(['medium', 'closeup', 'wide', 'dutch', 'orbit', 'orbit']);
+    expect(result.oneShots).toEqual(['dolly', 'whip', 'shake', null, null, null]);
+    expect(result.closeupZoom).toBeCloseTo(1.5, 2);
+    expect(result.wide.shot).toBe('wide');
+    expect(result.wide.panY).toBeCloseTo(-150, 0);
+    expect(result.wide.rotX).toBeCloseTo(20, 1);
+    expect(result.still.zoom).toBeCloseTo(result.mediumZoom, 3);
+    expect(Math.abs(result.still.rotZ)).toBeLessThan(0.01);
+    expect(result.dutchRolls[0]).toBeCloseTo(12, 1);
+    expect(result.dutchRolls[1]).toBeCloseTo(-12, 1);
+    expect(result.whipFrames).toBeGreaterThan(10);
+    expect(result.whipFrames).toBeLessThan(20);
+    expect(result.whipEnd).toBe('medium');
+    expect(result.dollyFrames).toBeGreaterThan(80);
+    expect(result.dollyFrames).toBeLessThan(100);
+    expect(result.dollyDepth).toBeLessThan(-0.3);
+    expect(result.radians.x).toBeCloseTo(Math.PI, 5);
+    expect(result.radians.y).toBeCloseTo(Math.PI / 2, 5);
+  });
+
+  test('Directing a seeded engine run is repeatable', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { createCameraDirector } = await import(modules.camera);
+      const { KineticEngine, createManualClock, testRig } = await import(modules.engine);
+
+      const frames = testRig();
+
+      const film = () => {
+        const clock = createManualClock(0);
+        const engine = new KineticEngine(clock, 5);
+        engine.loadFramePool(frames);
+        engine.setAutoBPM(false);
+        engine.setBPM(120);
+        const director = createCameraDirector();
+        const shots: string[] = [];
+        let last: Record<string, any> = {};
+        for (let i = 0; i < 1800; i++) { // 30s
+          clock.advance(1000 / 60);
+          const bass = i % 30 < 3 ? 0.95 : 0.3;
+          const mid = 0.4 + 0.3 * Math.sin(i / 20);
+          engine.feedAudio(bass, mid, 0.3 + 0.4 * Math.max(0, Math.sin(i / 90)));
+          const state = engine.update(1 / 60);
+          last = director.update(state, engine.getCurrentNodeConfig().mechanicalFx, { bass, mid, reactivity: 0.8 }, 1 / 60);
+          if (shots[shots.length - 1] !== last.shot) shots.push(last.shot);
+        }
+        return { shots, last };
+      };
+
+      const first = film();
+      const second = film();
+      return {
+        shots: first.shots,
+        repeatable: JSON.stringify(first) === JSON.stringify(second),
+        finite: Object.values(first.last).every(v => typeof v === 'string' || Number.isFinite(v))
+      };
+    }, MODULES);
+
+    console.log(`✓ ${result.shots.length} shots: ${[...new Set(result.shots)].join(', ')}`);
+    expect(result.repeatable).toBe(true);
+    expect(result.finite).toBe(true);
+    expect(new Set(result.shots).size).toBeGreaterThan(2);
+    expect(result.shots).toContain('whip');
+  });
+});
@@ -0,0 +1,227 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * CHOREOGRAPHY TIMELINE TEST SUITE
+ *
+ * Plans a synthetic song with KineticEngine.planTimeline in the browser:
+ * - The plan is deterministic for the same rig, analysis and seed
+ * - A second engine replaying the timeline shows exactly the planned frames
+ * - With two decks holding the same poses, replay shows each frame from its own deck
+ * - A cut pinned in the editor (a frame without a deck) fires once and then holds
+ * - Editor operations keep events sorted and locked cuts survive a re-plan
+ */
+
+const MODULES = {
+  engine: '/tests/fixtures/engine.ts',
+  analysis: '/services/trackAnalysis.ts',
+  editing: '/services/choreographyTimeline.ts'
+};
+
+test.describe('Choreography Timeline', () => {
+  test('Plans a whole song and replays it exactly', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { KineticEngine, timelineTransitionAt, createManualClock, testRig } = await import(modules.engine);
+      const { analyzeSamples, ANALYSIS_SAMPLE_RATE } = await import(modules.analysis);
+
+      // 32 bars at 128 BPM: quiet intro, loud, breakdown, loud
+      const sr = ANALYSIS_SAMPLE_RATE;
+      const beat = 60 / 128;
+      const samples = new Float32Array(Math.ceil((0.3 + 128 * beat + 1) * sr));
+      const level = (bar: number) => bar < 8 ? 0.25 : bar < 16 ? 0.9 : bar < 20 ? 0.12 : 0.9;
+      for (let b = 0; b < 128; b++) {
+        const t0 = Math.floor((0.3 + b * beat) * sr);
+        const gain = level(Math.floor(b / 4)) * (b % 4 === 2 ? 1 : 0.45);
+        for (let i = 0; i < 0.12 * sr; i++) {
+          samples[t0 + i] += gain * Math.sin(2 * Math.PI * 55 * i / sr) * Math.exp(-i / sr * 25);
+        }
+      }
+      const analysis = analyzeSamples(samples, sr);
+
+      const frames = testRig();
+
+      const plan = () => {
+        const engine = new KineticEngine(createManualClock(0), 5);
+        engine.loadFramePool(frames);
+        return engine.planTimeline(analysis);
+      };
+      const timeline = plan();
+
+      // Replay with a different seed: the timeline, not the PRNG, decides
+      const clock = createManualClock(0);
+      const player = new KineticEngine(clock, 99);
+      player.loadFramePool(frames);
+      player.loadTimeline(timeline);
+      let mismatches = 0;
+      let bounces = 0;
+      for (let i = 0; i < 1800; i++) {
+        player.feedAudio(0.3, 0.3, 0.3);
+        const state = player.update(1 / 60);
+        const planned = timelineTransitionAt(timeline, clock.position()! * 1000);
+        if (planned && state.currentFrame?.pose !== planned.pose) mismatches++;
+        bounces += state.cameraImpulses.filter((c: any) => c.type === 'bounce').length;
+        clock.advance(1000 / 60);
+      }
+
+      return {
+        durationMs: timeline.durationMs,
+        transitions: timeline.events.filter((e: any) => e.kind === 'transition').length,
+        cameraEvents: timeline.events.filter((e: any) => e.kind === 'camera').length,
+        sorted: timeline.events.every((e: any, i: number, all: any[]) => i === 0 || all[i - 1].time <= e.time),
+        deterministic: JSON.stringify(plan()) === JSON.stringify(timeline),
+        mismatches,
+        bounces
+      };
+    }, MODULES);
+
+    console.log(`✓ ${result.transitions} transitions, ${result.cameraEvents} camera events over ${(result.durationMs / 1000).toFixed(1)}s`);
+    expect(result.transitions).toBeGreaterThan(20);
+    expect(result.cameraEvents).toBeGreaterThan(0);
+    expect(result.sorted).toBe(true);
+    expect(result.deterministic).toBe(true);
+    expect(result.mismatches).toBe(0);
+    expect(result.bounces).toBeGreaterThan(0);
+  });
+
+  test('Replays each frame from its own deck when decks share poses', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { KineticEngine, timelineTransitionAt, createManualClock, testRig } = await import(modules.engine);
+      const { analyzeSamples, ANALYSIS_SAMPLE_RATE } = await import(modules.analysis);
+
+      // 16 bars of a steady kick at 128 BPM
+      const sr = ANALYSIS_SAMPLE_RATE;
+      const beat = 60 / 128;
+      const samples = new Float32Array(Math.ceil((0.3 + 64 * beat + 1) * sr));
+      for (let b = 0; b < 64; b++) {
+        const t0 = Math.floor((0.3 + b * beat) * sr);
+        for (let i = 0; i < 0.12 * sr; i++) {
+          samples[t0 + i] += 0.8 * Math.sin(2 * Math.PI * 55 * i / sr) * Math.exp(-i / sr * 25);
+        }
+      }
+      const analysis = analyzeSamples(samples, sr);
+
+      // Two rigs generated with the same layout: same pose names, different images
+      const decks = [
+        { id: 0, frames: testRig({ count: 9, image: 'alpha', bodyOnly: true }) },
+        { id: 1, frames: testRig({ count: 9, image: 'beta', bodyOnly: true }) }
+      ];
+
+      const planner = new KineticEngine(createManualClock(0), 8);
+      planner.loadDecks(decks);
+      const timeline = planner.planTimeline(analysis);
+      const transitions = timeline.events.filter((e: any) => e.kind === 'transition');
+
+      const clock = createManualClock(0);
+      const player = new KineticEngine(clock, 99);
+      player.loadDecks(decks);
+      player.loadTimeline(timeline);
+      let mismatches = 0;
+      for (let i = 0; i < 1800; i++) {
+        player.feedAudio(0.3, 0.3, 0.3);
+        const state = player.update(1 / 60);
+        const planned = timelineTransitionAt(timeline, clock.position()! * 1000);
+        const shown = state.currentFrame && `${state.currentFrame.deckId}/${state.currentFrame.pose}`;
+        if (planned && shown !== planned.frame) mismatches++;
+        clock.advance(1000 / 60);
+      }
+
+      return {
+        keys: transitions.map((e: any) => e.frame),
+        decksUsed: [...new Set(transitions.map((e: any) => e.frame.split('/')[0]))].sort(),
+        mismatches
+      };
+    }, MODULES);
+
+    console.log(`✓ ${result.keys.length} transitions across decks ${result.decksUsed.join(', ')}`);
+    expect(result.keys.length).toBeGreaterThan(10);
+    expect(result.decksUsed).toEqual(['0', '1']);
+    expect(result.mismatches).toBe(0);
+  });
+
+  test('A pinned cut fires once and then holds', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { KineticEngine, createManualClock } = await import(modules.engine);
+      const { pinFrameAt } = await import(modules.editing);
+
+      // The editor picks from the rig's own frames, which carry no deck id
+      const frames = ['stand', 'lean', 'jump'].map(pose => ({ url: pose, pose, role: 'base', type: 'body', energy: 'mid' }));
+      const empty = { seed: 1, bpm: 120, durationMs: 2000, events: [] };
+      const { timeline } = pinFrameAt(empty, frames[1], 500);
+
+      const clock = createManualClock(0);
+      const engine = new KineticEngine(clock, 3);
+      engine.loadDecks([{ id: 0, frames }]);
+      engine.loadTimeline(timeline);
+      const shown: string[] = [];
+      for (let i = 0; i < 90; i++) {
+        engine.feedAudio(0.3, 0.3, 0.3);
+        shown.push(engine.update(1 / 60).currentFrame?.pose);
+        clock.advance(1000 / 60);
+      }
+
+      return {
+        key: timeline.events[0].frame,
+        shown: shown.slice(-30),
+        transitions: engine.getTransitionLog().filter((entry: string) => entry.includes('/lean@')).length
+      };
+    }, MODULES);
+
+    console.log(`✓ Pinned ${result.key}: ${result.transitions} transition, then held`);
+    expect(result.key).toBe('lean');
+    expect(result.shown.every(pose => pose === 'lean')).toBe(true);
+    expect(result.transitions).toBe(1);
+  });
+
+  test('Edits snap to beats, stay sorted and survive re-planning when locked', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { moveTimelineEvent, deleteTimelineEvent, pinFrameAt, replaceTimelineFrame, mergeLockedEvents, snapToBeat } = await import(modules.editing);
+
+      const timeline = {
+        seed: 1, bpm: 120, durationMs: 4000,
+        events: [
+          { time: 0, kind: 'transition', node: 'idle', pose: 'base_0', style: 'CUT' },
+          { time: 500, kind: 'camera', impulse: { type: 'bounce', amount: 0.8 } },
+          { time: 1000, kind: 'transition', node: 'groove_left', pose: 'base_1', style: 'CUT' },
+          { time: 2000, kind: 'transition', node: 'groove_right', pose: 'base_2', style: 'CUT' }
+        ]
+      };
+      const analysis = { beats: [0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5] };
+      const closeup = { url: '', pose: 'closeup_0', type: 'closeup', energy: 'low', role: 'closeup' };
+      const feet = { url: '', pose: 'feet_0', type: 'feet', energy: 'mid', role: 'details' };
+
+      const moved = moveTimelineEvent(timeline, 3, snapToBeat(analysis, 260));
+      const pinned = pinFrameAt(timeline, closeup, snapToBeat(analysis, 1480));
+      const replaced = replaceTimelineFrame(timeline, 2, feet);
+      const replanned = {
+        ...timeline,
+        events: [900, 1400, 1600, 2600].map(time => ({ time, kind: 'transition', node: 'idle', pose: `base_${time}`, style: 'CUT' }))
+      };
+
+      return {
+        movedTimes: moved.timeline.events.map((e: any) => e.time),
+        movedEvent: moved.timeline.events[moved.index],
+        afterDelete: deleteTimelineEvent(timeline, 2).events.length,
+        pinnedEvent: pinned.timeline.events[pinned.index],
+        replacedEvent: replaced.timeline.events[replaced.index],
+        merged: mergeLockedEvents(replanned, pinned.timeline, new Set(['closeup_0'])).events.map((e: any) => e.pose),
+        mergedWithoutPose: mergeLockedEvents(replanned, pinned.timeline, new Set()).events.length
+      };
+    }, MODULES);
+
+    console.log(`✓ Re-plan around the pinned close-up: ${result.merged.join(', ')}`);
+    expect(result.movedTimes).toEqual([0, 500, 500, 1000]);
+    expect(result.movedEvent.locked).toBe(true);
+    expect(result.afterDelete).toBe(3);
+    expect(result.pinnedEvent).toMatchObject({ time: 1500, node: 'closeup', pose: 'closeup_0', frame: 'closeup_0', locked: true });
+    expect(result.replacedEvent).toMatchObject({ time: 1000, node: 'feet', pose: 'feet_0', locked: true });
+    expect(result.merged).toEqual(['base_900', 'closeup_0', 'base_2600']);
+    expect(result.mergedWithoutPose).toBe(4);
+  });
+});
@@ -0,0 +1,173 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * ENGINE CLOCK TEST SUITE
+ *
+ * Drives KineticEngine from a manual clock in the browser:
+ * - Beat phase and bar counters follow the song position across seek and pause
+ * - An analysed beat grid takes over from the BPM once loaded
+ * - A paused song (or suspended audio context) holds the counters; without a
+ *   song the metronome counts on
+ * - Tap tempo waits while the track's grid sets the tempo
+ */
+
+const MODULES = {
+  engine: '/tests/fixtures/engine.ts',
+  input: '/services/performanceInput.ts'
+};
+
+test.describe('Engine Clock', () => {
+  test('Beat phase follows the song position', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { KineticEngine, createManualClock } = await import(modules.engine);
+
+      const clock = createManualClock(0);
+      const engine = new KineticEngine(clock);
+      engine.setBPM(120);
+      engine.feedAudio(0.1, 0.1, 0.1);
+
+      const read = () => {
+        const s = engine.update(0.016);
+        return { beatPos: s.beatPos, beat: s.structure.beat, section: s.section };
+      };
+
+      clock.seek(1.25);
+      const seeked = read();
+      clock.advance(500);
+      const advanced = read();
+      clock.seek(0.25);
+      const rewound = read();
+
+      engine.loadTrackAnalysis({
+        duration: 60, bpm: 120, confidence: 1, downbeatOffset: 1.1,
+        beats: [0.1, 0.6, 1.1, 1.6], downbeats: [1.1], onsetEnvelope: [], envelopeRate: 86,
+        sections: [{ kind: 'drop', start: 0, end: 60, energy: 1 }]
+      });
+      clock.seek(2.35);
+      const grid = read();
+      clock.seek(null);
+      const paused = read();
+
+      return { seeked, advanced, rewound, grid, paused };
+    }, MODULES);
+
+    console.log(`✓ Seek: beat ${result.seeked.beat} @ ${result.seeked.beatPos}, rewind: beat ${result.rewound.beat}`);
+    expect(result.seeked.beatPos).toBeCloseTo(0.5);
+    expect(result.seeked.beat).toBe(2);
+    expect(result.advanced.beat).toBe(3);
+    expect(result.rewound.beat).toBe(0);
+    expect(result.grid.beatPos).toBeCloseTo(0.5);
+    expect(result.grid.beat).toBe(2);
+    expect(result.grid.section).toBe('drop');
+    expect(result.paused.section).toBeNull();
+  });
+
+  test('A paused song holds the beat and bar counters', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { KineticEngine, createMediaElementClock, createAudioContextClock } = await import(modules.engine);
+
+      // A loaded song, paused 1.25s in
+      const element = { paused: true, ended: false, currentTime: 1.25, readyState: 4, HAVE_METADATA: 1 };
+      let songSource = true;
+      const media = createMediaElementClock(element as unknown as HTMLMediaElement, () => songSource);
+      const paused = media.position();
+      songSource = false;
+      const otherSource = media.position();
+      songSource = true;
+      element.ended = true;
+      const ended = media.position();
+      element.ended = false;
+
+      // A song started 0.5s into a context that is suspended at 1.75s
+      const context = { state: 'suspended', currentTime: 1.75 };
+      const contextClock = createAudioContextClock(context as unknown as BaseAudioContext, 0.5);
+      const suspended = contextClock.position();
+      context.currentTime = 0.25;
+      const beforeStart = contextClock.position();
+      context.currentTime = 1.75;
+      context.state = 'closed';
+      const closed = contextClock.position();
+      context.state = 'suspended';
+
+      // Three seconds of wall time pass at 120 BPM
+      const run = (position: () => number | null) => {
+        let now = 0;
+        const engine = new KineticEngine({ now: () => now, position });
+        engine.setAutoBPM(false);
+        engine.setBPM(120);
+        engine.feedAudio(0.1, 0.1, 0.1);
+        const start = engine.update(1 / 60).structure.beat;
+        for (let i = 0; i < 180; i++) {
+          now += 1000 / 60;
+          engine.feedAudio(0.1, 0.1, 0.1);
+          engine.update(1 / 60);
+        }
+        const end = engine.getState();
+        return { start, end: end.structure.beat, beatPos: end.beatPos };
+      };
+
+      return {
+        clockPositions: { paused, otherSource, ended, suspended, beforeStart, closed },
+        held: run(media.position),
+        heldContext: run(contextClock.position),
+        live: run(() => null)
+      };
+    }, MODULES);
+
+    console.log(`✓ Paused: beat ${result.held.start} -> ${result.held.end}; no song: beat ${result.live.start} -> ${result.live.end}`);
+    expect(result.clockPositions).toEqual({ paused: 1.25, otherSource: null, ended: null, suspended: 1.25, beforeStart: null, closed: null });
+    expect(result.held.end).toBe(result.held.start);
+    expect(result.held.beatPos).toBeCloseTo(0.5);
+    expect(result.heldContext).toEqual(result.held);
+    expect(result.live.end - result.live.start).toBeGreaterThanOrEqual(5);
+  });
+
+  test('Tap tempo waits while the track grid sets the tempo', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { KineticEngine, createManualClock } = await import(modules.engine);
+      const { createTapTempo } = await import(modules.input);
+
+      const clock = createManualClock(2.35);
+      const engine = new KineticEngine(clock);
+      engine.setAutoBPM(false);
+      engine.loadTrackAnalysis({
+        duration: 60, bpm: 120, confidence: 1, downbeatOffset: 1.1,
+        beats: [0.1, 0.6, 1.1, 1.6], downbeats: [1.1], onsetEnvelope: [], envelopeRate: 86,
+        sections: [{ kind: 'drop', start: 0, end: 60, energy: 1 }]
+      });
+
+      // The preview's tap handler: four taps at 90 BPM, applied unless the grid rules
+      const tapAt90 = () => {
+        const tapper = createTapTempo();
+        let bpm = null;
+        for (let i = 0; i < 4; i++) bpm = tapper.tap(i * (60000 / 90));
+        if (!engine.followsTrackGrid() && bpm !== null) engine.setBPM(Math.round(bpm));
+      };
+
+      engine.feedAudio(0.1, 0.1, 0.1);
+      const onGrid = engine.followsTrackGrid();
+      tapAt90();
+      const gridState = engine.update(1 / 60);
+      const grid = { bpm: engine.getBPM(), beatPos: gridState.beatPos };
+
+      clock.seek(null); // The mic takes over from the song
+      const offGrid = engine.followsTrackGrid();
+      tapAt90();
+
+      return { onGrid, grid, offGrid, tapped: engine.getBPM() };
+    }, MODULES);
+
+    console.log(`✓ On the grid: ${result.grid.bpm} BPM kept; without a song the tap set ${result.tapped} BPM`);
+    expect(result.onGrid).toBe(true);
+    expect(result.grid.bpm).toBe(120);
+    expect(result.grid.beatPos).toBeCloseTo(0.5);
+    expect(result.offGrid).toBe(false);
+    expect(result.tapped).toBe(90);
+  });
+});
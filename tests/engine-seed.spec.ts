@@ -0,0 +1,96 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * ENGINE SEED TEST SUITE
+ *
+ * Replays one synthetic audio feature stream through KineticEngine in the browser:
+ * - Same rig + same stream + same seed = identical transition log
+ * - A different seed picks different frames
+ * - Auto stutter rolls once per hit, so the frame rate doesn't change how
+ *   often it fires
+ */
+
+const MODULES = {
+  engine: '/tests/fixtures/engine.ts'
+};
+
+test.describe('Engine Seed', () => {
+  test('Same seed reproduces the same performance', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { KineticEngine, createManualClock, testRig } = await import(modules.engine);
+
+      const frames = testRig();
+
+      const perform = (seed: number) => {
+        const clock = createManualClock(0);
+        const engine = new KineticEngine(clock, seed);
+        engine.loadFramePool(frames);
+        engine.setAutoBPM(false);
+        engine.setBPM(120);
+        for (let i = 0; i < 600; i++) {
+          const bass = i % 30 < 3 ? 0.9 : 0.2;
+          const mid = 0.4 + 0.3 * Math.sin(i / 20);
+          const high = 0.3 + 0.5 * ((i % 97) / 97);
+          engine.feedAudio(bass, mid, high);
+          engine.update(1 / 60);
+          clock.advance(1000 / 60);
+        }
+        return engine.getTransitionLog();
+      };
+
+      const first = perform(42);
+      return { first, replay: perform(42), other: perform(7) };
+    }, MODULES);
+
+    console.log(`✓ ${result.first.length} transitions, first: ${result.first.slice(0, 3).join(', ')}`);
+    expect(result.first.length).toBeGreaterThan(10);
+    expect(result.replay).toEqual(result.first);
+    expect(result.other).not.toEqual(result.first);
+  });
+
+  test('Auto stutter rolls once per hit at any frame rate', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { KineticEngine, createManualClock, testRig } = await import(modules.engine);
+
+      const frames = testRig({ bodyOnly: true });
+
+      // The same 10 s of audio, as a function of time, sampled at `fps`
+      const perform = (fps: number) => {
+        const clock = createManualClock(0);
+        const engine = new KineticEngine(clock, 42);
+        engine.loadFramePool(frames);
+        engine.setAutoBPM(false);
+        engine.setBPM(120);
+        engine.configure({ stutter: 50, chaos: 50 });
+        let stutters = 0;
+        let lastStutter = -Infinity;
+        for (let i = 0; i < 10 * fps; i++) {
+          const t = i / fps;
+          const bass = t % 0.5 < 0.05 ? 0.9 : 0.2;
+          const mid = t % 0.25 < 0.1 ? 0.8 : 0.3;
+          engine.feedAudio(bass, mid, 0.4);
+          const state = engine.update(1 / fps);
+          if (state.lastStutterTime !== lastStutter) {
+            lastStutter = state.lastStutterTime;
+            stutters++;
+          }
+          clock.advance(1000 / fps);
+        }
+        return { transitions: engine.getTransitionLog().length, stutters };
+      };
+
+      return { slow: perform(30), fast: perform(60) };
+    }, MODULES);
+
+    console.log(`✓ ${result.fast.stutters} stutters at 60 fps, ${result.slow.stutters} at 30 fps`);
+    // 40 mid hits at half odds; rolling every frame above the threshold fired more at 60 fps
+    expect(result.fast.stutters).toBeGreaterThan(0);
+    expect(result.fast.stutters).toBeLessThan(40);
+    expect(result.slow.stutters).toBe(result.fast.stutters);
+    expect(result.slow.transitions).toBe(result.fast.transitions);
+  });
+});
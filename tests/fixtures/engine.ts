@@ -0,0 +1,38 @@
+import { EnergyLevel, FrameType, GeneratedFrame, MoveDirection } from '../../types';
+
+/**
+ * ENGINE FIXTURE
+ *
+ * What the engine specs import in the browser (`await import('/tests/fixtures/engine.ts')`):
+ * KineticEngine and the clocks, plus a synthetic rig to pool.
+ */
+
+export * from '../../services/KineticEngine';
+export * from '../../services/engineClock';
+
+export interface TestRigOptions {
+  pose?: string; // Poses are `${pose}_${i}`
+  count?: number;
+  image?: string; // Urls are `${image}_${i}`; empty urls without it
+  bodyOnly?: boolean; // Else every 4th frame is a close-up and every 5th hands
+}
+
+const ENERGIES: EnergyLevel[] = ['low', 'mid', 'high'];
+const DIRECTIONS: MoveDirection[] = ['left', 'right', 'center'];
+
+/**
+ * A base sheet's worth of frames cycling through the energies and directions,
+ * so every node of the built-in graphs finds something to show.
+ */
+export const testRig = ({ pose = 'base', count = 12, image, bodyOnly = false }: TestRigOptions = {}): GeneratedFrame[] =>
+  Array.from({ length: count }, (_, i) => {
+    const type: FrameType = bodyOnly ? 'body' : i % 4 === 3 ? 'closeup' : i % 5 === 4 ? 'hands' : 'body';
+    return {
+      url: image ? `${image}_${i}` : '',
+      pose: `${pose}_${i}`,
+      role: 'base',
+      energy: ENERGIES[i % 3],
+      direction: DIRECTIONS[i % 3],
+      type
+    };
+  });
@@ -0,0 +1,81 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * FRAME MATTING TEST SUITE
+ *
+ * Runs services/frameMatting.ts in the browser against a synthetic cell:
+ * a dark subject on white with a white "eye" inside it.
+ * - Flood fill removes only border-connected background
+ * - Chroma removes every background-coloured pixel
+ * - matteFrame returns an image with a real alpha channel
+ */
+
+const MATTING_MODULE = '/services/frameMatting.ts';
+
+test.describe('Frame Matting', () => {
+  test('Flood fill keeps interior highlights, chroma keys them out', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modulePath) => {
+      const { computeMatte } = await import(modulePath);
+      const size = 40;
+      const data = new Uint8ClampedArray(size * size * 4).fill(255);
+      for (let y = 10; y < 30; y++) {
+        for (let x = 10; x < 30; x++) {
+          const eye = x > 15 && x < 25 && y > 15 && y < 25;
+          const i = (y * size + x) * 4;
+          data[i] = data[i + 1] = data[i + 2] = eye ? 255 : 20;
+        }
+      }
+      const pixels = { data, width: size, height: size };
+      const at = (a: Uint8ClampedArray, x: number, y: number) => a[y * size + x];
+      const flood = computeMatte(pixels, { mode: 'floodfill' });
+      const chroma = computeMatte(pixels, { mode: 'chroma' });
+      return {
+        flood: { corner: at(flood, 0, 0), body: at(flood, 12, 12), eye: at(flood, 20, 20) },
+        chroma: { corner: at(chroma, 0, 0), body: at(chroma, 12, 12), eye: at(chroma, 20, 20) }
+      };
+    }, MATTING_MODULE);
+
+    console.log(`✓ Flood fill alpha: corner ${result.flood.corner}, body ${result.flood.body}, eye ${result.flood.eye}`);
+    console.log(`✓ Chroma alpha: corner ${result.chroma.corner}, body ${result.chroma.body}, eye ${result.chroma.eye}`);
+    expect(result.flood.corner).toBe(0);
+    expect(result.flood.body).toBe(255);
+    expect(result.flood.eye).toBe(255);
+    expect(result.chroma.corner).toBe(0);
+    expect(result.chroma.eye).toBe(0);
+  });
+
+  test('matteFrame produces a transparent PNG cutout', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modulePath) => {
+      const { matteFrame } = await import(modulePath);
+      const canvas = document.createElement('canvas');
+      canvas.width = canvas.height = 64;
+      const ctx = canvas.getContext('2d')!;
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, 64, 64);
+      ctx.fillStyle = '#202020';
+      ctx.fillRect(20, 8, 24, 48);
+
+      const url = await matteFrame(canvas.toDataURL('image/jpeg', 0.9), { mode: 'floodfill', format: 'image/png' });
+      const img = new Image();
+      await new Promise(r => { img.onload = r; img.src = url; });
+      const check = document.createElement('canvas');
+      check.width = check.height = 64;
+      const cctx = check.getContext('2d')!;
+      cctx.drawImage(img, 0, 0);
+      return {
+        isPng: url.startsWith('data:image/png'),
+        cornerAlpha: cctx.getImageData(2, 2, 1, 1).data[3],
+        centreAlpha: cctx.getImageData(32, 32, 1, 1).data[3]
+      };
+    }, MATTING_MODULE);
+
+    console.log(`✓ Cutout alpha: corner ${result.cornerAlpha}, centre ${result.centreAlpha}`);
+    expect(result.isPng).toBe(true);
+    expect(result.cornerAlpha).toBe(0);
+    expect(result.centreAlpha).toBe(255);
+  });
+});
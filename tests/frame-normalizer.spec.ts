@@ -0,0 +1,106 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * FRAME NORMALIZER TEST SUITE
+ *
+ * Runs services/frameNormalizer.ts in the browser against synthetic cells
+ * (a dark block on white, drawn at different places and heights):
+ * - Body sheets of one rig share the base sheet's scale and feet line
+ * - Centroid frames don't feed the rig reference
+ */
+
+const MODULES = {
+  normalizer: '/services/frameNormalizer.ts',
+  analysis: '/services/frameAnalysis.ts'
+};
+
+test.describe('Frame Normalizer', () => {
+  test('Body sheets share one scale and one feet line', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { normalizeSheetFrames, rigReferenceFromFrames } = await import(modules.normalizer);
+      const { analyzeSubject, loadPixels } = await import(modules.analysis);
+      const size = 128;
+
+      // Standing poses are 72px tall, crouches 54px: the same figure at two heights
+      const cell = (x: number, bottom: number, height: number) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = canvas.height = size;
+        const ctx = canvas.getContext('2d')!;
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(0, 0, size, size);
+        ctx.fillStyle = '#222';
+        ctx.fillRect(x, bottom - height, 24, height);
+        return canvas.toDataURL('image/png');
+      };
+      const bounds = async (url: string) => {
+        const { bbox } = analyzeSubject((await loadPixels(url)).pixels);
+        return { height: bbox.bottom - bbox.top, bottom: bbox.bottom, centre: (bbox.left + bbox.right) / 2 };
+      };
+
+      const base = await normalizeSheetFrames(
+        [cell(10, 90, 72), cell(80, 120, 72), cell(50, 100, 54)],
+        'feet',
+        'image/png'
+      );
+      const reference = rigReferenceFromFrames(base.map((f: any) => f.normalization));
+
+      // Mostly crouches, so its own median would scale it differently from the base
+      const alt = await normalizeSheetFrames(
+        [cell(20, 100, 54), cell(70, 124, 54), cell(30, 80, 72)],
+        'feet',
+        'image/png',
+        reference
+      );
+
+      return {
+        reference,
+        base: await Promise.all(base.map((f: any) => bounds(f.url))),
+        alt: await Promise.all(alt.map((f: any) => bounds(f.url))),
+        scales: [...base, ...alt].map((f: any) => f.normalization.scale)
+      };
+    }, MODULES);
+
+    console.log(`✓ Rig reference: scale ${result.reference.scale.toFixed(3)}, feet at ${result.reference.baseline}`);
+    expect(result.reference.scale).toBeCloseTo(96 / 72, 1);
+    expect(result.reference.baseline).toBe(0.875);
+    expect(new Set(result.scales).size).toBe(1);
+
+    const [standing, , crouch] = result.base;
+    for (const frame of [...result.base, ...result.alt]) {
+      expect(Math.abs(frame.bottom - standing.bottom)).toBeLessThanOrEqual(1);
+      expect(Math.abs(frame.centre - 64)).toBeLessThanOrEqual(1);
+    }
+    // Both sheets draw the same two poses at the same size
+    for (const frame of [result.base[1], result.alt[2]]) {
+      expect(Math.abs(frame.height - standing.height)).toBeLessThanOrEqual(1);
+    }
+    for (const frame of [result.alt[0], result.alt[1]]) {
+      expect(Math.abs(frame.height - crouch.height)).toBeLessThanOrEqual(1);
+    }
+    expect(Math.abs(standing.bottom - 0.875 * 128)).toBeLessThanOrEqual(2);
+  });
+
+  test('Only feet-anchored frames set the rig reference', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { rigReferenceFromFrames } = await import(modules.normalizer);
+      return {
+        mixed: rigReferenceFromFrames([
+          { offsetX: 0, offsetY: 0, scale: 1.2, anchor: 'feet' },
+          { offsetX: 0, offsetY: 0, scale: 0.7, anchor: 'centroid' },
+          undefined,
+          { offsetX: 0, offsetY: 0, scale: 1.1, anchor: 'feet' },
+          { offsetX: 0, offsetY: 0, scale: 1.3, anchor: 'feet' }
+        ]),
+        closeups: rigReferenceFromFrames([{ offsetX: 0, offsetY: 0, scale: 0.7, anchor: 'centroid' }])
+      };
+    }, MODULES);
+
+    console.log(`✓ Mixed sheet reference scale ${result.mixed?.scale}`);
+    expect(result.mixed).toEqual({ scale: 1.2, baseline: 0.875 });
+    expect(result.closeups).toBeNull();
+  });
+});
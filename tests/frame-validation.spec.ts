@@ -0,0 +1,82 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * FRAME VALIDATION TEST SUITE
+ *
+ * Runs services/frameValidator.ts in the browser against synthetic cells:
+ * - Distinct poses pass
+ * - Empty cells are flagged blank
+ * - Repeated cells are flagged duplicate (pHash)
+ * - Subjects cut by the cell edge are flagged cropped
+ */
+
+const VALIDATOR_MODULE = '/services/frameValidator.ts';
+
+test.describe('Frame Quality Validation', () => {
+  test('Flags blank, duplicate and cropped cells', async ({ page }) => {
+    await page.goto('/');
+
+    const issues = await page.evaluate(async (modulePath) => {
+      const { validateSheetPixels } = await import(modulePath);
+      const size = 64;
+      const cell = (draw: (x: number, y: number) => boolean) => {
+        const data = new Uint8ClampedArray(size * size * 4).fill(255);
+        for (let y = 0; y < size; y++) {
+          for (let x = 0; x < size; x++) {
+            if (!draw(x, y)) continue;
+            const i = (y * size + x) * 4;
+            data[i] = data[i + 1] = data[i + 2] = 30;
+          }
+        }
+        return { data, width: size, height: size };
+      };
+
+      const standing = cell((x, y) => x > 24 && x < 40 && y > 8 && y < 56);
+      const star = cell((x, y) => (x > 10 && x < 54 && y > 28 && y < 36) || (x > 28 && x < 36 && y > 10 && y < 54));
+      const empty = cell(() => false);
+      const repeat = cell((x, y) => x > 24 && x < 40 && y > 8 && y < 56);
+      const clipped = cell((x, y) => x > 40 && y > 20 && y < 44);
+
+      return validateSheetPixels([standing, star, empty, repeat, clipped]).map((q: any) => q.issues);
+    }, VALIDATOR_MODULE);
+
+    console.log(`✓ Cell issues: ${JSON.stringify(issues)}`);
+    expect(issues[0]).toEqual([]);
+    expect(issues[1]).toEqual([]);
+    expect(issues[2]).toEqual(['blank']);
+    expect(issues[3]).toEqual(['duplicate']);
+    expect(issues[4]).toEqual(['cropped']);
+  });
+
+  test('Perceptual hash tolerates small changes', async ({ page }) => {
+    await page.goto('/');
+
+    const distances = await page.evaluate(async (modulePath) => {
+      const { perceptualHash, hammingDistance } = await import(modulePath);
+      const size = 64;
+      const cell = (shift: number, tall: boolean) => {
+        const data = new Uint8ClampedArray(size * size * 4).fill(255);
+        for (let y = 0; y < size; y++) {
+          for (let x = 0; x < size; x++) {
+            const inside = tall
+              ? x > 24 + shift && x < 40 + shift && y > 8 && y < 56
+              : x > 8 && x < 56 && y > 24 && y < 40;
+            if (!inside) continue;
+            const i = (y * size + x) * 4;
+            data[i] = data[i + 1] = data[i + 2] = 30;
+          }
+        }
+        return { data, width: size, height: size };
+      };
+      const base = perceptualHash(cell(0, true));
+      return {
+        nudged: hammingDistance(base, perceptualHash(cell(1, true))),
+        different: hammingDistance(base, perceptualHash(cell(0, false)))
+      };
+    }, VALIDATOR_MODULE);
+
+    console.log(`✓ Hash distance: nudged ${distances.nudged}, different ${distances.different}`);
+    expect(distances.nudged).toBeLessThanOrEqual(5);
+    expect(distances.different).toBeGreaterThan(5);
+  });
+});
@@ -0,0 +1,120 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * GENERATION JOB TEST SUITE
+ *
+ * Runs the job model and the generation pipeline in the browser with the
+ * procedural sheet provider (no API key needed):
+ * - Roles per quality mode, resume preparation
+ * - AbortSignal cancel after the base sheet keeps the finished frames
+ * - A failed secondary sheet keeps the provider's error for the resume UI
+ */
+
+const MODULES = {
+  jobs: '/services/generationJob.ts',
+  gemini: '/services/gemini.ts',
+  providers: '/services/sheetProvider.ts'
+};
+
+test.describe('Generation Job Queue', () => {
+  test('Builds role list and prepares interrupted jobs for resume', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const jobs = await import(modules.jobs);
+      const request = {
+        imageBase64: '', stylePrompt: 'test', motionPrompt: 'dance', useTurbo: false, superMode: true,
+        sheetProvider: 'procedural', matting: 'off', styleId: 'natural'
+      };
+      let job = jobs.createGenerationJob(request);
+      const roles = job.sheets.map((s: any) => s.role);
+
+      job = jobs.updateSheetJob(job, 'base', { status: 'done', frames: [{ url: 'x', pose: 'base_0', energy: 'low' }] });
+      job = jobs.updateSheetJob(job, 'alt', { status: 'running' });
+      const resumable = jobs.isJobResumable(job);
+      const resumed = jobs.prepareJobForResume(job);
+
+      return {
+        roles,
+        resumable,
+        statuses: resumed.sheets.map((s: any) => s.status),
+        frames: jobs.collectJobFrames(resumed).length
+      };
+    }, MODULES);
+
+    console.log(`✓ Roles: ${result.roles.join(', ')}`);
+    expect(result.roles).toEqual(['base', 'alt', 'flourish', 'details']);
+    expect(result.resumable).toBe(true);
+    expect(result.statuses).toEqual(['done', 'queued', 'queued', 'queued']);
+    expect(result.frames).toBe(1);
+  });
+
+  test('Cancelling after the base sheet keeps base frames', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { generateDanceFrames } = await import(modules.gemini);
+      const { createGenerationJob } = await import(modules.jobs);
+      const { createSheetProvider } = await import(modules.providers);
+
+      const job = createGenerationJob({
+        imageBase64: '', stylePrompt: 'test', motionPrompt: 'dance', useTurbo: true, superMode: false,
+        sheetProvider: 'procedural', matting: 'off', styleId: 'natural'
+      });
+      const controller = new AbortController();
+
+      const run = await generateDanceFrames(job, () => {}, createSheetProvider('procedural'), {
+        signal: controller.signal,
+        onJobUpdate: (updated: any) => {
+          if (updated.sheets.find((s: any) => s.role === 'base').status === 'done') controller.abort();
+        }
+      });
+
+      return {
+        frames: run.frames.length,
+        roles: run.frames.map((f: any) => f.role),
+        statuses: run.job.sheets.map((s: any) => `${s.role}:${s.status}`)
+      };
+    }, MODULES);
+
+    console.log(`✓ After cancel: ${result.frames} frames, ${result.statuses.join(' ')}`);
+    expect(result.frames).toBeGreaterThan(0);
+    expect(new Set(result.roles)).toEqual(new Set(['base']));
+    expect(result.statuses).toEqual(['base:done', 'alt:cancelled']);
+  });
+
+  test('A failed secondary sheet records why it failed', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { generateDanceFrames } = await import(modules.gemini);
+      const { createGenerationJob } = await import(modules.jobs);
+      const { createSheetProvider } = await import(modules.providers);
+
+      const job = createGenerationJob({
+        imageBase64: '', stylePrompt: 'test', motionPrompt: 'dance', useTurbo: true, superMode: false,
+        sheetProvider: 'procedural', matting: 'off', styleId: 'natural'
+      });
+      const procedural = createSheetProvider('procedural');
+      const provider = {
+        id: procedural.id,
+        label: procedural.label,
+        prepare: () => procedural.prepare(),
+        generateSheet: (request: any) => request.role === 'alt'
+          ? Promise.reject(new Error('Quota exceeded'))
+          : procedural.generateSheet(request)
+      };
+
+      const run = await generateDanceFrames(job, () => {}, provider);
+      const alt = run.job.sheets.find((s: any) => s.role === 'alt');
+      return {
+        roles: [...new Set(run.frames.map((f: any) => f.role))],
+        alt: { status: alt.status, error: alt.error }
+      };
+    }, MODULES);
+
+    console.log(`✓ alt sheet ${result.alt.status}: ${result.alt.error}`);
+    expect(result.roles).toEqual(['base']);
+    expect(result.alt).toEqual({ status: 'failed', error: 'Quota exceeded' });
+  });
+});
@@ -0,0 +1,121 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * GRID DETECTION TEST SUITE
+ *
+ * Runs services/gridDetection.ts in the browser (served by Vite) against
+ * synthetic sprite sheets:
+ * - Standard 4x4 sheets with empty gutters
+ * - Sheets with drawn grid lines
+ * - Non-4x4 grids (model drift)
+ * - Noise (must report low confidence so the pipeline falls back)
+ */
+
+const GRID_MODULE = '/services/gridDetection.ts';
+
+test.describe('Sprite Sheet Grid Detection', () => {
+  test('Detects 4x4 grid with gutters', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modulePath) => {
+      const { detectGrid } = await import(modulePath);
+      const size = 256;
+      const data = new Uint8ClampedArray(size * size * 4).fill(255);
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          const lx = (x % 64) / 64;
+          const ly = (y % 64) / 64;
+          if (lx > 0.3 && lx < 0.7 && ly > 0.125 && ly < 0.875 && (x + y) % 3 !== 0) {
+            const i = (y * size + x) * 4;
+            data[i] = data[i + 1] = data[i + 2] = 30;
+          }
+        }
+      }
+      return detectGrid({ data, width: size, height: size });
+    }, GRID_MODULE);
+
+    console.log(`✓ 4x4 Detection: ${result.rows}x${result.cols}, confidence ${(result.confidence * 100).toFixed(0)}%`);
+    expect(result.rows).toBe(4);
+    expect(result.cols).toBe(4);
+    expect(result.confidence).toBeGreaterThan(0.8);
+  });
+
+  test('Detects non-4x4 grid (3 rows x 4 cols)', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modulePath) => {
+      const { detectGrid } = await import(modulePath);
+      const size = 240;
+      const cellW = size / 4;
+      const cellH = size / 3;
+      const data = new Uint8ClampedArray(size * size * 4).fill(255);
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          const lx = (x % cellW) / cellW;
+          const ly = (y % cellH) / cellH;
+          if (lx > 0.25 && lx < 0.75 && ly > 0.15 && ly < 0.85 && (x * 3 + y) % 4 !== 0) {
+            const i = (y * size + x) * 4;
+            data[i] = data[i + 1] = data[i + 2] = 50;
+          }
+        }
+      }
+      return detectGrid({ data, width: size, height: size });
+    }, GRID_MODULE);
+
+    console.log(`✓ 3x4 Detection: ${result.rows}x${result.cols}, confidence ${(result.confidence * 100).toFixed(0)}%`);
+    expect(result.rows).toBe(3);
+    expect(result.cols).toBe(4);
+    expect(result.confidence).toBeGreaterThan(0.6);
+  });
+
+  test('Detects drawn grid lines the poses run through', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modulePath) => {
+      const { detectGrid, computeProfiles, findGutterCentres, findLineCentres } = await import(modulePath);
+      const size = 256;
+      const data = new Uint8ClampedArray(size * size * 4).fill(255);
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+          // Faint 2px lines every 64px; figures span the full cell height, crossing the horizontal lines
+          const onLine = ((y % 64) < 2 && y > 1) || ((x % 64) < 2 && x > 1);
+          const lx = (x % 64) / 64;
+          const figure = lx > 0.3 && lx < 0.7 && (x + y) % 3 !== 0;
+          const i = (y * size + x) * 4;
+          data[i] = data[i + 1] = data[i + 2] = figure ? 30 : onLine ? 200 : 255;
+        }
+      }
+      const pixels = { data, width: size, height: size };
+      const rows = computeProfiles(pixels, 'y');
+      return {
+        grid: detectGrid(pixels),
+        rowGutters: findGutterCentres(rows.variance),
+        rowLines: findLineCentres(rows.mean)
+      };
+    }, GRID_MODULE);
+
+    console.log(`✓ Drawn lines: ${result.grid.rows}x${result.grid.cols}, rows from the mean profile at ${result.rowLines.join(', ')}`);
+    // No uniform rows to find: only the mean profile sees the horizontal lines
+    expect(result.rowGutters).toEqual([]);
+    expect(result.rowLines).toEqual([64.5, 128.5, 192.5]);
+    expect(result.grid.rows).toBe(4);
+    expect(result.grid.cols).toBe(4);
+    expect(result.grid.confidence).toBeGreaterThan(0.8);
+  });
+
+  test('Noise reports low confidence for fixed-grid fallback', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modulePath) => {
+      const { detectGrid, GRID_CONFIDENCE_THRESHOLD } = await import(modulePath);
+      const size = 128;
+      const data = new Uint8ClampedArray(size * size * 4);
+      for (let i = 0; i < data.length; i++) data[i] = Math.floor(Math.random() * 256);
+      const grid = detectGrid({ data, width: size, height: size });
+      return { confidence: grid.confidence, threshold: GRID_CONFIDENCE_THRESHOLD };
+    }, GRID_MODULE);
+
+    console.log(`✓ Noise confidence: ${(result.confidence * 100).toFixed(0)}%`);
+    expect(result.confidence).toBeLessThan(result.threshold);
+  });
+});
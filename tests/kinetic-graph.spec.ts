@@ -0,0 +1,104 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * KINETIC GRAPH TEST SUITE
+ *
+ * Loads declarative graphs into KineticEngine in the browser:
+ * - The built-in graphs validate and survive a JSON round trip
+ * - Validation catches unknown targets, dead ends, bad queries and empty pools
+ * - Inherited object keys are not nodes, and a graph needs a name
+ * - A custom graph swapped into a live engine drives the performance
+ */
+
+const MODULES = {
+  engine: '/tests/fixtures/engine.ts',
+  graph: '/services/kineticGraph.ts'
+};
+
+test.describe('Kinetic Graph', () => {
+  test('Validates graphs and swaps them on a live engine', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { KineticEngine, KINETIC_GRAPH_SPECS, createManualClock, testRig } = await import(modules.engine);
+      const { validateGraph, parseGraphSpec, serializeGraphSpec } = await import(modules.graph);
+
+      const frames = testRig();
+
+      const pendulum = {
+        name: 'Pendulum',
+        start: 'rest',
+        nodes: {
+          rest: { transitions: { swing_left: 1, swing_right: 2 }, frames: [{ energy: 'low' }] },
+          swing_left: { transitions: { swing_right: 1, rest: 1 }, energyRequirement: 0.2, minDuration: 100, frames: [{ direction: 'left' }] },
+          swing_right: { transitions: { swing_left: 1 }, energyRequirement: 0.2, minDuration: 100, mechanicalFx: 'mirror', frames: [{ direction: 'right' }] },
+          stomp: { transitions: { rest: 1 }, frames: [{ type: 'feet' }] }
+        }
+      };
+      const broken = {
+        name: 'Broken',
+        nodes: {
+          idle: { transitions: { nowhere: 1, stuck: 0 }, frames: [{ pose: '(' }] },
+          stuck: { transitions: {}, frames: [{ energy: 'extreme' }] }
+        }
+      };
+
+      const clock = createManualClock(0);
+      const engine = new KineticEngine(clock, 3);
+      engine.loadFramePool(frames);
+      engine.setAutoBPM(false);
+      engine.setBPM(120);
+      const loaded = engine.loadGraph(parseGraphSpec(serializeGraphSpec(pendulum)));
+      const rejected = engine.loadGraph(broken);
+
+      for (let i = 0; i < 600; i++) {
+        engine.feedAudio(i % 30 < 3 ? 0.9 : 0.2, 0.5, 0.4);
+        engine.update(1 / 60);
+        clock.advance(1000 / 60);
+      }
+
+      let parseError = '';
+      try { parseGraphSpec(JSON.stringify(broken)); } catch (err) { parseError = (err as Error).message; }
+
+      // Names found on Object.prototype, and no name at all
+      const inherited = validateGraph(JSON.parse('{"name":"Proto","start":"constructor","nodes":{"idle":{"transitions":{"toString":1},"frames":[{}]}}}'));
+      const nameless = validateGraph({ start: 'rest', nodes: pendulum.nodes });
+
+      return {
+        builtIn: Object.values(KINETIC_GRAPH_SPECS).map((spec: any) => validateGraph(spec, frames).errors.length),
+        roundTrip: JSON.stringify(parseGraphSpec(serializeGraphSpec(KINETIC_GRAPH_SPECS.CHARACTER))) === JSON.stringify(KINETIC_GRAPH_SPECS.CHARACTER),
+        loaded,
+        rejected: rejected.errors,
+        graphName: engine.getGraphSpec().name,
+        nodes: [...new Set(engine.getTransitionLog().map((entry: string) => entry.split('/')[0]))].sort(),
+        parseError,
+        inherited: inherited.errors,
+        nameless: nameless.errors
+      };
+    }, MODULES);
+
+    console.log(`✓ Pendulum graph played: ${result.nodes.join(', ')}`);
+    expect(result.builtIn).toEqual([0, 0, 0]);
+    expect(result.roundTrip).toBe(true);
+    expect(result.loaded.errors).toEqual([]);
+    expect(result.loaded.warnings).toEqual([
+      'Node "stomp" is unreachable from "rest"',
+      'Node "stomp" has no matching frames in this rig'
+    ]);
+    expect(result.rejected).toEqual(expect.arrayContaining([
+      'Node "idle": transition to unknown node "nowhere"',
+      'Node "idle": weight for "stuck" must be a positive number',
+      'Node "idle" frame query 0: pose must be a valid regular expression',
+      'Node "stuck" is a dead end (no transitions)',
+      'Node "stuck" frame query 0: unknown energy "extreme"'
+    ]));
+    expect(result.graphName).toBe('Pendulum');
+    expect(result.nodes).toEqual(['swing_left', 'swing_right']);
+    expect(result.parseError).toMatch(/^Invalid kinetic graph: /);
+    expect(result.inherited).toEqual([
+      'Start node "constructor" is not in the graph',
+      'Node "idle": transition to unknown node "toString"'
+    ]);
+    expect(result.nameless).toEqual(['name must be a string']);
+  });
+});
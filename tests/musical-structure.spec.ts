@@ -0,0 +1,111 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * MUSICAL STRUCTURE TEST SUITE
+ *
+ * Counts bars and phrases from the beat grid in the browser:
+ * - Positions and cues for 4/4 with 8-bar phrases and for other meters
+ * - Graph `cue` nodes fire on phrase downbeats, `when` nodes only in the last bar
+ */
+
+const MODULES = {
+  engine: '/tests/fixtures/engine.ts',
+  structure: '/services/musicalStructure.ts'
+};
+
+test.describe('Musical Structure', () => {
+  test('Positions and cues follow the meter', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { musicalPosition, structureCues, matchesStructure } = await import(modules.structure);
+      const fourFour = { beatsPerBar: 4, phraseBars: 8 };
+      const waltz = { beatsPerBar: 3, phraseBars: 16 };
+
+      return {
+        lastBeat: musicalPosition(31, fourFour),
+        pickup: musicalPosition(-1, fourFour),
+        phraseStart: structureCues(musicalPosition(32, fourFour), fourFour),
+        lastBar: structureCues(musicalPosition(28, fourFour), fourFour),
+        offBeat: structureCues(musicalPosition(29, fourFour), fourFour),
+        waltz: musicalPosition(50, waltz),
+        fillBar: matchesStructure(musicalPosition(28, fourFour), { bars: [-1] }, fourFour),
+        every32: [0, 31, 32].map(bar => matchesStructure(musicalPosition(bar * 4, fourFour), { everyBars: 32, beats: [0] }, fourFour))
+      };
+    }, MODULES);
+
+    console.log(`✓ Beat 31 in 4/4: bar ${result.lastBeat.barInPhrase + 1}, beat ${result.lastBeat.beatInBar + 1}`);
+    expect(result.lastBeat).toMatchObject({ beatInBar: 3, bar: 7, barInPhrase: 7, phrase: 0 });
+    expect(result.pickup).toMatchObject({ beatInBar: 3, bar: -1, barInPhrase: 7, phrase: -1 });
+    expect(result.phraseStart).toEqual(['beat', 'bar', 'phrase']);
+    expect(result.lastBar).toEqual(['beat', 'bar', 'lastBar']);
+    expect(result.offBeat).toEqual(['beat']);
+    expect(result.waltz).toMatchObject({ beatInBar: 2, bar: 16, barInPhrase: 0, phrase: 1 });
+    expect(result.fillBar).toBe(true);
+    expect(result.every32).toEqual([true, false, true]);
+  });
+
+  test('Graph conditions reference the phrase structure', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { KineticEngine, createManualClock } = await import(modules.engine);
+
+      const frames = [
+        { url: '', pose: 'low_0', energy: 'low', role: 'base' },
+        { url: '', pose: 'mid_0', energy: 'mid', role: 'base' },
+        { url: '', pose: 'high_0', energy: 'high', role: 'base' },
+        { url: '', pose: 'closeup_0', energy: 'mid', type: 'closeup', role: 'closeup' }
+      ];
+      const phrases = {
+        name: 'Phrases',
+        nodes: {
+          idle: { transitions: { groove: 1 }, frames: [{ energy: 'low' }] },
+          groove: { transitions: { idle: 1, fill: 2 }, energyRequirement: 0.1, minDuration: 100, frames: [{ energy: 'mid' }] },
+          fill: { transitions: { groove: 1 }, energyRequirement: 0.1, when: { bars: [-1] }, frames: [{ energy: 'high' }] },
+          signature: { transitions: { groove: 1 }, cue: { bars: [0], beats: [0] }, frames: [{ type: 'closeup' }] }
+        }
+      };
+
+      const perform = (phraseBars: number) => {
+        const clock = createManualClock(0);
+        const engine = new KineticEngine(clock, 1);
+        engine.loadFramePool(frames);
+        engine.setAutoBPM(false);
+        engine.setBPM(120);
+        engine.setMeter({ phraseBars });
+        const validation = engine.loadGraph(phrases);
+
+        const entries: { node: string; bar: number; beat: number }[] = [];
+        let phraseCues = 0;
+        for (let i = 0; i < 2400; i++) { // 40s = 80 beats = 20 bars
+          engine.feedAudio(i % 30 < 3 ? 0.9 : 0.3, 0.4, 0.3);
+          const state = engine.update(1 / 60);
+          if (state.structureCues.includes('phrase')) phraseCues++;
+          if (state.transitionProgress === 0) {
+            entries.push({ node: state.currentNode, bar: state.structure.barInPhrase, beat: state.structure.beatInBar });
+          }
+          clock.advance(1000 / 60);
+        }
+        return {
+          errors: validation.errors,
+          phraseCues,
+          signatures: entries.filter(e => e.node === 'signature'),
+          fills: entries.filter(e => e.node === 'fill')
+        };
+      };
+
+      return { eight: perform(8), sixteen: perform(16) };
+    }, MODULES);
+
+    console.log(`✓ 8-bar phrases: ${result.eight.signatures.length} signature moves, ${result.eight.fills.length} fill cuts`);
+    expect(result.eight.errors).toEqual([]);
+    expect(result.eight.phraseCues).toBe(3);
+    expect(result.eight.signatures).toHaveLength(3);
+    expect(result.eight.signatures.every((e: any) => e.bar === 0 && e.beat === 0)).toBe(true);
+    expect(result.eight.fills.length).toBeGreaterThan(0);
+    expect(result.eight.fills.every((e: any) => e.bar === 7)).toBe(true);
+    expect(result.sixteen.signatures).toHaveLength(2);
+    expect(result.sixteen.fills.every((e: any) => e.bar === 15)).toBe(true);
+  });
+});
@@ -0,0 +1,188 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * ONSET CLASSIFIER TEST SUITE
+ *
+ * Typed onsets from synthetic analyser spectra, in the browser:
+ * - Kicks, snares, hats and vocals are told apart by band flux and flatness
+ * - Steady sound and silence fire nothing; one hit is one event
+ * - Graph nodes leave on their trigger onsets, and fall back to the beat without a spectrum
+ * - Bound onsets fire the auto stutter and camera bounces
+ */
+
+const MODULES = {
+  onsets: '/services/onsetClassifier.ts',
+  engine: '/tests/fixtures/engine.ts'
+};
+
+test.describe('Onset Classifier', () => {
+  test('Classifies kick, snare, hat and vocal hits', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { createOnsetClassifier, validateOnsetTypes } = await import(modules.onsets);
+
+      // fftSize 256 at 44.1kHz: 128 bins of ~172 Hz
+      const BIN_HZ = 44100 / 256;
+      const since = (f: number, period: number, offset: number) => (((f - offset) % period) + period) % period;
+
+      // A bar of 120 BPM at 60fps: kicks on 1 and 3, snares on 2 and 4, sixteenth hats, a sung phrase
+      const spectrum = (f: number) => {
+        const bins = new Array(128).fill(0.02);
+        const kick = 0.9 * 0.7 ** since(f, 60, 5);
+        const snare = 0.6 * 0.6 ** since(f, 60, 35);
+        const hat = 0.5 * 0.4 ** since(f, 15, 12);
+        const vocalAge = since(f, 120, 50);
+        const vocal = vocalAge < 20 ? 0.7 : 0.7 * 0.8 ** (vocalAge - 20);
+        bins[0] += kick;
+        for (let i = 5; i <= 60; i++) bins[i] += snare * (0.8 + 0.2 * ((i * 7919) % 97) / 97);
+        for (let i = 40; i <= 90; i++) bins[i] += hat;
+        for (let i = 2; i <= 12; i += 2) bins[i] += vocal;
+        return bins;
+      };
+
+      const classifier = createOnsetClassifier();
+      const events: { type: string; frame: number; strength: number }[] = [];
+      for (let f = 0; f < 240; f++) {
+        for (const event of classifier.process(spectrum(f), BIN_HZ, f * 1000 / 60)) {
+          events.push({ type: event.type, frame: f, strength: event.strength });
+        }
+      }
+      const framesOf = (type: string) => events.filter(e => e.type === type).map(e => e.frame);
+
+      // Steady noise and a held chord after the first frame never rise
+      const steady = createOnsetClassifier();
+      let steadyEvents = 0;
+      for (let f = 0; f < 120; f++) {
+        const bins = Array.from({ length: 128 }, (_, i) => (i % 3 === 0 ? 0.6 : 0.3));
+        steadyEvents += steady.process(bins, BIN_HZ, f * 1000 / 60).length;
+      }
+
+      return {
+        kicks: framesOf('kick'),
+        snares: framesOf('snare'),
+        hats: framesOf('hat'),
+        vocals: framesOf('vocal'),
+        kickStrength: events.find(e => e.type === 'kick')?.strength,
+        steadyEvents,
+        empty: classifier.process([], BIN_HZ, 5000),
+        validation: [
+          validateOnsetTypes(['kick', 'hat'], 'trigger'),
+          validateOnsetTypes(['clap'], 'trigger'),
+          validateOnsetTypes([], 'trigger'),
+          validateOnsetTypes('kick', 'trigger')
+        ].map(errors => errors.length)
+      };
+    }, MODULES);
+
+    console.log(`✓ ${result.kicks.length} kicks, ${result.snares.length} snares, ${result.hats.length} hats, ${result.vocals.length} vocals`);
+    expect(result.kicks).toEqual([5, 65, 125, 185]);
+    expect(result.snares).toEqual([35, 95, 155, 215]);
+    expect(result.hats).toEqual([12, 27, 42, 57, 72, 87, 102, 117, 132, 147, 162, 177, 192, 207, 222, 237]);
+    expect(result.vocals).toEqual([50, 170]);
+    expect(result.kickStrength).toBeGreaterThan(0.85);
+    expect(result.steadyEvents).toBe(0);
+    expect(result.empty).toEqual([]);
+    expect(result.validation).toEqual([0, 1, 1, 1]);
+  });
+
+  test('Engine binds moves, stutters and camera hits to onsets', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { KineticEngine, createManualClock } = await import(modules.engine);
+
+      const BIN_HZ = 44100 / 256;
+      const since = (f: number, period: number, offset: number) => (((f - offset) % period) + period) % period;
+      const spectrum = (f: number) => {
+        const bins = new Array(128).fill(0.02);
+        bins[0] += 0.9 * 0.7 ** since(f, 60, 5);
+        for (let i = 5; i <= 60; i++) bins[i] += 0.6 * 0.6 ** since(f, 60, 35);
+        for (let i = 40; i <= 90; i++) bins[i] += 0.5 * 0.4 ** since(f, 15, 12);
+        return bins;
+      };
+
+      const frames = Array.from({ length: 6 }, (_, i) => ({ url: '', pose: `pose_${i}`, role: 'base', energy: 'mid', type: 'body' }));
+      const graph = {
+        name: 'Backbeat',
+        start: 'left',
+        nodes: {
+          left: { transitions: { right: 1 }, trigger: ['snare'], frames: [{}] },
+          right: { transitions: { left: 1 }, trigger: ['snare'], frames: [{}] }
+        }
+      };
+
+      const run = (withSpectrum: boolean) => {
+        const clock = createManualClock(0);
+        const engine = new KineticEngine(clock, 3);
+        engine.loadFramePool(frames);
+        engine.setAutoBPM(false);
+        engine.setBPM(120);
+        const validation = engine.loadGraph(graph);
+        engine.configure({ stutter: 100 });
+        engine.setOnsetBindings({ stutter: ['hat'], camera: ['kick'] });
+
+        const moves: number[] = [];
+        const stutters: number[] = [];
+        const bounces: { frame: number; onset?: string }[] = [];
+        let lastMove = 0;
+        let lastStutter = -Infinity;
+        for (let f = 0; f < 480; f++) {
+          clock.advance(1000 / 60);
+          engine.feedAudio(0.3, 0.7, 0.3);
+          if (withSpectrum) engine.feedSpectrum(spectrum(f), BIN_HZ);
+          const state = engine.update(1 / 60);
+          if (state.lastTransitionTime !== lastMove) {
+            lastMove = state.lastTransitionTime;
+            moves.push(f);
+          }
+          if (state.lastStutterTime !== lastStutter) {
+            lastStutter = state.lastStutterTime;
+            stutters.push(f);
+          }
+          for (const impulse of state.cameraImpulses) {
+            if (impulse.type === 'bounce') bounces.push({ frame: f, onset: impulse.onset });
+          }
+        }
+        return { engine, validation, moves, stutters, bounces };
+      };
+
+      const heard = run(true);
+      const deaf = run(false);
+      const telemetry = heard.engine.getTelemetry();
+
+      const clock = createManualClock(0);
+      const invalid = new KineticEngine(clock, 3);
+      invalid.loadFramePool(frames);
+      const badTrigger = invalid.loadGraph({ ...graph, nodes: { ...graph.nodes, left: { ...graph.nodes.left, trigger: ['clap'] } } });
+
+      return {
+        errors: heard.validation.errors,
+        moves: heard.moves,
+        deafMoves: deaf.moves.length,
+        stutters: heard.stutters,
+        bounces: heard.bounces,
+        deafBounceOnsets: deaf.bounces.filter(b => b.onset !== undefined).length,
+        deafStutters: deaf.stutters.length,
+        telemetryTypes: [...new Set(telemetry.onsets.map((o: { type: string }) => o.type))].sort(),
+        telemetryBindings: telemetry.onsetBindings,
+        badTrigger: badTrigger.errors
+      };
+    }, MODULES);
+
+    console.log(`✓ ${result.moves.length} moves on snares (${result.deafMoves} on the beat without a spectrum), ${result.stutters.length} hat stutters`);
+    expect(result.errors).toEqual([]);
+    expect(result.moves.every(f => f % 60 === 35)).toBe(true);
+    expect(result.moves.length).toBeGreaterThan(5);
+    expect(result.deafMoves).toBeGreaterThan(result.moves.length);
+    expect(result.stutters.length).toBeGreaterThan(20);
+    expect(result.stutters.every(f => f % 15 === 12)).toBe(true);
+    expect(result.bounces.length).toBe(8);
+    expect(result.bounces.every(b => b.onset === 'kick' && b.frame % 60 === 5)).toBe(true);
+    expect(result.deafBounceOnsets).toBe(0);
+    expect(result.deafStutters).toBeGreaterThan(0);
+    expect(result.telemetryTypes).toEqual(['hat', 'kick', 'snare']);
+    expect(result.telemetryBindings).toEqual({ stutter: ['hat'], camera: ['kick'] });
+    expect(result.badTrigger.some((e: string) => e.includes('trigger'))).toBe(true);
+  });
+});
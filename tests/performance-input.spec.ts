@@ -0,0 +1,147 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * PERFORMANCE INPUT TEST SUITE
+ *
+ * Live control of the choreography core, in the browser:
+ * - MIDI messages parse into note / CC events, bindings match by channel
+ * - Tap tempo reads the BPM from the taps
+ * - The engine pools every sequencer deck (deck ids, virtual zooms)
+ * - Held nodes, auto stutter and chaos act inside the engine
+ */
+
+const MODULES = {
+  engine: '/tests/fixtures/engine.ts',
+  input: '/services/performanceInput.ts'
+};
+
+test.describe('Performance Input', () => {
+  test('MIDI messages, bindings and tap tempo', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { parseMidiMessage, actionsFor, createTapTempo, describeInput, DEFAULT_PERFORMANCE_BINDINGS } = await import(modules.input);
+
+      const bindings = [
+        { input: { device: 'note', note: 36 }, action: { kind: 'stutter' } },
+        { input: { device: 'note', note: 36, channel: 10 }, action: { kind: 'glitch' } },
+        { input: { device: 'cc', cc: 1, channel: 2 }, action: { kind: 'fx', fx: 'chaos' } },
+        { input: { device: 'key', code: 'KeyS' }, action: { kind: 'tap' } }
+      ];
+      const kinds = (input: unknown) => actionsFor(bindings, input).map((a: { kind: string }) => a.kind);
+
+      const tapTempo = createTapTempo();
+      const taps = [0, 500, 1000, 1500, 2000].map(ms => tapTempo.tap(ms));
+      const afterPause = tapTempo.tap(6000);
+
+      return {
+        noteOn: parseMidiMessage([0x99, 36, 100]),
+        noteOffByVelocity: parseMidiMessage([0x90, 36, 0]),
+        noteOff: parseMidiMessage([0x80, 40, 64]),
+        cc: parseMidiMessage([0xb1, 1, 127]),
+        clock: parseMidiMessage([0xf8, 0, 0]),
+        short: parseMidiMessage([0x90, 36]),
+        anyChannel: kinds({ device: 'note', note: 36, channel: 1 }),
+        drumChannel: kinds({ device: 'note', note: 36, channel: 10 }),
+        ccWrongChannel: kinds({ device: 'cc', cc: 1, channel: 1 }),
+        ccRightChannel: kinds({ device: 'cc', cc: 1, channel: 2 }),
+        key: kinds({ device: 'key', code: 'KeyS' }),
+        labels: [describeInput({ device: 'key', code: 'Digit1' }), describeInput({ device: 'cc', cc: 7, channel: 3 })],
+        taps,
+        afterPause,
+        defaultsUnique: new Set(DEFAULT_PERFORMANCE_BINDINGS.map((b: { input: unknown }) => JSON.stringify(b.input))).size === DEFAULT_PERFORMANCE_BINDINGS.length
+      };
+    }, MODULES);
+
+    console.log(`✓ Tap tempo: ${result.taps[result.taps.length - 1]} BPM`);
+    expect(result.noteOn).toEqual({ input: { device: 'note', note: 36, channel: 10 }, value: 1 });
+    expect(result.noteOffByVelocity?.value).toBe(0);
+    expect(result.noteOff).toEqual({ input: { device: 'note', note: 40, channel: 1 }, value: 0 });
+    expect(result.cc).toEqual({ input: { device: 'cc', cc: 1, channel: 2 }, value: 1 });
+    expect(result.clock).toBeNull();
+    expect(result.short).toBeNull();
+    expect(result.anyChannel).toEqual(['stutter']);
+    expect(result.drumChannel).toEqual(['stutter', 'glitch']);
+    expect(result.ccWrongChannel).toEqual([]);
+    expect(result.ccRightChannel).toEqual(['fx']);
+    expect(result.key).toEqual(['tap']);
+    expect(result.labels).toEqual(['1', 'CC 7 ch3']);
+    expect(result.taps).toEqual([null, 120, 120, 120, 120]);
+    expect(result.afterPause).toBeNull();
+    expect(result.defaultsUnique).toBe(true);
+  });
+
+  test('Engine pools decks and takes live controls', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { KineticEngine, createManualClock, testRig } = await import(modules.engine);
+
+      const rig = (name: string) => testRig({ pose: name, image: name });
+      const decks = [
+        { id: 0, frames: rig('a') },
+        { id: 2, frames: [...rig('b'), { url: '', pose: 'b_0_morph', role: 'morph', energy: 'mid', type: 'body', morphOf: 'b_0' }] }
+      ];
+
+      const run = (settings: Record<string, number>, drive: (engine: any, i: number) => void) => {
+        const clock = createManualClock(0);
+        const engine = new KineticEngine(clock, 11);
+        engine.loadDecks(decks);
+        engine.setAutoBPM(false);
+        engine.setBPM(120);
+        engine.configure(settings);
+        const log: { node: string; deckId: number | undefined; mode: string; stutter: number }[] = [];
+        for (let i = 0; i < 1200; i++) { // 20s
+          clock.advance(1000 / 60);
+          drive(engine, i);
+          engine.feedAudio(i % 30 < 3 ? 0.9 : 0.3, 0.5 + 0.3 * Math.sin(i / 10), 0.3);
+          const state = engine.update(1 / 60);
+          log.push({ node: state.currentNode, deckId: state.currentFrame?.deckId, mode: state.sequenceMode, stutter: state.lastStutterTime });
+        }
+        return { engine, log };
+      };
+
+      const plain = run({}, () => {});
+      const pool = plain.engine.getTelemetry().framePoolStats;
+      const stutters = (log: { stutter: number }[]) => new Set(log.map(l => l.stutter).filter(t => Number.isFinite(t))).size;
+
+      // Hold the close-up from 5s to 10s
+      const held = run({}, (engine, i) => {
+        if (i === 300) engine.hold('closeup');
+        if (i === 600) engine.hold(null);
+      });
+      const holdNodes = [...new Set(held.log.slice(300, 600).map(l => l.node))];
+      const afterRelease = new Set(held.log.slice(600).map(l => l.node)).size;
+
+      const stuttering = run({ stutter: 60 }, () => {});
+      const chaotic = run({ chaos: 100 }, () => {});
+      const again = run({ stutter: 60 }, () => {});
+
+      return {
+        closeups: pool.closeups,
+        virtuals: pool.virtuals,
+        decksUsed: [...new Set(plain.log.map(l => l.deckId))].sort(),
+        holdNodes,
+        afterRelease,
+        plainStutters: stutters(plain.log),
+        autoStutters: stutters(stuttering.log),
+        repeatable: JSON.stringify(stuttering.log) === JSON.stringify(again.log),
+        sameMoves: JSON.stringify(stuttering.log.map(l => l.node)) === JSON.stringify(plain.log.map(l => l.node)),
+        chaosModes: [...new Set(chaotic.log.slice(120).map(l => l.mode))]
+      };
+    }, MODULES);
+
+    console.log(`✓ ${result.virtuals} virtual close-ups pooled from decks ${result.decksUsed.join(', ')}; ${result.autoStutters} auto stutters`);
+    // 3 close-ups per deck, each with a virtual zoom
+    expect(result.closeups).toBe(12);
+    expect(result.virtuals).toBe(6);
+    expect(result.decksUsed).toEqual([0, 2]);
+    expect(result.holdNodes).toEqual(['closeup']);
+    expect(result.afterRelease).toBeGreaterThan(1);
+    expect(result.plainStutters).toBe(0);
+    expect(result.autoStutters).toBeGreaterThan(5);
+    expect(result.repeatable).toBe(true);
+    expect(result.sameMoves).toBe(true);
+    expect(result.chaosModes).toEqual(['IMPACT']);
+  });
+});
@@ -0,0 +1,179 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * PERFORMERS TEST SUITE
+ *
+ * Drives a lead KineticEngine and one following engine per relationship in
+ * the browser:
+ * - Unison and mirror take the lead's moves as they happen
+ * - Canon replays them N beats later
+ * - Call-and-response holds through the call and answers in the next bar
+ * - A canon follower given the lead's setup (configureEngine) lands on its bar grid
+ * - Stage spots put the lead in the middle
+ */
+
+const MODULES = {
+  engine: '/tests/fixtures/engine.ts',
+  performers: '/services/performers.ts',
+  analysis: '/services/trackAnalysis.ts'
+};
+
+test.describe('Performers', () => {
+  test('Followers dance the lead\'s moves by relationship', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { KineticEngine, createManualClock, testRig } = await import(modules.engine);
+      const { createPerformer, stagePositions } = await import(modules.performers);
+
+      const rig = (pose: string) => testRig({ pose });
+
+      const clock = createManualClock(0);
+      const lead = new KineticEngine(clock, 7);
+      lead.loadFramePool(rig('lead'));
+      lead.setAutoBPM(false);
+      lead.setBPM(120);
+
+      const parts = {
+        unison: { relationship: 'unison', delayBeats: 2 },
+        mirror: { relationship: 'mirror', delayBeats: 2 },
+        canon: { relationship: 'canon', delayBeats: 2 },
+        response: { relationship: 'response', delayBeats: 2 }
+      };
+      const troupe = Object.entries(parts).map(([name, part], i) => {
+        const engine = new KineticEngine(clock, 100 + i);
+        engine.loadFramePool(rig(name));
+        return { name, part, performer: createPerformer(engine), moves: [] as { node: string; at: number; bar: number }[] };
+      });
+
+      // Followers start their moves mid-frame, so watch the transition time rather than the progress
+      const leadMoves: { node: string; at: number; bar: number }[] = [];
+      let leadLast = 0;
+      for (let i = 0; i < 1800; i++) { // 30s = 60 beats
+        clock.advance(1000 / 60);
+        lead.feedAudio(i % 30 < 3 ? 0.9 : 0.3, 0.4 + 0.3 * Math.sin(i / 20), 0.3);
+        const leadState = lead.update(1 / 60);
+        const position = { at: leadState.structure.beat + leadState.beatPos, bar: leadState.structure.bar };
+        if (leadState.lastTransitionTime !== leadLast) leadMoves.push({ node: leadState.currentNode, ...position });
+        leadLast = leadState.lastTransitionTime;
+        for (const member of troupe) {
+          const before = member.performer.engine.getState().lastTransitionTime;
+          const state = member.performer.follow(lead, member.part, 1 / 60);
+          if (state.lastTransitionTime !== before) member.moves.push({ node: state.currentNode, ...position });
+        }
+      }
+
+      const byName = Object.fromEntries(troupe.map(m => [m.name, m.moves]));
+      const signature = (moves: { node: string; at: number }[]) => moves.map(m => `${m.node}@${m.at.toFixed(3)}`);
+      // Largest gap between a follower's move and the lead's same move `delay` beats earlier
+      const lag = (moves: { node: string; at: number }[], delay: number) => Math.max(...moves.map((m, i) => Math.abs(m.at - leadMoves[i].at - delay)));
+      return {
+        leadMoves: leadMoves.length,
+        unison: JSON.stringify(signature(byName.unison)) === JSON.stringify(signature(leadMoves)),
+        mirror: JSON.stringify(signature(byName.mirror)) === JSON.stringify(signature(leadMoves)),
+        canonMoves: byName.canon.length,
+        canonNodes: byName.canon.every((m, i) => m.node === leadMoves[i].node),
+        canonLag: lag(byName.canon, 2),
+        answers: byName.response.filter(m => m.bar % 2 === 1).length,
+        callBarNodes: [...new Set(byName.response.filter(m => m.bar % 2 === 0).map(m => m.node))],
+        ownFrames: troupe[0].performer.engine.getState().currentFrame?.pose.startsWith('unison_'),
+        spots: stagePositions(3),
+        solo: stagePositions(1)
+      };
+    }, MODULES);
+
+    console.log(`✓ Lead made ${result.leadMoves} moves; canon followed ${result.canonMoves}, response answered ${result.answers}`);
+    expect(result.leadMoves).toBeGreaterThan(10);
+    expect(result.unison).toBe(true);
+    expect(result.mirror).toBe(true);
+    expect(result.ownFrames).toBe(true);
+    expect(result.canonMoves).toBeGreaterThan(result.leadMoves - 10);
+    expect(result.canonNodes).toBe(true);
+    expect(result.canonLag).toBeLessThan(0.05);
+    expect(result.answers).toBeGreaterThan(10);
+    expect(result.callBarNodes).toEqual(['idle']);
+    expect(result.spots.map((s: any) => Math.round(s.x * 100))).toEqual([0, -33, 33]);
+    expect(result.spots[0].scale).toBeCloseTo(0.4, 5);
+    expect(result.solo).toEqual([{ x: 0, scale: 1 }]);
+  });
+
+  test('A canon follower with the lead\'s setup lands on its bar grid', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { KineticEngine, createManualClock, testRig } = await import(modules.engine);
+      const { createPerformer, configureEngine } = await import(modules.performers);
+      const { analyzeSamples, ANALYSIS_SAMPLE_RATE } = await import(modules.analysis);
+
+      // 16 bars at 132 BPM with an accent on every downbeat
+      const sr = ANALYSIS_SAMPLE_RATE;
+      const beat = 60 / 132;
+      const samples = new Float32Array(Math.ceil((0.4 + 64 * beat + 1) * sr));
+      for (let b = 0; b < 64; b++) {
+        const t0 = Math.floor((0.4 + b * beat) * sr);
+        const gain = b % 4 === 0 ? 1 : 0.4;
+        for (let i = 0; i < 0.12 * sr; i++) {
+          samples[t0 + i] += gain * Math.sin(2 * Math.PI * 55 * i / sr) * Math.exp(-i / sr * 25);
+        }
+      }
+      const trackAnalysis = analyzeSamples(samples, sr);
+
+      const rig = (pose: string) => testRig({ pose, bodyOnly: true });
+      const setup = {
+        category: 'CHARACTER',
+        graph: null,
+        settings: { intensity: 60, smoothness: 40, variety: 50 },
+        meter: { beatsPerBar: 4, barsPerPhrase: 4 },
+        onsetBindings: { stutter: [], camera: [] },
+        playbackRate: 1,
+        autoBPM: false,
+        bpm: 90, // Off on purpose: the analysis must win
+        trackAnalysis
+      };
+
+      const clock = createManualClock(0);
+      const lead = new KineticEngine(clock, 7);
+      lead.loadFramePool(rig('lead'));
+      configureEngine(lead, setup);
+      const engine = new KineticEngine(clock, 31);
+      engine.loadFramePool(rig('canon'));
+      configureEngine(engine, setup);
+      const performer = createPerformer(engine);
+      const part = { relationship: 'canon', delayBeats: 4 };
+
+      const leadMoves: number[] = [];
+      const moves: { at: number; bar: number; leadBar: number; beat: number; leadBeat: number }[] = [];
+      let leadLast = 0;
+      for (let i = 0; i < 1500; i++) { // 25s
+        clock.advance(1000 / 60);
+        lead.feedAudio(0.5, 0.4, 0.3);
+        const leadState = lead.update(1 / 60);
+        const at = leadState.structure.beat + leadState.beatPos;
+        if (leadState.lastTransitionTime !== leadLast) leadMoves.push(at);
+        leadLast = leadState.lastTransitionTime;
+
+        const before = engine.getState().lastTransitionTime;
+        const state = performer.follow(lead, part, 1 / 60);
+        if (state.lastTransitionTime !== before) {
+          moves.push({ at, bar: state.structure.bar, leadBar: leadState.structure.bar, beat: state.structure.beat, leadBeat: leadState.structure.beat });
+        }
+      }
+
+      return {
+        bpm: engine.getBPM(),
+        leadBpm: lead.getBPM(),
+        moves: moves.length,
+        offGrid: moves.filter(m => m.bar !== m.leadBar || m.beat !== m.leadBeat).length,
+        // Each canon move against the lead's move four beats earlier
+        lag: Math.max(...moves.map(m => Math.min(...leadMoves.map(at => Math.abs(m.at - at - 4)))))
+      };
+    }, MODULES);
+
+    console.log(`✓ Canon made ${result.moves} moves at ${result.bpm.toFixed(1)} BPM, ${result.offGrid} off the lead's grid`);
+    expect(result.bpm).toBeCloseTo(result.leadBpm, 5);
+    expect(result.bpm).toBeGreaterThan(125);
+    expect(result.moves).toBeGreaterThan(10);
+    expect(result.offGrid).toBe(0);
+    expect(result.lag).toBeLessThan(0.05);
+  });
+});
@@ -0,0 +1,59 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * PLAYBACK SETTINGS TEST SUITE
+ *
+ * Runs services/playbackSettings.ts in the browser:
+ * - Intensity scales energy thresholds, smoothness softens cuts
+ * - Recording length follows the duration setting, capped by the tier
+ */
+
+const MODULES = {
+  settings: '/services/playbackSettings.ts'
+};
+
+test.describe('Playback Settings', () => {
+  test('Maps director sliders onto engine behaviour', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { energyThresholdScale, biasTransitionStyle, stutterChance } = await import(modules.settings);
+      return {
+        scaleLow: energyThresholdScale(0),
+        scaleNeutral: energyThresholdScale(50),
+        scaleHigh: energyThresholdScale(100),
+        roughCut: biasTransitionStyle('CUT', 0.8, 0, 0.01),
+        smoothHigh: biasTransitionStyle('CUT', 0.8, 100, 0.99),
+        smoothLow: biasTransitionStyle('CUT', 0.3, 100, 0.5),
+        zoomKept: biasTransitionStyle('ZOOM_IN', 0.6, 100, 0),
+        stutter: stutterChance(35)
+      };
+    }, MODULES);
+
+    console.log(`✓ Threshold scale: ${result.scaleLow} / ${result.scaleNeutral} / ${result.scaleHigh}`);
+    expect(result.scaleLow).toBe(1.5);
+    expect(result.scaleNeutral).toBe(1);
+    expect(result.scaleHigh).toBe(0.5);
+    expect(result.roughCut).toBe('CUT');
+    expect(result.smoothHigh).toBe('MORPH');
+    expect(result.smoothLow).toBe('SMOOTH');
+    expect(result.zoomKept).toBe('ZOOM_IN');
+    expect(result.stutter).toBeCloseTo(0.35);
+  });
+
+  test('Recording limit respects duration and tier', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { recordingLimitMs } = await import(modules.settings);
+      return {
+        short: recordingLimitMs(30, 'free'),
+        capped: recordingLimitMs(10000, 'pro')
+      };
+    }, MODULES);
+
+    console.log(`✓ Limits: ${result.short}ms, ${result.capped}ms`);
+    expect(result.short).toBe(30000);
+    expect(result.capped).toBe(300000);
+  });
+});
@@ -0,0 +1,68 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * SHEET LAYOUT TEST SUITE
+ *
+ * Runs services/sheetLayouts.ts in the browser:
+ * - Built-in layouts keep the original row semantics
+ * - A new sheet type can be registered and is picked up by the job model
+ */
+
+const MODULES = {
+  layouts: '/services/sheetLayouts.ts',
+  jobs: '/services/generationJob.ts'
+};
+
+test.describe('Sheet Layouts', () => {
+  test('Built-in layouts map rows to frame metadata', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { getSheetLayout, rowLayoutForCell } = await import(modules.layouts);
+      const base = getSheetLayout('base');
+      const details = getSheetLayout('details');
+      return {
+        baseRow2: rowLayoutForCell(base, 5, 4, 4),
+        detailsRow1: rowLayoutForCell(details, 0, 4, 4),
+        detailsRow4: rowLayoutForCell(details, 15, 4, 4)
+      };
+    }, MODULES);
+
+    console.log(`✓ base row 2: ${result.baseRow2.energy}/${result.baseRow2.direction}`);
+    expect(result.baseRow2).toMatchObject({ type: 'body', energy: 'mid', direction: 'left', expansion: 'mirror' });
+    expect(result.detailsRow1).toMatchObject({ type: 'hands', expansion: 'mandala' });
+    expect(result.detailsRow4).toMatchObject({ type: 'feet', expansion: 'mirror' });
+  });
+
+  test('Registers a new sheet type without pipeline changes', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { registerSheetLayout, describeSheetLayout, getSheetLayout } = await import(modules.layouts);
+      const { rolesForMode } = await import(modules.jobs);
+      const row = (label: string) => ({ label, type: 'body', energy: 'high', direction: 'center', expansion: 'mirror' });
+
+      registerSheetLayout({
+        role: 'floorwork',
+        title: 'FLOORWORK',
+        rows: 2,
+        cols: 4,
+        include: 'super',
+        anchor: 'centroid',
+        rowLayouts: [row('Windmill'), row('Six Step')],
+        notes: ['Keep the whole body inside the cell.']
+      });
+
+      return {
+        prompt: describeSheetLayout(getSheetLayout('floorwork'), false),
+        superRoles: rolesForMode(true, true),
+        turboRoles: rolesForMode(true, false)
+      };
+    }, MODULES);
+
+    console.log(`✓ Super roles: ${result.superRoles.join(', ')}`);
+    expect(result.prompt).toContain('Row 2: Six Step.');
+    expect(result.superRoles).toContain('floorwork');
+    expect(result.turboRoles).not.toContain('floorwork');
+  });
+});
@@ -0,0 +1,122 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * SHEET PROVIDER TEST SUITE
+ *
+ * The procedural provider stands in for Gemini, so the whole pipeline runs
+ * offline:
+ * - Sheets are drawn locally, non-blank and the same for the same seed
+ * - Plan -> Generate -> Slice -> Mirror yields one frame per cell plus its expansions
+ */
+
+const MODULES = {
+  providers: '/services/sheetProvider.ts',
+  gemini: '/services/gemini.ts',
+  jobs: '/services/generationJob.ts',
+  layouts: '/services/sheetLayouts.ts'
+};
+
+test.describe('Sheet Provider', () => {
+  test('Procedural sheets are drawn locally', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { createSheetProvider } = await import(modules.providers);
+      const provider = createSheetProvider('procedural');
+      await provider.prepare();
+
+      const request = { role: 'base', imageBase64: '', prompt: '', seed: 42, rows: 4, cols: 4 };
+      const sheet = await provider.generateSheet(request);
+      const again = await provider.generateSheet(request);
+      const other = await provider.generateSheet({ ...request, seed: 43 });
+
+      // Share of pixels that are not the white background
+      const img = new Image();
+      img.src = sheet.dataUri;
+      await img.decode();
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d')!;
+      ctx.drawImage(img, 0, 0);
+      const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      let drawn = 0;
+      for (let i = 0; i < data.length; i += 4) {
+        if (data[i] + data[i + 1] + data[i + 2] < 600) drawn++;
+      }
+
+      const controller = new AbortController();
+      controller.abort();
+      let cancelled = '';
+      try {
+        await provider.generateSheet({ ...request, signal: controller.signal });
+      } catch (e) {
+        cancelled = (e as Error).message;
+      }
+
+      return {
+        id: provider.id,
+        mimeType: sheet.mimeType,
+        size: [img.width, img.height],
+        drawnShare: drawn / (data.length / 4),
+        deterministic: sheet.dataUri === again.dataUri,
+        seeded: sheet.dataUri !== other.dataUri,
+        cancelled
+      };
+    }, MODULES);
+
+    console.log(`✓ Procedural sheet ${result.size.join('x')}, ${(result.drawnShare * 100).toFixed(1)}% drawn`);
+    expect(result.id).toBe('procedural');
+    expect(result.mimeType).toBe('image/png');
+    expect(result.size).toEqual([1024, 1024]);
+    expect(result.drawnShare).toBeGreaterThan(0.01);
+    expect(result.drawnShare).toBeLessThan(0.5);
+    expect(result.deterministic).toBe(true);
+    expect(result.seeded).toBe(true);
+    expect(result.cancelled).toContain('cancelled');
+  });
+
+  test('Plan, generate, slice and mirror without the network', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { createSheetProvider } = await import(modules.providers);
+      const { generateDanceFrames } = await import(modules.gemini);
+      const { createGenerationJob } = await import(modules.jobs);
+      const { getSheetLayout, rowLayoutForCell } = await import(modules.layouts);
+
+      const job = createGenerationJob({
+        imageBase64: '', stylePrompt: 'test', motionPrompt: '', useTurbo: true, superMode: false,
+        sheetProvider: 'procedural', matting: 'off', styleId: 'natural'
+      });
+      const run = await generateDanceFrames(job, () => {}, createSheetProvider('procedural'));
+
+      // What the layouts promise: every cell, plus a mirror or mandala where its row asks for one
+      const expected: string[] = [];
+      for (const role of ['base', 'alt']) {
+        const layout = getSheetLayout(role, 'CHARACTER');
+        for (let i = 0; i < layout.rows * layout.cols; i++) {
+          expected.push(`${role}_${i}`);
+          const { expansion } = rowLayoutForCell(layout, i, layout.rows, layout.cols);
+          if (expansion !== 'none') expected.push(`${role}_${i}_${expansion}`);
+        }
+      }
+
+      return {
+        roles: run.job.sheets.map((s: any) => `${s.role}:${s.status}`),
+        poses: run.frames.map((f: any) => f.pose),
+        expected,
+        allImages: run.frames.every((f: any) => typeof f.url === 'string' && f.url.startsWith('data:image/')),
+        mirrored: run.frames.filter((f: any) => f.pose.endsWith('_mirror')).map((f: any) => f.direction),
+        gridConfidence: run.frames[0]?.gridConfidence
+      };
+    }, MODULES);
+
+    console.log(`✓ ${result.poses.length} frames from ${result.roles.join(' ')}`);
+    expect(result.roles).toEqual(['base:done', 'alt:done']);
+    expect(result.poses).toEqual(result.expected);
+    expect(result.allImages).toBe(true);
+    expect(result.mirrored.length).toBeGreaterThan(0);
+    expect(result.gridConfidence).toBeGreaterThan(0);
+  });
+});
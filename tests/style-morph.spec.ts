@@ -0,0 +1,79 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * STYLE MORPH TEST SUITE
+ *
+ * Runs services/styleMorph.ts and the generation pipeline in the browser:
+ * - Morph intensity weights the two style prompts
+ * - Dual mode adds a `morph` sheet whose frames pair with the base poses
+ */
+
+const MODULES = {
+  morph: '/services/styleMorph.ts',
+  jobs: '/services/generationJob.ts',
+  gemini: '/services/gemini.ts',
+  providers: '/services/sheetProvider.ts'
+};
+
+test.describe('Style Morph', () => {
+  test('Blends prompts by intensity and ramps the crossfade with energy', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { blendStylePrompts, styleMixForEnergy, morphPoseFor } = await import(modules.morph);
+      const a = { id: 'a', promptModifier: 'neon cyberpunk.' };
+      const b = { id: 'b', promptModifier: 'film noir.' };
+      return {
+        none: blendStylePrompts(a, b, 0),
+        mixed: blendStylePrompts(a, b, 30),
+        full: blendStylePrompts(a, b, 100),
+        quiet: styleMixForEnergy(0.1, 100),
+        loud: styleMixForEnergy(0.9, 100),
+        halfIntensity: styleMixForEnergy(0.9, 50),
+        pose: morphPoseFor('base_3_mirror'),
+        altPose: morphPoseFor('alt_3')
+      };
+    }, MODULES);
+
+    console.log(`✓ 30% blend: ${result.mixed}`);
+    expect(result.none).toBe('neon cyberpunk.');
+    expect(result.mixed).toContain('70% neon cyberpunk.');
+    expect(result.mixed).toContain('30% film noir.');
+    expect(result.full).toBe('film noir.');
+    expect(result.quiet).toBe(0);
+    expect(result.loud).toBe(1);
+    expect(result.halfIntensity).toBe(0.5);
+    expect(result.pose).toBe('morph_3_mirror');
+    expect(result.altPose).toBeNull();
+  });
+
+  test('Dual mode generates a morph sheet paired with the base sheet', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { generateDanceFrames } = await import(modules.gemini);
+      const { createGenerationJob } = await import(modules.jobs);
+      const { createSheetProvider } = await import(modules.providers);
+
+      const job = createGenerationJob({
+        imageBase64: '', stylePrompt: 'neon', motionPrompt: 'dance', useTurbo: true, superMode: false,
+        sheetProvider: 'procedural', matting: 'off', styleId: 'cyber', secondaryStylePrompt: 'noir'
+      });
+      const run = await generateDanceFrames(job, () => {}, createSheetProvider('procedural'));
+      const poses = new Set(run.frames.map((f: any) => f.pose));
+
+      return {
+        roles: job.sheets.map((s: any) => s.role),
+        morphFrames: run.frames.filter((f: any) => f.role === 'morph').length,
+        paired: run.frames
+          .filter((f: any) => f.role === 'morph')
+          .every((f: any) => poses.has(f.pose.replace(/^morph_/, 'base_')))
+      };
+    }, MODULES);
+
+    console.log(`✓ Roles: ${result.roles.join(', ')}, ${result.morphFrames} morph frames`);
+    expect(result.roles).toEqual(['base', 'morph', 'alt']);
+    expect(result.morphFrames).toBeGreaterThan(0);
+    expect(result.paired).toBe(true);
+  });
+});
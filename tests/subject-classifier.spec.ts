@@ -0,0 +1,97 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * SUBJECT CLASSIFIER TEST SUITE
+ *
+ * Runs services/subjectClassifier.ts in the browser on synthetic pixel buffers:
+ * - Heuristic fallback separates lettering, emblems and illustrated characters
+ * - The category picks its own sheet layouts and engine graph
+ */
+
+const MODULES = {
+  classifier: '/services/subjectClassifier.ts',
+  jobs: '/services/generationJob.ts',
+  layouts: '/services/sheetLayouts.ts',
+  engine: '/services/KineticEngine.ts'
+};
+
+test.describe('Subject Classifier', () => {
+  test('Heuristic classifies text, symbol and character images', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { classifyPixels } = await import(modules.classifier);
+      const S = 128;
+      const make = (paint: (x: number, y: number) => number[] | null) => {
+        const data = new Uint8ClampedArray(S * S * 4).fill(255);
+        for (let y = 0; y < S; y++) {
+          for (let x = 0; x < S; x++) {
+            const c = paint(x, y);
+            if (!c) continue;
+            const i = (y * S + x) * 4;
+            data[i] = c[0]; data[i + 1] = c[1]; data[i + 2] = c[2];
+          }
+        }
+        return { data, width: S, height: S };
+      };
+
+      // Thin black strokes shaped like a row of letters
+      const text = make((x, y) => {
+        if (y < 40 || y > 88 || x < 10 || x > 118) return null;
+        const lx = (x - 10) % 22;
+        return lx < 3 || (lx < 16 && (y < 43 || (y > 62 && y < 65) || y > 85)) ? [0, 0, 0] : null;
+      });
+      // Two flat concentric discs
+      const symbol = make((x, y) => {
+        const r = Math.hypot(x - 64, y - 64);
+        return r < 40 ? (r < 20 ? [255, 200, 0] : [200, 0, 0]) : null;
+      });
+      // Shaded, noisy figure
+      let seed = 1;
+      const rnd = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+      const character = make((x, y) => {
+        const dx = (x - 64) / 30, dy = (y - 64) / 50;
+        if (dx * dx + dy * dy > 1) return null;
+        return [Math.floor(80 + x + rnd() * 60) % 256, Math.floor(40 + y * 1.5) % 256, Math.floor(120 + rnd() * 100)];
+      });
+
+      return {
+        text: classifyPixels(text),
+        symbol: classifyPixels(symbol),
+        character: classifyPixels(character)
+      };
+    }, MODULES);
+
+    console.log(`✓ text=${result.text.category} symbol=${result.symbol.category} character=${result.character.category}`);
+    expect(result.text.category).toBe('TEXT');
+    expect(result.symbol.category).toBe('SYMBOL');
+    expect(result.character.category).toBe('CHARACTER');
+    expect(result.text.source).toBe('heuristic');
+    expect(result.symbol.confidence).toBeGreaterThan(0.5);
+  });
+
+  test('Category selects sheet layouts and engine graph', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { rolesForMode } = await import(modules.jobs);
+      const { getSheetLayout } = await import(modules.layouts);
+      const { KINETIC_GRAPHS } = await import(modules.engine);
+      return {
+        characterRoles: rolesForMode(false, true, 'CHARACTER'),
+        textRoles: rolesForMode(false, true, 'TEXT'),
+        textTitle: getSheetLayout('base', 'TEXT').title,
+        textExpansions: getSheetLayout('base', 'TEXT').rowLayouts.map((r: any) => r.expansion),
+        textIdle: KINETIC_GRAPHS.TEXT.idle.possibleTransitions,
+        characterIdle: KINETIC_GRAPHS.CHARACTER.idle.possibleTransitions
+      };
+    }, MODULES);
+
+    console.log(`✓ TEXT roles: ${result.textRoles.join(', ')} (${result.textTitle})`);
+    expect(result.characterRoles).toEqual(['base', 'alt', 'flourish', 'details']);
+    expect(result.textRoles).toEqual(['base', 'alt']);
+    expect(new Set(result.textExpansions)).toEqual(new Set(['none']));
+    expect(result.textIdle).not.toContain('crouch');
+    expect(result.characterIdle).toContain('crouch');
+  });
+});
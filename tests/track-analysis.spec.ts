@@ -0,0 +1,73 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * TRACK ANALYSIS TEST SUITE
+ *
+ * Runs services/trackAnalysis.ts in the browser on a synthetic track
+ * (accented kick on beat 3, off-beat hats, quiet intro and breakdown):
+ * - Tempo, beat grid and downbeat come out of the offline pass
+ * - Bar energy is segmented into intro / drop / breakdown sections
+ */
+
+const MODULES = {
+  analysis: '/services/trackAnalysis.ts'
+};
+
+test.describe('Track Analysis', () => {
+  test('Builds a beat grid and section map from samples', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { analyzeSamples, ANALYSIS_SAMPLE_RATE, beatAt, sectionAt } = await import(modules.analysis);
+      const sr = ANALYSIS_SAMPLE_RATE;
+      const beat = 60 / 128;
+      const offset = 0.3;
+      const bars = 64;
+      const samples = new Float32Array(Math.ceil((offset + bars * 4 * beat + 1) * sr));
+      const level = (bar: number) => bar < 16 ? 0.25 : bar < 32 ? 0.9 : bar < 40 ? 0.12 : 0.9;
+
+      let seed = 3;
+      const noise = () => { seed = (seed * 16807) % 2147483647; return seed / 2147483647 * 2 - 1; };
+
+      for (let b = 0; b < bars * 4; b++) {
+        const t0 = offset + b * beat;
+        const gain = level(Math.floor(b / 4)) * (b % 4 === 2 ? 1 : 0.45);
+        for (let i = 0; i < 0.12 * sr; i++) {
+          samples[Math.floor(t0 * sr) + i] += gain * Math.sin(2 * Math.PI * 55 * i / sr) * Math.exp(-i / sr * 25);
+        }
+        const hat = Math.floor((t0 + beat / 2) * sr);
+        for (let i = 0; i < 0.03 * sr; i++) {
+          samples[hat + i] += level(Math.floor(b / 4)) * 0.3 * noise() * Math.exp(-i / sr * 120);
+        }
+      }
+
+      const analysis = analyzeSamples(samples, sr);
+      return {
+        bpm: analysis.bpm,
+        confidence: analysis.confidence,
+        firstBeat: analysis.beats[0],
+        downbeat: analysis.downbeatOffset,
+        expectedDownbeat: offset + 2 * beat,
+        kinds: analysis.sections.map((s: any) => s.kind),
+        lookup: beatAt(analysis, 10),
+        sectionAt40: sectionAt(analysis, 40)?.kind,
+        sectionAt65: sectionAt(analysis, 65)?.kind
+      };
+    }, MODULES);
+
+    console.log(`✓ ${result.bpm.toFixed(2)} BPM (${Math.round(result.confidence * 100)}%), downbeat ${result.downbeat.toFixed(3)}s`);
+    console.log(`✓ Sections: ${result.kinds.join(' > ')}`);
+    expect(result.bpm).toBeCloseTo(128, 0);
+    expect(result.confidence).toBeGreaterThan(0.5);
+    expect(Math.abs(result.firstBeat - 0.3)).toBeLessThan(0.02);
+    expect(Math.abs(result.downbeat - result.expectedDownbeat)).toBeLessThan(0.02);
+    expect(result.kinds[0]).toBe('intro');
+    expect(result.kinds).toContain('drop');
+    expect(result.kinds).toContain('breakdown');
+    expect(result.lookup).not.toBeNull();
+    expect(result.lookup.phase).toBeGreaterThanOrEqual(0);
+    expect(result.lookup.phase).toBeLessThan(1);
+    expect(result.sectionAt40).toBe('drop');
+    expect(result.sectionAt65).toBe('breakdown');
+  });
+});
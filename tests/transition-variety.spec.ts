@@ -0,0 +1,73 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * TRANSITION VARIETY TEST SUITE
+ *
+ * Runs one synthetic audio feature stream through KineticEngine at different
+ * `variety` settings in the browser:
+ * - Higher variety repeats the previous pose less often
+ * - Telemetry exposes the last decision's odds and the recency memory
+ * - Weighted draws stay reproducible for a seed
+ */
+
+const MODULES = {
+  engine: '/tests/fixtures/engine.ts'
+};
+
+test.describe('Transition Variety', () => {
+  test('Variety trades repetition for novelty', async ({ page }) => {
+    await page.goto('/');
+
+    const result = await page.evaluate(async (modules) => {
+      const { KineticEngine, createManualClock, testRig } = await import(modules.engine);
+
+      const frames = testRig();
+
+      const perform = (variety: number) => {
+        const clock = createManualClock(0);
+        const engine = new KineticEngine(clock, 42);
+        engine.loadFramePool(frames);
+        engine.setAutoBPM(false);
+        engine.setBPM(120);
+        engine.configure({ variety });
+
+        const poses: string[] = [];
+        let transitions = 0;
+        for (let i = 0; i < 3000; i++) {
+          engine.feedAudio(i % 30 < 3 ? 0.9 : 0.2, 0.4 + 0.3 * Math.sin(i / 20), 0.3 + 0.5 * ((i % 97) / 97));
+          const state = engine.update(1 / 60);
+          if (state.transitionProgress === 0 && state.currentFrame) {
+            poses.push(state.currentFrame.pose);
+            transitions++;
+          }
+          clock.advance(1000 / 60);
+        }
+        const repeats = poses.filter((pose, i) => i > 0 && poses[i - 1] === pose).length;
+        return { poses, repeatRate: repeats / transitions, telemetry: engine.getTelemetry() };
+      };
+
+      const still = perform(0);
+      const varied = perform(100);
+      return {
+        stillRepeats: still.repeatRate,
+        variedRepeats: varied.repeatRate,
+        replay: JSON.stringify(perform(100).poses) === JSON.stringify(varied.poses),
+        variety: varied.telemetry.variety,
+        oddsTotal: varied.telemetry.transitionCandidates.reduce((sum: number, c: any) => sum + c.probability, 0),
+        stillOdds: still.telemetry.transitionCandidates.map((c: any) => c.probability).sort(),
+        memory: varied.telemetry.recentPoses.length,
+        lastPose: varied.poses[varied.poses.length - 1],
+        recentPoses: varied.telemetry.recentPoses
+      };
+    }, MODULES);
+
+    console.log(`✓ Back-to-back repeats: ${(result.stillRepeats * 100).toFixed(0)}% at variety 0, ${(result.variedRepeats * 100).toFixed(0)}% at 100`);
+    expect(result.variedRepeats).toBeLessThan(result.stillRepeats / 2);
+    expect(result.replay).toBe(true);
+    expect(result.variety).toBe(100);
+    expect(result.oddsTotal).toBeCloseTo(1, 5);
+    expect(result.stillOdds[result.stillOdds.length - 1]).toBe(1);
+    expect(result.memory).toBe(8);
+    expect(result.recentPoses[result.recentPoses.length - 1]).toBe(result.lastPose);
+  });
+});
@@ -1,5 +1,12 @@
 
 import { HolographicParams } from "./components/Visualizer/HolographicVisualizer";
+import { randomSeed } from "./services/prng";
+import { DEFAULT_PERFORMANCE_BINDINGS, PerformanceBinding } from "./services/performanceInput";
+import { DEFAULT_ONSET_BINDINGS, OnsetBindings } from "./services/onsetClassifier";
+import { AudioAnalysisSettings, DEFAULT_AUDIO_ANALYSIS } from "./services/audioAnalysis";
+import type { ChoreographyTimeline } from "./services/KineticEngine";
+import type { KineticGraphSpec } from "./services/kineticGraph";
+import type { PerformerPart } from "./services/performers";
 
 export enum AppStep {
   ASSETS = 1,
@@ -10,9 +17,41 @@ export enum AppStep {
 export type StyleCategory = 'Cinematic' | 'Anime/2D' | 'Digital/Glitch' | 'Artistic';
 export type SubjectCategory = 'CHARACTER' | 'TEXT' | 'SYMBOL';
 export type FrameType = 'body' | 'closeup' | 'hands' | 'feet'; 
-export type SheetRole = 'base' | 'alt' | 'flourish' | 'details'; 
+// Built-in roles; more can be added through registerSheetLayout (services/sheetLayouts.ts)
+export type SheetRole = 'base' | 'alt' | 'flourish' | 'details' | (string & {}); 
 export type MoveDirection = 'center' | 'left' | 'right'; 
 export type SequenceMode = 'GROOVE' | 'IMPACT' | 'FOOTWORK' | 'EMOTE'; 
+export type SheetProviderId = 'gemini' | 'procedural';
+export type SubjectOverride = SubjectCategory | 'auto';
+export type TrackSectionKind = 'intro' | 'verse' | 'chorus' | 'drop' | 'breakdown';
+
+export interface TrackSection {
+  kind: TrackSectionKind;
+  start: number;  // Seconds
+  end: number;
+  energy: number; // Mean bar RMS relative to the loudest bar (0-1)
+}
+
+// Offline pre-analysis of a loaded song (services/trackAnalysis.ts)
+export interface TrackAnalysis {
+  duration: number;        // Seconds
+  bpm: number;
+  confidence: number;      // 0-1 tempo confidence
+  downbeatOffset: number;  // Seconds to the first downbeat
+  beats: number[];         // Beat timestamps (seconds)
+  downbeats: number[];     // Bar starts (every 4th beat from downbeatOffset)
+  onsetEnvelope: number[]; // Onset strength, sampled at envelopeRate
+  envelopeRate: number;    // Envelope samples per second
+  waveform: number[];      // Peak amplitude (0-1) per 1/waveformRate seconds, for display
+  waveformRate: number;
+  sections: TrackSection[];
+}
+
+export interface SubjectClassification {
+  category: SubjectCategory;
+  confidence: number; // 0-1
+  source: 'provider' | 'heuristic';
+}
 
 export interface StylePreset {
   id: string;
@@ -25,6 +64,25 @@ export interface StylePreset {
 }
 
 export type EnergyLevel = 'low' | 'mid' | 'high';
+export type FrameAnchor = 'feet' | 'centroid';
+
+// Affine applied by the frame normalizer: x' = x * scale + offsetX * width
+export interface FrameNormalization {
+  offsetX: number; // Fraction of cell width
+  offsetY: number; // Fraction of cell height
+  scale: number;
+  anchor: FrameAnchor;
+}
+
+export type MattingMode = 'off' | 'chroma' | 'floodfill';
+export type StyleMorphMode = 'blend' | 'dual'; // One blended prompt, or a second rig per style
+export type FrameQualityIssue = 'blank' | 'duplicate' | 'cropped';
+
+export interface FrameQuality {
+  passed: boolean;
+  issues: FrameQualityIssue[];
+  hash: string; // 64-bit perceptual hash (hex)
+}
 export type UserTier = 'free' | 'pro';
 
 export type PoseType = string;
@@ -41,6 +99,44 @@ export interface GeneratedFrame {
   virtualZoom?: number;
   virtualOffsetY?: number;
   deckId?: number; // Added for multi-deck tracking
+  gridConfidence?: number; // Slicer grid detection confidence (0-1) for the source sheet
+  normalization?: FrameNormalization; // Centering/scale applied after slicing
+  hasAlpha?: boolean; // Background removed locally (PNG/WebP cutout)
+  quality?: FrameQuality; // Validator result for the source cell
+}
+
+// --- GENERATION JOBS ---
+export type SheetJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface SheetJob {
+  role: SheetRole;
+  status: SheetJobStatus;
+  frames: GeneratedFrame[];
+  rawSheetBase64?: string; // Kept for the base sheet: style reference for the others
+  error?: string;
+}
+
+// Everything needed to (re)start a run after a reload
+export interface GenerationRequest {
+  imageBase64: string;
+  stylePrompt: string;
+  motionPrompt: string;
+  useTurbo: boolean;
+  superMode: boolean;
+  sheetProvider: SheetProviderId;
+  matting: MattingMode;
+  styleId: string;
+  secondaryStylePrompt?: string; // Set in dual morph mode: adds a `morph` sheet in this style
+}
+
+export interface GenerationJob {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+  request: GenerationRequest;
+  masterSeed: number;
+  category: SubjectCategory;
+  sheets: SheetJob[];
 }
 
 export interface SavedProject {
@@ -51,9 +147,15 @@ export interface SavedProject {
     styleId: string;
     subjectCategory: SubjectCategory;
     hologramParams?: HolographicParams; 
+    performanceSeed?: number; // Replays the same choreography (see prng.ts)
+    choreography?: ChoreographyTimeline; // Planned + edited timeline for the song it was made on
+    kineticGraph?: KineticGraphSpec; // User-loaded choreography graph
+    performanceBindings?: PerformanceBinding[]; // Keyboard / MIDI mappings
+    onsetBindings?: OnsetBindings; // Onsets driving stutters and camera hits
+    audioAnalysis?: AudioAnalysisSettings; // Analysis bands and resolution
 }
 
-export type DeckMixMode = 'sequencer' | 'layer';
+export type DeckMixMode = 'sequencer' | 'layer' | 'performer';
 
 export interface DeckSlot {
     id: number;
@@ -61,15 +163,8 @@ export interface DeckSlot {
     isActive: boolean;
     opacity: number;
     mixMode: DeckMixMode; // New: Controls whether frames are pooled or overlayed
-    images?: Record<string, HTMLImageElement>;
-    framesByEnergy?: Record<EnergyLevel, GeneratedFrame[]>;
-    closeups?: GeneratedFrame[];
-    hands?: GeneratedFrame[]; 
-    feet?: GeneratedFrame[];
-    // Machine Frame Specialized Buckets
-    mandalas?: GeneratedFrame[];
-    virtuals?: GeneratedFrame[];
-    acrobatics?: GeneratedFrame[];
+    performer?: PerformerPart; // Relationship to the lead in `performer` mode
+    images?: Record<string, HTMLImageElement>; // By pose; KineticEngine pools the frames (see framePool.ts)
 }
 
 export interface AuthUser {
@@ -102,21 +197,34 @@ export interface AppState {
   
   secondaryStyleId: string; 
   morphIntensity: number;   
+  styleMorphMode: StyleMorphMode;
   reactivity: number;       
   
   motionPrompt: string; 
   motionPreset: string; 
   useTurbo: boolean; 
   superMode: boolean; 
+  sheetProvider: SheetProviderId; // Which adapter draws the sprite sheets
+  matting: MattingMode; // Local background removal for cutout frames
   
   intensity: number; 
   duration: number; 
   smoothness: number; 
+  variety: number; // 0 = repeat the preferred move, 100 = avoid recent nodes/frames
   stutter: number; 
+  performanceSeed: number; // Seeds KineticEngine and the sequencer
+  choreography: ChoreographyTimeline | null; // Render-ahead timeline, replayed instead of live decisions
+  kineticGraph: KineticGraphSpec | null; // Replaces the subject category's graph (see kineticGraph.ts)
+  performanceBindings: PerformanceBinding[]; // Keyboard / MIDI controls (see performanceInput.ts)
+  onsetBindings: OnsetBindings; // Kick / snare / hat / vocal hits that fire stutters and camera bounces (see onsetClassifier.ts)
+  audioAnalysis: AudioAnalysisSettings; // Hz bands, FFT size and gain for the analyser (see audioAnalysis.ts)
   generatedFrames: GeneratedFrame[];
   subjectCategory: SubjectCategory;
+  subjectClassification: SubjectClassification | null; // Detected on upload
+  subjectOverride: SubjectOverride; // User choice in the director ('auto' = use detection)
   isGenerating: boolean;
   generationError: string | null; // Store error message when generation fails
+  generationJob: GenerationJob | null; // Per-sheet progress of the active run
   credits: number;
 }
 
@@ -135,20 +243,33 @@ export const DEFAULT_STATE: AppState = {
   
   secondaryStyleId: '',
   morphIntensity: 0,
+  styleMorphMode: 'blend',
   reactivity: 80,
 
   motionPrompt: '', 
   motionPreset: 'auto', 
   useTurbo: true, 
   superMode: false, 
+  sheetProvider: 'gemini',
+  matting: 'off',
   
   intensity: 80, 
   duration: 30,
   smoothness: 20, 
+  variety: 50,
   stutter: 50, 
+  performanceSeed: randomSeed(),
+  choreography: null,
+  kineticGraph: null,
+  performanceBindings: DEFAULT_PERFORMANCE_BINDINGS,
+  onsetBindings: DEFAULT_ONSET_BINDINGS,
+  audioAnalysis: DEFAULT_AUDIO_ANALYSIS,
   generatedFrames: [],
   subjectCategory: 'CHARACTER',
+  subjectClassification: null,
+  subjectOverride: 'auto',
   isGenerating: false,
   generationError: null,
+  generationJob: null,
   credits: 0,
 };
@@ -0,0 +1,5 @@
+// Bundled by the player-runtime plugin in vite.config.ts
+declare module 'virtual:player-runtime' {
+    const source: string; // IIFE defining the global JusDNCEPlayer
+    export default source;
+}
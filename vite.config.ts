@@ -1,7 +1,32 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { Plugin, build, defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// The exported player's choreography (services/playerRuntime.ts) as one script,
+// so generatePlayerHTML can embed the real engine instead of a copy of it
+const PLAYER_RUNTIME_ID = 'virtual:player-runtime';
+const playerRuntime = (): Plugin => ({
+    name: 'player-runtime',
+    resolveId: id => (id === PLAYER_RUNTIME_ID ? '\0' + PLAYER_RUNTIME_ID : null),
+    async load(id) {
+        if (id !== '\0' + PLAYER_RUNTIME_ID) return null;
+        const result = await build({
+            configFile: false,
+            publicDir: false,
+            logLevel: 'warn',
+            build: {
+                write: false,
+                minify: true,
+                sourcemap: false,
+                lib: { entry: path.resolve(__dirname, 'services/playerRuntime.ts'), formats: ['iife'], name: 'JusDNCEPlayer' }
+            }
+        });
+        const [output] = Array.isArray(result) ? result : [result];
+        if (!('output' in output)) throw new Error('[player-runtime] Expected a bundle, got a watcher');
+        return `export default ${JSON.stringify(output.output[0].code)};`;
+    }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     // Get API key from environment variable (GitHub Actions) or .env file (local dev)
@@ -20,7 +45,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), playerRuntime()],
       define: {
         'process.env.API_KEY': JSON.stringify(apiKey),
         'process.env.GEMINI_API_KEY': JSON.stringify(apiKey)